@@ -16,7 +16,7 @@ import { getPlaybooksForAudit, reportPathToAuditName } from '../../utils/tier-co
 import type { TierName } from '../../tiers/shared/types';
 import type { Tier } from '../../harness/contracts';
 import type { GovernanceDomain } from '../../harness/work-profile';
-import { classifyWorkProfile, mergeBookingGovernanceDomain } from '../../harness/work-profile-classifier';
+import { classifyWorkProfile, mergeConfiguredGovernanceDomains } from '../../harness/work-profile-classifier';
 import { readArchitectureExcerptForPlanning } from '../../harness/architecture-excerpt';
 import { getPlaybooksForGovernanceDomains, AUDIT_GLOBAL_CONFIG } from '../../harness/governance-domain-map';
 import { buildGovernanceContext } from '../governance-context';
@@ -94,7 +94,7 @@ export async function buildAuditFixContextEnvelope(params: {
     action: 'end',
     reasonCode: 'audit_fix',
   });
-  const workProfile = mergeBookingGovernanceDomain(baseProfile, tier as Tier, taskFiles);
+  const workProfile = mergeConfiguredGovernanceDomains(baseProfile, tier as Tier, taskFiles);
 
   const governanceBlock = await buildGovernanceContext({
     tier,
@@ -20,6 +20,7 @@ import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import type { AuditParams, AuditResult, AuditFinding, AuditTier } from '../types';
 import { PROJECT_ROOT, FRONTEND_ROOT } from '../../utils/utils';
+import { currentStepSignal } from '../../utils/step-abort-signal';
 import { runArchitectureAlignmentAuditFromGitManager } from '../architecture-alignment-audit';
 import { listWorkingTreeChangedRepoPaths } from '../../git/shared/git-manager';
 
@@ -591,14 +592,31 @@ function spawnAuditScript(npmRun: string | undefined, changedOnly: boolean): Pro
   }
   const args = ['run', npmRun];
   if (changedOnly) args.push('--', '--changed-only');
+  return spawnNpmUntil(args, AUDIT_SPAWN_TIMEOUT_MS);
+}
+
+/**
+ * Spawn `npm <args>` in the client root; resolves when it exits. Killed after `timeoutMs` or when the running
+ * kernel step is aborted (step timeout), so an abandoned audit does not keep writing reports.
+ */
+function spawnNpmUntil(args: string[], timeoutMs: number): Promise<void> {
+  const signal = currentStepSignal();
+  if (signal?.aborted) return Promise.resolve();
   return new Promise((resolve) => {
     const child = spawn('npm', args, {
       cwd: getClientRoot(),
       stdio: 'ignore',
     });
-    const timer = setTimeout(() => { child.kill(); resolve(); }, AUDIT_SPAWN_TIMEOUT_MS);
-    child.on('close', () => { clearTimeout(timer); resolve(); });
-    child.on('error', () => { clearTimeout(timer); resolve(); });
+    const stop = (): void => { child.kill(); };
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+      resolve();
+    };
+    const timer = setTimeout(stop, timeoutMs);
+    signal?.addEventListener('abort', stop, { once: true });
+    child.on('close', done);
+    child.on('error', done);
   });
 }
 
@@ -636,15 +654,7 @@ export function runTierAuditsParallel(tier: AuditTier): Promise<void> {
  * Non-fatal: resolves even on failure so tier-end commit still includes other reports.
  */
 function runAllowlistCleanup(): Promise<void> {
-  return new Promise((resolve) => {
-    const child = spawn('npm', ['run', 'audit:allowlist-cleanup'], {
-      cwd: getClientRoot(),
-      stdio: 'ignore',
-    });
-    const timer = setTimeout(() => { child.kill(); resolve(); }, 60_000);
-    child.on('close', () => { clearTimeout(timer); resolve(); });
-    child.on('error', () => { clearTimeout(timer); resolve(); });
-  });
+  return spawnNpmUntil(['run', 'audit:allowlist-cleanup'], 60_000);
 }
 
 export async function auditTierQuality(
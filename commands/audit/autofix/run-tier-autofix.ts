@@ -3,12 +3,11 @@
  * Tier-end composites call runTierAutofix(tier, auditResult) after their audit.
  */
 
-import { execSync } from 'child_process';
 import { join } from 'path';
 import type { AuditFinding, AuditResult, AuditTier, AutofixEntry, AutofixResult } from '../types';
 import { tierDown } from '../../utils/tier-navigation';
 import { auditTierQuality } from '../atomic/audit-tier-quality';
-import { PROJECT_ROOT, FRONTEND_ROOT } from '../../utils/utils';
+import { PROJECT_ROOT, FRONTEND_ROOT, runCommand } from '../../utils/utils';
 
 function getClientRoot(): string {
   return join(PROJECT_ROOT, FRONTEND_ROOT);
@@ -125,10 +124,10 @@ const AGENT_FIX_REGISTRY: Array<{
   },
 ];
 
-function applyScriptFixes(
+async function applyScriptFixes(
   tier: AuditTier,
   findings: AuditFinding[]
-): { entries: AutofixEntry[]; remainingFindings: AuditFinding[] } {
+): Promise<{ entries: AutofixEntry[]; remainingFindings: AuditFinding[] }> {
   const applied = new Set<number>();
   const entries: AutofixEntry[] = [];
 
@@ -139,17 +138,8 @@ function applyScriptFixes(
       if (!reg.findingPattern.test(msg)) continue;
       const command = reg.getCommand(finding);
       const affectedFiles = reg.getAffectedFiles(finding);
-      let appliedOk = false;
-      try {
-        execSync(command, {
-          cwd: PROJECT_ROOT,
-          stdio: 'pipe',
-          timeout: 60000,
-        });
-        appliedOk = true;
-      } catch (_err) {
-        // non-fatal
-      }
+      // non-fatal: a failed fix is recorded as applied: false
+      const appliedOk = (await runCommand(command, PROJECT_ROOT, { timeoutMs: 60000 })).success;
       entries.push({
         action: 'script',
         auditName: reg.auditName,
@@ -239,7 +229,7 @@ export async function runTierAutofix(
   const featureName = options?.featureName;
   const findings = auditResult.findings ?? [];
 
-  const { entries: scriptEntries, remainingFindings } = applyScriptFixes(tier, findings);
+  const { entries: scriptEntries, remainingFindings } = await applyScriptFixes(tier, findings);
   const scriptFixesApplied = scriptEntries.filter((e) => e.applied).length;
   const scriptAffected = scriptEntries.flatMap((e) => e.affectedFiles);
 
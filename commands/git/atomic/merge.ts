@@ -15,11 +15,25 @@
  *   submodule conflict, automatically resolve it by taking the source branch's
  *   version and complete the merge.
  *
+ * resolveConflicts (default false): When the merge or squash stops on conflicts,
+ *   run the conflict assistant (merge-conflict-assistant.ts): regenerable harness
+ *   artifacts take the source version, planning docs merge by section. The merge
+ *   completes only when nothing is left for a human; otherwise it is aborted and
+ *   the result carries conflictReport with failure 'unresolved_conflicts'.
+ *   Supersedes autoResolveSubmodule (.cursor is a regenerable path).
+ *
+ * strategy (default 'merge'): 'squash' lands the source as one commit on the
+ *   target (`git merge --squash` + commit with squashMessage); 'rebase' rebases
+ *   the source onto the updated target, then fast-forwards the target. A failed
+ *   rebase is aborted and reported with failure 'rebase_conflict'.
+ *
  * Legacy stash behaviour is preserved when skipStash is false so that manual
  * or non-tier-end callers still work without changes.
  */
 
 import { getCurrentBranch, runGitCommand } from '../shared/git-logger';
+import type { MergeConflictReport, TierMergeStrategy } from '../shared/git-contract';
+import { formatMergeConflictReport, listUnmergedPaths, resolveMergeConflicts } from '../shared/merge-conflict-assistant';
 
 export interface GitMergeParams {
   sourceBranch: string;
@@ -37,30 +51,49 @@ export interface GitMergeParams {
   preferSource?: boolean;
   /** When true, auto-resolve .cursor submodule conflicts by taking source branch's version. */
   autoResolveSubmodule?: boolean;
+  /** When true, run the conflict assistant on conflicts; complete the merge if nothing needs a human. */
+  resolveConflicts?: boolean;
+  /** Worktree to run in (default: project root). Tier worktree mode merges inside the worktree holding the target. */
+  cwd?: string;
+  /** How the source lands on the target (default 'merge'). */
+  strategy?: TierMergeStrategy;
+  /** Commit message for strategy 'squash' (default: "Squash <source> into <target>"). */
+  squashMessage?: string;
+  /** Strategy 'rebase': worktree where the source is checked out (rebased there instead of switching branches in cwd). */
+  sourceCwd?: string;
 }
 
-async function hasUncommittedChanges(): Promise<boolean> {
-  const status = await runGitCommand('git status --porcelain --ignore-submodules=dirty', 'gitMerge-status');
+export interface GitMergeResult {
+  success: boolean;
+  output: string;
+  /** Set when a squash or rebase step failed in a way callers map to a distinct reason code. */
+  failure?: 'rebase_conflict' | 'fast_forward_failed' | 'squash_commit_failed' | 'unresolved_conflicts';
+  /** resolveConflicts: what the conflict assistant resolved and what it left (set whenever it ran). */
+  conflictReport?: MergeConflictReport;
+}
+
+async function hasUncommittedChanges(cwd?: string): Promise<boolean> {
+  const status = await runGitCommand('git status --porcelain --ignore-submodules=dirty', 'gitMerge-status', cwd);
   return status.success && status.output.trim().length > 0;
 }
 
 /** If a merge was started and left the repo conflicted, abort so files are not left with <<<<<< markers. */
-async function abortMergeIfInProgress(): Promise<void> {
-  const mergeHead = await runGitCommand('git rev-parse -q --verify MERGE_HEAD', 'gitMerge-checkMergeHead');
+async function abortMergeIfInProgress(cwd?: string): Promise<void> {
+  const mergeHead = await runGitCommand('git rev-parse -q --verify MERGE_HEAD', 'gitMerge-checkMergeHead', cwd);
   if (mergeHead.success && mergeHead.output.trim()) {
-    await runGitCommand('git merge --abort', 'gitMerge-abort-in-progress');
+    await runGitCommand('git merge --abort', 'gitMerge-abort-in-progress', cwd);
   }
 }
 
 /**
  * After a failed merge, check if the only unmerged path is the .cursor submodule.
- * If so, resolve it by taking the source branch's version and commit.
+ * If so, stage the source branch's version (the caller completes the commit).
  */
-async function tryAutoResolveSubmodule(
+async function stageSourceSubmodule(
   sourceBranch: string,
-  targetBranch: string
+  cwd?: string
 ): Promise<{ resolved: boolean; output: string }> {
-  const lsFiles = await runGitCommand('git diff --name-only --diff-filter=U', 'gitMerge-listUnmerged');
+  const lsFiles = await runGitCommand('git diff --name-only --diff-filter=U', 'gitMerge-listUnmerged', cwd);
   if (!lsFiles.success) {
     return { resolved: false, output: 'Could not list unmerged paths.' };
   }
@@ -81,20 +114,36 @@ async function tryAutoResolveSubmodule(
 
   const checkout = await runGitCommand(
     `git checkout ${sourceBranch} -- .cursor`,
-    'gitMerge-autoResolveSubmodule-checkout'
+    'gitMerge-autoResolveSubmodule-checkout',
+    cwd
   );
   if (!checkout.success) {
     return { resolved: false, output: `Could not checkout .cursor from ${sourceBranch}: ${checkout.error || checkout.output}` };
   }
 
-  const add = await runGitCommand('git add .cursor', 'gitMerge-autoResolveSubmodule-add');
+  const add = await runGitCommand('git add .cursor', 'gitMerge-autoResolveSubmodule-add', cwd);
   if (!add.success) {
     return { resolved: false, output: `Could not stage .cursor: ${add.error || add.output}` };
   }
+  return { resolved: true, output: `Took ${sourceBranch} version of .cursor.` };
+}
+
+/**
+ * After a failed merge, check if the only unmerged path is the .cursor submodule.
+ * If so, resolve it by taking the source branch's version and commit.
+ */
+async function tryAutoResolveSubmodule(
+  sourceBranch: string,
+  targetBranch: string,
+  cwd?: string
+): Promise<{ resolved: boolean; output: string }> {
+  const staged = await stageSourceSubmodule(sourceBranch, cwd);
+  if (!staged.resolved) return staged;
 
   const commit = await runGitCommand(
     `git commit --no-edit`,
-    'gitMerge-autoResolveSubmodule-commit'
+    'gitMerge-autoResolveSubmodule-commit',
+    cwd
   );
   if (!commit.success) {
     return { resolved: false, output: `Could not complete merge commit: ${commit.error || commit.output}` };
@@ -106,8 +155,138 @@ async function tryAutoResolveSubmodule(
   };
 }
 
-export async function gitMerge(params: GitMergeParams): Promise<{ success: boolean; output: string }> {
-  const targetBranchRaw = params.targetBranch ?? (await getCurrentBranch());
+/**
+ * After a failed merge or squash, stage what the conflict assistant can resolve.
+ * resolved is true only when no unmerged path is left.
+ */
+async function stageAssistedResolution(
+  sourceBranch: string,
+  cwd?: string
+): Promise<{ resolved: boolean; report: MergeConflictReport; output: string }> {
+  const report = await resolveMergeConflicts({ sourceBranch, cwd });
+  const leftover = await listUnmergedPaths(cwd);
+  const resolved = report.resolved.length > 0 && report.needsHuman.length === 0 && leftover.length === 0;
+  return { resolved, report, output: formatMergeConflictReport(report) };
+}
+
+/** Failure result after the conflict assistant left paths for a human (merge already aborted). */
+function unresolvedConflictsResult(
+  sourceBranch: string,
+  targetBranch: string,
+  assisted: { report: MergeConflictReport; output: string },
+  gitOutput: string
+): GitMergeResult {
+  return {
+    success: false,
+    output:
+      `Merge conflict detected when merging ${sourceBranch} into ${targetBranch}; the merge was aborted.\n` +
+      `${assisted.output}\n` +
+      `Re-run the merge, resolve the "needs a human" paths, and complete it (the assistant's resolutions apply again on retry).\n` +
+      `Error: ${gitOutput}`,
+    failure: 'unresolved_conflicts',
+    conflictReport: assisted.report,
+  };
+}
+
+/** Strategy 'squash': one commit on the (checked-out) target holding the source's changes. */
+async function squashMerge(params: GitMergeParams, targetBranch: string): Promise<GitMergeResult> {
+  const { sourceBranch, cwd } = params;
+  const x = params.preferSource ? ' -X theirs' : '';
+  const squash = await runGitCommand(`git merge --squash ${sourceBranch}${x}`, 'gitMerge-squash', cwd);
+  let resolvedNote = '';
+  let conflictReport: MergeConflictReport | undefined;
+  if (!squash.success) {
+    const assisted = params.resolveConflicts ? await stageAssistedResolution(sourceBranch, cwd) : null;
+    const resolution = assisted ?? (params.autoResolveSubmodule ? await stageSourceSubmodule(sourceBranch, cwd) : null);
+    if (!resolution?.resolved) {
+      await runGitCommand('git reset --merge', 'gitMerge-squash-abort', cwd);
+      if (assisted && assisted.report.needsHuman.length > 0) {
+        return unresolvedConflictsResult(sourceBranch, targetBranch, assisted, squash.error || squash.output);
+      }
+      return {
+        success: false,
+        output:
+          `Squash of ${sourceBranch} into ${targetBranch} hit conflicts; nothing was committed.\n` +
+          `Error: ${squash.error || squash.output}`,
+      };
+    }
+    resolvedNote = assisted ? `\n${assisted.output}` : ` ${resolution.output}`;
+    conflictReport = assisted?.report;
+  }
+
+  const nothingStaged = await runGitCommand('git diff --cached --quiet', 'gitMerge-squash-staged', cwd);
+  if (nothingStaged.success) {
+    return { success: true, output: `Nothing to squash: ${sourceBranch} has no changes beyond ${targetBranch}.` };
+  }
+
+  const message = params.squashMessage ?? `Squash ${sourceBranch} into ${targetBranch}`;
+  const safe = message.replace(/'/g, "'\\''");
+  const commit = await runGitCommand(`git commit -m '${safe}'`, 'gitMerge-squash-commit', cwd);
+  if (!commit.success) {
+    await runGitCommand('git reset --merge', 'gitMerge-squash-abort', cwd);
+    return {
+      success: false,
+      output: `Squash commit on ${targetBranch} failed: ${commit.error || commit.output}`,
+      failure: 'squash_commit_failed',
+    };
+  }
+  return {
+    success: true,
+    output: `Squashed ${sourceBranch} into ${targetBranch} as one commit.${resolvedNote}`,
+    ...(conflictReport && { conflictReport }),
+  };
+}
+
+/**
+ * Strategy 'rebase': replay the source onto the (updated) target, then fast-forward the target.
+ * Without sourceCwd the rebase switches branches in cwd and switches back to the target afterwards.
+ */
+async function rebaseThenFastForward(params: GitMergeParams, targetBranch: string): Promise<GitMergeResult> {
+  const { sourceBranch, cwd } = params;
+  const rebaseCwd = params.sourceCwd ?? cwd;
+  const x = params.preferSource ? ' -X theirs' : '';
+  const rebaseCmd = params.sourceCwd
+    ? `git rebase${x} ${targetBranch}`
+    : `git rebase${x} ${targetBranch} ${sourceBranch}`;
+  const rebase = await runGitCommand(rebaseCmd, 'gitMerge-rebase', rebaseCwd);
+  if (!rebase.success) {
+    const unmerged = await runGitCommand('git diff --name-only --diff-filter=U', 'gitMerge-rebase-unmerged', rebaseCwd);
+    const paths = unmerged.output.trim().split('\n').filter(Boolean);
+    await runGitCommand('git rebase --abort', 'gitMerge-rebase-abort', rebaseCwd);
+    return {
+      success: false,
+      output:
+        `Rebase of ${sourceBranch} onto ${targetBranch} stopped${paths.length > 0 ? ` on conflicts in: ${paths.join(', ')}` : ''}. ` +
+        `Aborted; ${sourceBranch} is unchanged. Rebase it manually (on ${sourceBranch}: git rebase ${targetBranch}), then retry.\n` +
+        `Error: ${rebase.error || rebase.output}`,
+      failure: 'rebase_conflict',
+    };
+  }
+
+  if (!params.sourceCwd) {
+    const back = await runGitCommand(`git checkout ${targetBranch}`, 'gitMerge-rebase-checkout-target', cwd);
+    if (!back.success) {
+      return {
+        success: false,
+        output: `Rebased ${sourceBranch} onto ${targetBranch} but could not checkout ${targetBranch}: ${back.error || back.output}`,
+        failure: 'fast_forward_failed',
+      };
+    }
+  }
+  const ff = await runGitCommand(`git merge --ff-only ${sourceBranch}`, 'gitMerge-fastForward', cwd);
+  if (!ff.success) {
+    return {
+      success: false,
+      output: `Rebased ${sourceBranch} onto ${targetBranch} but fast-forward failed: ${ff.error || ff.output}`,
+      failure: 'fast_forward_failed',
+    };
+  }
+  return { success: true, output: `Rebased ${sourceBranch} onto ${targetBranch} and fast-forwarded ${targetBranch}.` };
+}
+
+export async function gitMerge(params: GitMergeParams): Promise<GitMergeResult> {
+  const cwd = params.cwd;
+  const targetBranchRaw = params.targetBranch ?? (await getCurrentBranch(cwd));
   const targetBranch = targetBranchRaw?.trim() ?? '';
   if (!targetBranch) {
     return {
@@ -115,7 +294,7 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
       output: 'Cannot merge: no target branch (pass targetBranch or checkout a branch).',
     };
   }
-  const currentBranchRaw = await getCurrentBranch();
+  const currentBranchRaw = await getCurrentBranch(cwd);
   const currentBranch = currentBranchRaw?.trim() ?? '';
   if (!currentBranch) {
     return {
@@ -129,10 +308,10 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
   let didStash = false;
 
   if (currentBranch !== targetBranch) {
-    const dirty = await hasUncommittedChanges();
+    const dirty = await hasUncommittedChanges(cwd);
 
     if (dirty && skipStash) {
-      const statusOut = await runGitCommand('git status --porcelain --ignore-submodules=dirty', 'gitMerge-status');
+      const statusOut = await runGitCommand('git status --porcelain --ignore-submodules=dirty', 'gitMerge-status', cwd);
       return {
         success: false,
         output:
@@ -142,7 +321,7 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
     }
 
     if (dirty && !skipStash) {
-      const stashResult = await runGitCommand('git stash --include-untracked', 'gitMerge-stash');
+      const stashResult = await runGitCommand('git stash --include-untracked', 'gitMerge-stash', cwd);
       if (!stashResult.success) {
         return {
           success: false,
@@ -152,9 +331,9 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
       didStash = true;
     }
 
-    const checkoutResult = await runGitCommand(`git checkout ${targetBranch}`, 'gitMerge-checkout');
+    const checkoutResult = await runGitCommand(`git checkout ${targetBranch}`, 'gitMerge-checkout', cwd);
     if (!checkoutResult.success) {
-      if (didStash) await runGitCommand('git stash pop', 'gitMerge-stash-pop');
+      if (didStash) await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
       return {
         success: false,
         output: `Failed to checkout target branch ${targetBranch}: ${checkoutResult.error || checkoutResult.output}`,
@@ -162,13 +341,13 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
     }
 
     if (params.pullBeforeMerge) {
-      const pullResult = await runGitCommand(`git pull origin ${targetBranch} --no-rebase`, 'gitMerge-pull');
+      const pullResult = await runGitCommand(`git pull origin ${targetBranch} --no-rebase`, 'gitMerge-pull', cwd);
       if (!pullResult.success) {
         const noRemoteRef = (pullResult.error || pullResult.output).includes("couldn't find remote ref");
         if (noRemoteRef && !(params.strictPull ?? false)) {
           // Local-only target: allowed only when strictPull is false
         } else {
-          if (didStash) await runGitCommand('git stash pop', 'gitMerge-stash-pop');
+          if (didStash) await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
           return {
             success: false,
             output: noRemoteRef && (params.strictPull ?? false)
@@ -179,7 +358,7 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
       }
     }
   } else if (params.pullBeforeMerge) {
-    const pullResult = await runGitCommand(`git pull origin ${targetBranch} --no-rebase`, 'gitMerge-pull');
+    const pullResult = await runGitCommand(`git pull origin ${targetBranch} --no-rebase`, 'gitMerge-pull', cwd);
     if (!pullResult.success) {
       const noRemoteRef = (pullResult.error || pullResult.output).includes("couldn't find remote ref");
       if (noRemoteRef && !(params.strictPull ?? false)) {
@@ -195,17 +374,59 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
     }
   }
 
+  if (params.strategy === 'squash' || params.strategy === 'rebase') {
+    const result =
+      params.strategy === 'squash'
+        ? await squashMerge(params, targetBranch)
+        : await rebaseThenFastForward(params, targetBranch);
+    if (didStash) {
+      const popResult = await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
+      if (!popResult.success && result.success) {
+        return {
+          success: true,
+          output: `${result.output} (stash pop failed: ${popResult.error || popResult.output} — run 'git stash pop' manually)`,
+        };
+      }
+    }
+    return result;
+  }
+
   const strategy = preferSource ? '-X theirs' : '';
   const mergeCmd = `git merge ${params.sourceBranch} --no-edit ${strategy}`.trim();
-  const mergeResult = await runGitCommand(mergeCmd, 'gitMerge-merge');
+  const mergeResult = await runGitCommand(mergeCmd, 'gitMerge-merge', cwd);
 
   if (!mergeResult.success) {
-    // Attempt auto-resolve when only the .cursor submodule is conflicted
-    if (autoResolveSubmodule) {
-      const resolution = await tryAutoResolveSubmodule(params.sourceBranch, targetBranch);
+    const fullOutput = mergeResult.error || mergeResult.output;
+    if (params.resolveConflicts) {
+      const assisted = await stageAssistedResolution(params.sourceBranch, cwd);
+      if (assisted.resolved) {
+        const commit = await runGitCommand('git commit --no-edit', 'gitMerge-assisted-commit', cwd);
+        if (commit.success) {
+          const output = `Merged ${params.sourceBranch} into ${targetBranch} after auto-resolving conflicts.\n${assisted.output}`;
+          if (didStash) {
+            const popResult = await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
+            if (!popResult.success) {
+              return {
+                success: true,
+                output: `${output}\n(stash pop failed: ${popResult.error || popResult.output} — run 'git stash pop' manually)`,
+                conflictReport: assisted.report,
+              };
+            }
+          }
+          return { success: true, output, conflictReport: assisted.report };
+        }
+      }
+      if (assisted.report.needsHuman.length > 0) {
+        await abortMergeIfInProgress(cwd);
+        if (didStash) await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
+        return unresolvedConflictsResult(params.sourceBranch, targetBranch, assisted, fullOutput);
+      }
+    } else if (autoResolveSubmodule) {
+      // Attempt auto-resolve when only the .cursor submodule is conflicted
+      const resolution = await tryAutoResolveSubmodule(params.sourceBranch, targetBranch, cwd);
       if (resolution.resolved) {
         if (didStash) {
-          const popResult = await runGitCommand('git stash pop', 'gitMerge-stash-pop');
+          const popResult = await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
           if (!popResult.success) {
             return {
               success: true,
@@ -216,11 +437,10 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
         return { success: true, output: resolution.output };
       }
     }
-    await abortMergeIfInProgress();
+    await abortMergeIfInProgress(cwd);
 
-    if (didStash) await runGitCommand('git stash pop', 'gitMerge-stash-pop');
+    if (didStash) await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
 
-    const fullOutput = mergeResult.error || mergeResult.output;
     if (fullOutput.includes('conflict') || fullOutput.includes('CONFLICT')) {
       return {
         success: false,
@@ -237,7 +457,7 @@ export async function gitMerge(params: GitMergeParams): Promise<{ success: boole
   }
 
   if (didStash) {
-    const popResult = await runGitCommand('git stash pop', 'gitMerge-stash-pop');
+    const popResult = await runGitCommand('git stash pop', 'gitMerge-stash-pop', cwd);
     if (!popResult.success) {
       return {
         success: true,
@@ -5,9 +5,10 @@
 
 import { getCurrentBranch, runGitCommand } from '../shared/git-logger';
 
-export async function gitPush(): Promise<{ success: boolean; output: string }> {
-  const branch = await getCurrentBranch();
-  const result = await runGitCommand(`git push -u origin ${branch}`, 'gitPush');
+/** `cwd`: push the branch checked out in that worktree (default: project root). */
+export async function gitPush(cwd?: string): Promise<{ success: boolean; output: string }> {
+  const branch = await getCurrentBranch(cwd);
+  const result = await runGitCommand(`git push -u origin ${branch}`, 'gitPush', cwd);
 
   return {
     success: result.success,
@@ -10,6 +10,8 @@ import { gitCommit } from '../atomic/commit';
 import { gitPush } from '../atomic/push';
 import { ensureTierBranch, mergeTierBranch } from '../shared/tier-branch-manager';
 import { preflightFeatureBranchForHarness } from '../shared/harness-branch-preflight';
+import { resolveTierMergeStrategy } from '../shared/tier-merge-strategy';
+import type { TierMergeStrategy } from '../shared/git-contract';
 
 export type TierEndGitStepEntry = { success: boolean; output: string };
 
@@ -18,16 +20,22 @@ export type FeatureTierEndGitInput = {
   identifier: string;
   commitMessage: string;
   auditPrewarmPromise?: Promise<void>;
+  /** Overrides the feature tier's merge strategy (FEATURE_CONFIG.mergeStrategy / HARNESS_MERGE_STRATEGY). */
+  mergeStrategy?: TierMergeStrategy;
+  /** Delete the feature branch after the merge (default true; false under `policies.git=safe`). */
+  deleteBranch?: boolean;
 };
 
 /**
- * Feature-end git: preflight, ensure branch, commit, push, merge to develop (delete branch when configured).
+ * Feature-end git: preflight, ensure branch, commit, push, merge to develop (delete branch unless `deleteBranch: false`).
+ * The merge step uses the feature tier's strategy: merge commit, squash, or rebase then fast-forward.
  */
 export async function runFeatureTierEndGit(
   input: FeatureTierEndGitInput
 ): Promise<{ ok: boolean; steps: Record<string, TierEndGitStepEntry>; errorOutcome?: string }> {
   const steps: Record<string, TierEndGitStepEntry> = {};
-  const { context, identifier, commitMessage, auditPrewarmPromise } = input;
+  const { context, identifier, commitMessage, auditPrewarmPromise, deleteBranch = true } = input;
+  const mergeStrategy = input.mergeStrategy ?? resolveTierMergeStrategy(FEATURE_CONFIG);
 
   const featureBranchName = FEATURE_CONFIG.getBranchName(context, identifier);
   if (!featureBranchName) {
@@ -78,19 +86,24 @@ export async function runFeatureTierEndGit(
 
   const mergeToDevelop = await mergeTierBranch(FEATURE_CONFIG, identifier, context, {
     push: true,
-    deleteBranch: true,
+    deleteBranch,
     auditPrewarmPromise,
+    strategy: mergeStrategy,
   });
   steps.gitMerge = { success: mergeToDevelop.success, output: mergeToDevelop.messages.join('\n') };
   steps.deleteBranch = {
     success: mergeToDevelop.deletedBranch,
     output: mergeToDevelop.deletedBranch
       ? 'Feature branch deleted locally (and remote delete attempted).'
-      : 'Feature branch not deleted (see merge step output).',
+      : deleteBranch
+        ? 'Feature branch not deleted (see merge step output).'
+        : 'Feature branch kept (branch deletion off for this run).',
   };
   steps.checkoutDevelop = {
     success: mergeToDevelop.success,
-    output: mergeToDevelop.success ? `Merged into ${mergeToDevelop.mergedInto}.` : 'Merge into develop did not complete.',
+    output: mergeToDevelop.success
+      ? `Merged into ${mergeToDevelop.mergedInto} (${mergeStrategy}).`
+      : `Merge into develop (${mergeStrategy}) did not complete.`,
   };
 
   if (!mergeToDevelop.success) {
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for HARNESS_MERGE_STRATEGY parsing and the squash commit message built at tier-end.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const files = new Map<string, string>();
+let commitSubjects = '';
+
+vi.mock('../../../utils/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../utils/utils')>()),
+  readProjectFile: async (path: string) => {
+    const content = files.get(path);
+    if (content === undefined) throw new Error(`ENOENT: ${path}`);
+    return content;
+  },
+}));
+
+vi.mock('../git-logger', () => ({
+  runGitCommand: async () => ({ success: true, output: commitSubjects }),
+}));
+
+import { parseMergeStrategyEnv, buildSquashCommitMessage } from '../tier-merge-strategy';
+import type { TierConfig } from '../../../tiers/shared/types';
+import type { WorkflowCommandContext } from '../../../utils/command-context';
+
+describe('parseMergeStrategyEnv', () => {
+  it('reads a bare strategy as the setting for every tier', () => {
+    expect(parseMergeStrategyEnv('squash')).toEqual({ all: 'squash', perTier: {}, errors: [] });
+  });
+
+  it('reads tier=strategy entries alongside a bare strategy, case- and space-insensitive', () => {
+    expect(parseMergeStrategyEnv(' Feature=SQUASH , session = rebase, merge ')).toEqual({
+      all: 'merge',
+      perTier: { feature: 'squash', session: 'rebase' },
+      errors: [],
+    });
+  });
+
+  it('reports invalid entries and keeps the valid ones', () => {
+    const setting = parseMergeStrategyEnv('octopus,epic=squash,task=fast-forward,phase=squash');
+    expect(setting.all).toBeUndefined();
+    expect(setting.perTier).toEqual({ phase: 'squash' });
+    expect(setting.errors).toEqual([
+      '"octopus" is not one of merge / squash / rebase',
+      '"epic" is not a tier',
+      'task: "fast-forward" is not one of merge / squash / rebase',
+    ]);
+  });
+
+  it('treats unset and empty values as no setting', () => {
+    expect(parseMergeStrategyEnv('')).toEqual({ perTier: {}, errors: [] });
+    expect(parseMergeStrategyEnv(' , ')).toEqual({ perTier: {}, errors: [] });
+  });
+});
+
+describe('buildSquashCommitMessage', () => {
+  const config = {
+    name: 'session',
+    paths: {
+      handoff: (_ctx: WorkflowCommandContext, id: string) => `handoff-${id}.md`,
+      log: (_ctx: WorkflowCommandContext, id: string) => `log-${id}.md`,
+    },
+  } as unknown as TierConfig;
+  const context = {} as WorkflowCommandContext;
+  const build = () => buildSquashCommitMessage(config, '6.2.1', context, 'session-6.2.1', 'phase-6.2');
+
+  beforeEach(() => {
+    files.clear();
+    commitSubjects = '';
+  });
+
+  it('is only the subject line when handoff, log and commits are all empty', async () => {
+    expect(await build()).toBe('[session 6.2.1] Squash session-6.2.1 into phase-6.2');
+  });
+
+  it('adds handoff notes, log entries and commit subjects, dropping template placeholders', async () => {
+    files.set(
+      'handoff-6.2.1.md',
+      '# Handoff\n\n## Transition Context\n\nRouter guards moved to the store.\n[Next step]\n---\n\n## Other\nignored\n'
+    );
+    files.set('log-6.2.1.md', '# Log\n\n### [Date] - [Task]\n\n### Task 6.2.1.1 done\nbody\n### Task 6.2.1.2 done\n');
+    commitSubjects = 'Add guard\nFix redirect\n';
+    expect(await build()).toBe(
+      [
+        '[session 6.2.1] Squash session-6.2.1 into phase-6.2',
+        'Handoff:\nRouter guards moved to the store.',
+        'Log:\n- Task 6.2.1.1 done\n- Task 6.2.1.2 done',
+        'Commits:\n- Add guard\n- Fix redirect',
+      ].join('\n\n')
+    );
+  });
+
+  it('omits each empty section on its own', async () => {
+    files.set('handoff-6.2.1.md', '## Transition Context\n[Placeholder]\n');
+    commitSubjects = 'Only commit\n';
+    expect(await build()).toBe('[session 6.2.1] Squash session-6.2.1 into phase-6.2\n\nCommits:\n- Only commit');
+  });
+});
@@ -42,6 +42,31 @@ export interface EnsureTierBranchResult {
   uncommittedFiles?: string[];
   /** Paths auto-committed on the source branch before checkout (workflow artifacts). */
   autoCommittedPaths?: string[];
+  /** Worktree mode (`HARNESS_TIER_WORKTREES`): worktree holding `finalBranch`. */
+  worktreePath?: string;
+  /** Worktree mode: the tier branch lives in another worktree; re-run the command from this path. */
+  worktreeRedirect?: string;
+}
+
+/** How a tier branch lands on its parent: merge commit, one squash commit, or rebase then fast-forward. */
+export type TierMergeStrategy = 'merge' | 'squash' | 'rebase';
+
+export const TIER_MERGE_STRATEGIES: readonly TierMergeStrategy[] = ['merge', 'squash', 'rebase'];
+
+/** Conflict assistant class of an unmerged path (merge-conflict-assistant.ts). */
+export type ConflictPathClass = 'regenerable' | 'planning_doc' | 'code';
+
+export interface ConflictPathReport {
+  path: string;
+  pathClass: ConflictPathClass;
+  /** What was done, or why a human is needed. */
+  detail: string;
+}
+
+/** Conflict assistant outcome: paths it resolved and paths left for a human. */
+export interface MergeConflictReport {
+  resolved: ConflictPathReport[];
+  needsHuman: ConflictPathReport[];
 }
 
 /** Result of mergeTierBranch / mergeFeatureIntoTrunk (tier-end). */
@@ -52,6 +77,10 @@ export interface MergeTierBranchResult {
   deletedBranch: boolean;
   /** Stable machine reason when success is false. */
   reasonCode?: MergeTierFailureReasonCode;
+  /** Strategy used (or attempted) for the merge step. */
+  strategy?: TierMergeStrategy;
+  /** Set when the merge hit conflicts and the conflict assistant ran. */
+  conflictReport?: MergeConflictReport;
 }
 
 /** Documented failure codes from mergeTierBranch (and related git steps). */
@@ -65,6 +94,10 @@ export const MERGE_TIER_REASON_CODES = [
   'pre_merge_commit_failed',
   'dirty_tree_before_merge',
   'merge_failed',
+  'unresolved_conflicts',
+  'rebase_conflict',
+  'fast_forward_failed',
+  'squash_commit_failed',
   'push_failed_after_merge',
   'delete_local_branch_failed',
   'delete_remote_branch_failed',
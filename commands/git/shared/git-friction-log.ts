@@ -4,9 +4,16 @@
  */
 
 import { join, dirname } from 'path';
-import { appendFile, mkdir } from 'fs/promises';
+import { appendFile, mkdir, readFile } from 'fs/promises';
 
-const FRICTION_LOG = join(process.cwd(), '.project-manager', '.git-friction-log.jsonl');
+/** Repo-relative path for documentation; absolute path via `getGitFrictionLogPath`. */
+export const GIT_FRICTION_LOG_RELATIVE = '.project-manager/.git-friction-log.jsonl';
+
+export function getGitFrictionLogPath(root: string = process.cwd()): string {
+  return join(root, '.project-manager', '.git-friction-log.jsonl');
+}
+
+const FRICTION_LOG = getGitFrictionLogPath();
 
 export type GitFrictionDisposition = 'blocked' | 'retried' | 'recovered' | 'escalated' | 'info';
 
@@ -56,3 +63,29 @@ export function recordGitFriction(entry: Omit<GitFrictionEntry, 'timestamp'> & {
     timestamp: entry.timestamp ?? new Date().toISOString(),
   });
 }
+
+/**
+ * Read every record (oldest first). Missing file → []; lines that are not JSON objects with
+ * `timestamp` and `step` are skipped.
+ */
+export async function readGitFrictionEntries(root?: string): Promise<GitFrictionEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(getGitFrictionLogPath(root), 'utf8');
+  } catch {
+    return [];
+  }
+  const out: GitFrictionEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as Partial<GitFrictionEntry> | null;
+      if (parsed && typeof parsed.timestamp === 'string' && typeof parsed.step === 'string') {
+        out.push(parsed as GitFrictionEntry);
+      }
+    } catch {
+      /* partial append or hand edit */
+    }
+  }
+  return out;
+}
@@ -116,9 +116,12 @@ export async function runGitCommand(
 
 // ─── Query helpers (logged; no dependency on git-manager to avoid cycles) ─
 
-/** Returns null when not on a named branch (detached HEAD, missing .git, or command failure). */
-export async function getCurrentBranch(): Promise<string | null> {
-  const result = await runGitCommand('git branch --show-current', 'getCurrentBranch');
+/**
+ * Returns null when not on a named branch (detached HEAD, missing .git, or command failure).
+ * `cwd` reads another worktree's branch (default: project root).
+ */
+export async function getCurrentBranch(cwd?: string): Promise<string | null> {
+  const result = await runGitCommand('git branch --show-current', 'getCurrentBranch', cwd);
   if (result.success && result.output.trim()) {
     return result.output.trim();
   }
@@ -133,6 +136,20 @@ export async function getCurrentBranch(): Promise<string | null> {
   return null;
 }
 
+/** Full SHA of HEAD; null when there is no commit yet or git fails. */
+export async function getHeadSha(): Promise<string | null> {
+  const result = await runGitCommand('git rev-parse HEAD', 'getHeadSha');
+  const sha = result.output.trim();
+  return result.success && sha ? sha : null;
+}
+
+/** Commits reachable from `to` but not `from` (`git rev-list --count from..to`); null on failure. */
+export async function countCommitsBetween(from: string, to: string): Promise<number | null> {
+  const result = await runGitCommand(`git rev-list --count ${from}..${to}`, 'countCommitsBetween');
+  const n = Number.parseInt(result.output.trim(), 10);
+  return result.success && Number.isFinite(n) ? n : null;
+}
+
 export async function branchExists(branchName: string): Promise<boolean> {
   const result = await runGitCommand(`git rev-parse --verify ${branchName}`, 'branchExists');
   return result.success;
@@ -48,8 +48,21 @@ import type {
   MergeTierFailureReasonCode,
   PreflightFeatureBranchResult,
   HarnessBranchRemoteState,
+  TierMergeStrategy,
+  ConflictPathClass,
+  ConflictPathReport,
+  MergeConflictReport,
 } from './git-contract';
-import { MERGE_TIER_REASON_CODES, isMergeTierFailureReasonCode } from './git-contract';
+import { MERGE_TIER_REASON_CODES, TIER_MERGE_STRATEGIES, isMergeTierFailureReasonCode } from './git-contract';
+import { resolveTierMergeStrategy, parseMergeStrategyEnv } from './tier-merge-strategy';
+import { classifyConflictPath, formatMergeConflictReport } from './merge-conflict-assistant';
+import {
+  installMarkdownMergeDriver,
+  runMarkdownMergeDriver,
+  MARKDOWN_MERGE_DRIVER_NAME,
+  type MarkdownMergeDriverArgs,
+  type MarkdownMergeDriverResult,
+} from './markdown-merge-driver';
 import { FEATURE_CONFIG } from '../../tiers/configs/feature';
 import type { WorkflowCommandContext } from '../../utils/command-context';
 import { recoverPlanningArtifactsAfterCheckout } from './artifact-branch-recovery';
@@ -77,6 +90,15 @@ import {
   type PreflightFeatureBranchOptions,
 } from './harness-branch-preflight';
 import { runFeatureTierEndGit, runPhaseTierEndGit } from '../composite/tier-end-git-bundle';
+import {
+  isTierWorktreeModeEnabled,
+  resolveTierWorktreeRoot,
+  listGitWorktrees,
+  findWorktreeForBranch,
+  isCurrentWorktree,
+  currentTierWorktree,
+  type GitWorktreeEntry,
+} from './tier-worktree';
 import type { FeatureTierEndGitInput, PhaseTierEndGitInput, TierEndGitStepEntry } from '../composite/tier-end-git-bundle';
 
 // ─── Types ──────────────────────────────────────────────────────────────
@@ -92,8 +114,16 @@ export type {
   InScopeDiffPreviewOptions,
   InScopeDiffPreviewResult,
   MergeTierFailureReasonCode,
+  TierMergeStrategy,
+  ConflictPathClass,
+  ConflictPathReport,
+  MergeConflictReport,
 };
 export { MERGE_TIER_REASON_CODES, isMergeTierFailureReasonCode };
+export { TIER_MERGE_STRATEGIES, resolveTierMergeStrategy, parseMergeStrategyEnv };
+export { classifyConflictPath, formatMergeConflictReport };
+export { installMarkdownMergeDriver, runMarkdownMergeDriver, MARKDOWN_MERGE_DRIVER_NAME };
+export type { MarkdownMergeDriverArgs, MarkdownMergeDriverResult };
 export type { GitOpEntry, PropagateOptions, PropagateResult };
 export type { CursorSubmoduleStatusResult, CommitCursorSubmoduleResult };
 export type { GitFrictionEntry } from './git-friction-log';
@@ -253,6 +283,17 @@ export async function gitPull(branch: string): Promise<{ success: boolean; outpu
   return runGitCommand(`git pull origin ${branch}`, 'gitPull');
 }
 
+// ─── Tier worktrees (HARNESS_TIER_WORKTREES) ───────────────────────────
+export type { GitWorktreeEntry };
+export {
+  isTierWorktreeModeEnabled,
+  resolveTierWorktreeRoot,
+  listGitWorktrees,
+  findWorktreeForBranch,
+  isCurrentWorktree,
+  currentTierWorktree,
+};
+
 // ─── Propagation ────────────────────────────────────────────────────────
 export { propagateFiles, propagateSharedFiles, propagateHarness };
 
@@ -0,0 +1,103 @@
+/**
+ * Structured markdown merge driver for planning docs: git runs it instead of its line merge for
+ * `.project-manager/**.md`, so docs merge by `##` section (utils/markdown-section-merge.ts) and conflict
+ * markers only remain inside a section both sides changed differently. Phase guides union their checkbox
+ * lists (`[x]` wins for the same Session id); required guide/handoff sections survive one-sided deletions.
+ *
+ * Registration: `.gitattributes` maps the paths to `merge=harness-markdown` and
+ * `git config merge.harness-markdown.driver` runs scripts/markdown-merge-driver.ts.
+ * installMarkdownMergeDriver() writes both (idempotent); without the config entry git ignores the attribute.
+ */
+
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { runGitCommand } from './git-logger';
+import { mergeMarkdownSections, sectionMergeOptionsForPath } from '../../utils/markdown-section-merge';
+import { PROJECT_ROOT } from '../../utils/utils';
+
+export const MARKDOWN_MERGE_DRIVER_NAME = 'harness-markdown';
+
+/** `.gitattributes` lines routing planning docs to the driver. */
+export const MARKDOWN_MERGE_DRIVER_ATTRIBUTES = [`.project-manager/**/*.md merge=${MARKDOWN_MERGE_DRIVER_NAME}`] as const;
+
+/** Driver command as git runs it from the worktree root: %O base, %A ours (result), %B theirs, %L marker size, %P path. */
+const DRIVER_COMMAND = 'npx tsx .cursor/commands/scripts/markdown-merge-driver.ts %O %A %B %L %P';
+
+export interface MarkdownMergeDriverArgs {
+  basePath: string;
+  /** Ours; the merged result is written here. */
+  oursPath: string;
+  theirsPath: string;
+  markerSize?: number;
+  /** Repo path of the file being merged (selects phase guide / handoff options). */
+  pathName?: string;
+}
+
+export interface MarkdownMergeDriverResult {
+  clean: boolean;
+  /** Sections left with conflict markers. */
+  conflicts: string[];
+  /** Set when the section merge threw and git merge-file produced the result instead. */
+  fallback?: string;
+}
+
+/** Merge the three driver files into oursPath; clean is false when any section kept conflict markers. */
+export async function runMarkdownMergeDriver(args: MarkdownMergeDriverArgs): Promise<MarkdownMergeDriverResult> {
+  try {
+    const [base, ours, theirs] = await Promise.all([
+      readFile(args.basePath, 'utf8'),
+      readFile(args.oursPath, 'utf8'),
+      readFile(args.theirsPath, 'utf8'),
+    ]);
+    const { merged, conflicts } = mergeMarkdownSections(base, ours, theirs, {
+      ...sectionMergeOptionsForPath(args.pathName ?? args.oursPath),
+      ...(args.markerSize && { markerSize: args.markerSize }),
+    });
+    await writeFile(args.oursPath, merged, 'utf8');
+    return { clean: conflicts.length === 0, conflicts };
+  } catch (err) {
+    // Never leave ours as a silent result: fall back to git's own line merge with markers
+    const size = args.markerSize ? ` --marker-size=${args.markerSize}` : '';
+    const q = (p: string): string => `'${p.replace(/'/g, "'\\''")}'`;
+    const fallback = await runGitCommand(
+      `git merge-file${size} ${q(args.oursPath)} ${q(args.basePath)} ${q(args.theirsPath)}`,
+      'markdownMergeDriver-fallback'
+    );
+    return {
+      clean: fallback.success,
+      conflicts: [],
+      fallback: `section merge failed (${err instanceof Error ? err.message : String(err)}); used git merge-file`,
+    };
+  }
+}
+
+/** Register the driver in git config and `.gitattributes` at the project root. */
+export async function installMarkdownMergeDriver(): Promise<{ success: boolean; messages: string[] }> {
+  const messages: string[] = [];
+  const settings: Array<[string, string]> = [
+    [`merge.${MARKDOWN_MERGE_DRIVER_NAME}.name`, 'Harness planning doc merge by ## section'],
+    [`merge.${MARKDOWN_MERGE_DRIVER_NAME}.driver`, DRIVER_COMMAND],
+  ];
+  for (const [key, value] of settings) {
+    const set = await runGitCommand(`git config ${key} "${value}"`, 'installMarkdownMergeDriver-config');
+    if (!set.success) {
+      messages.push(`git config ${key} failed: ${set.error || set.output}`);
+      return { success: false, messages };
+    }
+  }
+  messages.push(`Configured merge driver ${MARKDOWN_MERGE_DRIVER_NAME}.`);
+
+  const attributesPath = join(PROJECT_ROOT, '.gitattributes');
+  const current = existsSync(attributesPath) ? await readFile(attributesPath, 'utf8') : '';
+  const lines = current.split('\n').map((l) => l.trim());
+  const missing = MARKDOWN_MERGE_DRIVER_ATTRIBUTES.filter((a) => !lines.includes(a));
+  if (missing.length === 0) {
+    messages.push('.gitattributes already routes planning docs to the driver.');
+    return { success: true, messages };
+  }
+  const prefix = current === '' || current.endsWith('\n') ? current : `${current}\n`;
+  await writeFile(attributesPath, `${prefix}${missing.join('\n')}\n`, 'utf8');
+  messages.push(`Added to .gitattributes (commit it so every clone uses the driver): ${missing.join(', ')}`);
+  return { success: true, messages };
+}
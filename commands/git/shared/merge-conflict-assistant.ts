@@ -0,0 +1,135 @@
+/**
+ * Conflict assistant for tier merges: after `git merge` / `git merge --squash` stops on conflicts, list the
+ * unmerged paths and classify each one:
+ *   - regenerable: harness artifacts (`across-ladder.json`, `.tier-scope`, logs, `.cursor`, audit reports) —
+ *     take the source branch's version; the next tier start/end regenerates them anyway.
+ *   - planning_doc: `.project-manager/**.md` — three-way merge by `##` section (markdown-section-merge).
+ *   - code: everything else — needs a human.
+ * Regenerable paths and cleanly section-merged docs are staged; the rest come back in a structured report.
+ * The caller decides whether to commit (nothing left for a human) or abort the merge.
+ */
+
+import { writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { runGitCommand } from './git-logger';
+import type { ConflictPathClass, ConflictPathReport, MergeConflictReport } from './git-contract';
+import { isNeverCommitPath, isProjectManagerPath } from './working-tree-policy';
+import { mergeMarkdownSections, sectionMergeOptionsForPath } from '../../utils/markdown-section-merge';
+import { PROJECT_ROOT } from '../../utils/utils';
+
+/** Derived manifests refreshed on tier starts/ends (see utils/across-ladder.ts). */
+const REGENERABLE_BASENAMES = new Set(['across-ladder.json']);
+
+export function classifyConflictPath(path: string): ConflictPathClass {
+  const p = path.trim().replace(/^\.\//, '');
+  if (isNeverCommitPath(p) || REGENERABLE_BASENAMES.has(basename(p))) return 'regenerable';
+  if (isProjectManagerPath(p) && p.endsWith('.md')) return 'planning_doc';
+  return 'code';
+}
+
+export async function listUnmergedPaths(cwd?: string): Promise<string[]> {
+  const result = await runGitCommand('git diff --name-only --diff-filter=U', 'mergeConflicts-listUnmerged', cwd);
+  if (!result.success) return [];
+  return result.output.trim().split('\n').map((l) => l.trim()).filter(Boolean);
+}
+
+function quote(path: string): string {
+  return `'${path.replace(/'/g, "'\\''")}'`;
+}
+
+/** Index stages present for a conflicted path (1 = base, 2 = ours/target, 3 = theirs/source). */
+async function conflictStages(path: string, cwd?: string): Promise<Set<number>> {
+  const result = await runGitCommand(`git ls-files -u -- ${quote(path)}`, 'mergeConflicts-stages', cwd);
+  const stages = new Set<number>();
+  for (const line of result.output.split('\n')) {
+    const stage = Number(line.split('\t')[0]?.trim().split(/\s+/)[2]);
+    if (stage) stages.add(stage);
+  }
+  return stages;
+}
+
+async function showStage(stage: number, path: string, cwd?: string): Promise<string> {
+  const result = await runGitCommand(`git show :${stage}:${quote(path)}`, 'mergeConflicts-showStage', cwd);
+  return result.success ? result.output : '';
+}
+
+async function takeSource(path: string, sourceBranch: string, cwd?: string): Promise<ConflictPathReport> {
+  const pathClass = classifyConflictPath(path);
+  const stages = await conflictStages(path, cwd);
+  const step = stages.has(3)
+    ? await runGitCommand(`git checkout ${sourceBranch} -- ${quote(path)}`, 'mergeConflicts-takeSource', cwd)
+    : await runGitCommand(`git rm -q --ignore-unmatch -- ${quote(path)}`, 'mergeConflicts-takeSourceDelete', cwd);
+  if (!step.success) {
+    return { path, pathClass, detail: `could not take ${sourceBranch} version: ${(step.error || step.output).trim()}` };
+  }
+  if (stages.has(3)) {
+    const add = await runGitCommand(`git add -- ${quote(path)}`, 'mergeConflicts-add', cwd);
+    if (!add.success) {
+      return { path, pathClass, detail: `could not stage: ${(add.error || add.output).trim()}` };
+    }
+  }
+  return {
+    path,
+    pathClass,
+    detail: stages.has(3) ? `took ${sourceBranch} version (regenerated on the next tier start/end)` : `deleted as on ${sourceBranch}`,
+  };
+}
+
+async function mergePlanningDoc(path: string, sourceBranch: string, cwd?: string): Promise<{ ok: boolean; report: ConflictPathReport }> {
+  const stages = await conflictStages(path, cwd);
+  if (!stages.has(2) || !stages.has(3)) {
+    const deletedOn = stages.has(2) ? sourceBranch : 'the target';
+    return { ok: false, report: { path, pathClass: 'planning_doc', detail: `deleted on ${deletedOn} and edited on the other side` } };
+  }
+  const [base, ours, theirs] = await Promise.all([
+    stages.has(1) ? showStage(1, path, cwd) : Promise.resolve(''),
+    showStage(2, path, cwd),
+    showStage(3, path, cwd),
+  ]);
+  const { merged, conflicts } = mergeMarkdownSections(base, ours, theirs, sectionMergeOptionsForPath(path));
+  if (conflicts.length > 0) {
+    return {
+      ok: false,
+      report: { path, pathClass: 'planning_doc', detail: `both sides changed section(s): ${conflicts.join(', ')}` },
+    };
+  }
+  await writeFile(join(cwd ?? PROJECT_ROOT, path), merged.endsWith('\n') ? merged : `${merged}\n`, 'utf8');
+  const add = await runGitCommand(`git add -- ${quote(path)}`, 'mergeConflicts-add', cwd);
+  if (!add.success) {
+    return { ok: false, report: { path, pathClass: 'planning_doc', detail: `could not stage: ${(add.error || add.output).trim()}` } };
+  }
+  return { ok: true, report: { path, pathClass: 'planning_doc', detail: 'merged by section' } };
+}
+
+/**
+ * Resolve what can be resolved in the conflicted merge in `cwd` (source = the branch being merged in).
+ * Resolved paths are staged; unresolved ones are left conflicted for the caller to commit or abort.
+ */
+export async function resolveMergeConflicts(params: { sourceBranch: string; cwd?: string }): Promise<MergeConflictReport> {
+  const { sourceBranch, cwd } = params;
+  const report: MergeConflictReport = { resolved: [], needsHuman: [] };
+  for (const path of await listUnmergedPaths(cwd)) {
+    const pathClass = classifyConflictPath(path);
+    if (pathClass === 'code') {
+      report.needsHuman.push({ path, pathClass, detail: 'code conflict' });
+      continue;
+    }
+    if (pathClass === 'planning_doc') {
+      const doc = await mergePlanningDoc(path, sourceBranch, cwd);
+      (doc.ok ? report.resolved : report.needsHuman).push(doc.report);
+      continue;
+    }
+    const taken = await takeSource(path, sourceBranch, cwd);
+    const stillUnmerged = (await conflictStages(path, cwd)).size > 0;
+    (stillUnmerged ? report.needsHuman : report.resolved).push(taken);
+  }
+  return report;
+}
+
+export function formatMergeConflictReport(report: MergeConflictReport): string {
+  const line = (r: ConflictPathReport): string => `  - ${r.path} [${r.pathClass}] ${r.detail}`;
+  const parts: string[] = [];
+  if (report.resolved.length > 0) parts.push(`Auto-resolved:\n${report.resolved.map(line).join('\n')}`);
+  if (report.needsHuman.length > 0) parts.push(`Needs a human:\n${report.needsHuman.map(line).join('\n')}`);
+  return parts.join('\n');
+}
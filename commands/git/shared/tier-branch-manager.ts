@@ -29,6 +29,7 @@ import type {
   MergeChildBranchesResult,
   ScopeCoherenceResult,
   SubmoduleCursorMode,
+  TierMergeStrategy,
 } from './git-contract';
 import {
   parsePortcelainEntries,
@@ -40,6 +41,19 @@ import {
 } from './working-tree-policy';
 import { shouldAutoPushNewFeatureBranch } from './publish-policy';
 import { recordGitFriction } from './git-friction-log';
+import {
+  ensureBranchWorktree,
+  findWorktreeForBranch,
+  isCurrentWorktree,
+  resolveTierWorktreeRoot,
+} from './tier-worktree';
+import { PROJECT_ROOT } from '../../utils/utils';
+import {
+  buildSquashCommitMessage,
+  listBranchCommitSubjects,
+  resolveDefaultMergeStrategy,
+  resolveTierMergeStrategy,
+} from './tier-merge-strategy';
 
 export type {
   BranchChainLink,
@@ -162,6 +176,7 @@ export async function getExpectedBranchForTier(
 /**
  * Ensure the feature branch exists and is checked out. Phase/session/task resolves to the same feature branch.
  * No automatic rebases; no push on branch creation (local-first).
+ * With `HARNESS_TIER_WORKTREES` set, the branch gets its own worktree instead (see tier-worktree.ts).
  */
 export async function ensureTierBranch(
   config: TierConfig,
@@ -234,6 +249,11 @@ export async function ensureTierBranch(
   }
   const targetBranch = targetLink.branchName;
 
+  const worktreeRoot = await resolveTierWorktreeRoot();
+  if (worktreeRoot) {
+    return ensureTierBranchInWorktree(config, tierId, context, chain, worktreeRoot, messages, options);
+  }
+
   const uncommitted = await resolveUncommittedForCheckout(targetBranch);
   const autoCommittedPaths = uncommitted.autoCommittedPaths;
   const needStashPop = uncommitted.clean && uncommitted.stashedWorkflowArtifacts === true;
@@ -536,6 +556,168 @@ export async function ensureTierBranch(
   };
 }
 
+/**
+ * Worktree mode: fast-forward `branch` from origin without checking it out — ff-merge inside the worktree that
+ * holds it, or move the ref directly when no worktree does.
+ */
+async function fastForwardFromOrigin(branch: string, op: string): Promise<{ ok: boolean; message: string }> {
+  const rel = await compareBranchToRemote(branch);
+  if (rel === 'no-remote') return { ok: true, message: `No origin/${branch}; skipped sync.` };
+  if (rel === 'up-to-date') return { ok: true, message: `${branch} is up to date with origin.` };
+  if (rel === 'ahead') return { ok: true, message: `${branch} is ahead of origin; skipped pull (push when ready).` };
+  if (rel === 'diverged') {
+    return { ok: false, message: `Local ${branch} and origin/${branch} have diverged. Resolve manually, then retry.` };
+  }
+  const holder = await findWorktreeForBranch(branch);
+  const result = holder
+    ? await runGitCommand(`git merge --ff-only origin/${branch}`, op, holder.path)
+    : await runGitCommand(`git branch -f ${branch} origin/${branch}`, op);
+  return result.success
+    ? { ok: true, message: `Fast-forwarded ${branch} from origin${holder ? ` (in ${holder.path})` : ''}.` }
+    : { ok: false, message: `Failed to fast-forward ${branch}: ${result.error || result.output}` };
+}
+
+/**
+ * ensureTierBranch when `HARNESS_TIER_WORKTREES` is set: same chain and ancestry checks, but the target branch is
+ * given its own worktree instead of being checked out here — no checkout, no stash. When this process runs in a
+ * different worktree, returns `worktreeRedirect` so the caller stops and the command is re-run from that path.
+ */
+async function ensureTierBranchInWorktree(
+  config: TierConfig,
+  tierId: string,
+  context: WorkflowCommandContext,
+  chain: EnsureTierBranchResult['chain'],
+  worktreeRoot: string,
+  messages: string[],
+  options?: EnsureTierBranchOptions
+): Promise<EnsureTierBranchResult> {
+  const createIfMissing = options?.createIfMissing ?? true;
+  const pullRoot = options?.pullRoot ?? false;
+  const syncRemote = options?.syncRemote ?? false;
+  const targetLink = chain[chain.length - 1];
+  const startBranch = await branchNameSnapshot();
+  const fail = (msg: string, reasonCode?: string): EnsureTierBranchResult => {
+    messages.push(msg);
+    if (reasonCode) {
+      recordGitFriction({
+        step: 'ensureTierBranch-worktree',
+        tier: config.name,
+        tierId,
+        featureName: context.feature.name,
+        currentBranch: startBranch,
+        reasonCode,
+        disposition: 'blocked',
+        notes: msg,
+      });
+    }
+    return { success: false, messages, finalBranch: startBranch, chain };
+  };
+
+  for (let i = 0; i < chain.length - 1; i++) {
+    const link = chain[i];
+    if (!(await branchExists(link.branchName))) {
+      const prefixMatches = await listBranchesByPrefix(link.branchName);
+      if (prefixMatches.length > 1) {
+        return fail(`Ambiguous ancestor branches for ${link.branchName}: ${prefixMatches.join(', ')}. Resolve before tier-start.`);
+      }
+      if (prefixMatches.length === 0) {
+        return fail(`Ancestor branch ${link.branchName} (${link.tier}) does not exist. Start the feature tier first.`);
+      }
+      link.branchName = prefixMatches[0];
+    }
+    const resolvedParent = i > 0 ? chain[i - 1].branchName : link.parentBranchName;
+    if (
+      resolvedParent &&
+      !isRootBranch(resolvedParent) &&
+      (await branchExists(resolvedParent)) &&
+      !(await isBranchBasedOn(link.branchName, resolvedParent))
+    ) {
+      return fail(
+        `Branch ${link.branchName} is not based on ${resolvedParent}. Rebase or merge onto the parent in that branch's worktree, then retry.`,
+        'branch_not_based_on_parent'
+      );
+    }
+    if (syncRemote && !link.isRoot) {
+      const ff = await fastForwardFromOrigin(link.branchName, 'ensureTierBranch-worktree-ffAncestor');
+      if (!ff.ok) return fail(ff.message, 'diverged_from_remote');
+      messages.push(ff.message);
+    }
+  }
+
+  const parentOfTarget = chain.length >= 2 ? chain[chain.length - 2].branchName : targetLink.parentBranchName;
+  if (parentOfTarget) {
+    if (!(await branchExists(parentOfTarget))) {
+      return fail(
+        `Parent branch ${parentOfTarget} does not exist locally. Fetch it or align tier config with your default branch.`
+      );
+    }
+    const root = isRootBranch(parentOfTarget);
+    if ((pullRoot && root) || (syncRemote && !root)) {
+      const ff = await fastForwardFromOrigin(parentOfTarget, 'ensureTierBranch-worktree-ffParent');
+      if (!ff.ok) return fail(ff.message, root ? 'pull_root_failed' : 'diverged_from_remote');
+      messages.push(ff.message);
+    }
+  }
+
+  const targetExists = await branchExists(targetLink.branchName);
+  if (!targetExists && !createIfMissing) {
+    return fail(`Target branch ${targetLink.branchName} does not exist and createIfMissing is false.`);
+  }
+  const worktree = await ensureBranchWorktree(
+    targetLink.branchName,
+    worktreeRoot,
+    targetExists ? undefined : { createFrom: parentOfTarget ?? 'HEAD' }
+  );
+  if (!worktree.success) return fail(worktree.message, 'worktree_add_failed');
+  messages.push(worktree.message);
+
+  if (targetExists && syncRemote) {
+    const ff = await fastForwardFromOrigin(targetLink.branchName, 'ensureTierBranch-worktree-ffTarget');
+    if (!ff.ok) return fail(ff.message, 'diverged_from_remote');
+    messages.push(ff.message);
+  }
+
+  if (
+    parentOfTarget &&
+    !isRootBranch(parentOfTarget) &&
+    !(await isBranchBasedOn(targetLink.branchName, parentOfTarget))
+  ) {
+    return fail(
+      `Branch ${targetLink.branchName} is not based on ${parentOfTarget}. Rebase onto parent in its worktree, then retry tier-start.`,
+      'branch_not_based_on_parent'
+    );
+  }
+
+  if (!isCurrentWorktree(worktree.path)) {
+    messages.push(
+      `${targetLink.branchName} lives in worktree ${worktree.path}. Open that folder (or \`cd '${worktree.path}'\`) and re-run the command there; this checkout was left as is.`
+    );
+    return {
+      success: false,
+      messages,
+      finalBranch: startBranch,
+      chain,
+      worktreePath: worktree.path,
+      worktreeRedirect: worktree.path,
+    };
+  }
+
+  const submoduleMode = options?.submoduleCursor ?? 'off';
+  if (submoduleMode !== 'off') {
+    const sub = await syncCursorSubmodule(submoduleMode, {
+      tier: config.name,
+      tierId,
+      featureName: context.feature.name,
+    });
+    messages.push(...sub.messages);
+    if (!sub.success) {
+      return { success: false, messages, finalBranch: targetLink.branchName, chain, worktreePath: worktree.path };
+    }
+  }
+
+  return { success: true, messages, finalBranch: targetLink.branchName, chain, worktreePath: worktree.path };
+}
+
 export async function mergeTierBranch(
   config: TierConfig,
   tierId: string,
@@ -545,6 +727,8 @@ export async function mergeTierBranch(
     push?: boolean;
     auditPrewarmPromise?: Promise<void>;
     syncRemote?: boolean;
+    /** Overrides the tier's strategy (TierConfig.mergeStrategy / HARNESS_MERGE_STRATEGY). */
+    strategy?: TierMergeStrategy;
   }
 ): Promise<MergeTierBranchResult> {
   const messages: string[] = [];
@@ -743,7 +927,49 @@ export async function mergeTierBranch(
     };
   }
 
+  // Worktree mode: merge inside the parent's worktree; the tier worktree keeps its branch until the delete step.
+  let mergeCwd: string | undefined;
+  const worktreeRoot = await resolveTierWorktreeRoot();
+  if (worktreeRoot) {
+    const parentWorktree = await ensureBranchWorktree(parentBranch, worktreeRoot);
+    if (!parentWorktree.success) {
+      messages.push(`Cannot merge into ${parentBranch}: ${parentWorktree.message}`);
+      return { success: false, messages, mergedInto: parentBranch, deletedBranch: false, reasonCode: 'merge_failed' };
+    }
+    messages.push(parentWorktree.message);
+    const parentStatus = await runGitCommand(
+      'git status --porcelain --ignore-submodules=dirty',
+      'mergeTierBranch-parentWorktreeStatus',
+      parentWorktree.path
+    );
+    if (parentStatus.success && parentStatus.output.trim()) {
+      messages.push(
+        `Worktree ${parentWorktree.path} (${parentBranch}) has uncommitted changes; commit or stash them there, then re-run tier-end:\n${parentStatus.output.trim()}`
+      );
+      recordGitFriction({
+        step: 'mergeTierBranch-parentWorktree',
+        tier: config.name,
+        tierId,
+        reasonCode: 'dirty_tree_before_merge',
+        disposition: 'blocked',
+      });
+      return {
+        success: false,
+        messages,
+        mergedInto: parentBranch,
+        deletedBranch: false,
+        reasonCode: 'dirty_tree_before_merge',
+      };
+    }
+    mergeCwd = parentWorktree.path;
+  }
+
   const syncRemote = options?.syncRemote ?? true;
+  const strategy = options?.strategy ?? resolveTierMergeStrategy(config);
+  const squashMessage =
+    strategy === 'squash'
+      ? await buildSquashCommitMessage(config, tierId, context, tierBranch, parentBranch)
+      : undefined;
   const mergeResult = await gitMerge({
     sourceBranch: tierBranch,
     targetBranch: parentBranch,
@@ -752,10 +978,28 @@ export async function mergeTierBranch(
     strictPull: syncRemote,
     preferSource: true,
     autoResolveSubmodule: true,
+    resolveConflicts: true,
+    strategy,
+    ...(squashMessage && { squashMessage }),
+    ...(mergeCwd && { cwd: mergeCwd, sourceCwd: PROJECT_ROOT }),
   });
   if (!mergeResult.success) {
-    messages.push(`Merge ${tierBranch} into ${parentBranch} failed: ${mergeResult.output}`);
-    messages.push(`Manual recovery: git checkout ${parentBranch} && git merge ${tierBranch}`);
+    const reasonCode = mergeResult.failure ?? 'merge_failed';
+    messages.push(`Merge ${tierBranch} into ${parentBranch} (${strategy}) failed: ${mergeResult.output}`);
+    if (strategy === 'rebase') {
+      messages.push(
+        `Manual recovery: on ${tierBranch} run git rebase ${parentBranch}, resolve conflicts, then re-run tier-end (or set HARNESS_MERGE_STRATEGY=${config.name}=merge).`
+      );
+    } else {
+      messages.push(
+        mergeCwd
+          ? `Manual recovery: cd '${mergeCwd}' && git merge ${tierBranch}`
+          : `Manual recovery: git checkout ${parentBranch} && git merge ${tierBranch}`
+      );
+      if (reasonCode === 'unresolved_conflicts') {
+        messages.push('Resolve only the "needs a human" paths; take the source version of the auto-resolved ones, then commit and re-run tier-end.');
+      }
+    }
     warnGitOp({
       timestamp: new Date().toISOString(),
       operation: 'mergeTierBranch',
@@ -769,7 +1013,7 @@ export async function mergeTierBranch(
       step: 'mergeTierBranch-merge',
       tier: config.name,
       tierId,
-      reasonCode: 'merge_failed',
+      reasonCode,
       stderrExcerpt: mergeResult.output.slice(0, 500),
       disposition: 'blocked',
     });
@@ -778,13 +1022,17 @@ export async function mergeTierBranch(
       messages,
       mergedInto: parentBranch,
       deletedBranch: false,
-      reasonCode: 'merge_failed',
+      reasonCode,
+      strategy,
+      ...(mergeResult.conflictReport && { conflictReport: mergeResult.conflictReport }),
     };
   }
-  messages.push(`Merged ${tierBranch} into ${parentBranch}.`);
+  messages.push(
+    strategy === 'merge' && !mergeResult.conflictReport ? `Merged ${tierBranch} into ${parentBranch}.` : mergeResult.output
+  );
 
   if (shouldPush) {
-    const pushResult = await gitPush();
+    const pushResult = await gitPush(mergeCwd);
     if (!pushResult.success) {
       messages.push(`Push failed after merge; child branch not deleted: ${pushResult.output}`);
       recordGitFriction({
@@ -808,6 +1056,23 @@ export async function mergeTierBranch(
   let deleted = false;
   if (deleteBranch) {
     const safeTierBranch = tierBranch.replace(/'/g, "'\\''");
+    if (mergeCwd) {
+      // A branch checked out in a worktree cannot be deleted; detach this worktree (the harness runs from it, so it is not removed here).
+      const detach = await runGitCommand('git checkout --detach', 'mergeTierBranch-worktree-detach');
+      if (!detach.success) {
+        messages.push(`Could not detach worktree from ${tierBranch}: ${detach.error || detach.output}`);
+        return {
+          success: false,
+          messages,
+          mergedInto: parentBranch,
+          deletedBranch: false,
+          reasonCode: 'delete_local_branch_failed',
+        };
+      }
+      messages.push(
+        `Detached this worktree from ${tierBranch}. Once you leave it, remove it with \`git worktree remove '${PROJECT_ROOT}'\`; continue in ${mergeCwd} (${parentBranch}).`
+      );
+    }
     const deleteResult = await runGitCommand(`git branch -D '${safeTierBranch}'`, 'mergeTierBranch-delete');
     if (!deleteResult.success) {
       messages.push(`Local branch delete failed: ${deleteResult.error || deleteResult.output}`);
@@ -835,16 +1100,24 @@ export async function mergeTierBranch(
     messages.push(`Deleted remote branch: ${tierBranch}`);
   }
 
-  return { success: true, messages, mergedInto: parentBranch, deletedBranch: deleted };
+  return {
+    success: true,
+    messages,
+    mergedInto: parentBranch,
+    deletedBranch: deleted,
+    strategy,
+    ...(mergeResult.conflictReport && { conflictReport: mergeResult.conflictReport }),
+  };
 }
 
 export async function mergeChildBranches(
   pattern: string,
   targetBranch: string,
-  options?: { deleteMerged?: boolean; pullBeforeMerge?: boolean }
+  options?: { deleteMerged?: boolean; pullBeforeMerge?: boolean; strategy?: TierMergeStrategy }
 ): Promise<MergeChildBranchesResult> {
   const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : pattern;
   const pullBeforeMerge = options?.pullBeforeMerge ?? true;
+  const strategy = options?.strategy ?? resolveDefaultMergeStrategy();
   const branches = await listBranchesByPrefix(prefix);
   const merged: string[] = [];
   const failed: string[] = [];
@@ -859,11 +1132,21 @@ export async function mergeChildBranches(
       strictPull: pullBeforeMerge,
       preferSource: true,
       autoResolveSubmodule: true,
+      resolveConflicts: true,
+      strategy,
+      ...(strategy === 'squash' && {
+        squashMessage: [
+          `Squash ${branch} into ${targetBranch}`,
+          ...(await listBranchCommitSubjects(branch, targetBranch)).map((subject) => `- ${subject}`),
+        ].join('\n'),
+      }),
     });
     if (mergeResult.success) {
       merged.push(branch);
       if (options?.deleteMerged) {
-        const delResult = await runGitCommand(`git branch -d ${branch}`, 'mergeChildBranches-delete');
+        // A squashed branch is not an ancestor of the target, so `-d` would refuse it.
+        const delFlag = strategy === 'squash' ? '-D' : '-d';
+        const delResult = await runGitCommand(`git branch ${delFlag} ${branch}`, 'mergeChildBranches-delete');
         messages.push(delResult.success ? `Merged and deleted: ${branch}` : `Merged ${branch} (delete failed: ${delResult.output})`);
       } else {
         messages.push(`Merged: ${branch}`);
@@ -0,0 +1,134 @@
+/**
+ * Per-tier merge strategy for tier-end (merge commit, squash, or rebase then fast-forward).
+ * `TierConfig.mergeStrategy` sets a tier's default; `HARNESS_MERGE_STRATEGY` overrides it per project:
+ * a bare strategy (`squash`) applies to every tier, `feature=squash,session=rebase` sets tiers individually.
+ * Also builds the squash commit message from the tier log, handoff and the branch's commit subjects.
+ */
+
+import type { TierConfig, TierName } from '../../tiers/shared/types';
+import type { WorkflowCommandContext } from '../../utils/command-context';
+import { MarkdownUtils } from '../../utils/markdown-utils';
+import { readProjectFile } from '../../utils/utils';
+import { runGitCommand } from './git-logger';
+import { TIER_MERGE_STRATEGIES, type TierMergeStrategy } from './git-contract';
+
+const TIERS: readonly TierName[] = ['feature', 'phase', 'session', 'task'];
+
+export interface MergeStrategyEnvSetting {
+  /** Bare strategy applying to every tier. */
+  all?: TierMergeStrategy;
+  perTier: Partial<Record<TierName, TierMergeStrategy>>;
+  /** One line per unreadable entry (ignored). */
+  errors: string[];
+}
+
+function isStrategy(value: string): value is TierMergeStrategy {
+  return (TIER_MERGE_STRATEGIES as readonly string[]).includes(value);
+}
+
+export function parseMergeStrategyEnv(raw: string | undefined = process.env.HARNESS_MERGE_STRATEGY): MergeStrategyEnvSetting {
+  const setting: MergeStrategyEnvSetting = { perTier: {}, errors: [] };
+  for (const part of (raw ?? '').split(',').map((p) => p.trim().toLowerCase()).filter(Boolean)) {
+    const eq = part.indexOf('=');
+    if (eq < 0) {
+      if (isStrategy(part)) setting.all = part;
+      else setting.errors.push(`"${part}" is not one of ${TIER_MERGE_STRATEGIES.join(' / ')}`);
+      continue;
+    }
+    const tier = part.slice(0, eq).trim() as TierName;
+    const strategy = part.slice(eq + 1).trim();
+    if (!TIERS.includes(tier)) setting.errors.push(`"${tier}" is not a tier`);
+    else if (!isStrategy(strategy)) setting.errors.push(`${tier}: "${strategy}" is not one of ${TIER_MERGE_STRATEGIES.join(' / ')}`);
+    else setting.perTier[tier] = strategy;
+  }
+  return setting;
+}
+
+let warnedFor: string | undefined;
+
+function envSetting(): MergeStrategyEnvSetting {
+  const setting = parseMergeStrategyEnv();
+  const raw = process.env.HARNESS_MERGE_STRATEGY;
+  if (setting.errors.length > 0 && warnedFor !== raw) {
+    warnedFor = raw;
+    console.warn(`[merge-strategy] HARNESS_MERGE_STRATEGY ignored in part: ${setting.errors.join('; ')}`);
+  }
+  return setting;
+}
+
+/** Strategy for a tier: env per-tier entry, then env bare strategy, then the tier config, then `merge`. */
+export function resolveTierMergeStrategy(config: Pick<TierConfig, 'name' | 'mergeStrategy'>): TierMergeStrategy {
+  const env = envSetting();
+  return env.perTier[config.name] ?? env.all ?? config.mergeStrategy ?? 'merge';
+}
+
+/** Strategy when no tier is known (e.g. mergeChildBranches): env bare strategy, else `merge`. */
+export function resolveDefaultMergeStrategy(): TierMergeStrategy {
+  return envSetting().all ?? 'merge';
+}
+
+/** Template placeholder such as `[Name]`, `[Date]` or `[Phase N]` (lowercase `[x]` checkboxes are content). */
+const PLACEHOLDER = /\[[A-Z][^\]]*\]/;
+
+async function readOptional(path: string): Promise<string> {
+  try {
+    return await readProjectFile(path);
+  } catch {
+    return '';
+  }
+}
+
+/** Non-placeholder body lines of the handoff's Transition Context (falls back to Current Status). */
+function handoffLines(handoff: string, max: number): string[] {
+  const section =
+    MarkdownUtils.extractSection(handoff, 'Transition Context', { depth: 2 }) ||
+    MarkdownUtils.extractSection(handoff, 'Current Status', { depth: 2 });
+  return section
+    .split('\n')
+    .slice(1)
+    .map((l) => l.trimEnd())
+    .filter((l) => l.trim() && l.trim() !== '---' && !PLACEHOLDER.test(l))
+    .slice(0, max);
+}
+
+/** Last `max` `###` entry headings of the tier log, placeholders dropped. */
+function logEntryHeadings(log: string, max: number): string[] {
+  return log
+    .split('\n')
+    .filter((l) => /^###\s+/.test(l) && !PLACEHOLDER.test(l))
+    .map((l) => l.replace(/^###\s+/, '').trim())
+    .slice(-max);
+}
+
+/** Commit subjects on `branch` not yet on `parent`, oldest first. */
+export async function listBranchCommitSubjects(branch: string, parent: string, max = 30): Promise<string[]> {
+  const result = await runGitCommand(`git log --reverse --format=%s ${parent}..${branch}`, 'listBranchCommitSubjects');
+  if (!result.success) return [];
+  const subjects = result.output.split('\n').map((l) => l.trim()).filter(Boolean);
+  return subjects.length > max ? [...subjects.slice(0, max), `… ${subjects.length - max} more`] : subjects;
+}
+
+/**
+ * Squash commit message: `[<tier> <id>] Squash <branch> into <parent>`, then the handoff's transition notes,
+ * recent tier log entries and the squashed commit subjects (sections omitted when empty).
+ */
+export async function buildSquashCommitMessage(
+  config: TierConfig,
+  tierId: string,
+  context: WorkflowCommandContext,
+  tierBranch: string,
+  parentBranch: string
+): Promise<string> {
+  const [handoff, log, subjects] = await Promise.all([
+    readOptional(config.paths.handoff(context, tierId)),
+    readOptional(config.paths.log(context, tierId)),
+    listBranchCommitSubjects(tierBranch, parentBranch),
+  ]);
+  const sections: string[] = [`[${config.name} ${tierId}] Squash ${tierBranch} into ${parentBranch}`];
+  const notes = handoffLines(handoff, 12);
+  if (notes.length > 0) sections.push(`Handoff:\n${notes.join('\n')}`);
+  const entries = logEntryHeadings(log, 10);
+  if (entries.length > 0) sections.push(`Log:\n${entries.map((e) => `- ${e}`).join('\n')}`);
+  if (subjects.length > 0) sections.push(`Commits:\n${subjects.map((s) => `- ${s}`).join('\n')}`);
+  return sections.join('\n\n');
+}
@@ -0,0 +1,154 @@
+/**
+ * Worktree-per-tier execution mode (opt-in): each active tier branch gets a persistent git worktree under
+ * `HARNESS_TIER_WORKTREES`, and tier start/end run inside the worktree that holds the tier's branch.
+ * Switching tiers then never checks out in place, so nothing is stashed and dev-server watchers in other
+ * checkouts never see files change under them (the same reason propagate-files uses temporary worktrees).
+ *
+ * `HARNESS_TIER_WORKTREES=<dir>` enables the mode; a relative dir resolves against the main worktree, so every
+ * worktree agrees on the location. Unset, empty, `0`, `off` or `false` keeps in-place checkout.
+ */
+
+import { existsSync, realpathSync } from 'fs';
+import { isAbsolute, join, resolve } from 'path';
+import { getCurrentBranch, runGitCommand } from './git-logger';
+import { PROJECT_ROOT } from '../../utils/utils';
+
+export interface GitWorktreeEntry {
+  path: string;
+  /** Short branch name; null for a detached or bare worktree. */
+  branch: string | null;
+  head?: string;
+}
+
+export interface EnsureBranchWorktreeResult {
+  success: boolean;
+  path: string;
+  created: boolean;
+  message: string;
+}
+
+/** Configured worktree directory as written in the env var, or null when the mode is off. */
+export function tierWorktreesSetting(): string | null {
+  const v = process.env.HARNESS_TIER_WORKTREES?.trim();
+  if (!v || ['0', 'off', 'false'].includes(v.toLowerCase())) return null;
+  return v;
+}
+
+export function isTierWorktreeModeEnabled(): boolean {
+  return tierWorktreesSetting() !== null;
+}
+
+/** Parse `git worktree list --porcelain`; the first entry is the main worktree. */
+export async function listGitWorktrees(): Promise<GitWorktreeEntry[]> {
+  const result = await runGitCommand('git worktree list --porcelain', 'listGitWorktrees');
+  if (!result.success) return [];
+  const entries: GitWorktreeEntry[] = [];
+  let current: GitWorktreeEntry | null = null;
+  for (const line of result.output.split('\n')) {
+    if (line.startsWith('worktree ')) {
+      current = { path: line.slice('worktree '.length).trim(), branch: null };
+      entries.push(current);
+    } else if (current && line.startsWith('HEAD ')) {
+      current.head = line.slice('HEAD '.length).trim();
+    } else if (current && line.startsWith('branch ')) {
+      current.branch = line.slice('branch '.length).trim().replace(/^refs\/heads\//, '');
+    }
+  }
+  return entries;
+}
+
+/** Absolute worktree root, or null when the mode is off. */
+export async function resolveTierWorktreeRoot(): Promise<string | null> {
+  const setting = tierWorktreesSetting();
+  if (!setting) return null;
+  if (isAbsolute(setting)) return resolve(setting);
+  const main = (await listGitWorktrees())[0]?.path ?? PROJECT_ROOT;
+  return resolve(main, setting);
+}
+
+function samePath(a: string, b: string): boolean {
+  const canonical = (p: string): string => {
+    try {
+      return realpathSync(p);
+    } catch {
+      return resolve(p);
+    }
+  };
+  return canonical(a) === canonical(b);
+}
+
+export async function findWorktreeForBranch(branch: string): Promise<GitWorktreeEntry | null> {
+  return (await listGitWorktrees()).find((w) => w.branch === branch) ?? null;
+}
+
+/** True when `path` is the worktree this process runs in. */
+export function isCurrentWorktree(path: string): boolean {
+  return samePath(path, PROJECT_ROOT);
+}
+
+/** Directory name for a branch's worktree: `feature/x` → `feature-x`. */
+export function tierWorktreeDirName(branch: string): string {
+  return branch.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Return the worktree holding `branch`, adding one under `root` when none exists. With `createFrom`, a missing
+ * branch is created there from that base (`git worktree add -b`). A new worktree gets `git submodule update --init
+ * .cursor` so the harness is present inside it.
+ */
+export async function ensureBranchWorktree(
+  branch: string,
+  root: string,
+  options?: { createFrom?: string }
+): Promise<EnsureBranchWorktreeResult> {
+  const existing = await findWorktreeForBranch(branch);
+  if (existing) {
+    return { success: true, path: existing.path, created: false, message: `Using worktree for ${branch}: ${existing.path}` };
+  }
+
+  const path = join(root, tierWorktreeDirName(branch));
+  if (existsSync(path)) {
+    await runGitCommand('git worktree prune', 'ensureBranchWorktree-prune');
+    const registered = (await listGitWorktrees()).some((w) => samePath(w.path, path));
+    if (registered || existsSync(path)) {
+      return {
+        success: false,
+        path,
+        created: false,
+        message: `${path} already exists but does not hold ${branch}. Remove it or move it aside, then retry.`,
+      };
+    }
+  }
+
+  const safePath = path.replace(/'/g, "'\\''");
+  const safeBranch = branch.replace(/'/g, "'\\''");
+  const safeBase = options?.createFrom?.replace(/'/g, "'\\''");
+  const add = safeBase
+    ? await runGitCommand(`git worktree add -b '${safeBranch}' '${safePath}' '${safeBase}'`, 'ensureBranchWorktree-add-new')
+    : await runGitCommand(`git worktree add '${safePath}' '${safeBranch}'`, 'ensureBranchWorktree-add');
+  if (!add.success) {
+    return { success: false, path, created: false, message: `git worktree add failed: ${add.error || add.output}` };
+  }
+
+  let subNote = '';
+  const gitlink = await runGitCommand('git ls-files --stage .cursor', 'ensureBranchWorktree-gitlink', path);
+  if (gitlink.success && gitlink.output.startsWith('160000')) {
+    const sub = await runGitCommand('git submodule update --init .cursor', 'ensureBranchWorktree-submodule', path);
+    if (!sub.success) {
+      subNote = ` (.cursor submodule init failed: ${(sub.error || sub.output).trim()}; run it inside the worktree)`;
+    }
+  }
+  return {
+    success: true,
+    path,
+    created: true,
+    message: `${options?.createFrom ? `Created ${branch} from ${options.createFrom} in` : `Added worktree for ${branch} at`} ${path}${subNote}`,
+  };
+}
+
+/** The worktree this process runs in, for `.tier-scope`; null when the mode is off. */
+export async function currentTierWorktree(): Promise<{ path: string; branch: string } | null> {
+  if (!isTierWorktreeModeEnabled()) return null;
+  const branch = await getCurrentBranch();
+  return branch ? { path: resolve(PROJECT_ROOT), branch } : null;
+}
@@ -45,8 +45,16 @@ const TRANSIENT_PM_FILES = [
   '.project-manager/.git-friction-log.jsonl',
 ] as const;
 
+/** Local output directories — read in place, never committed: harness run traces, context packs, PR bundles (scripts/create-pr.ts). */
+const TRANSIENT_PM_DIRS = [
+  '.project-manager/.harness-traces/',
+  '.project-manager/context-packs/',
+  '.project-manager/pr-bundles/',
+] as const;
+
 function isTransientProjectManagerFile(filePath: string): boolean {
   const p = filePath.trim().replace(/^\.\//, '');
+  if (TRANSIENT_PM_DIRS.some((d) => p.startsWith(d) || p.startsWith(d.replace(/^\./, '')) || `${p}/` === d)) return true;
   return TRANSIENT_PM_FILES.some((t) => p === t || p === t.replace(/^\./, ''));
 }
 
@@ -170,7 +178,11 @@ async function resolveUncommittedBeforeCheckout(theirBranch?: string | null): Pr
     return { clean: true, blockingFiles: [], message: '' };
   }
 
-  const changedFiles = parsePortcelainPaths(status.output);
+  // Transient local output (logs, traces, bundles) neither blocks the switch nor gets committed
+  const changedFiles = parsePortcelainPaths(status.output).filter((f) => !isTransientProjectManagerFile(f));
+  if (changedFiles.length === 0) {
+    return { clean: true, blockingFiles: [], message: '' };
+  }
 
   const autoFiles = changedFiles.filter((f) => isAutoCommittable(f));
   const blockingFiles = changedFiles.filter((f) => !isAutoCommittable(f));
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the kernel step bridge (one workflow segment released per kernel step, cancel / abort unwinding).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createKernelStepBridge, type KernelStepBridge } from '../step-driver';
+import { currentStepSignal } from '../../utils/step-abort-signal';
+import type { StepId } from '../contracts';
+
+const ORDER: StepId[] = ['validate_identifier', 'branch_ops', 'doc_sync', 'test_ops', 'finalize'];
+
+/** Workflow that runs one segment per step in `steps`; a segment returning non-null exits the workflow. */
+function startWorkflow(
+  bridge: KernelStepBridge,
+  steps: { id: StepId; active?: boolean; body?: () => Promise<string | null> }[],
+  log: string[]
+): Promise<string> {
+  const run = (async () => {
+    for (const step of steps) {
+      const out = await bridge.driver.segment(step.id, step.active ?? true, async () => {
+        log.push(step.id);
+        return step.body ? step.body() : null;
+      });
+      if (out != null) return out;
+    }
+    return 'done';
+  })();
+  bridge.attach(run);
+  return run;
+}
+
+describe('createKernelStepBridge', () => {
+  it('releases one segment per dispatch and reports settled once the workflow returned', async () => {
+    const bridge = createKernelStepBridge(ORDER);
+    const log: string[] = [];
+    const run = startWorkflow(bridge, [{ id: 'branch_ops' }, { id: 'test_ops' }], log);
+
+    expect(await bridge.dispatch('validate_identifier')).toBe('skipped');
+    expect(bridge.hasReleased()).toBe(false);
+    expect(await bridge.dispatch('branch_ops')).toBe('ran');
+    expect(log).toEqual(['branch_ops']);
+    expect(await bridge.dispatch('doc_sync')).toBe('skipped');
+    expect(await bridge.dispatch('test_ops')).toBe('ran');
+    expect(await run).toBe('done');
+    expect(await bridge.dispatch('finalize')).toBe('settled');
+    expect(bridge.isSettled()).toBe(true);
+    expect(log).toEqual(['branch_ops', 'test_ops']);
+  });
+
+  it('skips a parked segment the kernel passed over without running its body', async () => {
+    const bridge = createKernelStepBridge(ORDER);
+    const log: string[] = [];
+    const run = startWorkflow(bridge, [{ id: 'branch_ops' }, { id: 'doc_sync' }, { id: 'test_ops', active: false }], log);
+
+    expect(await bridge.dispatch('doc_sync')).toBe('ran');
+    await run;
+    expect(log).toEqual(['doc_sync']);
+  });
+
+  it('reports exited when a segment returns a result', async () => {
+    const bridge = createKernelStepBridge(ORDER);
+    const run = startWorkflow(bridge, [{ id: 'branch_ops', body: async () => 'stop here' }, { id: 'test_ops' }], []);
+
+    expect(await bridge.dispatch('branch_ops')).toBe('exited');
+    expect(await run).toBe('stop here');
+  });
+
+  it('runs segment bodies under the dispatched signal', async () => {
+    const bridge = createKernelStepBridge(ORDER);
+    const controller = new AbortController();
+    let seen: AbortSignal | undefined;
+    startWorkflow(bridge, [{ id: 'branch_ops', body: async () => ((seen = currentStepSignal()), null) }], []);
+
+    await bridge.dispatch('branch_ops', controller.signal);
+    expect(seen).toBe(controller.signal);
+  });
+
+  it('cancel rejects the parked segment so the workflow unwinds', async () => {
+    const bridge = createKernelStepBridge(ORDER);
+    const log: string[] = [];
+    const run = startWorkflow(bridge, [{ id: 'branch_ops' }, { id: 'test_ops' }], log);
+    await bridge.dispatch('branch_ops');
+
+    const reason = new Error('stopped');
+    bridge.cancel(reason);
+    await expect(run).rejects.toBe(reason);
+    expect(log).toEqual(['branch_ops']);
+    await expect(bridge.dispatch('test_ops')).rejects.toBe(reason);
+  });
+
+  it('an aborted dispatch rejects only after the running body returned', async () => {
+    const bridge = createKernelStepBridge(ORDER);
+    const controller = new AbortController();
+    let finishBody: () => void = () => {};
+    let bodyDone = false;
+    startWorkflow(
+      bridge,
+      [
+        {
+          id: 'branch_ops',
+          body: () =>
+            new Promise<null>((resolve) => {
+              finishBody = () => {
+                bodyDone = true;
+                resolve(null);
+              };
+            }),
+        },
+        { id: 'test_ops' },
+      ],
+      []
+    ).catch(() => {});
+
+    const reason = new Error('timed out');
+    const dispatched = bridge.dispatch('branch_ops', controller.signal);
+    await new Promise((r) => setTimeout(r, 0));
+    expect(bridge.isRunning()).toBe(true);
+    controller.abort(reason);
+    await new Promise((r) => setTimeout(r, 0));
+    finishBody();
+    await expect(dispatched).rejects.toBe(reason);
+    expect(bodyDone).toBe(true);
+    expect(bridge.isRunning()).toBe(false);
+  });
+});
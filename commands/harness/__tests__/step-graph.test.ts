@@ -0,0 +1,61 @@
+/**
+ * Unit tests for kernel step graph ordering (dependsOn, cycles, unknown dependencies).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { orderStepGraph, getStepIdsForAction } from '../step-graph';
+import type { StepDefinition, StepId } from '../contracts';
+
+function def(id: StepId, dependsOn?: StepId[]): StepDefinition {
+  return { id, phase: 'main', requiredFor: ['start'], canFail: false, ...(dependsOn && { dependsOn }) };
+}
+
+const ids = (defs: StepDefinition[]): StepId[] => defs.map((d) => d.id);
+
+describe('orderStepGraph', () => {
+  it('keeps declared order when dependencies already precede their dependents', () => {
+    const defs = [def('validate_identifier'), def('branch_ops', ['validate_identifier']), def('finalize')];
+    expect(ids(orderStepGraph(defs))).toEqual(['validate_identifier', 'branch_ops', 'finalize']);
+  });
+
+  it('moves a dependency ahead of the step that needs it', () => {
+    const defs = [def('test_ops', ['branch_ops']), def('doc_sync'), def('branch_ops')];
+    expect(ids(orderStepGraph(defs))).toEqual(['branch_ops', 'test_ops', 'doc_sync']);
+  });
+
+  it('throws on a cycle', () => {
+    const defs = [def('branch_ops', ['test_ops']), def('test_ops', ['branch_ops'])];
+    expect(() => orderStepGraph(defs)).toThrow(/cycle/);
+  });
+
+  it('throws on an unknown dependency', () => {
+    expect(() => orderStepGraph([def('test_ops', ['audit_ops'])])).toThrow(
+      'Step "test_ops" depends on unknown step "audit_ops"'
+    );
+  });
+
+  it('orders the start and end graphs in the order the kernel runs them', () => {
+    expect(getStepIdsForAction('start')).toEqual([
+      'validate_identifier',
+      'load_context',
+      'plan_gate',
+      'branch_ops',
+      'doc_sync',
+      'gather_context',
+      'audit_ops',
+      'scope_update',
+      'cascade_eval',
+      'finalize',
+    ]);
+    expect(getStepIdsForAction('end')).toEqual([
+      'preflight',
+      'test_ops',
+      'doc_sync',
+      'branch_ops',
+      'audit_ops',
+      'cascade_eval',
+      'finalize',
+    ]);
+    expect(getStepIdsForAction('reopen')).toEqual(['validate_identifier']);
+  });
+});
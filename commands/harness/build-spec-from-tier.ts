@@ -22,6 +22,8 @@ export interface BuildSpecFromTierRunParams {
   userChoices?: WorkflowSpec['userChoices'];
   workProfile?: WorkProfile;
   metadata?: WorkflowSpec['metadata'];
+  previousRunSummary?: WorkflowSpec['previousRunSummary'];
+  resume?: WorkflowSpec['resume'];
   profile?: Profile;
   profileDefaults?: ProfileDefaultsResolver;
 }
@@ -63,5 +65,7 @@ export function buildSpecFromTierRun(params: BuildSpecFromTierRunParams): Workfl
       : {}),
     ...(params.workProfile != null && { workProfile: params.workProfile }),
     ...(params.metadata != null && { metadata: params.metadata }),
+    ...(params.previousRunSummary != null && { previousRunSummary: params.previousRunSummary }),
+    ...(params.resume != null && { resume: params.resume }),
   };
 }
@@ -0,0 +1,207 @@
+/**
+ * /context-pack: assemble the harness context pack for a tier unit and write it as one agent-ready markdown bundle
+ * (`.project-manager/context-packs/<tier>-<id>.md`): table of contents, per-artifact provenance, dropped appendix.
+ * Uses the same plan/build as tier runs (context-injector.ts); read-only apart from the bundle file.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname, join, resolve as resolvePath } from 'node:path';
+import type { Action, ContextPackFull, Profile, Tier, WorkflowSpec } from '../contracts';
+import { PROJECT_ROOT } from '../../utils/utils';
+import { readTierScope, type TierScopeSnapshot } from '../../utils/tier-scope-writer';
+import { buildSpecFromTierRun } from '../build-spec-from-tier';
+import { createContextInjector, createNodeFileSystemAdapter } from '../context-injector';
+import { classifyWorkProfile } from '../work-profile-classifier';
+
+/** Project-relative directory for generated bundles (local artifacts; never-commit in working-tree-policy.ts). */
+export const CONTEXT_PACKS_RELATIVE = '.project-manager/context-packs';
+
+const TIERS: readonly Tier[] = ['feature', 'phase', 'session', 'task'];
+
+export interface ContextPackParams {
+  /** Defaults to the deepest tier set in `.project-manager/.tier-scope`. */
+  tier?: Tier;
+  /** Defaults to that tier's id in `.tier-scope` (feature: feature name). */
+  identifier?: string;
+  /** Which plan to assemble; default start. */
+  action?: Extract<Action, 'start' | 'end'>;
+  profile?: Profile;
+}
+
+export interface ContextPackResult {
+  success: boolean;
+  output: string;
+  /** Project-relative bundle path when written. */
+  path?: string;
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** Fence longer than any backtick run in `content`, so bundled markdown (with its own fences) stays verbatim. */
+function fenceFor(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function scopeId(scope: TierScopeSnapshot | null, tier: Tier): string | undefined {
+  if (tier === 'feature') return scope?.feature?.name || scope?.feature?.id || undefined;
+  return scope?.[tier]?.id || undefined;
+}
+
+/** Resolve tier / identifier / feature from params, falling back to `.tier-scope`. */
+function resolveTarget(
+  params: ContextPackParams,
+  scope: TierScopeSnapshot | null
+): { tier: Tier; identifier: string; featureName: string } | { error: string } {
+  const tier = params.tier ?? [...TIERS].reverse().find((t) => scopeId(scope, t) !== undefined);
+  if (!tier) {
+    return { error: 'No tier given and `.project-manager/.tier-scope` has no active tier. Usage: `/context-pack [tier] [id]`.' };
+  }
+  const identifier = params.identifier?.trim() || scopeId(scope, tier);
+  if (!identifier) {
+    return { error: `No ${tier} id given and \`.project-manager/.tier-scope\` has no ${tier}. Usage: \`/context-pack ${tier} <id>\`.` };
+  }
+  const featureName = tier === 'feature' ? identifier : scope?.feature?.name;
+  if (!featureName) {
+    return { error: 'No feature in `.project-manager/.tier-scope`; run a tier start first or use `/context-pack feature <name>`.' };
+  }
+  return { tier, identifier, featureName };
+}
+
+/** Render the pack as one markdown document (exported for callers that prime sessions without writing a file). */
+export function formatContextPackBundle(spec: WorkflowSpec, pack: ContextPackFull, generatedAt: string): string {
+  const { artifacts, budget } = pack;
+  const lines: string[] = [
+    `# Context pack: ${spec.tier} ${spec.identifier}`,
+    '',
+    `- **Generated:** ${generatedAt}`,
+    `- **Feature:** ${spec.featureContext.featureName} · **Action:** ${spec.action} · **Profile:** ${spec.profile}`,
+    `- **Tokens:** ${budget.usedTokens} / ${budget.maxTokens} (headroom ${budget.headroom})`,
+    `- ${pack.summary}`,
+    '',
+    'Read this file instead of opening the guides, handoffs, and logs below one by one. Truncated artifacts keep their headings; open the source path for the full text.',
+    '',
+    '## Contents',
+    '',
+  ];
+  artifacts.forEach((a, i) => {
+    lines.push(`${i + 1}. [\`${a.path}\`](#artifact-${i + 1}) — ${a.kind}${a.truncated ? ' (truncated)' : ''}`);
+  });
+  if (artifacts.length === 0) lines.push('_(no artifacts fit the budget)_');
+  lines.push(`${artifacts.length + 1}. [Dropped artifacts](#dropped-artifacts) (${budget.dropped.length})`, '');
+
+  artifacts.forEach((a, i) => {
+    const fence = fenceFor(a.snippet);
+    lines.push(
+      '---',
+      '',
+      `<a id="artifact-${i + 1}"></a>`,
+      '',
+      `## ${i + 1}. \`${a.path}\``,
+      '',
+      '| Path | Kind | Score | Relevance | Freshness | Tokens | Truncated |',
+      '|------|------|-------|-----------|-----------|--------|-----------|',
+      `| \`${cell(a.path)}\` | ${a.kind} | ${a.score ?? '—'} | ${a.relevanceScore} | ${a.freshnessScore} | ${a.tokenCost} | ${a.truncated ? 'yes' : 'no'} |`,
+      '',
+      `${fence}${a.path.endsWith('.md') ? 'markdown' : ''}`,
+      a.snippet,
+      fence,
+      ''
+    );
+  });
+
+  lines.push('---', '', '<a id="dropped-artifacts"></a>', '', '## Dropped artifacts', '');
+  if (budget.dropped.length === 0) {
+    lines.push('_(none)_');
+  } else {
+    lines.push('| Artifact | Path | Reason | Score | Would cost | Detail |', '|----------|------|--------|-------|------------|--------|');
+    for (const d of budget.dropped) {
+      lines.push(
+        `| ${cell(d.artifactId)} | \`${cell(d.path)}\` | ${d.reason} | ${d.score} | ${d.wouldHaveCost} | ${cell(d.detail ?? '')} |`
+      );
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Build the context pack for a tier unit (default: current `.tier-scope`) and write the markdown bundle.
+ */
+export async function contextPack(params: ContextPackParams = {}): Promise<ContextPackResult> {
+  const target = resolveTarget(params, await readTierScope());
+  if ('error' in target) return { success: false, output: target.error };
+  const { tier, identifier, featureName } = target;
+  const action = params.action ?? 'start';
+
+  try {
+    const spec = buildSpecFromTierRun({
+      tier,
+      action,
+      identifier,
+      featureContext: { featureId: featureName, featureName },
+      mode: 'execute',
+      workProfile: classifyWorkProfile({ tier, action }),
+      ...(params.profile && { profile: params.profile }),
+    });
+    const injector = createContextInjector();
+    const pack = await injector.build(injector.plan(spec), { fs: createNodeFileSystemAdapter(PROJECT_ROOT) });
+
+    const relative = `${CONTEXT_PACKS_RELATIVE}/${tier}-${identifier.replace(/[^\w.-]/g, '_')}.md`;
+    const full = join(PROJECT_ROOT, relative);
+    await mkdir(dirname(full), { recursive: true });
+    await writeFile(full, formatContextPackBundle(spec, pack, new Date().toISOString()), 'utf-8');
+
+    const truncated = pack.artifacts.filter((a) => a.truncated).length;
+    return {
+      success: true,
+      path: relative,
+      output: [
+        `Wrote \`${relative}\``,
+        '',
+        `- **Artifacts:** ${pack.artifacts.length} (${truncated} truncated)`,
+        `- **Tokens:** ${pack.budget.usedTokens} / ${pack.budget.maxTokens}`,
+        `- **Dropped:** ${pack.budget.dropped.length}${pack.budget.dropped.length > 0 ? ` (${[...new Set(pack.budget.dropped.map((d) => d.reason))].join(', ')})` : ''}`,
+      ].join('\n'),
+    };
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { success: false, output: `Failed to build context pack for ${tier} ${identifier}: ${msg}` };
+  }
+}
+
+// ─── CLI (npx tsx) ─────────────────────────────────────────────────────────
+
+const contextPackThisFile = fileURLToPath(import.meta.url);
+const isContextPackCli =
+  typeof process !== 'undefined' &&
+  Boolean(process.argv[1]) &&
+  resolvePath(process.argv[1]!) === resolvePath(contextPackThisFile);
+
+if (isContextPackCli) {
+  void (async (): Promise<void> => {
+    const a = process.argv.slice(2);
+    const arg = (flag: string): string | undefined => {
+      const i = a.indexOf(flag);
+      return i >= 0 && a[i + 1] ? a[i + 1] : undefined;
+    };
+    const positional = a.filter((v, i) => !v.startsWith('--') && !(i > 0 && a[i - 1]!.startsWith('--')));
+    const tierRaw = positional[0];
+    if (tierRaw !== undefined && !(TIERS as readonly string[]).includes(tierRaw)) {
+      console.error('Usage: npx tsx .cursor/commands/harness/composite/context-pack-impl.ts [feature|phase|session|task] [id] [--action start|end] [--profile fast|balanced|strict|debug]');
+      process.exit(1);
+      return;
+    }
+    const actionRaw = arg('--action');
+    const result = await contextPack({
+      ...(tierRaw !== undefined && { tier: tierRaw as Tier }),
+      ...(positional[1] !== undefined && { identifier: positional[1] }),
+      ...(actionRaw === 'end' && { action: 'end' as const }),
+      ...(arg('--profile') !== undefined && { profile: arg('--profile') as Profile }),
+    });
+    console.log(result.output);
+    process.exit(result.success ? 0 : 1);
+  })();
+}
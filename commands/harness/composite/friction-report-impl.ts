@@ -0,0 +1,341 @@
+/**
+ * /friction-report: combined view of `.project-manager/WORKFLOW_FRICTION_LOG.md` and `.git-friction-log.jsonl`.
+ * Read-only over both logs; optionally writes the markdown report to `.project-manager/friction-report.md`.
+ */
+
+import { writeFile } from 'fs/promises';
+import { fileURLToPath } from 'node:url';
+import { join, resolve as resolvePath } from 'node:path';
+import { PROJECT_ROOT } from '../../utils/utils';
+import { parseReasonCode } from '../reason-code';
+import {
+  analyzeFrictionRecurrenceClusters,
+  extractWorkflowFrictionBullet,
+  filterWorkflowFrictionEntriesForHarness,
+  HARNESS_REPAIR_BULLET_ADDRESSED,
+  isFrictionEntryOpenForHarnessGate,
+  readFullWorkflowFrictionLog,
+  splitWorkflowFrictionLogFile,
+  type ParsedWorkflowFrictionEntry,
+} from '../../utils/read-workflow-friction';
+import { WORKFLOW_FRICTION_LOG_RELATIVE } from '../../utils/workflow-friction-log';
+import {
+  GIT_FRICTION_LOG_RELATIVE,
+  readGitFrictionEntries,
+  type GitFrictionEntry,
+} from '../../git/shared/git-friction-log';
+
+export const FRICTION_REPORT_RELATIVE = '.project-manager/friction-report.md';
+
+export type FrictionReportBucket = 'week' | 'month';
+
+export interface FrictionReportParams {
+  /** Only entries dated on or after this day (YYYY-MM-DD). */
+  since?: string;
+  /** Time bucket for the reason-code trend table (default `month`). */
+  bucket?: FrictionReportBucket;
+  /** Most recent buckets shown as columns; older entries fold into an "Earlier" column (default 6). */
+  buckets?: number;
+  /** Rows in the cluster and tier/step rankings (default 10). */
+  top?: number;
+  /** Also write the report to `FRICTION_REPORT_RELATIVE`. */
+  write?: boolean;
+  projectRoot?: string;
+}
+
+export interface FrictionReportResult {
+  success: boolean;
+  output: string;
+  /** Set when `write` saved the report. */
+  reportPath?: string;
+}
+
+/** One friction incident from either log, reduced to the fields the report aggregates. */
+interface FrictionRow {
+  source: 'workflow' | 'git';
+  /** YYYY-MM-DD */
+  date: string;
+  reasonCode: string;
+  tier?: string;
+  step?: string;
+  /** Workflow entries only: still open for the harness-repair gate. */
+  open?: boolean;
+  /** Workflow entries only: days from entry date to `harnessRepairAddressed`. */
+  daysToAddressed?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bullet value, with the formatter's `—` placeholder treated as absent. */
+function bullet(body: string, label: string): string | undefined {
+  const v = extractWorkflowFrictionBullet(body, label);
+  return v && v !== '—' ? v : undefined;
+}
+
+function workflowRow(entry: ParsedWorkflowFrictionEntry): FrictionRow | null {
+  const date = entry.heading.match(/^(\d{4}-\d{2}-\d{2})\b/)?.[1];
+  if (!date) return null;
+  const tier = bullet(entry.body, 'tier');
+  const action = bullet(entry.body, 'action');
+  // stepPath lists the steps the run reached; the last one is where it stopped.
+  const step = bullet(entry.body, 'stepPath')?.split(',').map((s) => s.trim()).filter(Boolean).pop();
+  const addressed = extractWorkflowFrictionBullet(entry.body, HARNESS_REPAIR_BULLET_ADDRESSED);
+  const addressedMs = addressed ? Date.parse(addressed) : NaN;
+  const elapsed = (addressedMs - Date.parse(`${date}T00:00:00Z`)) / DAY_MS;
+  return {
+    source: 'workflow',
+    date,
+    reasonCode: entry.reasonCodeNormalized?.trim() || parseReasonCode(entry.reasonCodeRaw ?? 'unknown'),
+    ...(tier && { tier: action ? `${tier} ${action}` : tier }),
+    ...(step && { step }),
+    open: isFrictionEntryOpenForHarnessGate(entry.body),
+    ...(Number.isFinite(elapsed) && elapsed >= 0 && { daysToAddressed: elapsed }),
+  };
+}
+
+function gitRow(entry: GitFrictionEntry): FrictionRow | null {
+  const date = entry.timestamp.slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  return {
+    source: 'git',
+    date,
+    reasonCode: parseReasonCode(entry.reasonCode ?? entry.failureCategory ?? 'unknown'),
+    ...(entry.tier && { tier: entry.tier }),
+    step: entry.step,
+  };
+}
+
+/** `YYYY-MM` or the Monday (UTC) starting the ISO week. */
+function bucketOf(date: string, bucket: FrictionReportBucket): string {
+  if (bucket === 'month') return date.slice(0, 7);
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function cell(value: string | undefined): string {
+  return (value ?? '—').replace(/\|/g, '\\|');
+}
+
+function days(value: number): string {
+  return `${value.toFixed(1)}d`;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function formatReasonCodeTrend(rows: FrictionRow[], bucket: FrictionReportBucket, maxBuckets: number): string[] {
+  const lines = [`## Reason codes per ${bucket}`, ''];
+  if (rows.length === 0) return [...lines, '(no entries)'];
+  const allBuckets = [...new Set(rows.map((r) => bucketOf(r.date, bucket)))].sort();
+  const shown = allBuckets.slice(-maxBuckets);
+  const hasEarlier = allBuckets.length > shown.length;
+  const counts = new Map<string, Map<string, number>>();
+  for (const r of rows) {
+    const b = bucketOf(r.date, bucket);
+    const col = shown.includes(b) ? b : 'Earlier';
+    const byBucket = counts.get(r.reasonCode) ?? new Map<string, number>();
+    byBucket.set(col, (byBucket.get(col) ?? 0) + 1);
+    counts.set(r.reasonCode, byBucket);
+  }
+  const columns = [...(hasEarlier ? ['Earlier'] : []), ...shown];
+  const total = (m: Map<string, number>): number => [...m.values()].reduce((a, b) => a + b, 0);
+  const ordered = [...counts.entries()].sort((a, b) => total(b[1]) - total(a[1]) || a[0].localeCompare(b[0]));
+  lines.push(
+    `| Reason code | ${columns.join(' | ')} | Total |`,
+    `|-------------|${columns.map(() => '---').join('|')}|-------|`
+  );
+  for (const [code, byBucket] of ordered) {
+    lines.push(`| \`${code}\` | ${columns.map((c) => byBucket.get(c) ?? 0).join(' | ')} | ${total(byBucket)} |`);
+  }
+  return lines;
+}
+
+function formatTopClusters(
+  workflow: ParsedWorkflowFrictionEntry[],
+  git: GitFrictionEntry[],
+  top: number
+): string[] {
+  const lines = ['## Top recurring clusters', ''];
+  const rows = analyzeFrictionRecurrenceClusters(workflow).map((c) => ({
+    key: c.clusterKey,
+    source: 'workflow',
+    entries: c.headings.length,
+    open: String(c.openCount),
+    closed: String(c.addressedClosedCount),
+  }));
+  const gitCounts = new Map<string, number>();
+  for (const e of git) {
+    const key = `${parseReasonCode(e.reasonCode ?? e.failureCategory ?? 'unknown')}::${e.step}`;
+    gitCounts.set(key, (gitCounts.get(key) ?? 0) + 1);
+  }
+  for (const [key, entries] of gitCounts) rows.push({ key, source: 'git', entries, open: '—', closed: '—' });
+  const recurring = rows
+    .filter((r) => r.entries >= 2)
+    .sort((a, b) => b.entries - a.entries || a.key.localeCompare(b.key))
+    .slice(0, top);
+  if (recurring.length === 0) return [...lines, '(no cluster has more than one entry)'];
+  lines.push(
+    '| Cluster | Source | Entries | Open | Previously closed |',
+    '|---------|--------|---------|------|-------------------|'
+  );
+  for (const r of recurring) {
+    lines.push(`| \`${cell(r.key)}\` | ${r.source} | ${r.entries} | ${r.open} | ${r.closed} |`);
+  }
+  return lines;
+}
+
+function formatTimeToAddressed(rows: FrictionRow[]): string[] {
+  const lines = [`## Time to \`${HARNESS_REPAIR_BULLET_ADDRESSED}\``, ''];
+  const workflow = rows.filter((r) => r.source === 'workflow');
+  const addressed = workflow.filter((r) => r.daysToAddressed !== undefined);
+  const open = workflow.filter((r) => r.open).length;
+  if (addressed.length === 0) {
+    return [...lines, `(no addressed workflow entries; ${open} open)`];
+  }
+  lines.push(
+    `- **Mean:** ${days(mean(addressed.map((r) => r.daysToAddressed!)))} over ${addressed.length} addressed entries (entry dates are day-precision, so same-day repairs count from midnight UTC).`,
+    `- **Still open:** ${open}`,
+    '',
+    '| Reason code | Addressed | Mean |',
+    '|-------------|-----------|------|'
+  );
+  const byCode = new Map<string, number[]>();
+  for (const r of addressed) byCode.set(r.reasonCode, [...(byCode.get(r.reasonCode) ?? []), r.daysToAddressed!]);
+  const ordered = [...byCode.entries()].sort((a, b) => mean(b[1]) - mean(a[1]) || a[0].localeCompare(b[0]));
+  for (const [code, values] of ordered) lines.push(`| \`${code}\` | ${values.length} | ${days(mean(values))} |`);
+  return lines;
+}
+
+function formatRanking(title: string, label: string, rows: FrictionRow[], keyOf: (r: FrictionRow) => string | undefined, top: number): string[] {
+  const lines = [`## ${title}`, ''];
+  const ranked = new Map<string, { workflow: number; git: number; open: number }>();
+  for (const r of rows) {
+    const key = keyOf(r);
+    if (!key) continue;
+    const c = ranked.get(key) ?? { workflow: 0, git: 0, open: 0 };
+    c[r.source]++;
+    if (r.open) c.open++;
+    ranked.set(key, c);
+  }
+  if (ranked.size === 0) return [...lines, '(no entries record one)'];
+  const ordered = [...ranked.entries()]
+    .sort((a, b) => b[1].workflow + b[1].git - (a[1].workflow + a[1].git) || a[0].localeCompare(b[0]))
+    .slice(0, top);
+  lines.push(`| ${label} | Total | Workflow | Git | Open |`, `|${'-'.repeat(label.length + 2)}|-------|----------|-----|------|`);
+  for (const [key, c] of ordered) {
+    lines.push(`| ${cell(key)} | ${c.workflow + c.git} | ${c.workflow} | ${c.git} | ${c.open} |`);
+  }
+  return lines;
+}
+
+/**
+ * Merge both friction logs and render reason-code trends, top recurring clusters, mean time to
+ * `harnessRepairAddressed`, and tiers / steps ranked by friction.
+ */
+export async function frictionReport(params: FrictionReportParams = {}): Promise<FrictionReportResult> {
+  const projectRoot = params.projectRoot ?? PROJECT_ROOT;
+  const bucket = params.bucket ?? 'month';
+  const maxBuckets = params.buckets ?? 6;
+  const top = params.top ?? 10;
+  const since = params.since?.trim();
+  if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+    return { success: false, output: `\`since\` must be YYYY-MM-DD (got \`${since}\`).` };
+  }
+  const inWindow = (date: string): boolean => !since || date >= since;
+
+  let workflow: ParsedWorkflowFrictionEntry[];
+  let git: GitFrictionEntry[];
+  try {
+    workflow = filterWorkflowFrictionEntriesForHarness(
+      splitWorkflowFrictionLogFile(await readFullWorkflowFrictionLog(projectRoot)).entries
+    );
+    git = await readGitFrictionEntries(projectRoot);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { success: false, output: `Failed to read friction logs: ${msg}` };
+  }
+
+  const workflowRows = workflow.map((e) => ({ entry: e, row: workflowRow(e) }));
+  const gitRows = git.map((e) => ({ entry: e, row: gitRow(e) }));
+  const workflowInWindow = workflowRows.filter((x) => x.row && inWindow(x.row.date));
+  const gitInWindow = gitRows.filter((x) => x.row && inWindow(x.row.date));
+  const rows = [...workflowInWindow, ...gitInWindow].map((x) => x.row!);
+  const undated = workflowRows.filter((x) => !x.row).length + gitRows.filter((x) => !x.row).length;
+
+  const lines: string[] = [
+    '# Friction report',
+    '',
+    `- **Sources:** \`${WORKFLOW_FRICTION_LOG_RELATIVE}\` (${workflowInWindow.length} entries), \`${GIT_FRICTION_LOG_RELATIVE}\` (${gitInWindow.length} records)`,
+    `- **Window:** ${since ? `since ${since}` : 'all entries'}`,
+  ];
+  if (undated > 0) lines.push(`- **Skipped:** ${undated} without a parseable date`);
+  lines.push(
+    '',
+    ...formatReasonCodeTrend(rows, bucket, maxBuckets),
+    '',
+    ...formatTopClusters(
+      workflowInWindow.map((x) => x.entry),
+      gitInWindow.map((x) => x.entry),
+      top
+    ),
+    '',
+    ...formatTimeToAddressed(rows),
+    '',
+    ...formatRanking('Tiers ranked by friction', 'Tier', rows, (r) => r.tier, top),
+    '',
+    ...formatRanking('Steps ranked by friction', 'Step', rows, (r) => r.step, top)
+  );
+  const output = lines.join('\n');
+
+  if (!params.write) return { success: true, output };
+  const header = `<!-- Generated by /friction-report${since ? ` since ${since}` : ''} on ${new Date().toISOString()}. Re-run to refresh. -->\n\n`;
+  try {
+    await writeFile(join(projectRoot, FRICTION_REPORT_RELATIVE), `${header}${output}\n`, 'utf8');
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { success: false, output: `${output}\n\nCould not write \`${FRICTION_REPORT_RELATIVE}\`: ${msg}` };
+  }
+  return {
+    success: true,
+    output: `${output}\n\nReport file: \`${FRICTION_REPORT_RELATIVE}\``,
+    reportPath: FRICTION_REPORT_RELATIVE,
+  };
+}
+
+// ─── CLI (npx tsx) ─────────────────────────────────────────────────────────
+
+const frictionReportThisFile = fileURLToPath(import.meta.url);
+const isFrictionReportCli =
+  typeof process !== 'undefined' &&
+  Boolean(process.argv[1]) &&
+  resolvePath(process.argv[1]!) === resolvePath(frictionReportThisFile);
+
+if (isFrictionReportCli) {
+  void (async (): Promise<void> => {
+    const a = process.argv;
+    const arg = (flag: string): string | undefined => {
+      const i = a.indexOf(flag);
+      return i >= 0 && a[i + 1] ? a[i + 1] : undefined;
+    };
+    const bucket = arg('--bucket');
+    const topRaw = arg('--top');
+    const top = topRaw !== undefined ? Number.parseInt(topRaw, 10) : undefined;
+    if ((bucket !== undefined && bucket !== 'week' && bucket !== 'month') || (top !== undefined && !(top > 0))) {
+      console.error(
+        'Usage: npx tsx .cursor/commands/harness/composite/friction-report-impl.ts [--since <YYYY-MM-DD>] [--bucket week|month] [--top <n>] [--write]'
+      );
+      process.exit(1);
+      return;
+    }
+    const r = await frictionReport({
+      since: arg('--since'),
+      ...(bucket && { bucket: bucket as FrictionReportBucket }),
+      top,
+      write: a.includes('--write'),
+    });
+    console.log(r.output);
+    process.exit(r.success ? 0 : 1);
+  })();
+}
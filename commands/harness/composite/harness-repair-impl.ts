@@ -5,7 +5,7 @@
 
 import { unlink, writeFile } from 'fs/promises';
 import { fileURLToPath } from 'node:url';
-import { join, resolve as resolvePath } from 'node:path';
+import { join, relative, resolve as resolvePath } from 'node:path';
 import { WorkflowCommandContext } from '../../utils/command-context';
 import type { TierName } from '../../utils/workflow-scope';
 import type { TierParamsBag } from '../../utils/workflow-scope';
@@ -34,6 +34,10 @@ import {
   runGitCommand,
 } from '../../git/shared/git-manager';
 import { getWorkflowFrictionLogPath, WORKFLOW_FRICTION_LOG_RELATIVE } from '../../utils/workflow-friction-log';
+import {
+  FRICTION_REGRESSION_FIXTURES_DIR,
+  writeFrictionRegressionFixtures,
+} from '../../tiers/shared/control-plane-friction-fixtures';
 
 export interface HarnessRepairParams {
   featureId: string;
@@ -53,6 +57,11 @@ export interface HarnessRepairParams {
   note?: string;
   runSubmoduleCommit?: boolean;
   submoduleCommitMessage?: string;
+  /**
+   * Execute only: write a routing regression fixture per addressed entry (tiers/shared/control-plane-friction-fixtures.ts).
+   * Fixtures live in `.cursor`, so pair with `runSubmoduleCommit` to commit them with the repair.
+   */
+  emitRegressionFixtures?: boolean;
   projectRoot?: string;
 }
 
@@ -289,6 +298,22 @@ export async function harnessRepair(params: HarnessRepairParams): Promise<Harnes
     }
   }
 
+  const iso = new Date().toISOString();
+  const fixtureLines: string[] = [];
+  if (params.emitRegressionFixtures === true) {
+    const fixtures = await writeFrictionRegressionFixtures(
+      entries.filter((e) => target.has(e.heading)),
+      iso
+    );
+    if (fixtures.written.length > 0) {
+      fixtureLines.push(
+        `Regression fixtures in \`${relative(projectRoot, FRICTION_REGRESSION_FIXTURES_DIR)}\`: ${fixtures.written.map((f) => `\`${f}\``).join(', ')}.` +
+          (params.runSubmoduleCommit === true ? '' : ' Not committed: commit the `.cursor` submodule to keep them.')
+      );
+    }
+    for (const s of fixtures.skipped) fixtureLines.push(`No regression fixture for ${s}.`);
+  }
+
   let subShaOut = '—';
   if (params.runSubmoduleCommit === true) {
     const msg =
@@ -314,7 +339,6 @@ export async function harnessRepair(params: HarnessRepairParams): Promise<Harnes
     }
   }
 
-  const iso = new Date().toISOString();
   const note = params.note?.trim() || '(no note)';
   const block = formatHarnessRepairAddressedBlock({
     isoTime: iso,
@@ -359,6 +383,7 @@ export async function harnessRepair(params: HarnessRepairParams): Promise<Harnes
       `Note: no \`parentRepoCommit: pending\` lines found to stamp (file unchanged after stamp pass).`,
     ];
     if (removeWarn) lines.push(removeWarn);
+    lines.push(...fixtureLines);
     return {
       success: true,
       output: lines.join('\n\n'),
@@ -386,6 +411,7 @@ export async function harnessRepair(params: HarnessRepairParams): Promise<Harnes
     commit2.output,
   ];
   if (removeWarn) outParts.push(removeWarn);
+  outParts.push(...fixtureLines);
   return {
     success: true,
     output: outParts.join('\n\n'),
@@ -436,10 +462,11 @@ if (isHarnessRepairCli) {
     const runSubmoduleCommit = a.includes('--commit-submodule');
     const sm = a.indexOf('--submodule-message');
     const submoduleCommitMessage = sm >= 0 && a[sm + 1] ? a[sm + 1] : undefined;
+    const emitRegressionFixtures = a.includes('--emit-fixtures');
 
     if (!featureId.trim()) {
       console.error(
-        'Usage: npx tsx .cursor/commands/harness/composite/harness-repair-impl.ts --feature <id> [--session <sid>|--phase <pid>|--task <tid>] [--plan|--execute --confirm --headings "h1,h2" [--note "…"] [--commit-submodule] [--submodule-message "…"]]'
+        'Usage: npx tsx .cursor/commands/harness/composite/harness-repair-impl.ts --feature <id> [--session <sid>|--phase <pid>|--task <tid>] [--plan|--execute --confirm --headings "h1,h2" [--note "…"] [--commit-submodule] [--submodule-message "…"] [--emit-fixtures]]'
       );
       process.exit(1);
       return;
@@ -457,6 +484,7 @@ if (isHarnessRepairCli) {
       note,
       runSubmoduleCommit: execute ? runSubmoduleCommit : undefined,
       submoduleCommitMessage,
+      emitRegressionFixtures: execute ? emitRegressionFixtures : undefined,
     });
     console.log(r.output);
     process.exit(r.success ? 0 : 1);
@@ -0,0 +1,216 @@
+/**
+ * /harness-trace: list and inspect persisted harness run traces (`.project-manager/.harness-traces/`).
+ * Read-only; traces are written by the file-backed RunRecorder (harness/run-recorder-file.ts).
+ */
+
+import { fileURLToPath } from 'node:url';
+import { resolve as resolvePath } from 'node:path';
+import { PROJECT_ROOT } from '../../utils/utils';
+import {
+  HARNESS_TRACES_RELATIVE,
+  listStoredTraces,
+  readStoredTrace,
+  type StoredTraceRecord,
+  type TraceSummary,
+} from '../run-trace-store';
+import { planResumeFromTrace } from '../resume-from-trace';
+
+export interface HarnessTraceParams {
+  /** When set, pretty-print this trace; filters are ignored. */
+  traceId?: string;
+  tier?: string;
+  identifier?: string;
+  reasonCode?: string;
+  limit?: number;
+  projectRoot?: string;
+}
+
+export interface HarnessTraceResult {
+  success: boolean;
+  output: string;
+}
+
+function cell(value: string | undefined): string {
+  return (value ?? '—').replace(/\|/g, '\\|');
+}
+
+function formatTraceList(summaries: TraceSummary[], params: HarnessTraceParams): string {
+  const filters = [
+    params.tier && `tier=${params.tier}`,
+    params.identifier && `identifier=${params.identifier}`,
+    params.reasonCode && `reasonCode=${params.reasonCode}`,
+  ].filter(Boolean);
+  const heading = ['# Harness traces', '', filters.length > 0 ? `**Filter:** ${filters.join(', ')}` : '**Filter:** (none)', ''];
+  if (summaries.length === 0) {
+    return [...heading, `(no traces in \`${HARNESS_TRACES_RELATIVE}\` match)`].join('\n');
+  }
+  const rows = summaries.map((s) => {
+    const outcome = !s.complete ? '_incomplete_' : s.success ? 'ok' : 'failed';
+    return `| \`${s.traceId}\` | ${cell(s.startedAt)} | ${cell(s.tier)} ${cell(s.action)} | ${cell(s.identifier)} | ${cell(s.mode)} | ${outcome} | ${cell(s.reasonCode)} | ${s.stepPath?.length ?? 0} |`;
+  });
+  return [
+    ...heading,
+    '| Trace | Started | Tier / action | Identifier | Mode | Result | Reason code | Steps |',
+    '|-------|---------|---------------|------------|------|--------|-------------|-------|',
+    ...rows,
+    '',
+    'Show one trace: `npx tsx .cursor/commands/harness/composite/harness-trace-impl.ts --show <traceId>`',
+  ].join('\n');
+}
+
+function formatDetails(details: Record<string, unknown> | undefined, diagnostics: string[] | undefined): string {
+  const parts: string[] = [];
+  if (details && Object.keys(details).length > 0) parts.push(JSON.stringify(details));
+  if (diagnostics && diagnostics.length > 0) parts.push(diagnostics.join('; '));
+  return cell(parts.join(' · ') || undefined);
+}
+
+function formatTraceDetail(record: StoredTraceRecord): string {
+  const spec = record.spec;
+  const result = record.result;
+  const lines: string[] = [
+    `# Harness trace \`${record.traceId}\``,
+    '',
+    `- **Run:** \`${record.runId}\``,
+    `- **Tier / action:** ${spec.tier} ${spec.action} \`${spec.identifier}\``,
+    `- **Mode / profile:** ${spec.mode ?? '—'} / ${spec.profile ?? '—'}`,
+    `- **Started:** ${record.startedAt}${record.endedAt ? ` · **Ended:** ${record.endedAt}` : ''}`,
+  ];
+  if (spec.metadata?.note) lines.push(`- **Note:** ${spec.metadata.note}`);
+  if (spec.metadata?.parentTraceId) lines.push(`- **Parent trace:** \`${spec.metadata.parentTraceId}\``);
+  if (result) {
+    lines.push(
+      `- **Result:** ${result.success ? 'success' : 'failure'} · **reasonCode:** \`${result.outcome?.reasonCode ?? '—'}\``,
+      `- **Step path:** ${record.stepPath && record.stepPath.length > 0 ? record.stepPath.join(' → ') : '(empty)'}`,
+      `- **Step path checksum:** \`${record.stepPathChecksum ?? '—'}\``
+    );
+    if (result.outcome?.nextAction) lines.push(`- **Next action:** ${result.outcome.nextAction}`);
+  } else {
+    lines.push('- **Result:** _incomplete_ (run never reached recorder.end)');
+  }
+  const resumePlan = planResumeFromTrace(record);
+  if (typeof resumePlan !== 'string') {
+    lines.push(
+      `- **Resume:** re-enters at \`${resumePlan.resume.fromStep}\` — \`npx tsx .cursor/commands/harness/resume-from-trace.ts ${record.traceId}\` (add \`--skip-step\` to skip it)`
+    );
+  }
+
+  lines.push('', '## Step events', '');
+  if (record.stepEvents.length === 0) {
+    lines.push('(none)');
+  } else {
+    lines.push('| # | Time | Step | Phase | Duration | Reason code | Details |', '|---|------|------|-------|----------|-------------|---------|');
+    record.stepEvents.forEach((e, i) => {
+      const duration = e.durationMs !== undefined ? `${e.durationMs}ms` : '—';
+      lines.push(
+        `| ${i + 1} | ${e.ts} | ${cell(e.step)} | ${e.phase} | ${duration} | ${cell(e.reasonCode)} | ${formatDetails(e.details, e.pluginDiagnostics)} |`
+      );
+    });
+  }
+
+  const pluginDiagnostics = result?.pluginDiagnostics ?? [];
+  if (pluginDiagnostics.length > 0) {
+    lines.push('', '## Plugin diagnostics', '');
+    for (const d of pluginDiagnostics) {
+      const where = d.step ? ` @ ${d.step}` : '';
+      const tag = d.rejected ? ` _(rejected: needs \`${d.rejected.capability}\`)_` : '';
+      lines.push(`- **${d.plugin}**${where}: ${d.message}${tag}`);
+    }
+  }
+
+  lines.push('', '## Control-plane decision', '');
+  if (record.decision) {
+    const d = record.decision;
+    lines.push(
+      `- **Stop:** ${d.stop} · **Required mode:** ${d.requiredMode}${d.questionKey ? ` · **Question:** \`${d.questionKey}\`` : ''}`
+    );
+    if (d.cascadeCommand) lines.push(`- **Cascade:** \`${d.cascadeCommand}\``);
+    lines.push('', d.message);
+  } else {
+    lines.push('(none recorded)');
+  }
+
+  lines.push('', '## Context report', '');
+  const pack = record.contextPack;
+  if (!pack) {
+    lines.push('(none recorded)');
+  } else {
+    if (pack.summary) lines.push(pack.summary, '');
+    if (pack.budget) {
+      lines.push(`- **Tokens:** ${pack.budget.usedTokens} / ${pack.budget.maxTokens}`);
+      const dropped = pack.budget.dropped ?? [];
+      if (dropped.length > 0) {
+        lines.push('', '| Dropped artifact | Reason | Score | Would cost | Detail |', '|------------------|--------|-------|------------|--------|');
+        for (const a of dropped) {
+          lines.push(`| \`${cell(a.path)}\` | ${a.reason} | ${a.score} | ${a.wouldHaveCost} | ${cell(a.detail ?? '')} |`);
+        }
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * List traces (newest first, optional filters) or pretty-print one trace with step events, decision, and context report.
+ */
+export async function harnessTrace(params: HarnessTraceParams = {}): Promise<HarnessTraceResult> {
+  const projectRoot = params.projectRoot ?? PROJECT_ROOT;
+  try {
+    if (params.traceId?.trim()) {
+      const record = await readStoredTrace(projectRoot, params.traceId.trim());
+      if (!record) {
+        return {
+          success: false,
+          output: `No trace \`${params.traceId.trim()}\` in \`${HARNESS_TRACES_RELATIVE}\` (expired by retention, or never written).`,
+        };
+      }
+      return { success: true, output: formatTraceDetail(record) };
+    }
+    const summaries = await listStoredTraces(projectRoot, {
+      tier: params.tier,
+      identifier: params.identifier,
+      reasonCode: params.reasonCode,
+      limit: params.limit,
+    });
+    return { success: true, output: formatTraceList(summaries, params) };
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { success: false, output: `Failed to read ${HARNESS_TRACES_RELATIVE}: ${msg}` };
+  }
+}
+
+// ─── CLI (npx tsx) ─────────────────────────────────────────────────────────
+
+const harnessTraceThisFile = fileURLToPath(import.meta.url);
+const isHarnessTraceCli =
+  typeof process !== 'undefined' &&
+  Boolean(process.argv[1]) &&
+  resolvePath(process.argv[1]!) === resolvePath(harnessTraceThisFile);
+
+if (isHarnessTraceCli) {
+  void (async (): Promise<void> => {
+    const a = process.argv;
+    const arg = (flag: string): string | undefined => {
+      const i = a.indexOf(flag);
+      return i >= 0 && a[i + 1] ? a[i + 1] : undefined;
+    };
+    const limitRaw = arg('--limit');
+    const limit = limitRaw !== undefined ? Number.parseInt(limitRaw, 10) : undefined;
+    if (limit !== undefined && (!Number.isFinite(limit) || limit <= 0)) {
+      console.error(
+        'Usage: npx tsx .cursor/commands/harness/composite/harness-trace-impl.ts [--tier <tier>] [--id <identifier>] [--reason <reasonCode>] [--limit <n>] | --show <traceId>'
+      );
+      process.exit(1);
+      return;
+    }
+    const r = await harnessTrace({
+      traceId: arg('--show'),
+      tier: arg('--tier'),
+      identifier: arg('--id'),
+      reasonCode: arg('--reason'),
+      limit,
+    });
+    console.log(r.output);
+    process.exit(r.success ? 0 : 1);
+  })();
+}
@@ -1,10 +1,12 @@
 /**
  * ContextInjector: two-phase context planning and building (charter §7.6).
  * plan() is deterministic; build() reads files and produces ContextPack with dropped-artifact report.
- * Required-artifact overflow logs warnings only (telemetry-only enforcement).
+ * Budget is enforced with a token estimate of the actual content (token-estimator.ts): required artifacts first,
+ * then candidates ranked by relevanceScore/freshnessScore. Oversized docs are truncated (markdown guides, handoffs,
+ * and logs keep every heading); what cannot fit is dropped with an exact reason. usedTokens never exceeds maxTokens.
  */
 
-import { readFile, access } from 'fs/promises';
+import { readFile, access, stat } from 'fs/promises';
 import { join } from 'path';
 import type {
   WorkflowSpec,
@@ -15,10 +17,35 @@ import type {
   ContextArtifact,
   DroppedArtifact,
   ContextInjector,
+  ContextArtifactKind,
+  TokenEstimator,
 } from './contracts';
 import { getWorkProfileContextArtifacts } from './work-profile-context';
+import { resolveTokenEstimator } from './token-estimator';
 
 const DEFAULT_ESTIMATE_PER_ARTIFACT = 500;
+/** Relevance when the request does not set relevanceScore. */
+const PRIORITY_RELEVANCE: Record<ArtifactRequest['priority'], number> = {
+  required: 1,
+  high: 0.9,
+  medium: 0.6,
+  low: 0.3,
+};
+const RELEVANCE_WEIGHT = 0.7;
+const FRESHNESS_WEIGHT = 0.3;
+/** Freshness when the adapter cannot report mtime (and the path is not dirty in git). */
+const DEFAULT_FRESHNESS = 0.5;
+const FRESHNESS_HALF_LIFE_DAYS = 14;
+/** Medium/low candidates below this freshness (~2 months untouched) are dropped as stale. */
+const STALE_FRESHNESS = 0.05;
+/** Candidates ranked below this are dropped as low_relevance. */
+const MIN_CANDIDATE_SCORE = 0.2;
+/** One artifact may take at most max(estimatedTokens, this share of maxTokens). */
+const MAX_ARTIFACT_SHARE = 0.35;
+/** A truncated snippet smaller than this is not worth including. */
+const MIN_SNIPPET_TOKENS = 40;
+/** Markdown kinds truncated section by section (headings always kept). */
+const SECTION_AWARE_KINDS: ReadonlySet<ContextArtifactKind> = new Set(['tier_guide', 'tier_handoff', 'tier_log']);
 
 /** Build a deterministic plan from spec: required + scored candidates and budget. */
 function buildPlanFromSpec(spec: WorkflowSpec): ContextInjectionPlan {
@@ -103,138 +130,281 @@ function buildPlanFromSpec(spec: WorkflowSpec): ContextInjectionPlan {
   };
 }
 
-/** Dedup by artifactId before scoring (charter: dedup rules enforced before scoring). */
-function dedupRequests(requests: ArtifactRequest[]): ArtifactRequest[] {
-  const seen = new Set<string>();
-  return requests.filter((r) => {
-    if (seen.has(r.artifactId)) return false;
-    seen.add(r.artifactId);
-    return true;
-  });
+/** Options for createContextInjector; defaults resolve the estimator from the project (BPE table or heuristic). */
+export interface ContextInjectorOptions {
+  estimator?: TokenEstimator;
+  clock?: () => number;
+}
+
+type LoadedArtifact = {
+  req: ArtifactRequest;
+  content: string;
+  relevance: number;
+  freshness: number;
+  score: number;
+};
+
+type LoadFailure = { req: ArtifactRequest; reason: 'not_found' | 'read_error'; detail: string };
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+/** Freshness 0–1: 1 for paths dirty in git, else half-life decay on mtime, else DEFAULT_FRESHNESS. */
+async function freshnessOf(path: string, sources: ContextSources, dirty: ReadonlySet<string>, now: number): Promise<number> {
+  if (dirty.has(path)) return 1;
+  if (!sources.fs.mtimeMs) return DEFAULT_FRESHNESS;
+  try {
+    const ageDays = Math.max(0, now - (await sources.fs.mtimeMs(path))) / 86_400_000;
+    return round2(0.5 ** (ageDays / FRESHNESS_HALF_LIFE_DAYS));
+  } catch {
+    return DEFAULT_FRESHNESS;
+  }
+}
+
+async function loadArtifact(
+  req: ArtifactRequest,
+  sources: ContextSources,
+  dirty: ReadonlySet<string>,
+  now: number
+): Promise<LoadedArtifact | LoadFailure> {
+  let content: string;
+  try {
+    if (!(await sources.fs.exists(req.path))) {
+      return { req, reason: 'not_found', detail: `${req.path} does not exist` };
+    }
+    content = await sources.fs.readFile(req.path);
+  } catch (e) {
+    return { req, reason: 'read_error', detail: e instanceof Error ? e.message : String(e) };
+  }
+  const relevance = req.relevanceScore ?? PRIORITY_RELEVANCE[req.priority];
+  const freshness = await freshnessOf(req.path, sources, dirty, now);
+  const score = req.priority === 'required' ? 1 : round2(RELEVANCE_WEIGHT * relevance + FRESHNESS_WEIGHT * freshness);
+  return { req, content, relevance, freshness, score };
+}
+
+/** Longest prefix (cut at a line break or space when possible) whose estimate plus `marker` fits in `cap`. */
+function truncateToTokens(text: string, cap: number, estimator: TokenEstimator, marker: string): string | null {
+  let lo = 0;
+  let hi = text.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (estimator.estimate(text.slice(0, mid) + marker) <= cap) lo = mid;
+    else hi = mid - 1;
+  }
+  if (lo === 0) return null;
+  const nl = text.lastIndexOf('\n', lo);
+  const ws = text.lastIndexOf(' ', lo);
+  const cut = nl > lo / 2 ? nl : ws > lo / 2 ? ws : lo;
+  return text.slice(0, cut).trimEnd() + marker;
 }
 
 /**
- * Default ContextInjector. plan() returns required + scored with budget; build() reads via sources, fills budget, reports dropped.
+ * Keep every heading; fill section bodies in document order until `cap`, truncating the first body that
+ * does not fit and eliding the rest (one trailing marker counts them). Falls back to plain truncation when the headings alone do not fit.
  */
+function truncateMarkdownSections(content: string, cap: number, estimator: TokenEstimator): string | null {
+  const sections: Array<{ heading: string | null; body: string[] }> = [{ heading: null, body: [] }];
+  let inFence = false;
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && /^#{1,6}\s/.test(line)) sections.push({ heading: line, body: [] });
+    else sections[sections.length - 1]!.body.push(line);
+  }
+  const headings = sections.flatMap((s) => (s.heading ? [s.heading] : []));
+  let used = estimator.estimate(headings.join('\n'));
+  if (used > cap) return truncateToTokens(content, cap, estimator, '\n… (truncated)');
+
+  const out: string[] = [];
+  let full = true;
+  let elided = 0;
+  const reserve = estimator.estimate(`… (${sections.length} section bodies elided)`);
+  for (const section of sections) {
+    if (section.heading) out.push(section.heading);
+    const body = section.body.join('\n');
+    if (body.trim() === '') continue;
+    if (!full) {
+      elided++;
+      continue;
+    }
+    const cost = estimator.estimate(body);
+    if (used + cost <= cap - reserve) {
+      out.push(body);
+      used += cost;
+      continue;
+    }
+    full = false;
+    const partial = truncateToTokens(body, cap - used - reserve, estimator, '\n… (truncated)');
+    if (partial) {
+      out.push(partial);
+      used += estimator.estimate(partial);
+    } else {
+      elided++;
+    }
+  }
+  if (elided > 0) out.push(`… (${elided} section bodies elided)`);
+  const result = out.join('\n');
+  // Per-part sums can undercount at joins; re-check the whole snippet.
+  return estimator.estimate(result) <= cap ? result : truncateToTokens(result, cap, estimator, '\n… (truncated)');
+}
+
+/** Fit content in `cap` tokens: whole, truncated (section-aware for markdown docs), or null when nothing useful fits. */
+function fitContent(
+  content: string,
+  kind: ContextArtifactKind,
+  cap: number,
+  estimator: TokenEstimator
+): { snippet: string; tokens: number; truncated: boolean } | null {
+  const tokens = estimator.estimate(content);
+  if (tokens <= cap) return { snippet: content, tokens, truncated: false };
+  if (cap < MIN_SNIPPET_TOKENS) return null;
+  const snippet = SECTION_AWARE_KINDS.has(kind)
+    ? truncateMarkdownSections(content, cap, estimator)
+    : truncateToTokens(content, cap, estimator, '\n… (truncated)');
+  if (snippet == null) return null;
+  return { snippet, tokens: estimator.estimate(snippet), truncated: true };
+}
+
 /** Node.js FileSystemAdapter using fs/promises; paths are relative to project root. */
 export function createNodeFileSystemAdapter(projectRoot: string): import('./contracts').FileSystemAdapter {
+  const resolve = (path: string): string => (path.startsWith('/') ? path : join(projectRoot, path));
   return {
     async readFile(path: string): Promise<string> {
-      const full = path.startsWith('/') ? path : join(projectRoot, path);
-      return readFile(full, 'utf-8');
+      return readFile(resolve(path), 'utf-8');
     },
     async exists(path: string): Promise<boolean> {
-      const full = path.startsWith('/') ? path : join(projectRoot, path);
       try {
-        await access(full);
+        await access(resolve(path));
         return true;
       } catch {
         return false;
       }
     },
+    async mtimeMs(path: string): Promise<number> {
+      return (await stat(resolve(path))).mtimeMs;
+    },
   };
 }
 
-export function createContextInjector(): ContextInjector {
+/**
+ * Default ContextInjector. plan() returns required + scored with budget; build() reads via sources, ranks
+ * candidates, fits the token budget (truncating where useful), and reports every dropped artifact with its reason.
+ */
+export function createContextInjector(opts: ContextInjectorOptions = {}): ContextInjector {
+  const clock = opts.clock ?? Date.now;
+  let estimator: TokenEstimator | undefined = opts.estimator;
+
   return {
     plan(spec: WorkflowSpec): ContextInjectionPlan {
       return buildPlanFromSpec(spec);
     },
 
     async build(plan: ContextInjectionPlan, sources: ContextSources): Promise<ContextPackFull> {
+      estimator ??= await resolveTokenEstimator(sources.fs);
+      const est = estimator;
+      const now = clock();
       const dropped: DroppedArtifact[] = [];
       const artifacts: ContextArtifact[] = [];
       let usedTokens = 0;
-      const maxTokens = plan.budget.maxTokens;
-
-      const required = dedupRequests(plan.requiredArtifacts);
-      const scored = dedupRequests(plan.scoredCandidates);
+      let codeFiles = 0;
+      const { maxTokens, maxArtifacts, maxFiles } = plan.budget;
+      const dirty = new Set(sources.git ? await sources.git.getDirtyPaths().catch(() => []) : []);
 
-      for (const req of required) {
-        const cost = req.estimatedTokens ?? DEFAULT_ESTIMATE_PER_ARTIFACT;
-        if (usedTokens + cost > maxTokens) {
+      // Dedup by artifactId before scoring (charter); required wins over a candidate with the same id.
+      const seen = new Set<string>();
+      const unique = (reqs: ArtifactRequest[]): ArtifactRequest[] =>
+        reqs.filter((r) => {
+          if (!seen.has(r.artifactId)) {
+            seen.add(r.artifactId);
+            return true;
+          }
           dropped.push({
-            artifactId: req.artifactId,
-            path: req.path,
-            reason: 'over_budget',
-            score: 1,
-            wouldHaveCost: cost,
+            artifactId: r.artifactId,
+            path: r.path,
+            reason: 'duplicate',
+            score: 0,
+            wouldHaveCost: 0,
+            detail: `artifactId ${r.artifactId} already planned`,
           });
-          if (typeof console !== 'undefined' && console.warn) {
-            console.warn(
-              `[ContextInjector] Required artifact overflow (telemetry only): ${req.artifactId} would exceed budget; logged as dropped.`
-            );
+          return false;
+        });
+      const required = unique(plan.requiredArtifacts);
+      const scored = unique(plan.scoredCandidates);
+
+      const place = (a: LoadedArtifact): void => {
+        const fullCost = est.estimate(a.content);
+        const drop = (reason: DroppedArtifact['reason'], detail: string): void => {
+          dropped.push({ artifactId: a.req.artifactId, path: a.req.path, reason, score: a.score, wouldHaveCost: fullCost, detail });
+          if (a.req.priority === 'required') {
+            console.warn(`[ContextInjector] Required artifact dropped: ${a.req.artifactId} (${reason}: ${detail}).`);
           }
-          continue;
+        };
+        if (artifacts.length >= maxArtifacts) {
+          drop('artifact_limit', `maxArtifacts ${maxArtifacts} reached`);
+          return;
         }
-        try {
-          const exists = await sources.fs.exists(req.path);
-          const snippet = exists ? (await sources.fs.readFile(req.path)).slice(0, 2000) : '';
-          usedTokens += cost;
-          artifacts.push({
-            artifactId: req.artifactId,
-            path: req.path,
-            kind: req.kind,
-            relevanceScore: 1,
-            freshnessScore: 1,
-            snippet,
-            tokenCost: cost,
-          });
-        } catch {
-          dropped.push({
-            artifactId: req.artifactId,
-            path: req.path,
-            reason: 'over_budget',
-            score: 1,
-            wouldHaveCost: cost,
-          });
+        if (a.req.kind === 'code_file' && codeFiles >= maxFiles) {
+          drop('artifact_limit', `maxFiles ${maxFiles} reached`);
+          return;
         }
-      }
+        const remaining = maxTokens - usedTokens;
+        const share = Math.max(a.req.estimatedTokens ?? DEFAULT_ESTIMATE_PER_ARTIFACT, Math.floor(maxTokens * MAX_ARTIFACT_SHARE));
+        const fit = fitContent(a.content, a.req.kind, Math.min(remaining, share), est);
+        if (!fit) {
+          drop('over_budget', `needs ${fullCost} tokens, ${remaining} of ${maxTokens} left`);
+          return;
+        }
+        usedTokens += fit.tokens;
+        if (a.req.kind === 'code_file') codeFiles++;
+        artifacts.push({
+          artifactId: a.req.artifactId,
+          path: a.req.path,
+          kind: a.req.kind,
+          relevanceScore: a.relevance,
+          freshnessScore: a.freshness,
+          score: a.score,
+          snippet: fit.snippet,
+          tokenCost: fit.tokens,
+          ...(fit.truncated && { truncated: true }),
+        });
+      };
 
-      for (const cand of scored) {
-        const cost = cand.estimatedTokens ?? DEFAULT_ESTIMATE_PER_ARTIFACT;
-        if (usedTokens + cost > maxTokens) {
-          dropped.push({
-            artifactId: cand.artifactId,
-            path: cand.path,
-            reason: 'over_budget',
-            score: 0.5,
-            wouldHaveCost: cost,
-          });
-          continue;
+      const load = async (reqs: ArtifactRequest[]): Promise<LoadedArtifact[]> => {
+        const loaded: LoadedArtifact[] = [];
+        for (const req of reqs) {
+          const r = await loadArtifact(req, sources, dirty, now);
+          if ('content' in r) loaded.push(r);
+          else dropped.push({ artifactId: req.artifactId, path: req.path, reason: r.reason, score: 0, wouldHaveCost: 0, detail: r.detail });
         }
-        try {
-          const exists = await sources.fs.exists(cand.path);
-          const snippet = exists ? (await sources.fs.readFile(cand.path)).slice(0, 2000) : '';
-          usedTokens += cost;
-          artifacts.push({
-            artifactId: cand.artifactId,
-            path: cand.path,
-            kind: cand.kind,
-            relevanceScore: 0.8,
-            freshnessScore: 0.9,
-            snippet,
-            tokenCost: cost,
-          });
-        } catch {
-          dropped.push({
-            artifactId: cand.artifactId,
-            path: cand.path,
-            reason: 'low_relevance',
-            score: 0.3,
-            wouldHaveCost: cost,
-          });
+        return loaded;
+      };
+
+      for (const a of await load(required)) place(a);
+
+      const candidates = (await load(scored))
+        .map((a, order) => ({ a, order }))
+        .sort((x, y) => y.a.score - x.a.score || x.order - y.order)
+        .map(({ a }) => a);
+      for (const a of candidates) {
+        const cost = est.estimate(a.content);
+        const base = { artifactId: a.req.artifactId, path: a.req.path, score: a.score, wouldHaveCost: cost };
+        if (a.score < MIN_CANDIDATE_SCORE) {
+          dropped.push({ ...base, reason: 'low_relevance', detail: `score ${a.score} < ${MIN_CANDIDATE_SCORE}` });
+        } else if (a.req.priority !== 'high' && a.freshness < STALE_FRESHNESS) {
+          dropped.push({ ...base, reason: 'stale', detail: `freshness ${a.freshness} < ${STALE_FRESHNESS}` });
+        } else {
+          place(a);
         }
       }
 
-      const headroom = Math.max(0, maxTokens - usedTokens);
+      const truncated = artifacts.filter((a) => a.truncated).length;
       return {
-        summary: `Context pack: ${artifacts.length} artifacts, ${usedTokens} tokens used, ${dropped.length} dropped.`,
+        summary:
+          `Context pack: ${artifacts.length} artifacts (${truncated} truncated), ${usedTokens}/${maxTokens} tokens ` +
+          `(${est.name} estimate), ${dropped.length} dropped.`,
         artifacts,
         budget: {
           usedTokens,
           maxTokens,
-          headroom,
+          headroom: maxTokens - usedTokens,
           dropped,
         },
       };
@@ -71,8 +71,22 @@ export interface WorkflowSpec {
   };
   /** Optional work classifier; when absent, defaults derived from tier+action. WorkflowCommandContext owns scope. */
   workProfile?: import('./work-profile').WorkProfile;
+  /** Set when re-entering a failed run from its trace (harness/resume-from-trace.ts); kernel restores completedSteps. */
+  resume?: RunResumeState;
 }
 
+/** Kernel re-entry point for a resumed run; completed steps before fromStep are restored instead of re-run. */
+export interface RunResumeState {
+  fromStep: StepId;
+  completedSteps: Partial<Record<StepId, { durationMs: number }>>;
+  /** Steps before fromStep the user chose to skip (e.g. after step_timeout); recorded as skip and satisfy dependents. */
+  skippedSteps?: StepId[];
+}
+
+/** Spec fields a resumed run carries into buildSpecFromTierRun (child trace of the failed run). */
+export type ResumeSpecFields = Required<Pick<WorkflowSpec, 'resume' | 'previousRunSummary'>> &
+  Pick<WorkflowSpec, 'metadata'>;
+
 // --- Step graph (charter §7.2) ---
 export type StepId =
   | 'validate_identifier'
@@ -115,6 +129,8 @@ export interface CascadeInfo {
   tier: Tier;
   identifier: string;
   command: string;
+  /** Set when `policies.cascade` is `auto`: the control plane proceeds without a cascade confirmation. */
+  autoConfirm?: boolean;
 }
 
 /**
@@ -134,6 +150,8 @@ export interface TierOutcome {
   leafTier?: boolean;
   /** Advisory text from plugins; kernel appends to controlPlaneDecision.message after routeByOutcome. */
   pluginAdvisory?: string;
+  /** Set with reasonCode step_timeout once the aborted step stopped: the kernel step that exceeded StepDefinition.timeout. */
+  stepTimeout?: { step: StepId; timeoutMs: number };
 }
 
 /** Structured re-invoke for control-plane (same tier command with params.options). */
@@ -158,7 +176,11 @@ export type FlowReasonCode =
   | 'reopen_ok'
   | 'uncommitted_blocking'
   | 'guide_fill_pending'
-  | 'guide_incomplete';
+  | 'guide_incomplete'
+  /** Accepted command closed a drifted gate on request (`--discard`). */
+  | 'pending_gate_discarded'
+  /** Worktree mode: the tier branch lives in another worktree; re-run the command there. */
+  | 'worktree_redirect';
 
 export type FailureReasonCode =
   | 'validation_failed'
@@ -177,6 +199,8 @@ export type FailureReasonCode =
   | 'no_pending_code'
   | 'no_pending_push'
   | 'wrong_accepted_command'
+  | 'ambiguous_pending_gate'
+  | 'pending_gate_drift'
   | 'invalid_context'
   | 'invalid_task_id'
   | 'audit_fix_commit_failed'
@@ -193,7 +217,9 @@ export type FailureReasonCode =
   /** /accepted-push branch name or remote coherence check failed — fix and re-run /accepted-push. */
   | 'push_branch_guard_failed'
   | 'wrong_branch_before_push'
-  | 'push_preflight_fetch_failed';
+  | 'push_preflight_fetch_failed'
+  /** A kernel step exceeded StepDefinition.timeout; its workflow was cancelled — retry or skip the step from the trace. */
+  | 'step_timeout';
 
 export type ReasonCode = FlowReasonCode | FailureReasonCode;
 
@@ -209,13 +235,29 @@ export type QuestionKey =
   | 'failure_options'
   | 'audit_failed_options'
   | 'uncommitted_changes'
-  | 'reopen_options';
+  | 'reopen_options'
+  | 'step_timeout_options'
+  | 'gate_drift_options';
+
+/** One selectable option on a stopping decision; `/choose <id>` runs its nextInvoke (or points at slashCommand). */
+export interface ControlPlaneChoice {
+  id: string;
+  label: string;
+  /** Tier command re-invoke the choice runs. */
+  nextInvoke?: ControlPlaneNextInvoke;
+  /** Slash command the user runs for this choice (when it is not a tier re-invoke). */
+  slashCommand?: string;
+  /** Drops state or work; `/choose` asks for confirmation first. */
+  destructive?: boolean;
+}
 
 export interface ControlPlaneDecision {
   requiredMode: 'plan' | 'agent';
   stop: boolean;
   message: string;
   questionKey?: QuestionKey;
+  /** Options for a stopping decision (questionKey options bound to commands, or the command that clears the gate). */
+  choices?: ControlPlaneChoice[];
   /** Re-invoke same tier command (e.g. start with mode/resumeAfterStep in params.options). */
   nextInvoke?: ControlPlaneNextInvoke;
   cascadeCommand?: string;
@@ -229,6 +271,8 @@ export interface HarnessRunResult {
   controlPlaneDecision: ControlPlaneDecision;
   traceId: string;
   stepPath: StepId[];
+  /** Plugin diagnostics for this run, including capability rejections; omitted when empty. */
+  pluginDiagnostics?: PluginDiagnostic[];
 }
 
 // --- SpecBuilder contract (charter §7.4) ---
@@ -279,7 +323,10 @@ export interface ArtifactRequest {
   path: string;
   kind: ContextArtifactKind;
   priority: 'required' | 'high' | 'medium' | 'low';
+  /** Per-artifact token allotment hint; content past max(estimatedTokens, share of maxTokens) is truncated. */
   estimatedTokens?: number;
+  /** 0–1; overrides the priority-derived relevance when ranking candidates. */
+  relevanceScore?: number;
 }
 
 export interface ContextInjectionPlan {
@@ -294,16 +341,30 @@ export interface ContextArtifact {
   kind: ContextArtifactKind;
   relevanceScore: number;
   freshnessScore: number;
+  /** Ranking score the injector placed this artifact by (1 for required artifacts). */
+  score?: number;
   snippet: string;
   tokenCost: number;
+  /** True when the snippet was cut to fit the budget (headings kept for markdown docs). */
+  truncated?: boolean;
 }
 
 export interface DroppedArtifact {
   artifactId: string;
   path: string;
-  reason: 'over_budget' | 'low_relevance' | 'stale' | 'duplicate' | 'excluded_by_policy';
+  reason:
+    | 'over_budget'
+    | 'artifact_limit'
+    | 'low_relevance'
+    | 'stale'
+    | 'duplicate'
+    | 'not_found'
+    | 'read_error'
+    | 'excluded_by_policy';
   score: number;
   wouldHaveCost: number;
+  /** Exact cause, e.g. "needs 812 tokens, 240 left" or the read error. */
+  detail?: string;
 }
 
 export interface ContextPackFull {
@@ -321,6 +382,8 @@ export interface ContextPackFull {
 export interface FileSystemAdapter {
   readFile(path: string): Promise<string>;
   exists(path: string): Promise<boolean>;
+  /** Optional modification time; the context injector derives freshnessScore from it. */
+  mtimeMs?(path: string): Promise<number>;
 }
 
 /** Minimal git state for context (branch, dirty list). */
@@ -340,6 +403,12 @@ export interface ContextSources {
   scope?: TierScopeReader;
 }
 
+/** Token count estimate for context budgeting (see token-estimator.ts). */
+export interface TokenEstimator {
+  readonly name: string;
+  estimate(text: string): number;
+}
+
 export interface ContextInjector {
   plan(spec: WorkflowSpec): ContextInjectionPlan;
   build(plan: ContextInjectionPlan, sources: ContextSources): Promise<ContextPackFull>;
@@ -362,6 +431,8 @@ export type RunRecorderBeginSpec = Partial<WorkflowSpec> & {
   identifier: string;
   /** Set when this tier is in HARNESS_CUTOVER_TIERS (telemetry only until kernel cutover). */
   harnessCutoverTier?: boolean;
+  /** Tier command params as invoked (routingContext.originalParams); lets resumeFromTrace re-invoke the command. */
+  originalParams?: unknown;
 };
 
 export interface RunRecorder {
@@ -392,7 +463,9 @@ export interface HarnessContext {
   contextPack: ContextPack | null;
   output: string[];
   stepResults: Record<string, { success: boolean; output: string; durationMs: number }>;
-  diagnostics: Array<{ plugin: string; step: string; message: string }>;
+  diagnostics: PluginDiagnostic[];
+  /** Project-tree / git readers for plugins (HarnessDeps.sources); replay swaps in recording adapters. */
+  sources?: ContextSources;
 }
 
 export interface ProfileDefaultsResolver {
@@ -408,9 +481,23 @@ export interface StepRunResult {
   exitEarly?: boolean;
 }
 
+/** Adapter had nothing to run for this step (e.g. inactive workflow segment); kernel records a skip event. */
+export interface StepSkipResult {
+  skipped: true;
+  reason: string;
+}
+
 export interface TierAdapter {
-  /** Run one step; return result or null to continue. Exit early result stops the kernel. */
-  runStep(ctx: HarnessContext, stepId: StepId): Promise<StepRunResult | null>;
+  /**
+   * Run one step; return result, a skip marker, or null to continue. Exit early result stops the kernel.
+   * `signal` aborts (reason: StepTimeoutError) when the step exceeds its timeout; the adapter should stop the work behind it.
+   */
+  runStep(ctx: HarnessContext, stepId: StepId, signal?: AbortSignal): Promise<StepRunResult | StepSkipResult | null>;
+  /**
+   * Called once after the step loop, before the decision is recorded. When the kernel stopped early (plugin abort_run,
+   * failed step), stop the work still waiting behind the adapter with `reason` so its cleanup runs.
+   */
+  dispose?(reason: Error): Promise<void>;
 }
 
 /** Optional: when provided, kernel uses this to compute controlPlaneDecision (avoids harness importing tier routing). */
@@ -432,6 +519,8 @@ export interface HarnessDeps {
   routingContext?: HarnessRoutingContext;
   /** Optional plugin registry; when set, kernel runs beforeStep/afterStep/onFailure and enforces capabilities. */
   plugins?: PluginRegistry;
+  /** File system / git readers exposed to plugins as ctx.sources (replay passes recording adapters). */
+  sources?: ContextSources;
 }
 
 export interface HarnessKernel {
@@ -448,6 +537,18 @@ export type PluginCapability =
   | 'block_step'
   | 'emit_diagnostic';
 
+/** Behavior a plugin attempted that the kernel checks against its declared capabilities. */
+export type PluginBehavior = 'abort_run' | 'skip_step' | 'mutate_outcome' | 'emit_diagnostic' | 'read_context';
+
+/** Plugin diagnostic collected during a run (plugin-emitted, hook errors, or capability rejections). */
+export interface PluginDiagnostic {
+  plugin: string;
+  step: string;
+  message: string;
+  /** Set when the kernel rejected behavior the plugin did not declare a capability for. */
+  rejected?: { capability: PluginCapability; attempted: PluginBehavior };
+}
+
 export interface PluginStepResult {
   action: 'continue' | 'skip_step' | 'abort_run';
   diagnostic?: string;
@@ -459,9 +560,10 @@ export interface PolicyPlugin {
   priority: number;
   capabilities: PluginCapability[];
   appliesTo(spec: WorkflowSpec): boolean;
-  beforeStep?(ctx: HarnessContext, step: StepId): Promise<PluginStepResult>;
-  afterStep?(ctx: HarnessContext, step: StepId): Promise<PluginStepResult>;
-  onFailure?(ctx: HarnessContext, step: StepId, error: unknown): Promise<void>;
+  /** Async hooks are bounded by the kernel's plugin hook timeout; `signal` aborts when it elapses. */
+  beforeStep?(ctx: HarnessContext, step: StepId, signal?: AbortSignal): Promise<PluginStepResult>;
+  afterStep?(ctx: HarnessContext, step: StepId, signal?: AbortSignal): Promise<PluginStepResult>;
+  onFailure?(ctx: HarnessContext, step: StepId, error: unknown, signal?: AbortSignal): Promise<void>;
   contributeOutcome?(ctx: HarnessContext): Partial<TierOutcome>;
 }
 
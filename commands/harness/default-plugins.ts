@@ -1,14 +1,39 @@
 /**
  * Default harness plugins for tier-start / tier-end kernel runs (fresh registry per invocation).
+ * Built-in plugins are registered first, then enabled entries from `.project-manager/harness-plugins.json`
+ * (plugin-manifest.ts). Broken external entries are reported as harness warnings and skipped.
  */
 
 import type { PluginRegistry } from './contracts';
 import { DefaultPluginRegistry } from './plugin-registry';
 import { ModelRecommendationPlugin } from './plugins/model-recommendation-plugin';
+import { HARNESS_PLUGINS_MANIFEST_RELATIVE, loadExternalPlugins } from './plugin-manifest';
+import { PROJECT_ROOT } from '../utils/utils';
+import { recordHarnessVerboseWarning } from './workflow-friction-manager';
 
-export function createDefaultPlugins(): PluginRegistry {
+export interface DefaultPluginsOptions {
+  projectRoot?: string;
+}
+
+function warnPluginLoad(message: string): void {
+  const line = `${HARNESS_PLUGINS_MANIFEST_RELATIVE}: ${message}`;
+  console.warn(`[harness-plugins] ${line}`);
+  recordHarnessVerboseWarning('harness_plugins', line);
+}
+
+export async function createDefaultPlugins(opts: DefaultPluginsOptions = {}): Promise<PluginRegistry> {
   const registry = new DefaultPluginRegistry();
   registry.register(new ModelRecommendationPlugin());
   registry.validate();
+
+  const external = await loadExternalPlugins(opts.projectRoot ?? PROJECT_ROOT);
+  for (const error of external.errors) warnPluginLoad(error);
+  for (const plugin of external.plugins) {
+    try {
+      registry.register(plugin);
+    } catch (e) {
+      warnPluginLoad(e instanceof Error ? e.message : String(e));
+    }
+  }
   return registry;
 }
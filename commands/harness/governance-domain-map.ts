@@ -1,10 +1,18 @@
 /**
  * Governance domain mapping: converts WorkProfile governanceDomains into
  * playbooks, audit reports, and soft review prompts. Connects classifier to existing governance model.
+ * Built-in mappings below are the defaults; `.project-manager/governance-domains.json` overrides them per field
+ * and declares new domains (governance-domains-config.ts).
  * See: work-profile-classifier-rollout plan Phase 7.
  */
 
-import type { GovernanceDomain } from './work-profile';
+import type { Tier } from './contracts';
+import type { BuiltInGovernanceDomain, GovernanceDomain } from './work-profile';
+import {
+  globToRegExp,
+  loadGovernanceDomainsConfig,
+  type GovernanceDomainConfigEntry,
+} from './governance-domains-config';
 
 // ─── Domain → playbooks (repo-relative paths) ───────────────────────────────
 
@@ -18,7 +26,7 @@ const LAUNCH_CHECKLIST = '.project-manager/LAUNCH_CHECKLIST.md';
 const ARCHITECTURE_DOC = '.project-manager/ARCHITECTURE.md';
 export const AUDIT_GLOBAL_CONFIG = 'client/.audit-reports/audit-global-config.json';
 
-const DOMAIN_TO_PLAYBOOKS: Record<GovernanceDomain, string[]> = {
+const DOMAIN_TO_PLAYBOOKS: Record<BuiltInGovernanceDomain, string[]> = {
   component: [COMPONENT_PLAYBOOK],
   composable: [COMPOSABLE_PLAYBOOK],
   function: [FUNCTION_PLAYBOOK],
@@ -34,7 +42,7 @@ const DOMAIN_TO_PLAYBOOKS: Record<GovernanceDomain, string[]> = {
 
 // ─── Domain → audit report names (baseline categories) ───────────────────────
 
-const DOMAIN_TO_AUDITS: Record<GovernanceDomain, string[]> = {
+const DOMAIN_TO_AUDITS: Record<BuiltInGovernanceDomain, string[]> = {
   component: ['component-health', 'component-logic'],
   composable: ['composable-health', 'composables-logic'],
   function: ['function-complexity', 'constants-consolidation', 'todo-aging'],
@@ -50,7 +58,7 @@ const DOMAIN_TO_AUDITS: Record<GovernanceDomain, string[]> = {
 
 // ─── Domain → soft review prompts for planning docs ──────────────────────────
 
-const DOMAIN_TO_REVIEW_PROMPTS: Record<GovernanceDomain, string> = {
+const DOMAIN_TO_REVIEW_PROMPTS: Record<BuiltInGovernanceDomain, string> = {
   component: 'Check component-health and component-logic; ensure prop/emit/coupling thresholds.',
   composable: 'Check composable-health and composables-logic; ensure flat contracts and action-based mutation.',
   function: 'Check function-complexity; ensure explicit return types and no silent error swallowing.',
@@ -66,6 +74,76 @@ const DOMAIN_TO_REVIEW_PROMPTS: Record<GovernanceDomain, string> = {
     'Check ARCHITECTURE.md §8–§14 (domain model, PartFinalizer, invariants) for booking and scheduling changes; review architecture-alignment and data-flow audits if present.',
 };
 
+// ─── Domain → triggers (touched paths, tiers) ────────────────────────────────
+
+/** Built-in path/tier triggers; booking / scheduling / PartFinalizer work for this app's layout. */
+const DOMAIN_TO_TRIGGERS: Partial<Record<BuiltInGovernanceDomain, Pick<GovernanceDomainConfigEntry, 'paths' | 'tiers'>>> = {
+  booking: {
+    paths: [
+      '**/client/src/composables/booking',
+      '**/client/src/components/booking',
+      '**/client/src/views/booking',
+      '**/client/src/types/booking',
+      '**/client/src/utils/booking',
+      '**/*partFinalizer*',
+      '**/*part-finalizer*',
+      '**/server/src/routes/internal/appointments*',
+      '**/server/src/routes/internal/availability*',
+      '**/server/src/services/**/*availability*',
+    ],
+    tiers: ['feature', 'phase', 'session'],
+  },
+};
+
+function isBuiltInDomain(domain: GovernanceDomain): domain is BuiltInGovernanceDomain {
+  return Object.prototype.hasOwnProperty.call(DOMAIN_TO_PLAYBOOKS, domain);
+}
+
+/** Built-in entry for `domain` with the project config's fields laid over it. */
+function resolveDomainEntry(domain: GovernanceDomain): GovernanceDomainConfigEntry {
+  const configured = loadGovernanceDomainsConfig().config.domains[domain] ?? {};
+  const builtIn: GovernanceDomainConfigEntry = isBuiltInDomain(domain)
+    ? {
+        ...DOMAIN_TO_TRIGGERS[domain],
+        playbooks: DOMAIN_TO_PLAYBOOKS[domain],
+        audits: DOMAIN_TO_AUDITS[domain],
+        reviewPrompt: DOMAIN_TO_REVIEW_PROMPTS[domain],
+      }
+    : {};
+  return { ...builtIn, ...configured };
+}
+
+/** Built-in domain ids followed by any new ids the project config declares. */
+export function listGovernanceDomains(): GovernanceDomain[] {
+  const ids: GovernanceDomain[] = Object.keys(DOMAIN_TO_PLAYBOOKS);
+  for (const id of Object.keys(loadGovernanceDomainsConfig().config.domains)) {
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * Domains triggered by touched repo-relative paths (any path glob matches), with the number of matching paths.
+ */
+export function getGovernanceDomainsForPaths(paths: readonly string[]): Map<GovernanceDomain, number> {
+  const counts = new Map<GovernanceDomain, number>();
+  if (paths.length === 0) return counts;
+  const normalized = paths.map((p) => p.replace(/\\/g, '/'));
+  for (const domain of listGovernanceDomains()) {
+    const globs = resolveDomainEntry(domain).paths ?? [];
+    if (globs.length === 0) continue;
+    const patterns = globs.map(globToRegExp);
+    const n = normalized.filter((p) => patterns.some((re) => re.test(p))).length;
+    if (n > 0) counts.set(domain, n);
+  }
+  return counts;
+}
+
+/** Domains whose work every start/end on `tier` carries (entry `tiers`). */
+export function getGovernanceDomainsForTier(tier: Tier): GovernanceDomain[] {
+  return listGovernanceDomains().filter((d) => resolveDomainEntry(d).tiers?.includes(tier) ?? false);
+}
+
 export interface GovernanceDomainMapping {
   playbooks: string[];
   auditNames: string[];
@@ -76,10 +154,11 @@ export interface GovernanceDomainMapping {
  * Get playbooks, audit names, and review prompt for a governance domain.
  */
 export function getMappingForGovernanceDomain(domain: GovernanceDomain): GovernanceDomainMapping {
+  const entry = resolveDomainEntry(domain);
   return {
-    playbooks: DOMAIN_TO_PLAYBOOKS[domain] ?? [],
-    auditNames: DOMAIN_TO_AUDITS[domain] ?? [],
-    reviewPrompt: DOMAIN_TO_REVIEW_PROMPTS[domain] ?? '',
+    playbooks: entry.playbooks ?? [],
+    auditNames: entry.audits ?? [],
+    reviewPrompt: entry.reviewPrompt ?? '',
   };
 }
 
@@ -89,7 +168,7 @@ export function getMappingForGovernanceDomain(domain: GovernanceDomain): Governa
 export function getPlaybooksForGovernanceDomains(domains: GovernanceDomain[]): string[] {
   const set = new Set<string>();
   for (const d of domains) {
-    for (const p of DOMAIN_TO_PLAYBOOKS[d] ?? []) set.add(p);
+    for (const p of resolveDomainEntry(d).playbooks ?? []) set.add(p);
   }
   return [...set];
 }
@@ -100,7 +179,7 @@ export function getPlaybooksForGovernanceDomains(domains: GovernanceDomain[]): s
 export function getAuditNamesForGovernanceDomains(domains: GovernanceDomain[]): string[] {
   const set = new Set<string>();
   for (const d of domains) {
-    for (const a of DOMAIN_TO_AUDITS[d] ?? []) set.add(a);
+    for (const a of resolveDomainEntry(d).audits ?? []) set.add(a);
   }
   return [...set];
 }
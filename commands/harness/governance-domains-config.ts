@@ -0,0 +1,160 @@
+/**
+ * Project-declared governance domains from `.project-manager/governance-domains.json`.
+ * Each entry names a domain id (a built-in GovernanceDomain to override, or a new id) with the repo paths that
+ * imply it, the tiers that always carry it, and its playbooks, audit reports and planning-doc review prompt.
+ * Fields given for a built-in domain replace the built-in value; omitted fields keep it. A missing file means
+ * built-ins only; a bad entry is skipped with a warning, never fatal.
+ *
+ * Config shape:
+ * {
+ *   "domains": {
+ *     "billing": {
+ *       "paths": ["server/src/billing", "client/src/views/invoice*.vue"],
+ *       "tiers": ["feature"],
+ *       "playbooks": [".project-manager/BILLING_PLAYBOOK.md"],
+ *       "audits": ["data-flow"],
+ *       "reviewPrompt": "Check invoice totals stay server-computed."
+ *     }
+ *   }
+ * }
+ *
+ * Path patterns are repo-relative globs: `**` spans directories, `*` and `?` stay within one segment, and a
+ * pattern that matches a directory covers everything under it.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import type { Tier } from './contracts';
+import type { GovernanceDomain } from './work-profile';
+import { PROJECT_ROOT } from '../utils/utils';
+
+export const GOVERNANCE_DOMAINS_CONFIG_RELATIVE = '.project-manager/governance-domains.json';
+
+export interface GovernanceDomainConfigEntry {
+  /** Repo-relative globs; a touched path matching any adds the domain. */
+  paths?: string[];
+  /** Tiers whose work always carries this domain. */
+  tiers?: Tier[];
+  playbooks?: string[];
+  audits?: string[];
+  reviewPrompt?: string;
+}
+
+export interface GovernanceDomainsConfig {
+  domains: Partial<Record<GovernanceDomain, GovernanceDomainConfigEntry>>;
+}
+
+export interface GovernanceDomainsConfigLoadResult {
+  config: GovernanceDomainsConfig;
+  /** One line per config problem or skipped entry (file unreadable, invalid JSON, bad field). */
+  errors: string[];
+}
+
+const TIERS: readonly Tier[] = ['feature', 'phase', 'session', 'task'];
+
+/** Glob → anchored RegExp matching the path or anything beneath it; `**` then a slash matches zero or more directories. */
+export function globToRegExp(glob: string): RegExp {
+  let out = '';
+  const g = glob.replace(/\\/g, '/').replace(/^\.?\//, '');
+  for (let i = 0; i < g.length; i++) {
+    const c = g[i]!;
+    if (c === '*' && g[i + 1] === '*') {
+      if (g[i + 2] === '/') {
+        out += '(?:.*/)?';
+        i += 2;
+      } else {
+        out += '.*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      out += '[^/]*';
+    } else if (c === '?') {
+      out += '[^/]';
+    } else {
+      out += /[.+^${}()|[\]\\]/.test(c) ? `\\${c}` : c;
+    }
+  }
+  return new RegExp(`^${out}(?:/.*)?$`, 'i');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.trim().length > 0);
+}
+
+function parseConfig(raw: string): GovernanceDomainsConfigLoadResult {
+  const errors: string[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return { config: { domains: {} }, errors: [`invalid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  const domains = (data as { domains?: unknown } | null)?.domains;
+  if (domains === null || typeof domains !== 'object' || Array.isArray(domains)) {
+    return { config: { domains: {} }, errors: ['"domains" must be an object keyed by domain id'] };
+  }
+  const parsed: Partial<Record<GovernanceDomain, GovernanceDomainConfigEntry>> = {};
+  for (const [id, value] of Object.entries(domains as Record<string, unknown>)) {
+    if (!/^[a-z][a-z0-9_]*$/.test(id)) {
+      errors.push(`domains.${id}: id must be lower_snake_case`);
+      continue;
+    }
+    const e = value as Record<string, unknown> | null;
+    if (e === null || typeof e !== 'object' || Array.isArray(e)) {
+      errors.push(`domains.${id}: entry must be an object`);
+      continue;
+    }
+    const bad = (['paths', 'playbooks', 'audits'] as const).find((k) => e[k] !== undefined && !isStringArray(e[k]));
+    if (bad) {
+      errors.push(`domains.${id}: "${bad}" must be an array of non-empty strings`);
+      continue;
+    }
+    if (e.tiers !== undefined && !(Array.isArray(e.tiers) && e.tiers.every((t) => TIERS.includes(t as Tier)))) {
+      errors.push(`domains.${id}: "tiers" must list ${TIERS.join(' / ')}`);
+      continue;
+    }
+    if (e.reviewPrompt !== undefined && typeof e.reviewPrompt !== 'string') {
+      errors.push(`domains.${id}: "reviewPrompt" must be a string`);
+      continue;
+    }
+    parsed[id] = {
+      ...(e.paths !== undefined && { paths: e.paths as string[] }),
+      ...(e.tiers !== undefined && { tiers: e.tiers as Tier[] }),
+      ...(e.playbooks !== undefined && { playbooks: e.playbooks as string[] }),
+      ...(e.audits !== undefined && { audits: e.audits as string[] }),
+      ...(e.reviewPrompt !== undefined && { reviewPrompt: e.reviewPrompt as string }),
+    };
+  }
+  return { config: { domains: parsed }, errors };
+}
+
+/** Last load per project root, reused while the file's mtime is unchanged. */
+const loadCache = new Map<string, { mtimeMs: number; result: GovernanceDomainsConfigLoadResult }>();
+
+/**
+ * Read the project's governance domains config (sync: the domain map is consulted from sync classifier code).
+ * Problems are warned once per file version and returned in `errors`.
+ */
+export function loadGovernanceDomainsConfig(projectRoot: string = PROJECT_ROOT): GovernanceDomainsConfigLoadResult {
+  const path = join(projectRoot, GOVERNANCE_DOMAINS_CONFIG_RELATIVE);
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    loadCache.delete(projectRoot);
+    return { config: { domains: {} }, errors: [] };
+  }
+  const cached = loadCache.get(projectRoot);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.result;
+  let result: GovernanceDomainsConfigLoadResult;
+  try {
+    result = parseConfig(readFileSync(path, 'utf8'));
+  } catch (err) {
+    result = { config: { domains: {} }, errors: [`unreadable: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  if (result.errors.length > 0) {
+    console.warn(`[governance-domains] ${GOVERNANCE_DOMAINS_CONFIG_RELATIVE}: ${result.errors.join('; ')}`);
+  }
+  loadCache.set(projectRoot, { mtimeMs, result });
+  return result;
+}
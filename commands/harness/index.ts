@@ -24,6 +24,7 @@ export type {
   ReasonCode,
   QuestionKey,
   ControlPlaneDecision,
+  ControlPlaneChoice,
   HarnessRunResult,
   SpecBuilder,
   RunTraceHandle,
@@ -32,6 +33,7 @@ export type {
   RunRecorderDecision,
   RunRecorder,
   ContextInjector,
+  TokenEstimator,
   ContextInjectionPlan,
   ArtifactRequest,
   ContextArtifactKind,
@@ -46,24 +48,75 @@ export type {
   TierScopeSnapshot,
   ProfileDefaultsResolver,
   StepRunResult,
+  StepSkipResult,
+  RunResumeState,
+  ResumeSpecFields,
   TierAdapter,
   HarnessDeps,
   HarnessRoutingContext,
   HarnessKernel,
   PluginCapability,
   PluginStepResult,
+  PluginBehavior,
+  PluginDiagnostic,
   PolicyPlugin,
   PluginRegistry,
 } from './contracts';
 export { createPluginRegistry } from './plugin-registry';
+export { createDefaultPlugins } from './default-plugins';
+export type { DefaultPluginsOptions } from './default-plugins';
+export {
+  HARNESS_PLUGINS_MANIFEST_RELATIVE,
+  loadExternalPlugins,
+  readHarnessPluginManifest,
+} from './plugin-manifest';
+export type {
+  HarnessPluginManifest,
+  HarnessPluginManifestEntry,
+  ExternalPluginLoadResult,
+} from './plugin-manifest';
 
 export { createContextInjector, createNodeFileSystemAdapter } from './context-injector';
+export type { ContextInjectorOptions } from './context-injector';
+export {
+  createHeuristicTokenEstimator,
+  createBpeTokenEstimator,
+  resolveTokenEstimator,
+  HARNESS_BPE_TABLE_RELATIVE,
+} from './token-estimator';
 
 export {
   createShadowRunRecorder,
   getDefaultShadowRecorder,
 } from './run-recorder-shadow';
 export type { ShadowTraceRecord } from './run-recorder-shadow';
+export { createFileRunRecorder, getDefaultRunRecorder } from './run-recorder-file';
+export type { FileRunRecorderOptions } from './run-recorder-file';
+export {
+  HARNESS_TRACES_RELATIVE,
+  DEFAULT_TRACE_RETENTION,
+  listStoredTraces,
+  readStoredTrace,
+  pruneTraceStore,
+} from './run-trace-store';
+export type { StoredTraceRecord, TraceSummary, TraceFilter, TraceRetention } from './run-trace-store';
+export { resumeFromTrace, planResumeFromTrace } from './resume-from-trace';
+export type { ResumeFromTraceOptions, ResumeFromTraceResult, TraceResumePlan } from './resume-from-trace';
+export {
+  replayTrace,
+  replayStoredTrace,
+  formatReplayReport,
+  createRecordingFileSystemAdapter,
+  createRecordingGitStateAdapter,
+} from './replay-trace';
+export type {
+  ReplayOptions,
+  ReplayReport,
+  ReplayDivergence,
+  RecordedSourceCall,
+  RecordingFileSystemAdapter,
+  RecordingGitStateAdapter,
+} from './replay-trace';
 
 export { defaultSpecBuilder } from './spec-builder';
 export { parseReasonCode, isFailureReasonCode, isFlowReasonCode } from './reason-code';
@@ -79,7 +132,7 @@ export {
   getHarnessCutoverTiers,
   isHarnessDefaultForTier,
 } from './cutover-config';
-export { defaultKernel } from './kernel';
+export { defaultKernel, StepTimeoutError, PluginHookTimeoutError } from './kernel';
 export { getStepGraph, getStepIdsForAction } from './step-graph';
 export { buildSpecFromTierRun } from './build-spec-from-tier';
 export type { BuildSpecFromTierRunParams } from './build-spec-from-tier';
@@ -1,6 +1,10 @@
 /**
  * Harness kernel: deterministic step graph and step runner loop (charter §7.2).
- * Runs steps in order, records events, delegates step execution to TierAdapter.
+ * Runs steps in dependency order, honors requiresMode / dependsOn / canFail / timeout per StepDefinition,
+ * records events, delegates step execution to TierAdapter. When spec.resume is set, steps before
+ * resume.fromStep that completed in the parent run are restored (recorded as skip) instead of re-run.
+ * Steps and async plugin hooks run under a deadline with an AbortSignal; a step timeout ends the run as step_timeout
+ * once the aborted step body has stopped (its child processes are killed via the signal).
  */
 
 import type {
@@ -16,7 +20,10 @@ import type {
   ControlPlaneDecision,
   PluginStepResult,
   StepRunResult,
+  StepSkipResult,
   PolicyPlugin,
+  PluginCapability,
+  PluginBehavior,
 } from './contracts';
 import { getStepGraph } from './step-graph';
 import { routeByOutcome } from '../tiers/shared/control-plane-route';
@@ -28,6 +35,12 @@ const clock = (): number => (typeof Date.now === 'function' ? Date.now() : 0);
 /** Cap plugin diagnostic lines so harness output stays bounded. */
 const MAX_PLUGIN_DIAGNOSTIC_CHARS = 500;
 
+/** Bound on each async plugin hook (beforeStep / afterStep / onFailure); a hung plugin must not hang the run. */
+const PLUGIN_HOOK_TIMEOUT_MS = 30_000;
+
+/** After a step timeout aborts its signal, how long the kernel waits for the step body to stop before routing. */
+const STEP_ABORT_SETTLE_MS = 30_000;
+
 /** Success-path chat output: avoid huge `output` strings on start_ok / end_ok (friction: unhandled_error noise). */
 const MAX_SUCCESS_KERNEL_OUTPUT_CHARS = 12_000;
 const SUCCESS_OUTPUT_CAP_REASONS = new Set<string>(['start_ok', 'end_ok', 'task_complete', 'reopen_ok']);
@@ -55,8 +68,211 @@ function pushPluginDiagnostic(
   ctx.diagnostics.push({ plugin, step, message: capped });
 }
 
+function pluginHas(plugin: PolicyPlugin, capability: PluginCapability): boolean {
+  return plugin.capabilities.includes(capability);
+}
+
+/** Record a structured rejection: the plugin attempted `attempted` without declaring `capability`; the behavior is dropped. */
+function rejectPluginBehavior(
+  ctx: HarnessContext,
+  plugin: PolicyPlugin,
+  step: StepId | '',
+  capability: PluginCapability,
+  attempted: PluginBehavior
+): void {
+  ctx.diagnostics.push({
+    plugin: plugin.name,
+    step,
+    message: `Rejected ${attempted}: plugin did not declare capability "${capability}".`,
+    rejected: { capability, attempted },
+  });
+}
+
+/** Keep a plugin-emitted diagnostic only when the plugin declared emit_diagnostic; returns the accepted text. */
+function acceptPluginDiagnostic(
+  ctx: HarnessContext,
+  plugin: PolicyPlugin,
+  step: StepId,
+  diagnostic: string | undefined
+): string | undefined {
+  if (!diagnostic) return undefined;
+  if (!pluginHas(plugin, 'emit_diagnostic')) {
+    rejectPluginBehavior(ctx, plugin, step, 'emit_diagnostic', 'emit_diagnostic');
+    return undefined;
+  }
+  pushPluginDiagnostic(ctx, plugin.name, step, diagnostic);
+  return diagnostic;
+}
+
+/**
+ * Context handed to a plugin hook. Without read_context the plugin sees spec, trace handle, and tier state only
+ * (no context pack, step output, sources, or other plugins' diagnostics). Diagnostics always go through hook return values.
+ */
+function pluginView(ctx: HarnessContext, plugin: PolicyPlugin): HarnessContext {
+  if (pluginHas(plugin, 'read_context')) return { ...ctx, diagnostics: [] };
+  return { ...ctx, contextPack: null, output: [], stepResults: {}, diagnostics: [], sources: undefined };
+}
+
+/**
+ * Outcome fields a plugin may contribute. pluginAdvisory needs emit_diagnostic; any field that changes the outcome
+ * (status, reasonCode, nextAction, cascade, …) needs mutate_outcome. Unchanged values pass through silently.
+ */
+function filterOutcomeContribution(
+  ctx: HarnessContext,
+  plugin: PolicyPlugin,
+  current: TierOutcome,
+  partial: Partial<TierOutcome>
+): Partial<TierOutcome> {
+  const allowed: Partial<TierOutcome> = {};
+  let mutateRejected = false;
+  for (const [key, value] of Object.entries(partial) as Array<[keyof TierOutcome, unknown]>) {
+    if (value === undefined) continue;
+    if (key === 'pluginAdvisory') {
+      if (pluginHas(plugin, 'emit_diagnostic')) allowed.pluginAdvisory = value as string;
+      else rejectPluginBehavior(ctx, plugin, '', 'emit_diagnostic', 'emit_diagnostic');
+      continue;
+    }
+    if (JSON.stringify(current[key]) === JSON.stringify(value)) continue;
+    if (pluginHas(plugin, 'mutate_outcome')) {
+      (allowed as Record<string, unknown>)[key] = value;
+    } else if (!mutateRejected) {
+      mutateRejected = true;
+      rejectPluginBehavior(ctx, plugin, '', 'mutate_outcome', 'mutate_outcome');
+    }
+  }
+  return allowed;
+}
+
 type StepLoopResult = { success: boolean; output: string; outcome: TierOutcome } | null;
 
+/**
+ * Per-step status used for dependsOn checks. `not_applicable` (mode mismatch, adapter had nothing to run)
+ * satisfies dependents; `blocked` (plugin skip_step, unmet dependency) and `failed` do not.
+ */
+type StepStatus = 'succeeded' | 'failed' | 'not_applicable' | 'blocked';
+
+/** Thrown (and used as the AbortSignal reason) when a step exceeds StepDefinition.timeout. */
+export class StepTimeoutError extends Error {
+  /** Set when the aborted step body had not stopped within STEP_ABORT_SETTLE_MS; retry / skip are not offered. */
+  stillRunning = false;
+
+  constructor(
+    public readonly stepId: StepId,
+    public readonly timeoutMs: number
+  ) {
+    super(`Step ${stepId} timed out after ${timeoutMs}ms`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+/** Thrown (and used as the AbortSignal reason) when a plugin hook exceeds PLUGIN_HOOK_TIMEOUT_MS. */
+export class PluginHookTimeoutError extends Error {
+  constructor(
+    public readonly plugin: string,
+    public readonly hook: 'beforeStep' | 'afterStep' | 'onFailure',
+    public readonly timeoutMs: number
+  ) {
+    super(`${hook} timed out after ${timeoutMs}ms`);
+    this.name = 'PluginHookTimeoutError';
+  }
+}
+
+function isStepSkipResult(result: StepRunResult | StepSkipResult | null): result is StepSkipResult {
+  return result !== null && 'skipped' in result && result.skipped === true;
+}
+
+/**
+ * Run `start(signal)` under a deadline: when `timeoutMs` elapses first, abort the signal with `onTimeout()` and
+ * reject with the same error. With `settleMs`, the rejection waits (up to `settleMs`) for `start`'s promise to
+ * settle after the abort; `onUnsettled` runs when it has not. Timers never keep the process alive.
+ */
+async function withDeadline<T>(
+  timeoutMs: number | undefined,
+  onTimeout: () => Error,
+  start: (signal: AbortSignal) => Promise<T>,
+  settle?: { settleMs: number; onUnsettled: (err: Error) => void }
+): Promise<T> {
+  const controller = new AbortController();
+  if (timeoutMs == null || timeoutMs <= 0) return start(controller.signal);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const unrefTimer = (t: ReturnType<typeof setTimeout>): void => {
+    if (typeof t === 'object' && t !== null && 'unref' in t) t.unref();
+  };
+  const running = start(controller.signal);
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      const err = onTimeout();
+      controller.abort(err);
+      if (!settle) {
+        reject(err);
+        return;
+      }
+      let settleTimer: ReturnType<typeof setTimeout> | undefined;
+      const settled = running.then(
+        () => true,
+        () => true
+      );
+      const expired = new Promise<boolean>((resolve) => {
+        settleTimer = setTimeout(() => resolve(false), settle.settleMs);
+        unrefTimer(settleTimer);
+      });
+      void Promise.race([settled, expired]).then((didSettle) => {
+        if (settleTimer !== undefined) clearTimeout(settleTimer);
+        if (!didSettle) settle.onUnsettled(err);
+        reject(err);
+      });
+    }, timeoutMs);
+    unrefTimer(timer);
+  });
+  try {
+    // Once the deadline fired, only the timeout's rejection counts (after the settle wait)
+    const guarded = running.then(
+      (v) => (controller.signal.aborted ? timeout : v),
+      (e: unknown) => (controller.signal.aborted ? timeout : Promise.reject(e))
+    );
+    return await Promise.race([guarded, timeout]);
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
+  }
+}
+
+/** Diagnostic text for a plugin hook that threw or timed out. */
+function pluginHookFailure(hook: PluginHookTimeoutError['hook'], e: unknown): string {
+  if (e instanceof PluginHookTimeoutError) return e.message;
+  return `${hook} threw: ${e instanceof Error ? e.message : String(e)}`;
+}
+
+/** Run one async plugin hook under PLUGIN_HOOK_TIMEOUT_MS. */
+function runPluginHook<T>(
+  plugin: PolicyPlugin,
+  hook: PluginHookTimeoutError['hook'],
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  return withDeadline(PLUGIN_HOOK_TIMEOUT_MS, () => new PluginHookTimeoutError(plugin.name, hook, PLUGIN_HOOK_TIMEOUT_MS), call);
+}
+
+/** Why a step must not run before plugins/adapter see it; null when it may run. */
+function checkStepPreconditions(
+  stepDef: StepDefinition,
+  spec: WorkflowSpec,
+  statuses: Map<StepId, StepStatus>
+): { status: StepStatus; details: Record<string, unknown> } | null {
+  if (stepDef.requiresMode && stepDef.requiresMode !== spec.mode) {
+    return {
+      status: 'not_applicable',
+      details: { reason: 'requires_mode', requiresMode: stepDef.requiresMode, mode: spec.mode },
+    };
+  }
+  const unmet = (stepDef.dependsOn ?? []).filter((dep) => {
+    const s = statuses.get(dep);
+    return s !== 'succeeded' && s !== 'not_applicable';
+  });
+  if (unmet.length > 0) {
+    return { status: 'blocked', details: { reason: 'dependency_not_met', unmet } };
+  }
+  return null;
+}
+
 function defaultOutcome(success: boolean): TierOutcome {
   return {
     status: success ? 'completed' : 'failed',
@@ -66,7 +282,7 @@ function defaultOutcome(success: boolean): TierOutcome {
 }
 
 /** Create minimal harness context for a run. */
-function createContext(spec: WorkflowSpec, traceHandle: RunTraceHandle): HarnessContext {
+function createContext(spec: WorkflowSpec, traceHandle: RunTraceHandle, sources?: HarnessDeps['sources']): HarnessContext {
   return {
     spec,
     traceHandle,
@@ -75,6 +291,7 @@ function createContext(spec: WorkflowSpec, traceHandle: RunTraceHandle): Harness
     output: [],
     stepResults: {},
     diagnostics: [],
+    ...(sources && { sources }),
   };
 }
 
@@ -82,35 +299,36 @@ async function runPluginBeforeStep(
   ctx: HarnessContext,
   stepId: StepId,
   activePlugins: PolicyPlugin[]
-): Promise<{ lastResult: StepLoopResult; breakStepLoop: boolean }> {
+): Promise<{ lastResult: StepLoopResult; breakStepLoop: boolean; skippedBy?: string }> {
   let lastResult: StepLoopResult = null;
   let breakStepLoop = false;
+  let skippedBy: string | undefined;
   for (const plugin of activePlugins) {
     if (!plugin.beforeStep) continue;
     try {
-      const res: PluginStepResult = await plugin.beforeStep(ctx, stepId);
+      const res: PluginStepResult = await runPluginHook(plugin, 'beforeStep', (signal) =>
+        plugin.beforeStep!(pluginView(ctx, plugin), stepId, signal)
+      );
+      const diagnostic = acceptPluginDiagnostic(ctx, plugin, stepId, res.diagnostic);
+      if (res.action !== 'continue' && !pluginHas(plugin, 'block_step')) {
+        rejectPluginBehavior(ctx, plugin, stepId, 'block_step', res.action);
+        continue;
+      }
       if (res.action === 'abort_run') {
-        if (res.diagnostic) {
-          pushPluginDiagnostic(ctx, plugin.name, stepId, res.diagnostic);
-        }
         lastResult = {
           success: false,
           output: ctx.output.join('\n\n'),
-          outcome: { status: 'failed', reasonCode: 'preflight_failed', nextAction: res.diagnostic ?? 'Plugin aborted run.' },
+          outcome: { status: 'failed', reasonCode: 'preflight_failed', nextAction: diagnostic ?? 'Plugin aborted run.' },
         };
         breakStepLoop = true;
         break;
       }
-      if (res.diagnostic) {
-        pushPluginDiagnostic(ctx, plugin.name, stepId, res.diagnostic);
-      }
-      if (res.action === 'skip_step') continue;
+      if (res.action === 'skip_step' && skippedBy === undefined) skippedBy = plugin.name;
     } catch (e) {
-      const detail = e instanceof Error ? e.message : String(e);
-      pushPluginDiagnostic(ctx, plugin.name, stepId, `beforeStep threw: ${detail}`);
+      pushPluginDiagnostic(ctx, plugin.name, stepId, pluginHookFailure('beforeStep', e));
     }
   }
-  return { lastResult, breakStepLoop };
+  return { lastResult, breakStepLoop, ...(skippedBy !== undefined && { skippedBy }) };
 }
 
 async function recordStepFailure(
@@ -126,50 +344,87 @@ async function recordStepFailure(
   for (const plugin of activePlugins) {
     if (!plugin.onFailure) continue;
     try {
-      await plugin.onFailure(ctx, stepId, err);
+      await runPluginHook(plugin, 'onFailure', (signal) => plugin.onFailure!(pluginView(ctx, plugin), stepId, err, signal));
     } catch (e) {
-      const detail = e instanceof Error ? e.message : String(e);
-      pushPluginDiagnostic(ctx, plugin.name, stepId, `onFailure threw: ${detail}`);
+      pushPluginDiagnostic(ctx, plugin.name, stepId, pluginHookFailure('onFailure', e));
     }
   }
   const message = err instanceof Error ? err.message : String(err);
+  const timedOut = err instanceof StepTimeoutError;
+  const durationMs = (deps.clock?.() ?? clock()) - stepStart;
   await deps.recorder.step(handle, {
     step: stepId,
     phase: 'exit_failure',
     ts: new Date().toISOString(),
-    reasonCode: 'unhandled_error',
-    details: { error: message },
+    durationMs,
+    reasonCode: timedOut ? 'step_timeout' : 'unhandled_error',
+    details: timedOut ? { error: message, timeoutMs: err.timeoutMs, ...(err.stillRunning && { stillRunning: true }) } : { error: message },
   });
   stepPath.push(stepId);
-  ctx.stepResults[stepId] = { success: false, output: message, durationMs: (deps.clock?.() ?? clock()) - stepStart };
-  const lastResult: StepLoopResult = {
-    success: false,
-    output: ctx.output.join('\n\n'),
-    outcome: {
-      status: 'failed',
-      reasonCode: 'unhandled_error',
-      nextAction: `Step ${stepId} failed: ${message}`,
-    },
-  };
-  return { stepResult: null, lastResult };
+  ctx.stepResults[stepId] = { success: false, output: message, durationMs };
+  const outcome: TierOutcome = timedOut
+    ? err.stillRunning
+      ? {
+          // No stepTimeout: retry / skip are not offered while the aborted body may still be changing the tree
+          status: 'failed',
+          reasonCode: 'step_timeout',
+          nextAction: `Step ${stepId} timed out after ${err.timeoutMs}ms and did not stop within ${STEP_ABORT_SETTLE_MS}ms of being cancelled. Check \`git status\` and the step's output before re-running the command.`,
+        }
+      : {
+          status: 'failed',
+          reasonCode: 'step_timeout',
+          nextAction: `Step ${stepId} timed out after ${err.timeoutMs}ms; its workflow was cancelled and its processes stopped. Retry the step, or skip it and continue.`,
+          stepTimeout: { step: stepId, timeoutMs: err.timeoutMs },
+        }
+    : {
+        status: 'failed',
+        reasonCode: 'unhandled_error',
+        nextAction: `Step ${stepId} failed: ${message}`,
+      };
+  return { stepResult: null, lastResult: { success: false, output: ctx.output.join('\n\n'), outcome } };
 }
 
 async function runStepWithAdapter(
   ctx: HarnessContext,
-  stepId: StepId,
+  stepDef: StepDefinition,
   stepStart: number,
   deps: HarnessDeps,
   stepPath: string[],
   activePlugins: PolicyPlugin[]
-): Promise<{ stepResult: StepRunResult | null; lastResult: StepLoopResult }> {
+): Promise<{ stepResult: StepRunResult | StepSkipResult | null; lastResult: StepLoopResult; timedOut?: boolean }> {
   try {
-    const stepResult = await deps.adapter.runStep(ctx, stepId);
+    const stepResult = await withDeadline(
+      stepDef.timeout,
+      () => new StepTimeoutError(stepDef.id, stepDef.timeout!),
+      (signal) => deps.adapter.runStep(ctx, stepDef.id, signal),
+      {
+        settleMs: STEP_ABORT_SETTLE_MS,
+        onUnsettled: (err) => {
+          if (err instanceof StepTimeoutError) err.stillRunning = true;
+        },
+      }
+    );
     return { stepResult, lastResult: null };
   } catch (err) {
-    return recordStepFailure(ctx.traceHandle!, stepId, stepStart, deps, stepPath, ctx, activePlugins, err);
+    const failure = await recordStepFailure(ctx.traceHandle!, stepDef.id, stepStart, deps, stepPath, ctx, activePlugins, err);
+    return { ...failure, ...(err instanceof StepTimeoutError && { timedOut: true }) };
   }
 }
 
+async function recordStepSkip(
+  handle: RunTraceHandle,
+  stepId: StepId,
+  deps: HarnessDeps,
+  details: Record<string, unknown>
+): Promise<void> {
+  await deps.recorder.step(handle, {
+    step: stepId,
+    phase: 'skip',
+    ts: new Date().toISOString(),
+    details,
+  });
+}
+
 async function recordStepCompletion(
   handle: RunTraceHandle,
   stepId: StepId,
@@ -223,22 +478,25 @@ async function runPluginAfterStep(
   for (const plugin of activePlugins) {
     if (!plugin.afterStep) continue;
     try {
-      const res: PluginStepResult = await plugin.afterStep(ctx, stepId);
-      if (res.diagnostic) {
-        pushPluginDiagnostic(ctx, plugin.name, stepId, res.diagnostic);
+      const res: PluginStepResult = await runPluginHook(plugin, 'afterStep', (signal) =>
+        plugin.afterStep!(pluginView(ctx, plugin), stepId, signal)
+      );
+      const diagnostic = acceptPluginDiagnostic(ctx, plugin, stepId, res.diagnostic);
+      if (res.action !== 'continue' && !pluginHas(plugin, 'block_step')) {
+        rejectPluginBehavior(ctx, plugin, stepId, 'block_step', res.action);
+        continue;
       }
       if (res.action === 'abort_run' && lastResult == null) {
         lastResult = {
           success: false,
           output: ctx.output.join('\n\n'),
-          outcome: { status: 'failed', reasonCode: 'preflight_failed', nextAction: res.diagnostic ?? 'Plugin aborted run.' },
+          outcome: { status: 'failed', reasonCode: 'preflight_failed', nextAction: diagnostic ?? 'Plugin aborted run.' },
         };
         breakStepLoop = true;
         break;
       }
     } catch (e) {
-      const detail = e instanceof Error ? e.message : String(e);
-      pushPluginDiagnostic(ctx, plugin.name, stepId, `afterStep threw: ${detail}`);
+      pushPluginDiagnostic(ctx, plugin.name, stepId, pluginHookFailure('afterStep', e));
     }
   }
   return { lastResult, breakStepLoop };
@@ -253,8 +511,9 @@ function applyPluginOutcomeContributions(
   for (const plugin of activePlugins) {
     if (!plugin.contributeOutcome) continue;
     try {
-      const partial = plugin.contributeOutcome(ctx);
-      if (partial && typeof partial === 'object') {
+      const raw = plugin.contributeOutcome(pluginView(ctx, plugin));
+      if (raw && typeof raw === 'object') {
+        const partial = filterOutcomeContribution(ctx, plugin, result.outcome, raw);
         const { pluginAdvisory: partialAdvisory, ...restPartial } = partial;
         const mergedAdvisory = [result.outcome.pluginAdvisory, partialAdvisory].filter(Boolean).join('\n\n');
         result = {
@@ -279,7 +538,8 @@ async function buildAndRecordDecision(
   finalResult: { success: boolean; output: string; outcome: TierOutcome },
   deps: HarnessDeps,
   stepPath: string[],
-  spec: WorkflowSpec
+  spec: WorkflowSpec,
+  diagnostics: HarnessContext['diagnostics']
 ): Promise<HarnessRunResult> {
   const forRouting: CommandResultForRouting = {
     success: finalResult.success,
@@ -289,6 +549,9 @@ async function buildAndRecordDecision(
       nextAction: finalResult.outcome.nextAction,
       ...(finalResult.outcome.deliverables !== undefined && { deliverables: finalResult.outcome.deliverables }),
       ...(finalResult.outcome.cascade !== undefined && { cascade: finalResult.outcome.cascade }),
+      ...(finalResult.outcome.stepTimeout !== undefined && {
+        stepTimeout: { ...finalResult.outcome.stepTimeout, traceId: handle.traceId },
+      }),
     },
   };
   let controlPlaneDecision: ControlPlaneDecision = deps.routingContext
@@ -330,6 +593,7 @@ async function buildAndRecordDecision(
     controlPlaneDecision,
     traceId: handle.traceId,
     stepPath: stepPath as StepId[],
+    ...(diagnostics.length > 0 && { pluginDiagnostics: diagnostics }),
   });
 
   return {
@@ -339,6 +603,7 @@ async function buildAndRecordDecision(
     controlPlaneDecision,
     traceId: handle.traceId,
     stepPath: stepPath as StepId[],
+    ...(diagnostics.length > 0 && { pluginDiagnostics: diagnostics }),
   };
 }
 
@@ -349,20 +614,47 @@ export const defaultKernel: HarnessKernel = {
   },
 
   async run(spec: WorkflowSpec, deps: HarnessDeps): Promise<HarnessRunResult> {
+    // Full spec + command params so on-disk traces can be inspected and resumed without the original command.
     const handle = await deps.recorder.begin({
-      runId: spec.runId,
-      tier: spec.tier,
-      action: spec.action,
-      identifier: spec.identifier,
+      ...spec,
+      ...(deps.routingContext && { originalParams: deps.routingContext.originalParams }),
     });
-    const ctx = createContext(spec, handle);
+    const ctx = createContext(spec, handle, deps.sources);
     const graph = getStepGraph(spec);
     const stepPath: string[] = [];
     let lastResult: StepLoopResult = null;
     const activePlugins = deps.plugins ? deps.plugins.getForSpec(spec).filter((p) => spec.constraints.allowWrites || !p.capabilities.includes('write_context')) : [];
 
-    stepLoop: for (const stepDef of graph) {
+    const statuses = new Map<StepId, StepStatus>();
+    const resumeIdx = spec.resume ? graph.findIndex((d) => d.id === spec.resume!.fromStep) : -1;
+
+    stepLoop: for (const [idx, stepDef] of graph.entries()) {
       const stepId = stepDef.id;
+      if (idx < resumeIdx && spec.resume!.skippedSteps?.includes(stepId)) {
+        statuses.set(stepId, 'not_applicable');
+        await recordStepSkip(handle, stepId, deps, {
+          reason: 'skipped_from_trace',
+          parentTraceId: spec.metadata?.parentTraceId,
+        });
+        continue;
+      }
+      const restored = idx < resumeIdx ? spec.resume!.completedSteps[stepId] : undefined;
+      if (restored) {
+        statuses.set(stepId, 'succeeded');
+        ctx.stepResults[stepId] = { success: true, output: '', durationMs: restored.durationMs };
+        await recordStepSkip(handle, stepId, deps, {
+          reason: 'resumed_from_trace',
+          parentTraceId: spec.metadata?.parentTraceId,
+        });
+        continue;
+      }
+      const blocked = checkStepPreconditions(stepDef, spec, statuses);
+      if (blocked !== null) {
+        statuses.set(stepId, blocked.status);
+        await recordStepSkip(handle, stepId, deps, blocked.details);
+        continue;
+      }
+
       const stepStart = deps.clock?.() ?? clock();
       await deps.recorder.step(handle, {
         step: stepId,
@@ -371,25 +663,47 @@ export const defaultKernel: HarnessKernel = {
       });
 
       const before = await runPluginBeforeStep(ctx, stepId, activePlugins);
-      if (before.breakStepLoop) break stepLoop;
-      lastResult = before.lastResult;
-      if (lastResult !== null) break;
+      if (before.breakStepLoop) {
+        lastResult = before.lastResult;
+        break stepLoop;
+      }
+      if (before.skippedBy !== undefined) {
+        statuses.set(stepId, 'blocked');
+        await recordStepSkip(handle, stepId, deps, { reason: 'plugin_skip', plugin: before.skippedBy });
+        continue;
+      }
 
-      const stepOut = await runStepWithAdapter(ctx, stepId, stepStart, deps, stepPath, activePlugins);
-      lastResult = stepOut.lastResult;
-      if (lastResult !== null) break;
+      const stepOut = await runStepWithAdapter(ctx, stepDef, stepStart, deps, stepPath, activePlugins);
+      if (stepOut.lastResult !== null) {
+        statuses.set(stepId, 'failed');
+        lastResult = stepOut.lastResult;
+        // A timed-out step cancelled the workflow behind the adapter, so nothing after it can run (even when canFail).
+        if (stepDef.canFail && !stepOut.timedOut) continue;
+        break;
+      }
+      if (isStepSkipResult(stepOut.stepResult)) {
+        statuses.set(stepId, 'not_applicable');
+        await recordStepSkip(handle, stepId, deps, { reason: stepOut.stepResult.reason });
+        continue;
+      }
 
-      const after = await runPluginAfterStep(ctx, stepId, activePlugins, lastResult);
-      lastResult = after.lastResult;
-      if (after.breakStepLoop) break stepLoop;
-      if (lastResult !== null && !lastResult.success) break;
+      const after = await runPluginAfterStep(ctx, stepId, activePlugins, null);
+      if (after.breakStepLoop) {
+        lastResult = after.lastResult;
+        break stepLoop;
+      }
 
       const stepResult = stepOut.stepResult;
       const completion = await recordStepCompletion(handle, stepId, stepResult, stepStart, deps, stepPath, ctx);
+      statuses.set(stepId, stepResult === null || stepResult.success ? 'succeeded' : 'failed');
       if (completion.lastResult !== null) lastResult = completion.lastResult;
       if (completion.exitEarly) break;
+      if (stepResult !== null && !stepResult.success && !stepDef.canFail) break;
     }
 
+    // Early exits leave the tier impl parked at its next segment; no-op when the workflow already finished.
+    await deps.adapter.dispose?.(new Error('Kernel run stopped before the workflow finished'));
+
     let finalResult: StepLoopResult = lastResult ?? {
       success: false,
       output: ctx.output.join('\n\n'),
@@ -408,6 +722,6 @@ export const defaultKernel: HarnessKernel = {
       ...finalResult,
       output: capSuccessKernelOutput(finalResult.output, finalResult.success, reason),
     };
-    return buildAndRecordDecision(handle, finalResult, deps, stepPath, spec);
+    return buildAndRecordDecision(handle, finalResult, deps, stepPath, spec, ctx.diagnostics);
   },
 };
@@ -0,0 +1,146 @@
+/**
+ * External harness plugins from `.project-manager/harness-plugins.json`.
+ * Each entry names a module (relative to the project root), an optional export, a priority override, and an
+ * enable flag. Modules are imported at run time and each plugin is validated through
+ * DefaultPluginRegistry.validate() before it is registered; a bad entry is skipped, never fatal to the run.
+ *
+ * Manifest shape:
+ * {
+ *   "plugins": [
+ *     { "module": ".project-manager/harness-plugins/no-friday-push.ts", "export": "default", "priority": 50, "enabled": true }
+ *   ]
+ * }
+ */
+
+import { readFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { pathToFileURL } from 'url';
+import type { PolicyPlugin } from './contracts';
+import { DefaultPluginRegistry } from './plugin-registry';
+
+export const HARNESS_PLUGINS_MANIFEST_RELATIVE = '.project-manager/harness-plugins.json';
+
+export interface HarnessPluginManifestEntry {
+  /** Module path, relative to the project root (or absolute). */
+  module: string;
+  /** Named export to use; defaults to `default`. May be a plugin object, a class, or a zero-arg factory. */
+  export?: string;
+  /** Overrides the plugin's own priority (lower runs first). */
+  priority?: number;
+  /** Defaults to true; false keeps the entry in the manifest without loading it. */
+  enabled?: boolean;
+}
+
+export interface HarnessPluginManifest {
+  plugins: HarnessPluginManifestEntry[];
+}
+
+export interface ExternalPluginLoadResult {
+  plugins: PolicyPlugin[];
+  /** One line per manifest problem or rejected entry (manifest unreadable, import failed, validation failed). */
+  errors: string[];
+}
+
+function parseManifest(raw: string): { manifest: HarnessPluginManifest; errors: string[] } {
+  const errors: string[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return { manifest: { plugins: [] }, errors: [`invalid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  const list = (data as { plugins?: unknown } | null)?.plugins;
+  if (!Array.isArray(list)) {
+    return { manifest: { plugins: [] }, errors: ['"plugins" must be an array'] };
+  }
+  const plugins: HarnessPluginManifestEntry[] = [];
+  list.forEach((item, i) => {
+    const e = item as Record<string, unknown> | null;
+    if (!e || typeof e.module !== 'string' || !e.module.trim()) {
+      errors.push(`plugins[${i}]: "module" must be a non-empty string`);
+      return;
+    }
+    if (e.export !== undefined && typeof e.export !== 'string') {
+      errors.push(`plugins[${i}] (${e.module}): "export" must be a string`);
+      return;
+    }
+    if (e.priority !== undefined && (typeof e.priority !== 'number' || !Number.isFinite(e.priority))) {
+      errors.push(`plugins[${i}] (${e.module}): "priority" must be a finite number`);
+      return;
+    }
+    if (e.enabled !== undefined && typeof e.enabled !== 'boolean') {
+      errors.push(`plugins[${i}] (${e.module}): "enabled" must be a boolean`);
+      return;
+    }
+    plugins.push({
+      module: e.module.trim(),
+      ...(e.export !== undefined && { export: e.export as string }),
+      ...(e.priority !== undefined && { priority: e.priority as number }),
+      ...(e.enabled !== undefined && { enabled: e.enabled as boolean }),
+    });
+  });
+  return { manifest: { plugins }, errors };
+}
+
+/** Read the manifest; a missing file is an empty manifest, not an error. */
+export async function readHarnessPluginManifest(
+  projectRoot: string
+): Promise<{ manifest: HarnessPluginManifest; errors: string[] }> {
+  let raw: string;
+  try {
+    raw = await readFile(join(projectRoot, HARNESS_PLUGINS_MANIFEST_RELATIVE), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { manifest: { plugins: [] }, errors: [] };
+    return { manifest: { plugins: [] }, errors: [`unreadable: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  return parseManifest(raw);
+}
+
+/** Turn a module export into a plugin instance: plugin object, class (constructed), or zero-arg factory. */
+async function instantiate(exported: unknown): Promise<PolicyPlugin> {
+  if (typeof exported === 'function') {
+    const fn = exported as (new () => PolicyPlugin) & (() => PolicyPlugin | Promise<PolicyPlugin>);
+    const isClass = /^class[\s{]/.test(Function.prototype.toString.call(fn));
+    return isClass ? new fn() : await fn();
+  }
+  if (exported !== null && typeof exported === 'object') return exported as PolicyPlugin;
+  throw new Error('export is not a plugin object, class, or factory');
+}
+
+/** Priority override without mutating the module's instance (methods still resolve through the prototype chain). */
+function withPriority(plugin: PolicyPlugin, priority: number | undefined): PolicyPlugin {
+  if (priority === undefined || priority === plugin.priority) return plugin;
+  return Object.create(plugin, {
+    priority: { value: priority, enumerable: true, writable: false },
+  }) as PolicyPlugin;
+}
+
+async function loadEntry(projectRoot: string, entry: HarnessPluginManifestEntry): Promise<PolicyPlugin> {
+  const abs = isAbsolute(entry.module) ? entry.module : join(projectRoot, entry.module);
+  const mod = (await import(pathToFileURL(abs).href)) as Record<string, unknown>;
+  const exportName = entry.export ?? 'default';
+  if (!(exportName in mod)) {
+    throw new Error(`module has no export "${exportName}"`);
+  }
+  const plugin = withPriority(await instantiate(mod[exportName]), entry.priority);
+  const probe = new DefaultPluginRegistry();
+  probe.register(plugin);
+  probe.validate();
+  return plugin;
+}
+
+/** Load every enabled manifest entry; entries that fail to import or validate are reported in `errors`. */
+export async function loadExternalPlugins(projectRoot: string): Promise<ExternalPluginLoadResult> {
+  const { manifest, errors } = await readHarnessPluginManifest(projectRoot);
+  const plugins: PolicyPlugin[] = [];
+  for (const entry of manifest.plugins) {
+    if (entry.enabled === false) continue;
+    try {
+      plugins.push(await loadEntry(projectRoot, entry));
+    } catch (e) {
+      const label = entry.export ? `${entry.module}#${entry.export}` : entry.module;
+      errors.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return { plugins, errors };
+}
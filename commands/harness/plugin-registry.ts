@@ -3,7 +3,15 @@
  * Lower priority values run first in kernel plugin loops (predictable pluginAdvisory order).
  */
 
-import type { PolicyPlugin, PluginRegistry, WorkflowSpec } from './contracts';
+import type { PluginCapability, PolicyPlugin, PluginRegistry, WorkflowSpec } from './contracts';
+
+const KNOWN_CAPABILITIES: ReadonlySet<PluginCapability> = new Set<PluginCapability>([
+  'read_context',
+  'write_context',
+  'mutate_outcome',
+  'block_step',
+  'emit_diagnostic',
+]);
 
 export class DefaultPluginRegistry implements PluginRegistry {
   private readonly plugins: PolicyPlugin[] = [];
@@ -26,6 +34,10 @@ export class DefaultPluginRegistry implements PluginRegistry {
       .sort((a, b) => a.priority - b.priority);
   }
 
+  /**
+   * Validate every registered plugin: unique non-empty name, non-empty version, finite priority,
+   * capabilities drawn from PluginCapability, and an appliesTo function. Throws on the first violation.
+   */
   validate(): void {
     const seen = new Set<string>();
     for (const p of this.plugins) {
@@ -37,6 +49,22 @@ export class DefaultPluginRegistry implements PluginRegistry {
         throw new Error(`PluginRegistry.validate: duplicate plugin name "${name}"`);
       }
       seen.add(name);
+      if (typeof p.version !== 'string' || !p.version.trim()) {
+        throw new Error(`PluginRegistry.validate: plugin "${name}" has no version`);
+      }
+      if (typeof p.priority !== 'number' || !Number.isFinite(p.priority)) {
+        throw new Error(`PluginRegistry.validate: plugin "${name}" priority must be a finite number`);
+      }
+      if (!Array.isArray(p.capabilities)) {
+        throw new Error(`PluginRegistry.validate: plugin "${name}" capabilities must be an array`);
+      }
+      const unknown = p.capabilities.filter((c) => !KNOWN_CAPABILITIES.has(c));
+      if (unknown.length > 0) {
+        throw new Error(`PluginRegistry.validate: plugin "${name}" declares unknown capabilities: ${unknown.join(', ')}`);
+      }
+      if (typeof p.appliesTo !== 'function') {
+        throw new Error(`PluginRegistry.validate: plugin "${name}" must implement appliesTo(spec)`);
+      }
     }
   }
 }
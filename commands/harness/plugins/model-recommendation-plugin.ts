@@ -17,6 +17,7 @@ import type {
 import type { GateProfile } from '../work-profile';
 import { PROJECT_ROOT } from '../../utils/utils';
 import { recordHarnessVerboseWarning } from '../workflow-friction-manager';
+import { getStepIdsForAction } from '../step-graph';
 
 const CONFIG_REL = join('.project-manager', 'agent-model-config.json');
 
@@ -151,7 +152,7 @@ export class ModelRecommendationPlugin implements PolicyPlugin {
   }
 
   async beforeStep(ctx: HarnessContext, stepId: StepId): Promise<PluginStepResult> {
-    if (stepId !== 'validate_identifier') {
+    if (stepId !== getStepIdsForAction(ctx.spec.action)[0]) {
       return { action: 'continue' };
     }
     const { diagnosticLine } = this.parseForRun(ctx);
@@ -0,0 +1,341 @@
+/**
+ * Deterministic replay of a stored harness run (run-trace-store.ts).
+ * Re-runs the kernel against the recorded WorkflowSpec with a stub TierAdapter that feeds back the captured
+ * step results, recording FileSystem/GitState adapters (fixtures only — nothing reads the project tree or git),
+ * and an in-memory recorder (no trace is written). The replay must reproduce the recorded stepPath and
+ * stepPathChecksum; any step, reason-code, or control-plane decision mismatch is reported as a divergence.
+ * Use it to regression-test routeByOutcome and plugin changes against real historical runs.
+ */
+
+import { fileURLToPath } from 'node:url';
+import { resolve as resolvePath } from 'node:path';
+import type {
+  FileSystemAdapter,
+  GitStateAdapter,
+  HarnessRunResult,
+  PluginRegistry,
+  StepEvent,
+  StepId,
+  StepRunResult,
+  StepSkipResult,
+  TierAdapter,
+  TierOutcome,
+  WorkflowSpec,
+} from './contracts';
+import { PROJECT_ROOT } from '../utils/utils';
+import { defaultKernel, StepTimeoutError } from './kernel';
+import { getStepIdsForAction } from './step-graph';
+import { createContextInjector } from './context-injector';
+import { defaultProfileDefaultsResolver } from './spec-builder';
+import { createShadowRunRecorder, checksumStepPath } from './run-recorder-shadow';
+import { HARNESS_TRACES_RELATIVE, readStoredTrace, type StoredTraceRecord } from './run-trace-store';
+import { createDefaultPlugins } from './default-plugins';
+
+/** Skip reasons the kernel decides itself (the adapter is never called for these steps). */
+const KERNEL_SKIP_REASONS = new Set([
+  'requires_mode',
+  'dependency_not_met',
+  'plugin_skip',
+  'resumed_from_trace',
+  'skipped_from_trace',
+]);
+
+/** Read-side call made through a recording adapter during replay. */
+export interface RecordedSourceCall {
+  op: 'readFile' | 'exists' | 'getBranch' | 'getDirtyPaths';
+  path?: string;
+  /** False when the fixture had no answer (readFile of a missing path). */
+  served: boolean;
+}
+
+export type RecordingFileSystemAdapter = FileSystemAdapter & { readonly calls: RecordedSourceCall[] };
+export type RecordingGitStateAdapter = GitStateAdapter & { readonly calls: RecordedSourceCall[] };
+
+/** FileSystemAdapter over in-memory fixtures (path → content); every call is recorded. */
+export function createRecordingFileSystemAdapter(files: Record<string, string> = {}): RecordingFileSystemAdapter {
+  const calls: RecordedSourceCall[] = [];
+  return {
+    calls,
+    async readFile(path: string): Promise<string> {
+      const content = files[path];
+      calls.push({ op: 'readFile', path, served: content !== undefined });
+      if (content === undefined) {
+        throw new Error(`replay: no fixture for ${path}`);
+      }
+      return content;
+    },
+    async exists(path: string): Promise<boolean> {
+      calls.push({ op: 'exists', path, served: true });
+      return files[path] !== undefined;
+    },
+  };
+}
+
+/** GitStateAdapter over a fixed branch / dirty list; every call is recorded. */
+export function createRecordingGitStateAdapter(
+  state: { branch?: string; dirtyPaths?: string[] } = {}
+): RecordingGitStateAdapter {
+  const calls: RecordedSourceCall[] = [];
+  return {
+    calls,
+    async getBranch(): Promise<string> {
+      calls.push({ op: 'getBranch', served: state.branch !== undefined });
+      return state.branch ?? '';
+    },
+    async getDirtyPaths(): Promise<string[]> {
+      calls.push({ op: 'getDirtyPaths', served: state.dirtyPaths !== undefined });
+      return [...(state.dirtyPaths ?? [])];
+    },
+  };
+}
+
+export interface ReplayDivergence {
+  kind: 'step_event' | 'step_path' | 'step_path_checksum' | 'reason_code' | 'decision';
+  step?: StepId;
+  /** Decision field for kind 'decision'. */
+  field?: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ReplayOptions {
+  /**
+   * Live plugins to run during replay. When omitted, no plugin runs and the recorded plugin advisory is replayed
+   * verbatim; when set, the recorded advisory is dropped so the live plugins' contribution is what gets compared.
+   */
+  plugins?: PluginRegistry;
+  /** Fixtures served by the recording adapters (defaults: empty tree, empty branch, clean tree). */
+  fixtures?: { files?: Record<string, string>; branch?: string; dirtyPaths?: string[] };
+}
+
+export interface ReplayReport {
+  traceId: string;
+  matched: boolean;
+  divergences: ReplayDivergence[];
+  expected: { stepPath: StepId[]; stepPathChecksum?: string; reasonCode?: string };
+  actual: { stepPath: StepId[]; stepPathChecksum: string; reasonCode: string };
+  result: HarnessRunResult;
+  /** Reads plugins made through ctx.sources during replay. */
+  sourceCalls: RecordedSourceCall[];
+}
+
+/**
+ * Kernel-level terminal event per kernel step. A start workflow step shares the `gather_context` id with its
+ * kernel node; the kernel's own exit is recorded after the workflow's, so the last terminal event wins.
+ */
+function kernelTerminalEvents(events: StepEvent[], kernelSteps: readonly StepId[]): Map<StepId, StepEvent> {
+  const ids = new Set<string>(kernelSteps);
+  const out = new Map<StepId, StepEvent>();
+  for (const e of events) {
+    if (!ids.has(e.step) || e.phase === 'enter') continue;
+    out.set(e.step as StepId, e);
+  }
+  return out;
+}
+
+function describeEvent(e: StepEvent | undefined): string {
+  if (!e) return 'not reached';
+  const reason = e.phase === 'skip' ? e.details?.reason : e.reasonCode;
+  return reason ? `${e.phase} (${String(reason)})` : e.phase;
+}
+
+/** Stub TierAdapter: replays each kernel step's recorded result instead of running the tier workflow. */
+function createReplayAdapter(record: StoredTraceRecord, spec: WorkflowSpec, livePlugins: boolean): TierAdapter {
+  const terminal = kernelTerminalEvents(record.stepEvents, getStepIdsForAction(spec.action));
+  const recordedPath = record.stepPath ?? [];
+  const finalStep = [...recordedPath].reverse().find((id) => terminal.get(id)?.reasonCode !== undefined);
+  const recordedOutcome = record.result?.outcome;
+
+  const outcomeFor = (stepId: StepId, event: StepEvent): TierOutcome => {
+    if (stepId === finalStep && recordedOutcome) {
+      if (!livePlugins) return recordedOutcome;
+      const { pluginAdvisory: _recordedAdvisory, ...rest } = recordedOutcome;
+      return rest;
+    }
+    return {
+      status: event.phase === 'exit_success' ? 'completed' : 'failed',
+      reasonCode: event.reasonCode ?? 'unhandled_error',
+      nextAction: '',
+    };
+  };
+
+  return {
+    async runStep(_ctx, stepId): Promise<StepRunResult | StepSkipResult | null> {
+      const event = terminal.get(stepId);
+      // Divergences are detected after the run by comparing step events; here just keep the kernel moving.
+      if (!event) return { skipped: true, reason: 'replay_unrecorded' };
+      if (event.phase === 'skip') {
+        const reason = String(event.details?.reason ?? 'replay_skip');
+        return { skipped: true, reason: KERNEL_SKIP_REASONS.has(reason) ? 'replay_kernel_skip' : reason };
+      }
+      if (event.phase === 'exit_failure' && event.details?.error !== undefined) {
+        if (event.reasonCode === 'step_timeout') {
+          throw new StepTimeoutError(stepId, Number(event.details.timeoutMs ?? 0));
+        }
+        throw new Error(String(event.details.error));
+      }
+      if (event.reasonCode === undefined) return null;
+      const isFinal = stepId === finalStep;
+      return {
+        success: event.phase === 'exit_success',
+        output: isFinal ? (record.result?.output ?? '') : '',
+        outcome: outcomeFor(stepId, event),
+        exitEarly: isFinal,
+      };
+    },
+  };
+}
+
+function compareDecision(record: StoredTraceRecord, result: HarnessRunResult): ReplayDivergence[] {
+  const expected = record.decision;
+  if (!expected) return [];
+  const actual = result.controlPlaneDecision;
+  const fields = ['stop', 'requiredMode', 'questionKey', 'cascadeCommand', 'message'] as const;
+  const out: ReplayDivergence[] = [];
+  for (const field of fields) {
+    const e = expected[field];
+    const a = actual[field];
+    if (String(e ?? '') !== String(a ?? '')) {
+      out.push({ kind: 'decision', field, expected: String(e ?? '—'), actual: String(a ?? '—') });
+    }
+  }
+  return out;
+}
+
+/** Replay a stored trace record; resolves with the comparison report (throws only when the record is not replayable). */
+export async function replayTrace(record: StoredTraceRecord, opts: ReplayOptions = {}): Promise<ReplayReport> {
+  const recordedSpec = record.spec as Partial<WorkflowSpec> & { originalParams?: unknown; harnessCutoverTier?: boolean };
+  if (recordedSpec.specVersion !== '1' || !recordedSpec.policies || !recordedSpec.featureContext) {
+    throw new Error(`Trace ${record.traceId} has no full WorkflowSpec (recorded outside the kernel); it cannot be replayed.`);
+  }
+  if (!record.result) {
+    throw new Error(`Trace ${record.traceId} is incomplete (no recorder.end); there is nothing to compare against.`);
+  }
+  const { originalParams, harnessCutoverTier: _cutover, ...spec } = recordedSpec as WorkflowSpec & {
+    originalParams?: unknown;
+    harnessCutoverTier?: boolean;
+  };
+
+  const fs = createRecordingFileSystemAdapter(opts.fixtures?.files);
+  const git = createRecordingGitStateAdapter(opts.fixtures);
+  const recorder = createShadowRunRecorder();
+  const result = await defaultKernel.run(spec, {
+    contextInjector: createContextInjector(),
+    recorder,
+    adapter: createReplayAdapter(record, spec, opts.plugins !== undefined),
+    profileDefaults: defaultProfileDefaultsResolver,
+    routingContext: {
+      tier: spec.tier,
+      action: spec.action,
+      originalParams,
+      ...(spec.workProfile != null && { workProfile: spec.workProfile }),
+    },
+    ...(opts.plugins && { plugins: opts.plugins }),
+    sources: { fs, git },
+  });
+
+  const kernelSteps = getStepIdsForAction(spec.action);
+  const expectedEvents = kernelTerminalEvents(record.stepEvents, kernelSteps);
+  const actualEvents = kernelTerminalEvents(recorder.getTrace(result.traceId)?.stepEvents ?? [], kernelSteps);
+  const divergences: ReplayDivergence[] = [];
+  for (const step of kernelSteps) {
+    const expected = describeEvent(expectedEvents.get(step));
+    const actual = describeEvent(actualEvents.get(step));
+    if (expected !== actual) divergences.push({ kind: 'step_event', step, expected, actual });
+  }
+
+  const expectedPath = (record.stepPath ?? []) as StepId[];
+  const actualChecksum = checksumStepPath(result.stepPath);
+  if (expectedPath.join('|') !== result.stepPath.join('|')) {
+    divergences.push({ kind: 'step_path', expected: expectedPath.join(' → '), actual: result.stepPath.join(' → ') });
+  }
+  if (record.stepPathChecksum !== undefined && record.stepPathChecksum !== actualChecksum) {
+    divergences.push({ kind: 'step_path_checksum', expected: record.stepPathChecksum, actual: actualChecksum });
+  }
+  const expectedReason = record.result.outcome?.reasonCode;
+  const actualReason = String(result.outcome.reasonCode);
+  if (expectedReason !== undefined && String(expectedReason) !== actualReason) {
+    divergences.push({ kind: 'reason_code', expected: String(expectedReason), actual: actualReason });
+  }
+  divergences.push(...compareDecision(record, result));
+
+  return {
+    traceId: record.traceId,
+    matched: divergences.length === 0,
+    divergences,
+    expected: {
+      stepPath: expectedPath,
+      ...(record.stepPathChecksum !== undefined && { stepPathChecksum: record.stepPathChecksum }),
+      ...(expectedReason !== undefined && { reasonCode: String(expectedReason) }),
+    },
+    actual: { stepPath: result.stepPath, stepPathChecksum: actualChecksum, reasonCode: actualReason },
+    result,
+    sourceCalls: [...fs.calls, ...git.calls],
+  };
+}
+
+/** Markdown summary of a replay report (CLI output). */
+export function formatReplayReport(report: ReplayReport): string {
+  const lines = [
+    `# Replay of \`${report.traceId}\``,
+    '',
+    `- **Result:** ${report.matched ? 'matched' : `${report.divergences.length} divergence(s)`}`,
+    `- **Step path:** ${report.actual.stepPath.join(' → ') || '(empty)'}`,
+    `- **Checksum:** \`${report.actual.stepPathChecksum}\` (recorded \`${report.expected.stepPathChecksum ?? '—'}\`)`,
+    `- **Reason code:** \`${report.actual.reasonCode}\` (recorded \`${report.expected.reasonCode ?? '—'}\`)`,
+  ];
+  if (report.divergences.length > 0) {
+    lines.push('', '| Kind | Step / field | Recorded | Replayed |', '|------|--------------|----------|----------|');
+    for (const d of report.divergences) {
+      const where = d.step ?? d.field ?? '—';
+      const cell = (v: string): string => v.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+      lines.push(`| ${d.kind} | ${where} | ${cell(d.expected)} | ${cell(d.actual)} |`);
+    }
+  }
+  if (report.sourceCalls.length > 0) {
+    lines.push('', `Plugin reads through ctx.sources: ${report.sourceCalls.length} (${report.sourceCalls.filter((c) => !c.served).length} without fixture).`);
+  }
+  return lines.join('\n');
+}
+
+/** Load `traceId` from the trace store and replay it. */
+export async function replayStoredTrace(
+  traceId: string,
+  opts: ReplayOptions & { projectRoot?: string } = {}
+): Promise<ReplayReport> {
+  const projectRoot = opts.projectRoot ?? PROJECT_ROOT;
+  const record = await readStoredTrace(projectRoot, traceId.trim());
+  if (!record) {
+    throw new Error(`No trace ${traceId.trim()} in ${HARNESS_TRACES_RELATIVE}.`);
+  }
+  return replayTrace(record, opts);
+}
+
+// ─── CLI (npx tsx) ─────────────────────────────────────────────────────────
+
+const replayTraceThisFile = fileURLToPath(import.meta.url);
+const isReplayTraceCli =
+  typeof process !== 'undefined' &&
+  Boolean(process.argv[1]) &&
+  resolvePath(process.argv[1]!) === resolvePath(replayTraceThisFile);
+
+if (isReplayTraceCli) {
+  void (async (): Promise<void> => {
+    const args = process.argv.slice(2);
+    const traceId = args.find((a) => !a.startsWith('--'))?.trim();
+    if (!traceId) {
+      console.error('Usage: npx tsx .cursor/commands/harness/replay-trace.ts <traceId> [--with-plugins]');
+      process.exit(1);
+      return;
+    }
+    try {
+      const plugins = args.includes('--with-plugins') ? await createDefaultPlugins() : undefined;
+      const report = await replayStoredTrace(traceId, { ...(plugins && { plugins }) });
+      console.log(formatReplayReport(report));
+      process.exit(report.matched ? 0 : 1);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exit(1);
+    }
+  })();
+}
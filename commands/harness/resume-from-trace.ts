@@ -0,0 +1,220 @@
+/**
+ * Resume a failed kernel run from its stored trace (run-trace-store.ts).
+ * Reloads the original spec, command params, and user choices; restores kernel steps that completed before
+ * the first `exit_failure` step; re-invokes the tier command with `options.harnessResume` so the new run
+ * is a child trace (metadata.parentTraceId + previousRunSummary) that re-enters at the failing step.
+ * With `skipFailedStep` (control-plane "skip" after step_timeout) the failing step is recorded as skipped and the
+ * child run re-enters at the next kernel step instead.
+ */
+
+import { fileURLToPath } from 'node:url';
+import { resolve as resolvePath } from 'node:path';
+import type { ResumeSpecFields, RunResumeState, StepId, WorkflowSpec } from './contracts';
+import { PROJECT_ROOT } from '../utils/utils';
+import { getStepIdsForAction } from './step-graph';
+import { readStoredTrace, HARNESS_TRACES_RELATIVE, type StoredTraceRecord } from './run-trace-store';
+import { START_KERNEL_SEGMENTS } from './run-start-steps';
+import { END_KERNEL_SEGMENTS, isResumableEndStepId } from './run-end-steps';
+import type { CommandExecutionOptions } from '../utils/command-execution-mode';
+import type { ControlPlaneDecision, StartReinvokeParams } from '../tiers/shared/control-plane-types';
+import { getConfigForTier } from '../tiers/configs';
+import { runTierStart, type TierStartParams } from '../tiers/shared/tier-start';
+import { runTierEnd, type TierEndParams } from '../tiers/shared/tier-end';
+import { buildEndReinvokeParams } from '../tiers/shared/control-plane-reinvoke';
+
+/**
+ * Kernel steps that always re-run on resume even if they completed: tier-end preflight owns the
+ * conflict-marker guard and audit pre-warm, which must reflect the tree at resume time.
+ */
+const RESUME_RERUN_STEPS = new Set<StepId>(['preflight']);
+
+export interface ResumeFromTraceOptions {
+  projectRoot?: string;
+  /** Skip the failed kernel step and re-enter at the one after it. */
+  skipFailedStep?: boolean;
+}
+
+export interface ResumeFromTraceResult {
+  success: boolean;
+  output: string;
+  /** Kernel step the child run re-entered at (absent when the trace could not be resumed). */
+  fromStep?: StepId;
+  controlPlaneDecision?: ControlPlaneDecision;
+}
+
+/** Resume plan derived from a trace; exported for inspection (e.g. /harness-trace). */
+export type TraceResumePlan = {
+  spec: WorkflowSpec;
+  resume: RunResumeState;
+  /** Workflow-level resume id (resumeAfterStep / resumeEndAfterStep) aligned with fromStep, when one applies. */
+  workflowResumeStep?: string;
+} & (
+  | { action: 'start'; originalParams: StartReinvokeParams }
+  | { action: 'end'; originalParams: TierEndParams }
+);
+
+function failed(output: string): ResumeFromTraceResult {
+  return { success: false, output };
+}
+
+/** Workflow step to pass as resumeAfterStep / resumeEndAfterStep so workflow-level skips match the kernel. */
+function workflowResumeStepFor(record: StoredTraceRecord, action: 'start' | 'end', fromStep: StepId): string | undefined {
+  if (action === 'start') {
+    return (START_KERNEL_SEGMENTS as Partial<Record<StepId, readonly string[]>>)[fromStep]?.[0];
+  }
+  const segment = (END_KERNEL_SEGMENTS as Partial<Record<StepId, readonly string[]>>)[fromStep] ?? [];
+  const failedSub = record.stepEvents.find(
+    (e) => e.phase === 'exit_failure' && segment.includes(e.step) && isResumableEndStepId(e.step)
+  );
+  return failedSub?.step ?? segment.find(isResumableEndStepId);
+}
+
+/**
+ * Work out where a traced run can re-enter. Returns an error message when the trace cannot be resumed
+ * (not a start/end run, recorded before params were traced, no failed kernel step, or skipping the last step).
+ */
+export function planResumeFromTrace(
+  record: StoredTraceRecord,
+  opts: Pick<ResumeFromTraceOptions, 'skipFailedStep'> = {}
+): TraceResumePlan | string {
+  const spec = record.spec as Partial<WorkflowSpec>;
+  if (spec.specVersion !== '1' || !spec.policies || !spec.featureContext) {
+    return `Trace \`${record.traceId}\` has no full WorkflowSpec (recorded outside the kernel); it cannot be resumed.`;
+  }
+  if (spec.action !== 'start' && spec.action !== 'end') {
+    return `Only tier start/end runs can be resumed (trace action: ${spec.action}).`;
+  }
+  const originalParams = record.spec.originalParams;
+  if (originalParams == null || typeof originalParams !== 'object') {
+    return `Trace \`${record.traceId}\` did not record the command params; re-run the tier command instead.`;
+  }
+  const order = getStepIdsForAction(spec.action);
+  const kernelSteps = new Set<string>(order);
+  const failure = record.stepEvents.find((e) => e.phase === 'exit_failure' && kernelSteps.has(e.step));
+  if (!failure) {
+    return `Trace \`${record.traceId}\` has no failed kernel step; nothing to resume.`;
+  }
+  const failedStep = failure.step as StepId;
+  const failedIdx = order.indexOf(failedStep);
+  const fromIdx = opts.skipFailedStep ? failedIdx + 1 : failedIdx;
+  if (fromIdx >= order.length || order[fromIdx] === undefined) {
+    return `Kernel step \`${failedStep}\` is the last step of the run; it cannot be skipped.`;
+  }
+  const fromStep = order[fromIdx]!;
+  const completedSteps: RunResumeState['completedSteps'] = {};
+  for (const e of record.stepEvents) {
+    const id = e.step as StepId;
+    if (e.phase !== 'exit_success' || !kernelSteps.has(id) || RESUME_RERUN_STEPS.has(id)) continue;
+    if (order.indexOf(id) >= fromIdx) continue;
+    completedSteps[id] = { durationMs: e.durationMs ?? 0 };
+  }
+  // A skipped step's whole segment is skipped by the kernel, so the next segment runs from its first workflow step.
+  const workflowResumeStep = opts.skipFailedStep ? undefined : workflowResumeStepFor(record, spec.action, fromStep);
+  const common = {
+    spec: spec as WorkflowSpec,
+    resume: { fromStep, completedSteps, ...(opts.skipFailedStep && { skippedSteps: [failedStep] }) },
+    ...(workflowResumeStep !== undefined && { workflowResumeStep }),
+  };
+  // Params were recorded from the same command (routingContext.originalParams), so they match the traced action
+  return spec.action === 'start'
+    ? { ...common, action: 'start', originalParams: originalParams as StartReinvokeParams }
+    : { ...common, action: 'end', originalParams: originalParams as TierEndParams };
+}
+
+function resumeSpecFields(record: StoredTraceRecord, plan: TraceResumePlan): ResumeSpecFields {
+  const decisions: Record<string, string> = { resumeFromStep: plan.resume.fromStep };
+  if (plan.resume.skippedSteps?.length) decisions.skippedSteps = plan.resume.skippedSteps.join(',');
+  if (record.decision?.questionKey) decisions.questionKey = record.decision.questionKey;
+  if (plan.workflowResumeStep) decisions.workflowResumeStep = plan.workflowResumeStep;
+  return {
+    resume: plan.resume,
+    previousRunSummary: {
+      traceId: record.traceId,
+      reasonCode: String(record.result?.outcome?.reasonCode ?? 'unhandled_error'),
+      decisions,
+    },
+    metadata: {
+      ...plan.spec.metadata,
+      parentTraceId: record.traceId,
+      sourceCommand: 'resumeFromTrace',
+    },
+  };
+}
+
+/**
+ * Re-run the tier command recorded in `traceId`, re-entering the kernel at its first failed step.
+ * Steps that completed before it (except RESUME_RERUN_STEPS) are restored, so e.g. a tier-end that died in
+ * branch_ops does not rerun tests, doc rollups, or audits.
+ */
+export async function resumeFromTrace(
+  traceId: string,
+  opts: ResumeFromTraceOptions = {}
+): Promise<ResumeFromTraceResult> {
+  const projectRoot = opts.projectRoot ?? PROJECT_ROOT;
+  const record = await readStoredTrace(projectRoot, traceId.trim());
+  if (!record) {
+    return failed(`No trace \`${traceId.trim()}\` in \`${HARNESS_TRACES_RELATIVE}\`.`);
+  }
+  const plan = planResumeFromTrace(record, { skipFailedStep: opts.skipFailedStep });
+  if (typeof plan === 'string') return failed(plan);
+
+  const harnessResume = resumeSpecFields(record, plan);
+  const config = getConfigForTier(plan.spec.tier);
+  const skipped = plan.resume.skippedSteps?.length ? `; skipped: ${plan.resume.skippedSteps.join(', ')}` : '';
+  const header = `**Resuming** trace \`${record.traceId}\` at kernel step \`${plan.resume.fromStep}\` (restored: ${
+    Object.keys(plan.resume.completedSteps).join(', ') || 'none'
+  }${skipped}).`;
+
+  if (plan.action === 'start') {
+    const { options: originalOptions, ...baseParams } = plan.originalParams;
+    const options: CommandExecutionOptions = {
+      ...originalOptions,
+      mode: plan.spec.mode,
+      ...(plan.workflowResumeStep !== undefined && { resumeAfterStep: plan.workflowResumeStep }),
+      ...(plan.spec.workProfile != null && { workProfile: plan.spec.workProfile }),
+      harnessResume,
+    };
+    const result = await runTierStart(config, baseParams as TierStartParams, options);
+    return {
+      success: result.success,
+      output: `${header}\n\n${result.output}`,
+      fromStep: plan.resume.fromStep,
+      controlPlaneDecision: result.controlPlaneDecision,
+    };
+  }
+
+  const params = buildEndReinvokeParams(plan.originalParams, {
+    ...(plan.workflowResumeStep !== undefined && { resumeEndAfterStep: plan.workflowResumeStep }),
+    harnessResume,
+  });
+  const result = await runTierEnd(config, params);
+  return {
+    success: result.success,
+    output: `${header}\n\n${result.output}`,
+    fromStep: plan.resume.fromStep,
+    controlPlaneDecision: result.controlPlaneDecision,
+  };
+}
+
+// ─── CLI (npx tsx) ─────────────────────────────────────────────────────────
+
+const resumeFromTraceThisFile = fileURLToPath(import.meta.url);
+const isResumeFromTraceCli =
+  typeof process !== 'undefined' &&
+  Boolean(process.argv[1]) &&
+  resolvePath(process.argv[1]!) === resolvePath(resumeFromTraceThisFile);
+
+if (isResumeFromTraceCli) {
+  void (async (): Promise<void> => {
+    const args = process.argv.slice(2);
+    const traceId = args.find((a) => !a.startsWith('--'))?.trim();
+    if (!traceId) {
+      console.error('Usage: npx tsx .cursor/commands/harness/resume-from-trace.ts <traceId> [--skip-step]');
+      process.exit(1);
+      return;
+    }
+    const r = await resumeFromTrace(traceId, { skipFailedStep: args.includes('--skip-step') });
+    console.log(r.output);
+    process.exit(r.success ? 0 : 1);
+  })();
+}
@@ -1,5 +1,6 @@
 /**
  * Canonical tier end step runner: runs plan_mode_exit → resolve_run_tests → pre_work → tests → mid_work → cleanup → git → verification → config_fix → audit → cascade.
+ * Steps are grouped into kernel segments (END_KERNEL_SEGMENTS); under the kernel each segment runs as its own StepId node.
  * Types live in tiers/shared/tier-end-workflow-types.ts; step logic in tier-end-steps.ts.
  */
 
@@ -9,6 +10,7 @@ import type {
   TierEndWorkflowResult,
   TierEndWorkflowResultWithShadow,
 } from '../tiers/shared/tier-end-workflow-types';
+import type { StepId } from './contracts';
 import {
   stepPlanModeExit,
   stepResolveRunTests,
@@ -30,6 +32,8 @@ import {
   stepEndAudit,
   stepAfterAudit,
   stepBuildEndCascade,
+  getEndPolicyDecision,
+  endAuditAllowedByPolicy,
 } from '../tiers/shared/tier-end-steps';
 import { runTierAuditsParallel } from '../audit/atomic/audit-tier-quality';
 import type { AuditTier } from '../audit/types';
@@ -64,16 +68,54 @@ const END_WORKFLOW_STEP_IDS = [
 /** Narrow allowlist: control plane must only suggest these for `resumeEndAfterStep`. */
 const RESUMABLE_END_STEP_IDS = new Set<string>(['gap_analysis', 'commit_remaining', 'git', 'end_audit']);
 
+/** True when `stepId` may be passed as `resumeEndAfterStep` (control plane, resumeFromTrace). */
+export function isResumableEndStepId(stepId: string): boolean {
+  return RESUMABLE_END_STEP_IDS.has(stepId);
+}
+
+type EndWorkflowStepId = (typeof END_WORKFLOW_STEP_IDS)[number];
+
+/** Kernel StepIds the end workflow has segments for (finalize is adapter-only). */
+type EndKernelStepId = Extract<StepId, 'preflight' | 'test_ops' | 'doc_sync' | 'branch_ops' | 'audit_ops' | 'cascade_eval'>;
+
+/**
+ * Kernel StepId → end workflow steps it owns (see harness/step-graph.ts for order and dependsOn).
+ * preflight also owns conflict_marker_guard and the audit pre-warm, which run regardless of resume.
+ */
+export const END_KERNEL_SEGMENTS: Record<EndKernelStepId, readonly EndWorkflowStepId[]> = {
+  preflight: ['plan_mode_exit', 'resolve_run_tests', 'pre_work'],
+  test_ops: ['test_goal_validation', 'run_tests'],
+  doc_sync: [
+    'mid_work',
+    'comment_cleanup',
+    'readme_cleanup',
+    'deliverables_check',
+    'gap_analysis',
+    'planning_rollup',
+    'doc_rollup',
+  ],
+  branch_ops: ['commit_remaining', 'git', 'propagate_shared'],
+  audit_ops: ['verification_check', 'config_fix', 'end_audit', 'after_audit'],
+  cascade_eval: ['cascade'],
+};
+
+/**
+ * Record an end workflow step event. Exit events carry the step's spec-policy decision (`details.policy`);
+ * a step the policy skipped is recorded as `skip` with `reason: policy` instead of exit_success.
+ */
 async function recordEndStep(
   ctx: TierEndWorkflowContext,
   stepId: string,
   phase: 'enter' | 'exit_success' | 'exit_failure' | 'skip'
 ): Promise<void> {
   if (!ctx.runRecorder || !ctx.runTraceHandle) return;
+  const policy = phase === 'enter' ? undefined : getEndPolicyDecision(ctx, stepId);
+  const policySkipped = policy?.run === false && phase === 'exit_success';
   await ctx.runRecorder.step(ctx.runTraceHandle, {
     step: stepId,
-    phase,
+    phase: policySkipped ? 'skip' : phase,
     ts: new Date().toISOString(),
+    ...(policy && { details: { ...(policySkipped && { reason: 'policy' }), policy } }),
   });
   if (phase !== 'enter') (ctx.stepPath = ctx.stepPath ?? []).push(stepId);
 }
@@ -97,6 +139,35 @@ function shouldRunEndStep(ctx: TierEndWorkflowContext, stepId: string): boolean
   return stepIdx >= resumeIdx;
 }
 
+/**
+ * Run one kernel segment: parks on ctx.stepDriver when the kernel drives, else runs inline.
+ * When the segment does not run (resume skipped it, or the kernel skipped the StepId), its steps are recorded as skip.
+ */
+async function runEndSegment(
+  ctx: TierEndWorkflowContext,
+  stepId: EndKernelStepId,
+  body: () => Promise<TierEndWorkflowResult | TierEndWorkflowResultWithShadow | null>
+): Promise<TierEndWorkflowResult | TierEndWorkflowResultWithShadow | null> {
+  const ids = END_KERNEL_SEGMENTS[stepId];
+  const active = stepId === 'preflight' || ids.some((id) => shouldRunEndStep(ctx, id));
+  let ran = false;
+  const tracked = (): Promise<TierEndWorkflowResult | TierEndWorkflowResultWithShadow | null> => {
+    ran = true;
+    return body();
+  };
+  const exit = ctx.stepDriver
+    ? await ctx.stepDriver.segment(stepId, active, tracked)
+    : active
+      ? await tracked()
+      : null;
+  if (!ran) {
+    for (const id of ids) {
+      await recordEndStep(ctx, id, 'skip');
+    }
+  }
+  return exit;
+}
+
 function attachEndShadowPayload(
   ctx: TierEndWorkflowContext,
   result: TierEndWorkflowResult
@@ -130,206 +201,230 @@ export async function runTierEndWorkflow(
 ): Promise<TierEndWorkflowResult | TierEndWorkflowResultWithShadow> {
   if (ctx.stepPath == null) ctx.stepPath = [];
 
-  await recordEndStep(ctx, 'conflict_marker_guard', 'enter');
-  const markerScan = await scanHarnessRootsForConflictMarkers();
-  await recordEndStep(ctx, 'conflict_marker_guard', markerScan.ok ? 'exit_success' : 'exit_failure');
-  if (!markerScan.ok) {
-    ctx.output.push(markerScan.message);
-    ctx.steps.conflict_marker_guard = { success: false, output: markerScan.message };
-    return attachEndShadowPayload(ctx, {
-      success: false,
-      output: ctx.output.join('\n\n'),
-      steps: ctx.steps,
-      outcome: buildTierEndOutcome(
-        'blocked_fix_required',
-        'conflict_markers_in_tree',
-        'Remove <<<<<<< / ======= / >>>>>>> markers from the listed paths, then re-run tier-end.',
-        undefined,
-        markerScan.relativePaths.join('\n')
-      ),
-    });
-  }
-  ctx.steps.conflict_marker_guard = { success: true, output: 'No conflict markers in .project-manager, client, or server.' };
+  const preflightExit = await runEndSegment(ctx, 'preflight', async () => {
+    await recordEndStep(ctx, 'conflict_marker_guard', 'enter');
+    const markerScan = await scanHarnessRootsForConflictMarkers();
+    await recordEndStep(ctx, 'conflict_marker_guard', markerScan.ok ? 'exit_success' : 'exit_failure');
+    if (!markerScan.ok) {
+      ctx.output.push(markerScan.message);
+      ctx.steps.conflict_marker_guard = { success: false, output: markerScan.message };
+      return attachEndShadowPayload(ctx, {
+        success: false,
+        output: ctx.output.join('\n\n'),
+        steps: ctx.steps,
+        outcome: buildTierEndOutcome(
+          'blocked_fix_required',
+          'conflict_markers_in_tree',
+          'Remove <<<<<<< / ======= / >>>>>>> markers from the listed paths, then re-run tier-end.',
+          undefined,
+          markerScan.relativePaths.join('\n')
+        ),
+      });
+    }
+    ctx.steps.conflict_marker_guard = { success: true, output: 'No conflict markers in .project-manager, client, or server.' };
 
-  // Pre-warm: spawn all tier audit scripts in parallel immediately (outside resume guards).
-  // They run concurrently with the rest of the pipeline; stepEndAudit awaits the result.
-  if (hooks.runEndAudit === true && !ctx.auditPrewarmPromise) {
-    const tier = ctx.config.name as AuditTier;
-    ctx.auditPrewarmPromise = runTierAuditsParallel(tier);
-  }
+    // Pre-warm: spawn all tier audit scripts in parallel immediately (outside resume guards).
+    // They run concurrently with the rest of the pipeline; stepEndAudit awaits the result.
+    if (hooks.runEndAudit === true && endAuditAllowedByPolicy(ctx.policies) && !ctx.auditPrewarmPromise) {
+      const tier = ctx.config.name as AuditTier;
+      ctx.auditPrewarmPromise = runTierAuditsParallel(tier);
+    }
 
-  if (shouldRunEndStep(ctx, 'plan_mode_exit')) {
-    await recordEndStep(ctx, 'plan_mode_exit', 'enter');
-    const planExit = stepPlanModeExit(ctx, hooks);
-    await recordEndStep(ctx, 'plan_mode_exit', planExit ? 'exit_success' : 'exit_success');
-    if (planExit) return attachEndShadowPayload(ctx, planExit);
-  } else {
-    await recordEndStep(ctx, 'plan_mode_exit', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'plan_mode_exit')) {
+      await recordEndStep(ctx, 'plan_mode_exit', 'enter');
+      const planExit = stepPlanModeExit(ctx, hooks);
+      await recordEndStep(ctx, 'plan_mode_exit', planExit ? 'exit_success' : 'exit_success');
+      if (planExit) return attachEndShadowPayload(ctx, planExit);
+    } else {
+      await recordEndStep(ctx, 'plan_mode_exit', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'resolve_run_tests')) {
-    await recordEndStep(ctx, 'resolve_run_tests', 'enter');
-    const resolveExit = stepResolveRunTests(ctx, hooks);
-    await recordEndStep(ctx, 'resolve_run_tests', resolveExit ? 'exit_failure' : 'exit_success');
-    if (resolveExit) return attachEndShadowPayload(ctx, resolveExit);
-  } else {
-    await recordEndStep(ctx, 'resolve_run_tests', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'resolve_run_tests')) {
+      await recordEndStep(ctx, 'resolve_run_tests', 'enter');
+      const resolveExit = await stepResolveRunTests(ctx, hooks);
+      await recordEndStep(ctx, 'resolve_run_tests', resolveExit ? 'exit_failure' : 'exit_success');
+      if (resolveExit) return attachEndShadowPayload(ctx, resolveExit);
+    } else {
+      await recordEndStep(ctx, 'resolve_run_tests', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'pre_work')) {
-    await recordEndStep(ctx, 'pre_work', 'enter');
-    const preExit = await stepTierPreWork(ctx, hooks);
-    await recordEndStep(ctx, 'pre_work', preExit ? 'exit_failure' : 'exit_success');
-    if (preExit) return attachEndShadowPayload(ctx, preExit);
-  } else {
-    await recordEndStep(ctx, 'pre_work', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'pre_work')) {
+      await recordEndStep(ctx, 'pre_work', 'enter');
+      const preExit = await stepTierPreWork(ctx, hooks);
+      await recordEndStep(ctx, 'pre_work', preExit ? 'exit_failure' : 'exit_success');
+      if (preExit) return attachEndShadowPayload(ctx, preExit);
+    } else {
+      await recordEndStep(ctx, 'pre_work', 'skip');
+    }
+    return null;
+  });
+  if (preflightExit) return preflightExit;
 
-  if (shouldRunEndStep(ctx, 'test_goal_validation')) {
-    await recordEndStep(ctx, 'test_goal_validation', 'enter');
-    const goalExit = await stepTestGoalValidation(ctx, hooks);
-    await recordEndStep(ctx, 'test_goal_validation', goalExit ? 'exit_failure' : 'exit_success');
-    if (goalExit) return attachEndShadowPayload(ctx, goalExit);
-  } else {
-    await recordEndStep(ctx, 'test_goal_validation', 'skip');
-  }
+  const testOpsExit = await runEndSegment(ctx, 'test_ops', async () => {
+    if (shouldRunEndStep(ctx, 'test_goal_validation')) {
+      await recordEndStep(ctx, 'test_goal_validation', 'enter');
+      const goalExit = await stepTestGoalValidation(ctx, hooks);
+      await recordEndStep(ctx, 'test_goal_validation', goalExit ? 'exit_failure' : 'exit_success');
+      if (goalExit) return attachEndShadowPayload(ctx, goalExit);
+    } else {
+      await recordEndStep(ctx, 'test_goal_validation', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'run_tests')) {
-    await recordEndStep(ctx, 'run_tests', 'enter');
-    const testsExit = await stepRunTests(ctx, hooks);
-    await recordEndStep(ctx, 'run_tests', testsExit ? 'exit_failure' : 'exit_success');
-    if (testsExit) return attachEndShadowPayload(ctx, testsExit);
-  } else {
-    await recordEndStep(ctx, 'run_tests', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'run_tests')) {
+      await recordEndStep(ctx, 'run_tests', 'enter');
+      const testsExit = await stepRunTests(ctx, hooks);
+      await recordEndStep(ctx, 'run_tests', testsExit ? 'exit_failure' : 'exit_success');
+      if (testsExit) return attachEndShadowPayload(ctx, testsExit);
+    } else {
+      await recordEndStep(ctx, 'run_tests', 'skip');
+    }
+    return null;
+  });
+  if (testOpsExit) return testOpsExit;
 
-  if (shouldRunEndStep(ctx, 'mid_work')) {
-    await recordEndStep(ctx, 'mid_work', 'enter');
-    const midExit = await stepTierMidWork(ctx, hooks);
-    await recordEndStep(ctx, 'mid_work', midExit ? 'exit_failure' : 'exit_success');
-    if (midExit) return attachEndShadowPayload(ctx, midExit);
-  } else {
-    await recordEndStep(ctx, 'mid_work', 'skip');
-  }
+  const docSyncExit = await runEndSegment(ctx, 'doc_sync', async () => {
+    if (shouldRunEndStep(ctx, 'mid_work')) {
+      await recordEndStep(ctx, 'mid_work', 'enter');
+      const midExit = await stepTierMidWork(ctx, hooks);
+      await recordEndStep(ctx, 'mid_work', midExit ? 'exit_failure' : 'exit_success');
+      if (midExit) return attachEndShadowPayload(ctx, midExit);
+    } else {
+      await recordEndStep(ctx, 'mid_work', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'comment_cleanup')) {
-    await recordEndStep(ctx, 'comment_cleanup', 'enter');
-    const commentExit = await stepCommentCleanup(ctx, hooks);
-    await recordEndStep(ctx, 'comment_cleanup', commentExit ? 'exit_failure' : 'exit_success');
-    if (commentExit) return attachEndShadowPayload(ctx, commentExit);
-  } else {
-    await recordEndStep(ctx, 'comment_cleanup', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'comment_cleanup')) {
+      await recordEndStep(ctx, 'comment_cleanup', 'enter');
+      const commentExit = await stepCommentCleanup(ctx, hooks);
+      await recordEndStep(ctx, 'comment_cleanup', commentExit ? 'exit_failure' : 'exit_success');
+      if (commentExit) return attachEndShadowPayload(ctx, commentExit);
+    } else {
+      await recordEndStep(ctx, 'comment_cleanup', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'readme_cleanup')) {
-    await recordEndStep(ctx, 'readme_cleanup', 'enter');
-    await stepReadmeCleanup(ctx, hooks);
-    await recordEndStep(ctx, 'readme_cleanup', 'exit_success');
-  } else {
-    await recordEndStep(ctx, 'readme_cleanup', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'readme_cleanup')) {
+      await recordEndStep(ctx, 'readme_cleanup', 'enter');
+      await stepReadmeCleanup(ctx, hooks);
+      await recordEndStep(ctx, 'readme_cleanup', 'exit_success');
+    } else {
+      await recordEndStep(ctx, 'readme_cleanup', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'deliverables_check')) {
-    await recordEndStep(ctx, 'deliverables_check', 'enter');
-    await stepDeliverablesAndPlanningHints(ctx);
-    await recordEndStep(ctx, 'deliverables_check', 'exit_success');
-  } else {
-    await recordEndStep(ctx, 'deliverables_check', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'deliverables_check')) {
+      await recordEndStep(ctx, 'deliverables_check', 'enter');
+      await stepDeliverablesAndPlanningHints(ctx);
+      await recordEndStep(ctx, 'deliverables_check', 'exit_success');
+    } else {
+      await recordEndStep(ctx, 'deliverables_check', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'gap_analysis')) {
-    await recordEndStep(ctx, 'gap_analysis', 'enter');
-    const gapExit = await stepGapAnalysis(ctx, hooks);
-    await recordEndStep(ctx, 'gap_analysis', gapExit ? 'exit_success' : 'exit_success');
-    if (gapExit) return attachEndShadowPayload(ctx, gapExit);
-  } else {
-    await recordEndStep(ctx, 'gap_analysis', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'gap_analysis')) {
+      await recordEndStep(ctx, 'gap_analysis', 'enter');
+      const gapExit = await stepGapAnalysis(ctx, hooks);
+      await recordEndStep(ctx, 'gap_analysis', gapExit ? 'exit_success' : 'exit_success');
+      if (gapExit) return attachEndShadowPayload(ctx, gapExit);
+    } else {
+      await recordEndStep(ctx, 'gap_analysis', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'planning_rollup')) {
-    await recordEndStep(ctx, 'planning_rollup', 'enter');
-    await stepPlanningRollup(ctx);
-    await recordEndStep(ctx, 'planning_rollup', 'exit_success');
-  } else {
-    await recordEndStep(ctx, 'planning_rollup', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'planning_rollup')) {
+      await recordEndStep(ctx, 'planning_rollup', 'enter');
+      await stepPlanningRollup(ctx);
+      await recordEndStep(ctx, 'planning_rollup', 'exit_success');
+    } else {
+      await recordEndStep(ctx, 'planning_rollup', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'doc_rollup')) {
-    await recordEndStep(ctx, 'doc_rollup', 'enter');
-    await stepDocRollup(ctx);
-    await recordEndStep(ctx, 'doc_rollup', 'exit_success');
-  } else {
-    await recordEndStep(ctx, 'doc_rollup', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'doc_rollup')) {
+      await recordEndStep(ctx, 'doc_rollup', 'enter');
+      await stepDocRollup(ctx);
+      await recordEndStep(ctx, 'doc_rollup', 'exit_success');
+    } else {
+      await recordEndStep(ctx, 'doc_rollup', 'skip');
+    }
+    return null;
+  });
+  if (docSyncExit) return docSyncExit;
 
-  if (shouldRunEndStep(ctx, 'commit_remaining')) {
-    await recordEndStep(ctx, 'commit_remaining', 'enter');
-    const commitExit = await stepCommitUncommittedNonCursor(ctx);
-    await recordEndStep(ctx, 'commit_remaining', commitExit ? 'exit_failure' : 'exit_success');
-    if (commitExit) return attachEndShadowPayload(ctx, commitExit);
-  } else {
-    await recordEndStep(ctx, 'commit_remaining', 'skip');
-  }
+  const branchOpsExit = await runEndSegment(ctx, 'branch_ops', async () => {
+    if (shouldRunEndStep(ctx, 'commit_remaining')) {
+      await recordEndStep(ctx, 'commit_remaining', 'enter');
+      const commitExit = await stepCommitUncommittedNonCursor(ctx);
+      await recordEndStep(ctx, 'commit_remaining', commitExit ? 'exit_failure' : 'exit_success');
+      if (commitExit) return attachEndShadowPayload(ctx, commitExit);
+    } else {
+      await recordEndStep(ctx, 'commit_remaining', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'git')) {
-    await recordEndStep(ctx, 'git', 'enter');
-    const gitExit = await stepTierGit(ctx, hooks);
-    await recordEndStep(ctx, 'git', gitExit ? 'exit_failure' : 'exit_success');
-    if (gitExit) return attachEndShadowPayload(ctx, gitExit);
-  } else {
-    await recordEndStep(ctx, 'git', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'git')) {
+      await recordEndStep(ctx, 'git', 'enter');
+      const gitExit = await stepTierGit(ctx, hooks);
+      await recordEndStep(ctx, 'git', gitExit ? 'exit_failure' : 'exit_success');
+      if (gitExit) return attachEndShadowPayload(ctx, gitExit);
+    } else {
+      await recordEndStep(ctx, 'git', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'propagate_shared')) {
-    await recordEndStep(ctx, 'propagate_shared', 'enter');
-    await stepPropagateShared(ctx);
-    await recordEndStep(ctx, 'propagate_shared', 'exit_success');
-  } else {
-    await recordEndStep(ctx, 'propagate_shared', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'propagate_shared')) {
+      await recordEndStep(ctx, 'propagate_shared', 'enter');
+      await stepPropagateShared(ctx);
+      await recordEndStep(ctx, 'propagate_shared', 'exit_success');
+    } else {
+      await recordEndStep(ctx, 'propagate_shared', 'skip');
+    }
+    return null;
+  });
+  if (branchOpsExit) return branchOpsExit;
 
-  if (shouldRunEndStep(ctx, 'verification_check')) {
-    await recordEndStep(ctx, 'verification_check', 'enter');
-    const verificationExit = await stepVerificationCheck(ctx, hooks);
-    await recordEndStep(ctx, 'verification_check', verificationExit ? 'exit_success' : 'exit_success');
-    if (verificationExit) return attachEndShadowPayload(ctx, verificationExit);
-  } else {
-    await recordEndStep(ctx, 'verification_check', 'skip');
-  }
+  const auditOpsExit = await runEndSegment(ctx, 'audit_ops', async () => {
+    if (shouldRunEndStep(ctx, 'verification_check')) {
+      await recordEndStep(ctx, 'verification_check', 'enter');
+      const verificationExit = await stepVerificationCheck(ctx, hooks);
+      await recordEndStep(ctx, 'verification_check', verificationExit ? 'exit_success' : 'exit_success');
+      if (verificationExit) return attachEndShadowPayload(ctx, verificationExit);
+    } else {
+      await recordEndStep(ctx, 'verification_check', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'config_fix')) {
-    await recordEndStep(ctx, 'config_fix', 'enter');
-    await stepConfigFix(ctx, hooks);
-    await recordEndStep(ctx, 'config_fix', 'exit_success');
-  } else {
-    await recordEndStep(ctx, 'config_fix', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'config_fix')) {
+      await recordEndStep(ctx, 'config_fix', 'enter');
+      await stepConfigFix(ctx, hooks);
+      await recordEndStep(ctx, 'config_fix', 'exit_success');
+    } else {
+      await recordEndStep(ctx, 'config_fix', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'end_audit')) {
-    await recordEndStep(ctx, 'end_audit', 'enter');
-    const auditExit = await stepEndAudit(ctx, hooks);
-    await recordEndStep(ctx, 'end_audit', auditExit ? 'exit_failure' : 'exit_success');
-    if (auditExit) return attachEndShadowPayload(ctx, auditExit);
-  } else {
-    await recordEndStep(ctx, 'end_audit', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'end_audit')) {
+      await recordEndStep(ctx, 'end_audit', 'enter');
+      const auditExit = await stepEndAudit(ctx, hooks);
+      await recordEndStep(ctx, 'end_audit', auditExit ? 'exit_failure' : 'exit_success');
+      if (auditExit) return attachEndShadowPayload(ctx, auditExit);
+    } else {
+      await recordEndStep(ctx, 'end_audit', 'skip');
+    }
 
-  if (shouldRunEndStep(ctx, 'after_audit')) {
-    await recordEndStep(ctx, 'after_audit', 'enter');
-    const afterAuditExit = await stepAfterAudit(ctx, hooks);
-    await recordEndStep(ctx, 'after_audit', afterAuditExit ? 'exit_failure' : 'exit_success');
-    if (afterAuditExit) return attachEndShadowPayload(ctx, afterAuditExit);
-  } else {
-    await recordEndStep(ctx, 'after_audit', 'skip');
-  }
+    if (shouldRunEndStep(ctx, 'after_audit')) {
+      await recordEndStep(ctx, 'after_audit', 'enter');
+      const afterAuditExit = await stepAfterAudit(ctx, hooks);
+      await recordEndStep(ctx, 'after_audit', afterAuditExit ? 'exit_failure' : 'exit_success');
+      if (afterAuditExit) return attachEndShadowPayload(ctx, afterAuditExit);
+    } else {
+      await recordEndStep(ctx, 'after_audit', 'skip');
+    }
+    return null;
+  });
+  if (auditOpsExit) return auditOpsExit;
 
-  if (shouldRunEndStep(ctx, 'cascade')) {
-    await recordEndStep(ctx, 'cascade', 'enter');
-    await stepBuildEndCascade(ctx, hooks);
-    await recordEndStep(ctx, 'cascade', 'exit_success');
-  } else {
-    await recordEndStep(ctx, 'cascade', 'skip');
-  }
+  const cascadeExit = await runEndSegment(ctx, 'cascade_eval', async () => {
+    if (shouldRunEndStep(ctx, 'cascade')) {
+      await recordEndStep(ctx, 'cascade', 'enter');
+      await stepBuildEndCascade(ctx, hooks);
+      await recordEndStep(ctx, 'cascade', 'exit_success');
+    } else {
+      await recordEndStep(ctx, 'cascade', 'skip');
+    }
+    return null;
+  });
+  if (cascadeExit) return cascadeExit;
 
   const outcome = hooks.getSuccessOutcome(ctx);
   const result: TierEndWorkflowResult = {
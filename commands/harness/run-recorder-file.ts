@@ -0,0 +1,100 @@
+/**
+ * File-backed RunRecorder (charter §7.7): forwards every call to an in-memory shadow recorder (so
+ * getTrace and traceIds stay unchanged) and appends the same call as one JSONL line to
+ * `.project-manager/.harness-traces/<traceId>.jsonl` (run-trace-store.ts). Disk writes are best-effort
+ * and never fail a run.
+ */
+
+import type {
+  RunTraceHandle,
+  RunRecorderBeginSpec,
+  StepEvent,
+  RunRecorderDecision,
+  ContextPack,
+} from './contracts';
+import { PROJECT_ROOT } from '../utils/utils';
+import { getDefaultShadowRecorder, type ShadowRunRecorder } from './run-recorder-shadow';
+import {
+  appendTraceLine,
+  DEFAULT_TRACE_RETENTION,
+  pruneTraceStore,
+  type TraceEndResult,
+  type TraceLine,
+  type TraceRetention,
+} from './run-trace-store';
+
+export interface FileRunRecorderOptions {
+  projectRoot?: string;
+  retention?: TraceRetention;
+  /** In-memory recorder that owns traceIds; defaults to the process-wide shadow recorder. */
+  inner?: ShadowRunRecorder;
+}
+
+export function createFileRunRecorder(opts: FileRunRecorderOptions = {}): ShadowRunRecorder {
+  const projectRoot = opts.projectRoot ?? PROJECT_ROOT;
+  const retention = opts.retention ?? DEFAULT_TRACE_RETENTION;
+  const inner = opts.inner ?? getDefaultShadowRecorder();
+  /** Per-trace write chain so lines land in call order even when callers do not await. */
+  const queues = new Map<string, Promise<void>>();
+
+  const write = (traceId: string, line: TraceLine): Promise<void> => {
+    const prev = queues.get(traceId) ?? Promise.resolve();
+    const next = prev.then(() =>
+      appendTraceLine(projectRoot, traceId, line).catch((err) => {
+        console.warn(
+          `[harness-trace] could not write ${traceId}: ${err instanceof Error ? err.message : String(err)}`
+        );
+      })
+    );
+    queues.set(traceId, next);
+    return next;
+  };
+
+  return {
+    async begin(spec: RunRecorderBeginSpec): Promise<RunTraceHandle> {
+      const handle = await inner.begin(spec);
+      await write(handle.traceId, {
+        kind: 'begin',
+        ts: handle.startedAt,
+        traceId: handle.traceId,
+        runId: handle.runId,
+        spec,
+      });
+      await pruneTraceStore(projectRoot, retention, handle.traceId).catch(() => 0);
+      return handle;
+    },
+
+    async step(handle: RunTraceHandle, evt: StepEvent): Promise<void> {
+      await inner.step(handle, evt);
+      await write(handle.traceId, { kind: 'step', event: evt });
+    },
+
+    async decision(handle: RunTraceHandle, decision: RunRecorderDecision): Promise<void> {
+      await inner.decision(handle, decision);
+      await write(handle.traceId, { kind: 'decision', ts: new Date().toISOString(), decision });
+    },
+
+    async contextReport(handle: RunTraceHandle, pack: ContextPack): Promise<void> {
+      await inner.contextReport(handle, pack);
+      await write(handle.traceId, { kind: 'context', ts: new Date().toISOString(), pack });
+    },
+
+    async end(handle: RunTraceHandle, result: TraceEndResult): Promise<void> {
+      await inner.end(handle, result);
+      await write(handle.traceId, { kind: 'end', ts: new Date().toISOString(), result });
+      queues.delete(handle.traceId);
+    },
+
+    getTrace(traceId: string) {
+      return inner.getTrace(traceId);
+    },
+  };
+}
+
+let defaultRecorder: ShadowRunRecorder | null = null;
+
+/** Process-wide recorder for tier runs: shadow (in-memory) + on-disk trace store. */
+export function getDefaultRunRecorder(): ShadowRunRecorder {
+  if (!defaultRecorder) defaultRecorder = createFileRunRecorder();
+  return defaultRecorder;
+}
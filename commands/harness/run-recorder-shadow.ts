@@ -27,7 +27,8 @@ export interface ShadowTraceRecord {
   harnessCutoverTier?: boolean;
 }
 
-function checksumStepPath(path: string[]): string {
+/** Stable fingerprint of a run's step path (shared with the on-disk trace store). */
+export function checksumStepPath(path: string[]): string {
   const h = createHash('sha1').update(path.join('|')).digest('hex');
   return `sha1_${h}`;
 }
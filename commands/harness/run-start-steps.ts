@@ -1,13 +1,15 @@
 /**
  * Canonical tier start step runner: runs validate → branch → tierDownDocs → read → gather → governance → extras → audit → plan → fillTierDown → cascade.
+ * Steps are grouped into kernel segments (START_KERNEL_SEGMENTS); under the kernel each segment runs as its own StepId node.
  * Types live in tiers/shared/tier-start-workflow-types.ts; step logic in tier-start-steps.ts.
  */
 
 import type { TierStartWorkflowContext, TierStartWorkflowHooks, TierStartWorkflowResult } from '../tiers/shared/tier-start-workflow-types';
-import type { TierStartResult } from '../utils/tier-outcome';
+import type { TierStartResult, CascadeInfo } from '../utils/tier-outcome';
 import type { PlanningTier } from '../utils/planning-doc-paths';
 import type { GateProfile } from './work-profile';
 import type { TierName } from '../tiers/shared/types';
+import type { StepId } from './contracts';
 import { recoverPlanningArtifactsAfterCheckout } from '../git/shared/git-manager';
 import { recordOrchestratorFailureFriction } from './workflow-friction-manager';
 import {
@@ -24,6 +26,7 @@ import {
   stepGovernanceContext,
   stepRunExtras,
   stepStartAudit,
+  startAuditAllowedByPolicy,
   stepRunTierPlan,
   stepBuildStartCascade,
   isGuideFilled,
@@ -32,13 +35,15 @@ import {
 async function recordStep(
   ctx: TierStartWorkflowContext,
   stepId: string,
-  phase: 'enter' | 'exit_success' | 'exit_failure' | 'skip'
+  phase: 'enter' | 'exit_success' | 'exit_failure' | 'skip',
+  details?: Record<string, unknown>
 ): Promise<void> {
   if (!ctx.runRecorder || !ctx.runTraceHandle) return;
   await ctx.runRecorder.step(ctx.runTraceHandle, {
     step: stepId,
     phase,
     ts: new Date().toISOString(),
+    ...(details && { details }),
   });
   if (phase !== 'enter') ctx.stepPath!.push(stepId);
 }
@@ -88,6 +93,38 @@ const START_WORKFLOW_STEP_IDS = [
   'cascade',
 ] as const;
 
+type StartWorkflowStepId = (typeof START_WORKFLOW_STEP_IDS)[number];
+
+/** Kernel StepIds the start workflow has segments for (finalize is adapter-only). */
+type StartKernelStepId = Exclude<StepId, 'preflight' | 'test_ops' | 'finalize'>;
+
+/**
+ * Kernel StepId → start workflow steps it owns (see harness/step-graph.ts for order and dependsOn).
+ * The Gate 2 guide-fill stop belongs to doc_sync; trailing output belongs to cascade_eval.
+ */
+export const START_KERNEL_SEGMENTS: Record<StartKernelStepId, readonly StartWorkflowStepId[]> = {
+  validate_identifier: ['header_branch', 'validate'],
+  load_context: ['read_context_light'],
+  plan_gate: ['context_gathering'],
+  branch_ops: ['ensure_branch'],
+  doc_sync: ['ensure_guide_from_plan'],
+  gather_context: ['read_start_context', 'gather_context', 'governance', 'extras'],
+  audit_ops: ['audit'],
+  scope_update: ['plan', 'fill_tier_down'],
+  cascade_eval: ['cascade'],
+};
+
+/** Run one kernel segment: parks on ctx.stepDriver when the kernel drives, else runs inline when active. */
+function runStartSegment(
+  ctx: TierStartWorkflowContext,
+  stepId: StepId,
+  active: boolean,
+  body: () => Promise<TierStartWorkflowResult | null>
+): Promise<TierStartWorkflowResult | null> {
+  if (ctx.stepDriver) return ctx.stepDriver.segment(stepId, active, body);
+  return active ? body() : Promise.resolve(null);
+}
+
 /**
  * Steps that run for a gate profile.
  * Express omits `ensure_guide_from_plan` and `context_gathering` (planning path uses `/accepted-code` for tasks; feature scope still comes from `.tier-scope`).
@@ -153,7 +190,14 @@ export async function runTierStartWorkflow(
     );
   }
 
-  if (!guideFillComplete) {
+  const segment = (
+    stepId: StepId,
+    active: boolean,
+    body: () => Promise<TierStartWorkflowResult | null>
+  ): Promise<TierStartWorkflowResult | null> => runStartSegment(ctx, stepId, active, body);
+  const anyActive = (stepId: StartKernelStepId): boolean => START_KERNEL_SEGMENTS[stepId].some(shouldRunStep);
+
+  const validateExit = await segment('validate_identifier', anyActive('validate_identifier'), async () => {
     if (shouldRunStep('header_branch')) {
       logStepTiming('header_branch', 'enter');
       await recordStep(ctx, 'header_branch', 'enter');
@@ -173,34 +217,48 @@ export async function runTierStartWorkflow(
       logStepTiming('validate', 'exit');
       if (validationExit) return attachShadowPayload(ctx, validationExit);
     }
+    return null;
+  });
+  if (validateExit) return validateExit;
 
-    if (shouldRunStep('read_context_light')) {
-      logStepTiming('read_context_light', 'enter');
-      await recordStep(ctx, 'read_context_light', 'enter');
-      await stepReadContextLight(ctx, hooks);
-      await recordStep(ctx, 'read_context_light', 'exit_success');
-      logStepTiming('read_context_light', 'exit');
-    }
+  await segment('load_context', anyActive('load_context'), async () => {
+    logStepTiming('read_context_light', 'enter');
+    await recordStep(ctx, 'read_context_light', 'enter');
+    await stepReadContextLight(ctx, hooks);
+    await recordStep(ctx, 'read_context_light', 'exit_success');
+    logStepTiming('read_context_light', 'exit');
+    return null;
+  });
 
-    if (shouldRunStep('context_gathering')) {
-      logStepTiming('context_gathering', 'enter');
-      await recordStep(ctx, 'context_gathering', 'enter');
-      const contextExit = await stepContextGathering(ctx, hooks);
-      await recordStep(ctx, 'context_gathering', contextExit ? 'exit_success' : 'exit_success');
-      logStepTiming('context_gathering', 'exit');
-      if (contextExit) return attachShadowPayload(ctx, contextExit);
-    }
+  const planGateExit = await segment('plan_gate', anyActive('plan_gate'), async () => {
+    logStepTiming('context_gathering', 'enter');
+    await recordStep(ctx, 'context_gathering', 'enter');
+    const contextExit = await stepContextGathering(ctx, hooks);
+    await recordStep(ctx, 'context_gathering', 'exit_success');
+    logStepTiming('context_gathering', 'exit');
+    return contextExit ? attachShadowPayload(ctx, contextExit) : null;
+  });
+  if (planGateExit) return planGateExit;
 
-    if (shouldRunStep('ensure_branch')) {
-      logStepTiming('ensure_branch', 'enter');
-      await recordStep(ctx, 'ensure_branch', 'enter');
-      const branchExit = await stepEnsureStartBranch(ctx, hooks);
-      await recordStep(ctx, 'ensure_branch', branchExit ? 'exit_failure' : 'exit_success');
-      logStepTiming('ensure_branch', 'exit');
-      if (branchExit) return attachShadowPayload(ctx, branchExit);
-      await recoverPlanningArtifactsAfterCheckout(ctx, ctx.branchEnsureResult?.autoCommittedPaths);
-    }
+  const branchExit = await segment('branch_ops', anyActive('branch_ops'), async () => {
+    logStepTiming('ensure_branch', 'enter');
+    await recordStep(ctx, 'ensure_branch', 'enter');
+    const ensureBranchExit = await stepEnsureStartBranch(ctx, hooks);
+    await recordStep(ctx, 'ensure_branch', ensureBranchExit ? 'exit_failure' : 'exit_success');
+    logStepTiming('ensure_branch', 'exit');
+    if (ensureBranchExit) return attachShadowPayload(ctx, ensureBranchExit);
+    await recoverPlanningArtifactsAfterCheckout(ctx, ctx.branchEnsureResult?.autoCommittedPaths);
+    return null;
+  });
+  if (branchExit) return branchExit;
 
+  // Gate 2 (decomposition profile only): feature/phase/session stop until guide is filled — unless leaf tier auto-scaffold.
+  const tier = ctx.config.name;
+  const guideGateApplies =
+    !guideFillComplete &&
+    gateProfile === 'decomposition' &&
+    (tier === 'feature' || tier === 'phase' || tier === 'session');
+  const docSyncExit = await segment('doc_sync', anyActive('doc_sync') || guideGateApplies, async () => {
     if (shouldRunStep('ensure_guide_from_plan')) {
       logStepTiming('ensure_guide_from_plan', 'enter');
       await recordStep(ctx, 'ensure_guide_from_plan', 'enter');
@@ -228,113 +286,133 @@ export async function runTierStartWorkflow(
       logStepTiming('ensure_guide_from_plan', 'exit');
     }
 
-    // Gate 2 (decomposition profile only): feature/phase/session stop until guide is filled — unless leaf tier auto-scaffold.
-    const tier = ctx.config.name;
-    const skipGuideGate = gateProfile !== 'decomposition' || ctx.leafTier === true;
-    if (!skipGuideGate && (tier === 'feature' || tier === 'phase' || tier === 'session')) {
-      const guidePath =
-        tier === 'feature'
-          ? ctx.context.paths.getFeatureGuidePath()
-          : tier === 'phase'
-            ? ctx.context.paths.getPhaseGuidePath(ctx.identifier)
-            : ctx.context.paths.getSessionGuidePath(ctx.identifier);
-      const guideAlreadyFilled = await isGuideFilled(tier, ctx.identifier, ctx.context);
-      if (!guideAlreadyFilled) {
-        return attachShadowPayload(ctx, {
-          success: true,
-          output: ctx.output.join('\n\n'),
-          outcome: {
-            status: 'plan',
-            reasonCode: 'guide_fill_pending',
-            guidePath,
-            nextAction: `The agent must fill the guide (\`${guidePath}\`) with concrete Goal, Files, Approach, and Checkpoint for each tierDown block using the planning doc as context; then **the user** runs **/accepted-build**. Do not run the command yourself.`,
-            deliverables:
-              'Step 2 — Build: the agent fills the guide with concrete Goal, Files, Approach, and Checkpoint for each session/task; then **the user** runs **/accepted-build**.',
-          },
-        });
-      }
-    }
-  }
+    if (!guideGateApplies || ctx.leafTier === true) return null;
+    const guidePath =
+      tier === 'feature'
+        ? ctx.context.paths.getFeatureGuidePath()
+        : tier === 'phase'
+          ? ctx.context.paths.getPhaseGuidePath(ctx.identifier)
+          : ctx.context.paths.getSessionGuidePath(ctx.identifier);
+    const guideAlreadyFilled = await isGuideFilled(tier, ctx.identifier, ctx.context);
+    if (guideAlreadyFilled) return null;
+    return attachShadowPayload(ctx, {
+      success: true,
+      output: ctx.output.join('\n\n'),
+      outcome: {
+        status: 'plan',
+        reasonCode: 'guide_fill_pending',
+        guidePath,
+        nextAction: `The agent must fill the guide (\`${guidePath}\`) with concrete Goal, Files, Approach, and Checkpoint for each tierDown block using the planning doc as context; then **the user** runs **/accepted-build**. Do not run the command yourself.`,
+        deliverables:
+          'Step 2 — Build: the agent fills the guide with concrete Goal, Files, Approach, and Checkpoint for each session/task; then **the user** runs **/accepted-build**.',
+      },
+    });
+  });
+  if (docSyncExit) return docSyncExit;
 
-  if (shouldRunStep('read_start_context')) {
-    logStepTiming('read_start_context', 'enter');
-    await recordStep(ctx, 'read_start_context', 'enter');
-    await stepReadStartContext(ctx, hooks);
-    await recordStep(ctx, 'read_start_context', 'exit_success');
-    logStepTiming('read_start_context', 'exit');
-  }
+  await segment('gather_context', anyActive('gather_context'), async () => {
+    if (shouldRunStep('read_start_context')) {
+      logStepTiming('read_start_context', 'enter');
+      await recordStep(ctx, 'read_start_context', 'enter');
+      await stepReadStartContext(ctx, hooks);
+      await recordStep(ctx, 'read_start_context', 'exit_success');
+      logStepTiming('read_start_context', 'exit');
+    }
 
-  if (shouldRunStep('gather_context')) {
-    logStepTiming('gather_context', 'enter');
-    await recordStep(ctx, 'gather_context', 'enter');
-    await stepGatherContext(ctx, hooks);
-    await recordStep(ctx, 'gather_context', 'exit_success');
-    logStepTiming('gather_context', 'exit');
-  }
+    if (shouldRunStep('gather_context')) {
+      logStepTiming('gather_context', 'enter');
+      await recordStep(ctx, 'gather_context', 'enter');
+      await stepGatherContext(ctx, hooks);
+      await recordStep(ctx, 'gather_context', 'exit_success');
+      logStepTiming('gather_context', 'exit');
+    }
 
-  if (shouldRunStep('governance')) {
-    logStepTiming('governance', 'enter');
-    await recordStep(ctx, 'governance', 'enter');
-    await stepGovernanceContext(ctx, hooks);
-    await recordStep(ctx, 'governance', 'exit_success');
-    logStepTiming('governance', 'exit');
-  }
+    if (shouldRunStep('governance')) {
+      logStepTiming('governance', 'enter');
+      await recordStep(ctx, 'governance', 'enter');
+      await stepGovernanceContext(ctx, hooks);
+      await recordStep(ctx, 'governance', 'exit_success');
+      logStepTiming('governance', 'exit');
+    }
 
-  if (shouldRunStep('extras')) {
-    logStepTiming('extras', 'enter');
-    await recordStep(ctx, 'extras', 'enter');
-    await stepRunExtras(ctx, hooks);
-    await recordStep(ctx, 'extras', 'exit_success');
-    logStepTiming('extras', 'exit');
-  }
+    if (shouldRunStep('extras')) {
+      logStepTiming('extras', 'enter');
+      await recordStep(ctx, 'extras', 'enter');
+      await stepRunExtras(ctx, hooks);
+      await recordStep(ctx, 'extras', 'exit_success');
+      logStepTiming('extras', 'exit');
+    }
+    return null;
+  });
 
-  if (shouldRunStep('audit')) {
+  const auditExit = await segment('audit_ops', anyActive('audit_ops'), async () => {
     logStepTiming('audit', 'enter');
     await recordStep(ctx, 'audit', 'enter');
-    const auditExit = await stepStartAudit(ctx, hooks);
-    await recordStep(ctx, 'audit', auditExit ? 'exit_failure' : 'exit_success');
+    const startAuditExit = await stepStartAudit(ctx, hooks);
+    if (ctx.policies && !startAuditAllowedByPolicy(ctx.policies)) {
+      // Same shape as the end workflow's policy skips (run-end-steps recordEndStep)
+      await recordStep(ctx, 'audit', 'skip', {
+        reason: 'policy',
+        policy: { policy: 'audits', value: ctx.policies.audits, run: false, reason: `policies.audits=${ctx.policies.audits}` },
+      });
+    } else {
+      await recordStep(ctx, 'audit', startAuditExit ? 'exit_failure' : 'exit_success');
+    }
     logStepTiming('audit', 'exit');
-    if (auditExit) return attachShadowPayload(ctx, auditExit);
-  }
+    return startAuditExit ? attachShadowPayload(ctx, startAuditExit) : null;
+  });
+  if (auditExit) return auditExit;
 
-  if (shouldRunStep('plan')) {
-    logStepTiming('plan', 'enter');
-    await recordStep(ctx, 'plan', 'enter');
-    await stepRunTierPlan(ctx, hooks);
-    await recordStep(ctx, 'plan', 'exit_success');
-    logStepTiming('plan', 'exit');
-  }
+  const scopeExit = await segment('scope_update', anyActive('scope_update'), async () => {
+    if (shouldRunStep('plan')) {
+      logStepTiming('plan', 'enter');
+      await recordStep(ctx, 'plan', 'enter');
+      await stepRunTierPlan(ctx, hooks);
+      await recordStep(ctx, 'plan', 'exit_success');
+      logStepTiming('plan', 'exit');
+    }
 
-  if (shouldRunStep('fill_tier_down')) {
-    logStepTiming('fill_tier_down', 'enter');
-    await recordStep(ctx, 'fill_tier_down', 'enter');
-    try {
-      await stepFillDirectTierDown(ctx, hooks);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      await recordStep(ctx, 'fill_tier_down', 'exit_failure');
-      return attachShadowPayload(ctx, {
-        success: false,
-        output: `${ctx.output.join('\n\n')}\n\n## Fill tierDown error\n\n${msg}`,
-        outcome: {
-          status: 'failed',
-          reasonCode: 'fill_tier_down_failed',
-          nextAction: 'Fix the error above and re-run tier-start in execute mode.',
-        },
-      });
+    if (shouldRunStep('fill_tier_down')) {
+      logStepTiming('fill_tier_down', 'enter');
+      await recordStep(ctx, 'fill_tier_down', 'enter');
+      try {
+        await stepFillDirectTierDown(ctx, hooks);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        await recordStep(ctx, 'fill_tier_down', 'exit_failure');
+        return attachShadowPayload(ctx, {
+          success: false,
+          output: `${ctx.output.join('\n\n')}\n\n## Fill tierDown error\n\n${msg}`,
+          outcome: {
+            status: 'failed',
+            reasonCode: 'fill_tier_down_failed',
+            nextAction: 'Fix the error above and re-run tier-start in execute mode.',
+          },
+        });
+      }
+      await recordStep(ctx, 'fill_tier_down', 'exit_success');
+      logStepTiming('fill_tier_down', 'exit');
     }
-    await recordStep(ctx, 'fill_tier_down', 'exit_success');
-    logStepTiming('fill_tier_down', 'exit');
-  }
+    return null;
+  });
+  if (scopeExit) return scopeExit;
 
-  if (hooks.getTrailingOutput) {
-    const trailing = await hooks.getTrailingOutput(ctx);
-    if (trailing) ctx.output.push(trailing);
-  }
+  let cascade: CascadeInfo | undefined;
+  let nextAction = '';
+  await segment('cascade_eval', true, async () => {
+    if (hooks.getTrailingOutput) {
+      const trailing = await hooks.getTrailingOutput(ctx);
+      if (trailing) ctx.output.push(trailing);
+    }
 
-  await recordStep(ctx, 'cascade', 'enter');
-  const { cascade, nextAction } = await stepBuildStartCascade(ctx, hooks);
-  await recordStep(ctx, 'cascade', 'exit_success');
+    await recordStep(ctx, 'cascade', 'enter');
+    ({ cascade, nextAction } = await stepBuildStartCascade(ctx, hooks));
+    await recordStep(ctx, 'cascade', 'exit_success');
+    return null;
+  });
+  if (nextAction === '') {
+    nextAction = 'Start complete. Cascade skipped by harness policy.';
+  }
 
   const result: TierStartResult = {
     success: true,
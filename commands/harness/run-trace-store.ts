@@ -0,0 +1,235 @@
+/**
+ * On-disk harness trace store (charter §7.7): one JSONL file per trace under
+ * `.project-manager/.harness-traces/`. Each line is one recorder call (begin, step, decision, context, end),
+ * so a crashed run still leaves a readable partial trace. Reading, listing, and retention live here;
+ * the recorder that writes these lines is run-recorder-file.ts.
+ */
+
+import { join } from 'path';
+import { appendFile, mkdir, readdir, readFile, stat, unlink } from 'fs/promises';
+import type {
+  ContextPack,
+  HarnessRunResult,
+  RunRecorderBeginSpec,
+  RunRecorderDecision,
+  StepEvent,
+  StepId,
+} from './contracts';
+import { checksumStepPath, type ShadowTraceRecord } from './run-recorder-shadow';
+
+export const HARNESS_TRACES_RELATIVE = '.project-manager/.harness-traces';
+
+const TRACE_FILE_SUFFIX = '.jsonl';
+
+/** Cap stored run output so one noisy failure does not bloat the store. */
+const MAX_STORED_OUTPUT_CHARS = 20_000;
+
+export interface TraceRetention {
+  /** Keep at most this many trace files (newest by mtime win). */
+  maxTraces: number;
+  /** Delete trace files older than this many days. */
+  maxAgeDays: number;
+}
+
+export const DEFAULT_TRACE_RETENTION: TraceRetention = { maxTraces: 200, maxAgeDays: 14 };
+
+export type TraceEndResult = Partial<HarnessRunResult> & { traceId: string; stepPath: string[] };
+
+/** One JSONL line in a trace file. */
+export type TraceLine =
+  | { kind: 'begin'; ts: string; traceId: string; runId: string; spec: RunRecorderBeginSpec }
+  | { kind: 'step'; event: StepEvent }
+  | { kind: 'decision'; ts: string; decision: RunRecorderDecision }
+  | { kind: 'context'; ts: string; pack: ContextPack }
+  | { kind: 'end'; ts: string; result: TraceEndResult };
+
+/** Trace reassembled from its JSONL file; superset of the in-memory shadow record. */
+export interface StoredTraceRecord extends ShadowTraceRecord {
+  spec: RunRecorderBeginSpec;
+  endedAt?: string;
+}
+
+export interface TraceSummary {
+  traceId: string;
+  runId: string;
+  startedAt: string;
+  tier?: string;
+  action?: string;
+  identifier?: string;
+  mode?: string;
+  success?: boolean;
+  reasonCode?: string;
+  stepPath?: StepId[];
+  /** False when the run never reached recorder.end (crash, kill, or still running). */
+  complete: boolean;
+}
+
+export interface TraceFilter {
+  tier?: string;
+  identifier?: string;
+  reasonCode?: string;
+  /** Newest first; defaults to 20. */
+  limit?: number;
+}
+
+export function getHarnessTracesDir(projectRoot: string): string {
+  return join(projectRoot, HARNESS_TRACES_RELATIVE);
+}
+
+function traceFilePath(projectRoot: string, traceId: string): string {
+  return join(getHarnessTracesDir(projectRoot), `${traceId}${TRACE_FILE_SUFFIX}`);
+}
+
+function capEndResult(result: TraceEndResult): TraceEndResult {
+  if (typeof result.output !== 'string' || result.output.length <= MAX_STORED_OUTPUT_CHARS) return result;
+  return { ...result, output: `${result.output.slice(0, MAX_STORED_OUTPUT_CHARS)}\n…(truncated in trace store)` };
+}
+
+/** Append one line to a trace file (creates the store directory on first write). */
+export async function appendTraceLine(projectRoot: string, traceId: string, line: TraceLine): Promise<void> {
+  const stored = line.kind === 'end' ? { ...line, result: capEndResult(line.result) } : line;
+  await mkdir(getHarnessTracesDir(projectRoot), { recursive: true });
+  await appendFile(traceFilePath(projectRoot, traceId), JSON.stringify(stored) + '\n', 'utf8');
+}
+
+/** Rebuild a trace from JSONL; malformed lines are skipped so partial writes stay readable. */
+export function parseTraceLines(raw: string): StoredTraceRecord | null {
+  let record: StoredTraceRecord | null = null;
+  for (const text of raw.split('\n')) {
+    if (!text.trim()) continue;
+    let line: TraceLine;
+    try {
+      line = JSON.parse(text) as TraceLine;
+    } catch {
+      continue;
+    }
+    if (line.kind === 'begin') {
+      record = {
+        runId: line.runId,
+        traceId: line.traceId,
+        startedAt: line.ts,
+        stepEvents: [],
+        spec: line.spec,
+        ...(line.spec.harnessCutoverTier === true && { harnessCutoverTier: true }),
+      };
+      continue;
+    }
+    if (!record) continue;
+    switch (line.kind) {
+      case 'step':
+        record.stepEvents.push(line.event);
+        break;
+      case 'decision':
+        record.decision = line.decision;
+        break;
+      case 'context':
+        record.contextPack = line.pack;
+        break;
+      case 'end': {
+        const path = line.result.stepPath as StepId[];
+        record.result = line.result;
+        record.endedAt = line.ts;
+        record.stepPath = path;
+        record.stepPathChecksum = checksumStepPath(path);
+        break;
+      }
+    }
+  }
+  return record;
+}
+
+/** Read one trace by id; null when the file is missing or has no begin line. */
+export async function readStoredTrace(projectRoot: string, traceId: string): Promise<StoredTraceRecord | null> {
+  try {
+    return parseTraceLines(await readFile(traceFilePath(projectRoot, traceId), 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function listTraceFiles(projectRoot: string): Promise<string[]> {
+  try {
+    const names = await readdir(getHarnessTracesDir(projectRoot));
+    return names.filter((n) => n.endsWith(TRACE_FILE_SUFFIX));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+export function summarizeTrace(record: StoredTraceRecord): TraceSummary {
+  return {
+    traceId: record.traceId,
+    runId: record.runId,
+    startedAt: record.startedAt,
+    tier: record.spec.tier,
+    action: record.spec.action,
+    identifier: record.spec.identifier,
+    mode: record.spec.mode,
+    success: record.result?.success,
+    reasonCode: record.result?.outcome?.reasonCode,
+    stepPath: record.stepPath,
+    complete: record.result !== undefined,
+  };
+}
+
+function matchesFilter(summary: TraceSummary, filter: TraceFilter): boolean {
+  if (filter.tier && summary.tier !== filter.tier) return false;
+  if (filter.identifier && summary.identifier !== filter.identifier) return false;
+  if (filter.reasonCode && summary.reasonCode !== filter.reasonCode) return false;
+  return true;
+}
+
+/** List stored traces newest first, filtered by tier / identifier / reasonCode. */
+export async function listStoredTraces(projectRoot: string, filter: TraceFilter = {}): Promise<TraceSummary[]> {
+  const files = await listTraceFiles(projectRoot);
+  const summaries: TraceSummary[] = [];
+  for (const name of files) {
+    const record = await readStoredTrace(projectRoot, name.slice(0, -TRACE_FILE_SUFFIX.length));
+    if (!record) continue;
+    const summary = summarizeTrace(record);
+    if (matchesFilter(summary, filter)) summaries.push(summary);
+  }
+  summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  return summaries.slice(0, filter.limit ?? 20);
+}
+
+/**
+ * Enforce retention: drop files older than maxAgeDays, then the oldest beyond maxTraces.
+ * Returns the number of files removed. `keep` is never removed (the trace being written).
+ */
+export async function pruneTraceStore(
+  projectRoot: string,
+  retention: TraceRetention = DEFAULT_TRACE_RETENTION,
+  keep?: string,
+  now: number = Date.now()
+): Promise<number> {
+  const dir = getHarnessTracesDir(projectRoot);
+  const files = await listTraceFiles(projectRoot);
+  const entries: Array<{ name: string; mtimeMs: number }> = [];
+  for (const name of files) {
+    if (keep && name === `${keep}${TRACE_FILE_SUFFIX}`) continue;
+    try {
+      entries.push({ name, mtimeMs: (await stat(join(dir, name))).mtimeMs });
+    } catch {
+      // Removed concurrently; nothing to prune.
+    }
+  }
+  entries.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  const maxAgeMs = retention.maxAgeDays * 24 * 60 * 60_000;
+  // The kept trace counts toward maxTraces.
+  const slots = Math.max(0, retention.maxTraces - (keep ? 1 : 0));
+  let removed = 0;
+  for (let i = 0; i < entries.length; i++) {
+    const { name, mtimeMs } = entries[i]!;
+    if (i < slots && now - mtimeMs <= maxAgeMs) continue;
+    try {
+      await unlink(join(dir, name));
+      removed++;
+    } catch {
+      // Best-effort; a later prune retries.
+    }
+  }
+  return removed;
+}
@@ -33,7 +33,7 @@ export const PROFILE_DEFAULTS: Record<
       audits: 'end_only',
       tests: 'changed_only',
       docs: 'standard',
-      git: 'safe',
+      git: 'full',
       cascade: 'manual_confirm',
     },
     contextBudget: BASE_BUDGET,
@@ -1,5 +1,6 @@
 /**
- * Step adapter: Pattern A — TierAdapter.runStep runs full tier start/end/reopen orchestration on validate_identifier.
+ * Step adapter: per-StepId handlers for the kernel graph (harness/step-graph.ts).
+ * Start/end drive the tier impl one workflow segment per kernel step; reopen stays a single orchestration node.
  * Outcome normalization lives here (formerly harness/adapters.ts).
  */
 
@@ -8,8 +9,12 @@ import type {
   HarnessContext,
   StepId,
   StepRunResult,
+  StepSkipResult,
   TierOutcome,
+  RunRecorder,
+  RunTraceHandle,
   TierStatus,
+  PolicySet,
 } from './contracts';
 import { parseReasonCode } from './reason-code';
 import type { TierConfig } from '../tiers/shared/types';
@@ -30,9 +35,12 @@ import { taskEndImpl } from '../tiers/task/composite/task-end-impl';
 import { featureReopenImpl } from '../tiers/feature/composite/feature-reopen-impl';
 import { phaseReopenImpl } from '../tiers/phase/composite/phase-reopen-impl';
 import { sessionReopenImpl } from '../tiers/session/composite/session-reopen-impl';
-import { getDefaultShadowRecorder } from './run-recorder-shadow';
+import { getDefaultRunRecorder } from './run-recorder-file';
+import { createKernelStepBridge, type KernelStepBridge, type KernelStepDriver } from './step-driver';
+import { getStepIdsForAction } from './step-graph';
 
-const FIRST_STEP: StepId = 'validate_identifier';
+/** Reopen (and other non-segmented actions) run as this single orchestration node. */
+const ORCHESTRATION_STEP: StepId = 'validate_identifier';
 
 function mapEndStatusToTierStatus(s: TierEndStatus): TierStatus {
   switch (s) {
@@ -100,21 +108,243 @@ export interface StepAdapterOptions {
   context?: WorkflowCommandContext;
 }
 
+/** Result shape shared by tier start/end impls before harness outcome normalization. */
+type ImplRunResult = {
+  success: boolean;
+  output: string;
+  outcome: {
+    reasonCode: string;
+    nextAction: string;
+    deliverables?: string;
+    cascade?: import('./contracts').CascadeInfo;
+  };
+};
+
+type ShadowStepContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; the end workflow gates tests, audits, doc rollup, git, and cascade on them. */
+  policies?: PolicySet;
+};
+
+function actionParamsMismatch(action: 'start' | 'end'): StepRunResult {
+  return {
+    success: false,
+    output: `Internal error: step adapter actionParams mismatch for ${action}.`,
+    outcome: {
+      status: 'failed',
+      reasonCode: parseReasonCode('unhandled_error'),
+      nextAction: 'Adapter configuration error.',
+    },
+    exitEarly: true,
+  };
+}
+
+async function runReopenImpl(
+  config: TierConfig,
+  reopenParams: TierReopenParams,
+  context?: WorkflowCommandContext
+): Promise<StepRunResult> {
+  const resolvedCtx = context;
+  if (!resolvedCtx) {
+    const outcome = adaptTierReopenOutcomeToHarness({
+      success: false,
+      output: 'Reopen requires resolved WorkflowCommandContext (kernel path).',
+      previousStatus: '',
+      newStatus: '',
+      modeGate: '',
+    });
+    return { success: false, output: outcome.nextAction, outcome, exitEarly: true };
+  }
+  const modeGate = '';
+  let tierResult: TierReopenResult;
+  switch (config.name) {
+    case 'feature':
+      tierResult = await featureReopenImpl(reopenParams, modeGate, resolvedCtx);
+      break;
+    case 'phase':
+      tierResult = await phaseReopenImpl(reopenParams, modeGate, resolvedCtx);
+      break;
+    case 'session':
+      tierResult = await sessionReopenImpl(reopenParams, modeGate, resolvedCtx);
+      break;
+    case 'task':
+      tierResult = {
+        success: false,
+        output: 'Task reopen is not supported. Reopen the session to add or change tasks.',
+        previousStatus: '',
+        newStatus: '',
+        modeGate: '',
+      };
+      break;
+    default:
+      tierResult = {
+        success: false,
+        output: `Unknown tier: ${config.name}`,
+        previousStatus: '',
+        newStatus: '',
+        modeGate: '',
+      };
+  }
+  const outcome = adaptTierReopenOutcomeToHarness(tierResult);
+  return {
+    success: tierResult.success,
+    output: tierResult.output,
+    outcome,
+    exitEarly: true,
+  };
+}
+
+async function runStartImpl(
+  config: TierConfig,
+  startParams: TierStartParams,
+  options: CommandExecutionOptions | undefined,
+  shadowContext: ShadowStepContext,
+  context?: WorkflowCommandContext
+): Promise<StepRunResult> {
+  const resolvedCtx = context ?? undefined;
+  let result: ImplRunResult;
+  switch (config.name) {
+    case 'feature':
+      result = await featureStartImpl(
+        (startParams as { featureId: string }).featureId,
+        options,
+        shadowContext,
+        resolvedCtx
+      );
+      break;
+    case 'phase': {
+      const p = startParams as {
+        phaseId: string;
+        featureId?: string;
+        featureName?: string;
+      };
+      result = await phaseStartImpl(
+        p.phaseId,
+        options,
+        shadowContext,
+        resolvedCtx,
+        { featureId: p.featureId, featureName: p.featureName }
+      );
+      break;
+    }
+    case 'session': {
+      const p = startParams as {
+        sessionId: string;
+        description?: string;
+        featureId?: string;
+        featureName?: string;
+      };
+      result = await sessionStartImpl(
+        p.sessionId,
+        p.description,
+        options,
+        shadowContext,
+        resolvedCtx,
+        { featureId: p.featureId, featureName: p.featureName }
+      );
+      break;
+    }
+    case 'task':
+      result = await taskStartImpl(context!, options, shadowContext);
+      break;
+    default:
+      result = {
+        success: false,
+        output: '',
+        outcome: { reasonCode: 'unknown_tier', nextAction: 'Unknown tier.' },
+      };
+  }
+  const outcome = adaptTierStartOutcomeToHarness(result.outcome as TierStartOutcome);
+  return { success: result.success, output: result.output, outcome, exitEarly: true };
+}
+
+async function runEndImpl(
+  config: TierConfig,
+  endParams: TierEndParams,
+  shadowContext: ShadowStepContext,
+  context?: WorkflowCommandContext
+): Promise<StepRunResult> {
+  const resolvedCtx = context ?? undefined;
+  let result: ImplRunResult;
+  switch (config.name) {
+    case 'feature':
+      result = await featureEndImpl(
+        endParams as import('../tiers/feature/composite/feature-end-impl').FeatureEndParams,
+        shadowContext,
+        resolvedCtx
+      );
+      break;
+    case 'phase':
+      result = await phaseEndImpl(
+        endParams as import('../tiers/phase/composite/phase-end-impl').PhaseEndParams,
+        shadowContext,
+        resolvedCtx
+      );
+      break;
+    case 'session':
+      result = await sessionEndImpl(
+        endParams as import('../tiers/session/composite/session-end-impl').SessionEndParams,
+        shadowContext,
+        resolvedCtx
+      );
+      break;
+    case 'task':
+      result = await taskEndImpl(
+        endParams as import('../tiers/task/composite/task-end-impl').TaskEndParams,
+        shadowContext,
+        resolvedCtx
+      );
+      break;
+    default:
+      result = {
+        success: false,
+        output: '',
+        outcome: { reasonCode: 'unknown_tier', nextAction: 'Unknown tier.' },
+      };
+  }
+  const outcome = adaptTierEndOutcomeToHarness(result.outcome as TierEndOutcome);
+  return { success: result.success, output: result.output, outcome, exitEarly: true };
+}
+
+/**
+ * Per-step TierAdapter. Reopen runs as one orchestration node. Start/end launch the tier impl once on the
+ * first kernel step; the impl's workflow parks at each kernel segment and every runStep releases exactly
+ * one segment through the KernelStepBridge. `finalize` returns the impl result (post-processing included).
+ * The kernel's per-step AbortSignal is forwarded to the bridge and exposed to segment bodies as `stepDriver.signal`.
+ * `dispose` cancels the bridge when the kernel stops before the workflow finished, so the impl does not stay parked.
+ */
 export function createStepAdapter(opts: StepAdapterOptions): ITierAdapter {
   const { config, actionParams, options, context } = opts;
-  const recorder = getDefaultShadowRecorder();
-  let ran = false;
+  const recorder = getDefaultRunRecorder();
+  let reopenRan = false;
+  let bridge: KernelStepBridge | null = null;
+  let run: Promise<StepRunResult> | null = null;
 
-  return {
-    async runStep(ctx: HarnessContext, stepId: StepId): Promise<StepRunResult | null> {
-      if (stepId !== FIRST_STEP) return null;
-      if (ran) return null;
-      ran = true;
+  const launch = (ctx: HarnessContext, stepBridge: KernelStepBridge): Promise<StepRunResult> => {
+    const shadowContext: ShadowStepContext = {
+      recorder,
+      handle: ctx.traceHandle,
+      stepDriver: stepBridge.driver,
+      policies: ctx.spec.policies,
+    };
+    if (actionParams.action === 'start') {
+      return runStartImpl(config, actionParams.params, options, shadowContext, context);
+    }
+    if (actionParams.action === 'end') {
+      return runEndImpl(config, actionParams.params, shadowContext, context);
+    }
+    return Promise.resolve(actionParamsMismatch(ctx.spec.action === 'end' ? 'end' : 'start'));
+  };
 
-      const shadowContext = { recorder, handle: ctx.traceHandle };
+  return {
+    async runStep(ctx: HarnessContext, stepId: StepId, signal?: AbortSignal): Promise<StepRunResult | StepSkipResult | null> {
       const spec = ctx.spec;
 
       if (spec.action === 'reopen') {
+        if (stepId !== ORCHESTRATION_STEP || reopenRan) return null;
+        reopenRan = true;
         if (actionParams.action !== 'reopen') {
           const outcome = adaptTierReopenOutcomeToHarness({
             success: false,
@@ -125,203 +355,42 @@ export function createStepAdapter(opts: StepAdapterOptions): ITierAdapter {
           });
           return { success: false, output: outcome.nextAction, outcome, exitEarly: true };
         }
-        const reopenParams = actionParams.params;
-        const resolvedCtx = context;
-        if (!resolvedCtx) {
-          const outcome = adaptTierReopenOutcomeToHarness({
-            success: false,
-            output: 'Reopen requires resolved WorkflowCommandContext (kernel path).',
-            previousStatus: '',
-            newStatus: '',
-            modeGate: '',
-          });
-          return { success: false, output: outcome.nextAction, outcome, exitEarly: true };
-        }
-        const modeGate = '';
-        let tierResult: TierReopenResult;
-        switch (config.name) {
-          case 'feature':
-            tierResult = await featureReopenImpl(reopenParams, modeGate, resolvedCtx);
-            break;
-          case 'phase':
-            tierResult = await phaseReopenImpl(reopenParams, modeGate, resolvedCtx);
-            break;
-          case 'session':
-            tierResult = await sessionReopenImpl(reopenParams, modeGate, resolvedCtx);
-            break;
-          case 'task':
-            tierResult = {
-              success: false,
-              output: 'Task reopen is not supported. Reopen the session to add or change tasks.',
-              previousStatus: '',
-              newStatus: '',
-              modeGate: '',
-            };
-            break;
-          default:
-            tierResult = {
-              success: false,
-              output: `Unknown tier: ${config.name}`,
-              previousStatus: '',
-              newStatus: '',
-              modeGate: '',
-            };
-        }
-        const outcome = adaptTierReopenOutcomeToHarness(tierResult);
-        return {
-          success: tierResult.success,
-          output: tierResult.output,
-          outcome,
-          exitEarly: true,
-        };
+        return runReopenImpl(config, actionParams.params, context);
       }
 
-      if (spec.action === 'start') {
-        if (actionParams.action !== 'start') {
-          return {
-            success: false,
-            output: 'Internal error: step adapter actionParams mismatch for start.',
-            outcome: {
-              status: 'failed',
-              reasonCode: parseReasonCode('unhandled_error'),
-              nextAction: 'Adapter configuration error.',
-            },
-            exitEarly: true,
-          };
-        }
-        const startParams = actionParams.params;
-        const resolvedCtx = context ?? undefined;
-        let result: {
-          success: boolean;
-          output: string;
-          outcome: {
-            reasonCode: string;
-            nextAction: string;
-            deliverables?: string;
-            cascade?: import('./contracts').CascadeInfo;
-          };
-        };
-        switch (config.name) {
-          case 'feature':
-            result = await featureStartImpl(
-              (startParams as { featureId: string }).featureId,
-              options,
-              shadowContext,
-              resolvedCtx
-            );
-            break;
-          case 'phase': {
-            const p = startParams as {
-              phaseId: string;
-              featureId?: string;
-              featureName?: string;
-            };
-            result = await phaseStartImpl(
-              p.phaseId,
-              options,
-              shadowContext,
-              resolvedCtx,
-              { featureId: p.featureId, featureName: p.featureName }
-            );
-            break;
-          }
-          case 'session': {
-            const p = startParams as {
-              sessionId: string;
-              description?: string;
-              featureId?: string;
-              featureName?: string;
-            };
-            result = await sessionStartImpl(
-              p.sessionId,
-              p.description,
-              options,
-              shadowContext,
-              resolvedCtx,
-              { featureId: p.featureId, featureName: p.featureName }
-            );
-            break;
-          }
-          case 'task':
-            result = await taskStartImpl(context!, options, shadowContext);
-            break;
-          default:
-            result = {
-              success: false,
-              output: '',
-              outcome: { reasonCode: 'unknown_tier', nextAction: 'Unknown tier.' },
-            };
-        }
-        const outcome = adaptTierStartOutcomeToHarness(result.outcome as TierStartOutcome);
-        return { success: result.success, output: result.output, outcome, exitEarly: true };
+      if (spec.action !== 'start' && spec.action !== 'end') return null;
+      if (actionParams.action !== spec.action) return actionParamsMismatch(spec.action);
+
+      if (bridge === null || run === null) {
+        bridge = createKernelStepBridge(getStepIdsForAction(spec.action));
+        run = launch(ctx, bridge);
+        bridge.attach(run);
       }
 
-      if (spec.action === 'end') {
-        if (actionParams.action !== 'end') {
-          return {
-            success: false,
-            output: 'Internal error: step adapter actionParams mismatch for end.',
-            outcome: {
-              status: 'failed',
-              reasonCode: parseReasonCode('unhandled_error'),
-              nextAction: 'Adapter configuration error.',
-            },
-            exitEarly: true,
-          };
-        }
-        const endParams = actionParams.params;
-        const resolvedCtx = context ?? undefined;
-        let result: {
-          success: boolean;
-          output: string;
-          outcome: {
-            reasonCode: string;
-            nextAction: string;
-            deliverables?: string;
-            cascade?: import('./contracts').CascadeInfo;
-          };
-        };
-        switch (config.name) {
-          case 'feature':
-            result = await featureEndImpl(
-              endParams as import('../tiers/feature/composite/feature-end-impl').FeatureEndParams,
-              shadowContext,
-              resolvedCtx
-            );
-            break;
-          case 'phase':
-            result = await phaseEndImpl(
-              endParams as import('../tiers/phase/composite/phase-end-impl').PhaseEndParams,
-              shadowContext,
-              resolvedCtx
-            );
-            break;
-          case 'session':
-            result = await sessionEndImpl(
-              endParams as import('../tiers/session/composite/session-end-impl').SessionEndParams,
-              shadowContext,
-              resolvedCtx
-            );
-            break;
-          case 'task':
-            result = await taskEndImpl(
-              endParams as import('../tiers/task/composite/task-end-impl').TaskEndParams,
-              shadowContext,
-              resolvedCtx
-            );
-            break;
-          default:
-            result = {
-              success: false,
-              output: '',
-              outcome: { reasonCode: 'unknown_tier', nextAction: 'Unknown tier.' },
-            };
-        }
-        const outcome = adaptTierEndOutcomeToHarness(result.outcome as TierEndOutcome);
-        return { success: result.success, output: result.output, outcome, exitEarly: true };
+      // Aborting `signal` (step timeout) cancels the bridge: the impl's workflow unwinds at its next segment.
+      const dispatched = await bridge.dispatch(stepId, signal);
+      switch (dispatched) {
+        case 'exited':
+          return run;
+        case 'ran':
+          // Workflow finished after this segment: surface impl errors now; finalize returns the result.
+          if (bridge.isSettled()) await run;
+          return null;
+        case 'skipped':
+          return { skipped: true, reason: 'no_active_segment' };
+        case 'settled':
+          // Impl returned before reaching any segment (early exit) or the run is complete.
+          if (stepId === 'finalize' || !bridge.hasReleased()) return run;
+          return { skipped: true, reason: 'workflow_complete' };
       }
+    },
 
-      return null;
+    async dispose(reason: Error): Promise<void> {
+      if (bridge === null || run === null || bridge.isSettled()) return;
+      const bodyRunning = bridge.isRunning();
+      bridge.cancel(reason);
+      // Parked impl unwinds at once (its cleanup runs); a body left running by a step timeout is not waited for.
+      if (!bodyRunning) await run.catch(() => {});
     },
   };
 }
@@ -0,0 +1,191 @@
+/**
+ * Kernel step driver: lets the kernel own step ordering while tier impls still call
+ * runTierStartWorkflow / runTierEndWorkflow once (pre/post work in the impls stays intact).
+ *
+ * Workflow side: each kernel segment is wrapped in `driver.segment(stepId, active, body)` and parks
+ * until the kernel reaches that StepId. Adapter side: `dispatch(stepId)` releases exactly one parked
+ * segment per kernel step, skips segments the kernel skipped (plugin skip_step, dependsOn, requiresMode),
+ * and reports whether the segment ran, exited the workflow early, or was never reached.
+ * When the kernel aborts a dispatch (step timeout), the bridge is cancelled: the parked segment and every later
+ * `segment()` call reject with the abort reason, so the workflow unwinds at its next segment boundary.
+ * Segment bodies run under the step's signal (utils/step-abort-signal), so their git / audit child processes are
+ * killed on abort; the aborted dispatch settles only after the in-flight body has returned.
+ */
+
+import type { StepId } from './contracts';
+import { runWithStepSignal } from '../utils/step-abort-signal';
+
+export interface KernelStepDriver {
+  /**
+   * Run `body` when the kernel reaches `stepId`. Resolves null without running `body` when the kernel
+   * skipped the step. Inactive segments (nothing to do for this gate profile / resume point) do not park.
+   */
+  segment<T>(stepId: StepId, active: boolean, body: () => Promise<T | null>): Promise<T | null>;
+  /** Abort signal of the kernel step currently released; segment bodies already run under it (runCommand picks it up). */
+  readonly signal: AbortSignal | undefined;
+}
+
+/** Outcome of releasing one kernel step into the workflow. */
+export type KernelStepDispatch =
+  /** Segment ran and the workflow continued (body returned null). */
+  | 'ran'
+  /** Segment ran and returned an exit result; the workflow is returning early. */
+  | 'exited'
+  /** Workflow has no active segment for this step (or already passed it). */
+  | 'skipped'
+  /** Impl settled before this step's segment was reached (early return outside the workflow, or run complete). */
+  | 'settled';
+
+export interface KernelStepBridge {
+  driver: KernelStepDriver;
+  /** Attach the impl promise that runs the workflow; must be called before the first dispatch. */
+  attach(run: Promise<unknown>): void;
+  /** Release `stepId`; aborting `signal` cancels the bridge (see cancel). */
+  dispatch(stepId: StepId, signal?: AbortSignal): Promise<KernelStepDispatch>;
+  /** Stop driving the workflow: parked and future segments reject with `reason`. */
+  cancel(reason: unknown): void;
+  /** True once any segment body has been released. */
+  hasReleased(): boolean;
+  /** True while a released segment body is running. */
+  isRunning(): boolean;
+  /** True once the attached impl promise resolved or rejected. */
+  isSettled(): boolean;
+}
+
+type ParkedSegment = { stepId: StepId; resolve: (run: boolean) => void; reject: (reason: unknown) => void };
+
+/** Create a bridge for one kernel run; `order` must be the kernel graph order for the action. */
+export function createKernelStepBridge(order: readonly StepId[]): KernelStepBridge {
+  let parked: ParkedSegment | null = null;
+  let settled = false;
+  let released = false;
+  let lastSegmentExited = false;
+  let notify: (() => void) | null = null;
+  let currentSignal: AbortSignal | undefined;
+  let cancelled: { reason: unknown } | null = null;
+  /** Segment body currently running (null while parked or between segments). */
+  let inFlight: Promise<unknown> | null = null;
+  /** Re-read after awaits: `cancel()` may have run while the workflow was parked or a body was running. */
+  const throwIfCancelled = (): void => {
+    if (cancelled) throw cancelled.reason;
+  };
+
+  const changed = (): void => {
+    const n = notify;
+    notify = null;
+    n?.();
+  };
+  const waitForChange = (): Promise<void> =>
+    new Promise<void>((resolve) => {
+      notify = resolve;
+    });
+
+  const driver: KernelStepDriver = {
+    async segment<T>(stepId: StepId, active: boolean, body: () => Promise<T | null>): Promise<T | null> {
+      throwIfCancelled();
+      if (!active) return null;
+      const run = await new Promise<boolean>((resolve, reject) => {
+        parked = { stepId, resolve, reject };
+        changed();
+      });
+      if (!run) return null;
+      released = true;
+      const running = runWithStepSignal(currentSignal, body);
+      inFlight = running;
+      try {
+        const out = await running;
+        lastSegmentExited = out != null;
+        return out;
+      } finally {
+        if (inFlight === running) inFlight = null;
+      }
+    },
+
+    get signal(): AbortSignal | undefined {
+      return currentSignal;
+    },
+  };
+
+  const cancel = (reason: unknown): void => {
+    if (cancelled) return;
+    cancelled = { reason };
+    const current = parked;
+    parked = null;
+    current?.reject(reason);
+    changed();
+  };
+
+  const release = async (stepId: StepId): Promise<KernelStepDispatch> => {
+    const idx = order.indexOf(stepId);
+    for (;;) {
+      throwIfCancelled();
+      if (parked === null) {
+        if (settled) return 'settled';
+        await waitForChange();
+        continue;
+      }
+      const current: ParkedSegment = parked;
+      const parkedIdx = order.indexOf(current.stepId);
+      if (parkedIdx > idx) return 'skipped';
+      parked = null;
+      if (parkedIdx < idx) {
+        current.resolve(false);
+        continue;
+      }
+      lastSegmentExited = false;
+      current.resolve(true);
+      while (parked === null && !settled && !cancelled) {
+        await waitForChange();
+      }
+      if (cancelled) {
+        // Do not hand control back (retry / skip routing) while the aborted body is still running
+        await inFlight?.catch(() => {});
+        throwIfCancelled();
+      }
+      return lastSegmentExited ? 'exited' : 'ran';
+    }
+  };
+
+  return {
+    driver,
+
+    attach(run: Promise<unknown>): void {
+      run.then(
+        () => {
+          settled = true;
+          changed();
+        },
+        () => {
+          settled = true;
+          changed();
+        }
+      );
+    },
+
+    async dispatch(stepId: StepId, signal?: AbortSignal): Promise<KernelStepDispatch> {
+      currentSignal = signal;
+      const onAbort = (): void => cancel(signal?.reason);
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        return await release(stepId);
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    },
+
+    cancel,
+
+    hasReleased(): boolean {
+      return released;
+    },
+
+    isRunning(): boolean {
+      return inFlight !== null;
+    },
+
+    isSettled(): boolean {
+      return settled;
+    },
+  };
+}
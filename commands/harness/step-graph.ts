@@ -1,20 +1,110 @@
 /**
- * Kernel step graph: Pattern A — single orchestration step delegates to runTierStartWorkflow / runTierEndWorkflow.
- * Gate ordering stays authoritative in run-start-steps (getActiveSteps); do not duplicate here.
+ * Kernel step graph: one node per charter StepId; each node releases one segment of
+ * runTierStartWorkflow / runTierEndWorkflow through the KernelStepDriver (harness/step-driver.ts).
+ * Gate ordering inside a segment stays authoritative in run-start-steps / run-end-steps; this file
+ * only owns which kernel nodes exist, their order, and their dependsOn / requiresMode / canFail / timeout.
  */
 
-import type { WorkflowSpec, StepDefinition, StepId } from './contracts';
+import type { Action, WorkflowSpec, StepDefinition, StepId } from './contracts';
 
-const ORCHESTRATION_STEP: StepId = 'validate_identifier';
+const ALL_ACTIONS: Action[] = ['start', 'end', 'reopen', 'plan', 'change', 'validate', 'checkpoint'];
 
-/** Minimal graph: one step where TierAdapter runs the full tier start/end orchestration. */
-export function getStepGraph(_spec: WorkflowSpec): StepDefinition[] {
-  return [
-    {
-      id: ORCHESTRATION_STEP,
-      phase: 'main',
-      requiredFor: ['start', 'end', 'reopen', 'plan', 'change', 'validate', 'checkpoint'],
-      canFail: true,
-    },
-  ];
+/** Default per-step timeout (ms). Audits and git get more headroom; see getStepGraph. */
+const DEFAULT_STEP_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Tier start: validate → load → plan gate → branch → guide/doc sync → gather → audit → scope/plan → cascade → finalize.
+ * Segment membership (which run-start-steps ids each node owns) lives in START_KERNEL_SEGMENTS.
+ */
+const START_GRAPH: StepDefinition[] = [
+  { id: 'validate_identifier', phase: 'pre', requiredFor: ['start'], canFail: false },
+  { id: 'load_context', phase: 'pre', requiredFor: ['start'], dependsOn: ['validate_identifier'], canFail: true },
+  { id: 'plan_gate', phase: 'pre', requiredFor: ['start'], dependsOn: ['validate_identifier'], canFail: false },
+  { id: 'branch_ops', phase: 'main', requiredFor: ['start'], dependsOn: ['plan_gate'], canFail: false },
+  { id: 'doc_sync', phase: 'main', requiredFor: ['start'], dependsOn: ['branch_ops'], canFail: false },
+  { id: 'gather_context', phase: 'main', requiredFor: ['start'], dependsOn: ['doc_sync'], canFail: true },
+  { id: 'audit_ops', phase: 'main', requiredFor: ['start'], dependsOn: ['gather_context'], canFail: false },
+  { id: 'scope_update', phase: 'post', requiredFor: ['start'], dependsOn: ['doc_sync'], canFail: false },
+  { id: 'cascade_eval', phase: 'post', requiredFor: ['start'], dependsOn: ['scope_update'], canFail: true },
+  { id: 'finalize', phase: 'post', requiredFor: ['start'], canFail: false },
+];
+
+/**
+ * Tier end: preflight → tests → docs → branch/merge → audits → cascade → finalize.
+ * Segment membership lives in END_KERNEL_SEGMENTS (run-end-steps.ts).
+ */
+const END_GRAPH: StepDefinition[] = [
+  { id: 'preflight', phase: 'pre', requiredFor: ['end'], canFail: false },
+  { id: 'test_ops', phase: 'main', requiredFor: ['end'], requiresMode: 'execute', dependsOn: ['preflight'], canFail: false },
+  { id: 'doc_sync', phase: 'main', requiredFor: ['end'], requiresMode: 'execute', dependsOn: ['test_ops'], canFail: false },
+  { id: 'branch_ops', phase: 'main', requiredFor: ['end'], requiresMode: 'execute', dependsOn: ['doc_sync'], canFail: false },
+  { id: 'audit_ops', phase: 'post', requiredFor: ['end'], requiresMode: 'execute', dependsOn: ['branch_ops'], canFail: false },
+  { id: 'cascade_eval', phase: 'post', requiredFor: ['end'], requiresMode: 'execute', dependsOn: ['audit_ops'], canFail: true },
+  { id: 'finalize', phase: 'post', requiredFor: ['end'], canFail: false },
+];
+
+/** Reopen and the remaining actions still run as one orchestration node (no segmented workflow yet). */
+const ORCHESTRATION_GRAPH: StepDefinition[] = [
+  { id: 'validate_identifier', phase: 'main', requiredFor: ALL_ACTIONS, canFail: true },
+];
+
+/** Step-specific timeout overrides (ms); everything else uses DEFAULT_STEP_TIMEOUT_MS. */
+const STEP_TIMEOUT_OVERRIDES: Partial<Record<StepId, number>> = {
+  test_ops: 20 * 60_000,
+  audit_ops: 20 * 60_000,
+  branch_ops: 5 * 60_000,
+};
+
+function graphForAction(action: Action): StepDefinition[] {
+  switch (action) {
+    case 'start':
+      return START_GRAPH;
+    case 'end':
+      return END_GRAPH;
+    default:
+      return ORCHESTRATION_GRAPH;
+  }
+}
+
+function withTimeout(def: StepDefinition): StepDefinition {
+  return { ...def, timeout: def.timeout ?? STEP_TIMEOUT_OVERRIDES[def.id] ?? DEFAULT_STEP_TIMEOUT_MS };
+}
+
+/**
+ * Order steps so every dependsOn entry precedes its dependent (stable on declared order).
+ * Throws on unknown dependencies or cycles so a bad graph fails loudly at kernel start.
+ */
+export function orderStepGraph(defs: StepDefinition[]): StepDefinition[] {
+  const byId = new Map(defs.map((d) => [d.id, d]));
+  const ordered: StepDefinition[] = [];
+  const state = new Map<StepId, 'visiting' | 'done'>();
+  const visit = (def: StepDefinition): void => {
+    const s = state.get(def.id);
+    if (s === 'done') return;
+    if (s === 'visiting') {
+      throw new Error(`Step graph cycle at "${def.id}"`);
+    }
+    state.set(def.id, 'visiting');
+    for (const dep of def.dependsOn ?? []) {
+      const depDef = byId.get(dep);
+      if (!depDef) {
+        throw new Error(`Step "${def.id}" depends on unknown step "${dep}"`);
+      }
+      visit(depDef);
+    }
+    state.set(def.id, 'done');
+    ordered.push(def);
+  };
+  for (const def of defs) visit(def);
+  return ordered;
+}
+
+/** Ordered kernel step ids for an action (same order the kernel runs them). */
+export function getStepIdsForAction(action: Action): StepId[] {
+  return orderStepGraph(graphForAction(action)).map((d) => d.id);
+}
+
+/** Kernel graph for a spec: dependency-ordered, with timeouts resolved. */
+export function getStepGraph(spec: WorkflowSpec): StepDefinition[] {
+  return orderStepGraph(graphForAction(spec.action)).map(withTimeout);
 }
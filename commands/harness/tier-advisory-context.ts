@@ -70,6 +70,23 @@ export function formatGovernanceContractBlock(summary: string): string {
   return `- **Governance (harness snapshot):**\n${nested}`;
 }
 
+/** Manual corrections from /work-profile, one nested bullet per field; '' when none. */
+function formatWorkProfileOverrideLines(workProfile: WorkProfile): string {
+  const overrides = workProfile.overrides ?? [];
+  if (overrides.length === 0) return '';
+  const lines = overrides.map(o => `  - ${o.field}: ${o.to} (was ${o.from}; /work-profile ${o.at})`).join('\n');
+  return `- **Overrides:**\n${lines}\n`;
+}
+
+/** Confidence line + nested rationale bullets for an inferred profile; '' when the classifier got no signals. */
+function formatWorkProfileInferenceLines(workProfile: WorkProfile): string {
+  const inference = workProfile.inference;
+  if (!inference) return '';
+  const sources = inference.sources.length > 0 ? inference.sources.join(', ').replace(/_/g, ' ') : 'none';
+  const rationale = inference.rationale.map(r => `  - ${r}`).join('\n');
+  return `- **Inference confidence:** ${inference.confidence.toFixed(2)} (signals: ${sources})\n- **Inference rationale:**\n${rationale}\n`;
+}
+
 export function formatWorkProfileSection(workProfile: WorkProfile | null | undefined): string {
   if (workProfile == null) return '';
   return `
@@ -83,10 +100,21 @@ export function formatWorkProfileSection(workProfile: WorkProfile | null | undef
 - **Recommended context pack:** ${workProfile.contextPack ?? '(derived from intent)'}
 - **Planning artifact action:** ${workProfile.planningArtifactAction ?? 'none'}
 - **Decomposition mode:** ${workProfile.decompositionMode ?? 'moderate'}
-- **Downstream advice:** Planning doc is advisory; guide owns current-tier decomposition.
+${formatWorkProfileInferenceLines(workProfile)}${formatWorkProfileOverrideLines(workProfile)}- **Downstream advice:** Planning doc is advisory; guide owns current-tier decomposition.
 `;
 }
 
+/**
+ * Swap the ## Work Profile block of a planning doc for `section` (output of formatWorkProfileSection).
+ * Returns content unchanged when the doc has no Work Profile heading; other sections are left as written.
+ */
+export function replaceWorkProfileSection(content: string, section: string): string {
+  const match = content.match(/\n##\s+Work Profile\s*[\r\n]+[\s\S]*?(?=\n##\s+|$)/i);
+  if (!match || match.index === undefined || !section.trim()) return content;
+  const replacement = `\n${section.trim()}\n`;
+  return content.slice(0, match.index) + replacement + content.slice(match.index + match[0].length);
+}
+
 export interface TierAdvisoryContext {
   governanceContext: string;
   governanceContractBlock: string;
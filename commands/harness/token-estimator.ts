@@ -0,0 +1,108 @@
+/**
+ * Token estimators for context budgeting (context-injector.ts).
+ * Default: chars/words heuristic. Optional: BPE merge table shipped with the project at
+ * `.project-manager/harness-bpe.json` (`{ "merges": ["Ġ t", "h e", …] }`, GPT-2 merges.txt order, `Ġ` = leading space);
+ * when present it replaces the heuristic. Estimates only — nothing here talks to a model API.
+ */
+
+import type { FileSystemAdapter, TokenEstimator } from './contracts';
+
+/** Project-relative path of the optional BPE merge table. */
+export const HARNESS_BPE_TABLE_RELATIVE = '.project-manager/harness-bpe.json';
+
+/** GPT-2 style pre-tokenizer: contractions, words, numbers, symbol runs, whitespace. */
+const PRE_TOKENIZE = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+/** Per-estimator cache of piece → token count (bounded; cleared when full). */
+const PIECE_CACHE_LIMIT = 20_000;
+
+/**
+ * Heuristic estimate: the larger of ~4 characters per token and ~0.75 words per token.
+ * Errs high on prose and markdown tables, which keeps packs under budget.
+ */
+export function createHeuristicTokenEstimator(): TokenEstimator {
+  return {
+    name: 'heuristic',
+    estimate(text: string): number {
+      if (text.length === 0) return 0;
+      const words = text.match(/\S+/g)?.length ?? 0;
+      return Math.ceil(Math.max(text.length / 4, (words * 4) / 3));
+    },
+  };
+}
+
+/** BPE estimate from ranked merges (`"a b"` merges symbols `a` and `b`; earlier = higher priority). */
+export function createBpeTokenEstimator(merges: readonly string[]): TokenEstimator {
+  const ranks = new Map<string, number>();
+  merges.forEach((m, i) => {
+    const pair = m.trim();
+    if (pair !== '' && !pair.startsWith('#') && !ranks.has(pair)) ranks.set(pair, i);
+  });
+  const cache = new Map<string, number>();
+
+  const countPiece = (piece: string): number => {
+    const cached = cache.get(piece);
+    if (cached !== undefined) return cached;
+    let symbols = [...piece.replace(/ /g, 'Ġ')];
+    for (;;) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const rank = ranks.get(`${symbols[i]} ${symbols[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          best = i;
+        }
+      }
+      if (best < 0) break;
+      const left = symbols[best]!;
+      const right = symbols[best + 1]!;
+      const merged: string[] = [];
+      for (let i = 0; i < symbols.length; i++) {
+        if (i < symbols.length - 1 && symbols[i] === left && symbols[i + 1] === right) {
+          merged.push(left + right);
+          i++;
+        } else {
+          merged.push(symbols[i]!);
+        }
+      }
+      symbols = merged;
+    }
+    if (cache.size >= PIECE_CACHE_LIMIT) cache.clear();
+    cache.set(piece, symbols.length);
+    return symbols.length;
+  };
+
+  return {
+    name: 'bpe',
+    estimate(text: string): number {
+      let total = 0;
+      for (const piece of text.match(PRE_TOKENIZE) ?? []) total += countPiece(piece);
+      return total;
+    },
+  };
+}
+
+/** Parse the BPE table file; throws on malformed content. */
+export function parseBpeTable(raw: string): string[] {
+  const parsed = JSON.parse(raw) as { merges?: unknown };
+  if (!Array.isArray(parsed.merges) || !parsed.merges.every((m) => typeof m === 'string')) {
+    throw new Error(`${HARNESS_BPE_TABLE_RELATIVE}: expected { "merges": string[] }`);
+  }
+  return parsed.merges as string[];
+}
+
+/**
+ * BPE estimator when the project ships a merge table, else the heuristic.
+ * A malformed table falls back to the heuristic with a warning (estimation must never fail a run).
+ */
+export async function resolveTokenEstimator(fs: FileSystemAdapter): Promise<TokenEstimator> {
+  try {
+    if (await fs.exists(HARNESS_BPE_TABLE_RELATIVE)) {
+      return createBpeTokenEstimator(parseBpeTable(await fs.readFile(HARNESS_BPE_TABLE_RELATIVE)));
+    }
+  } catch (e) {
+    console.warn(`[ContextInjector] Ignoring BPE table: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return createHeuristicTokenEstimator();
+}
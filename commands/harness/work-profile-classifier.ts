@@ -1,6 +1,6 @@
 /**
  * WorkProfile classifier: deterministic rules engine for work kind.
- * Accepts tier, action, optional overrides; returns normalized WorkProfile with derived decompositionMode.
+ * Accepts tier, action, optional signals and overrides; returns normalized WorkProfile with derived decompositionMode.
  * See: work-profile-classifier-rollout plan Phase 6.
  */
 
@@ -9,34 +9,28 @@ import type { WorkProfile } from './work-profile';
 import { getDefaultWorkProfile } from './work-profile-defaults';
 import type { GovernanceDomain } from './work-profile';
 import { deriveDecompositionMode, deriveGateProfile, deriveSuggestedDepth } from './work-profile-rules';
-
-/** Repo-relative paths that imply booking / scheduling / PartFinalizer work. */
-function isBookingRelatedPath(repoRelative: string): boolean {
-  const p = repoRelative.replace(/\\/g, '/');
-  if (/\/client\/src\/(composables|components|views|types)\/booking\//i.test(p)) return true;
-  if (/\/client\/src\/utils\/booking\//i.test(p)) return true;
-  if (/partFinalizer|part-finalizer/i.test(p)) return true;
-  if (/\/server\/src\/routes\/internal\/(appointments|availability)/i.test(p)) return true;
-  if (/\/server\/src\/services\/.*availability/i.test(p)) return true;
-  return false;
-}
+import { applyWorkProfileInference, type WorkProfileSignals } from './work-profile-inference';
+import { getGovernanceDomainsForPaths, getGovernanceDomainsForTier } from './governance-domain-map';
 
 /**
- * Add `booking` to governanceDomains when tier is feature/phase/session (decomposition touches scheduling context)
- * or when touched paths include booking pipeline code.
+ * Add governance domains the domain map triggers for this work: domains whose `tiers` include `tier`, and domains
+ * whose path globs match a touched path (built-in booking / scheduling / PartFinalizer layout, or
+ * `.project-manager/governance-domains.json`).
  */
-export function mergeBookingGovernanceDomain(
+export function mergeConfiguredGovernanceDomains(
   profile: WorkProfile,
   tier: Tier,
   touchedPaths?: readonly string[]
 ): WorkProfile {
-  const tierTouchesBooking = tier === 'feature' || tier === 'phase' || tier === 'session';
-  const pathsTouchBooking = touchedPaths?.some(isBookingRelatedPath) ?? false;
-  if (!tierTouchesBooking && !pathsTouchBooking) return profile;
-  if (profile.governanceDomains.includes('booking')) return profile;
+  const triggered = [
+    ...getGovernanceDomainsForTier(tier),
+    ...getGovernanceDomainsForPaths(touchedPaths ?? []).keys(),
+  ];
+  const added = [...new Set(triggered)].filter((d) => !profile.governanceDomains.includes(d));
+  if (added.length === 0) return profile;
   return {
     ...profile,
-    governanceDomains: [...profile.governanceDomains, 'booking'],
+    governanceDomains: [...profile.governanceDomains, ...added],
   };
 }
 
@@ -49,14 +43,17 @@ export interface ClassifierInput {
   workProfileOverride?: Partial<WorkProfile>;
   /** Known command family or reason code (future: audit_fix, workflow_bug_fix). */
   reasonCode?: string;
+  /** Planning doc text and changed paths for the inference stage; when absent, tier+action defaults stand. */
+  signals?: WorkProfileSignals;
 }
 
 /**
  * Classify work and return a normalized WorkProfile with derived decompositionMode.
- * Uses tier+action defaults, applies override, then derives decompositionMode from rules.
+ * Uses tier+action defaults, reason-code pilots, then the signal inference stage, applies override, then derives
+ * decompositionMode from rules.
  */
 export function classifyWorkProfile(input: ClassifierInput): WorkProfile {
-  const { tier, action, workProfileOverride, reasonCode } = input;
+  const { tier, action, workProfileOverride, reasonCode, signals } = input;
   let profile = getDefaultWorkProfile(tier, action);
 
   // Reason-code overrides (Phase 9 pilot cases)
@@ -83,12 +80,27 @@ export function classifyWorkProfile(input: ClassifierInput): WorkProfile {
     };
   }
 
+  // Inference stage: planning doc + changed paths; a re-scored intent/action drops the default context pack
+  if (signals) {
+    const inferred = applyWorkProfileInference(profile, signals);
+    const kindChanged =
+      inferred.executionIntent !== profile.executionIntent || inferred.actionType !== profile.actionType;
+    profile = kindChanged ? { ...inferred, contextPack: undefined } : inferred;
+  }
+
   // Merge explicit override
   if (workProfileOverride) {
     profile = { ...profile, ...workProfileOverride };
   }
 
-  // Derive decompositionMode from rules (overrides profile.decompositionMode when rules apply)
+  return deriveWorkProfileRules(profile, tier, action);
+}
+
+/**
+ * Re-derive decompositionMode, gateProfile and suggestedDepth from the profile's classified fields
+ * (overrides the stored values when rules apply). Used after classification and after a /work-profile correction.
+ */
+export function deriveWorkProfileRules(profile: WorkProfile, tier: Tier, action: TierAction): WorkProfile {
   const derivedMode = deriveDecompositionMode(profile);
   const gateProfile = deriveGateProfile(tier, profile, action);
   const suggestedDepth = deriveSuggestedDepth(profile.scopeShape);
@@ -0,0 +1,248 @@
+/**
+ * WorkProfile inference stage: scores executionIntent, actionType, scopeShape and governanceDomains from the
+ * tier's planning doc (## Goal / ## Decomposition text) and the changed repo paths. Deterministic keyword and
+ * path rules; a field only moves off its tier+action default when one candidate clearly wins.
+ * Confidence and rationale ride on WorkProfile.inference (recorded with the spec in the run trace and rendered
+ * in the planning doc Work Profile section).
+ */
+
+import type {
+  ActionType,
+  ExecutionIntent,
+  GovernanceDomain,
+  ScopeShape,
+  WorkProfile,
+  WorkProfileInference,
+  WorkProfileSignalSource,
+} from './work-profile';
+import { extractDecompositionSection } from '../utils/planning-decomposition';
+import { getGovernanceDomainsForPaths } from './governance-domain-map';
+
+export interface WorkProfileSignals {
+  /** Full planning doc markdown for the tier; only ## Goal and ## Decomposition are read. */
+  planningDoc?: string | null;
+  /** Repo-relative paths changed in the working tree (git-logger listWorkingTreeChangedRepoPaths). */
+  changedPaths?: readonly string[];
+}
+
+interface TextRule<T extends string> {
+  value: T;
+  pattern: RegExp;
+  weight: number;
+}
+
+const INTENT_RULES: TextRule<ExecutionIntent>[] = [
+  { value: 'refactor', pattern: /\b(refactor\w*|consolidat\w*|renam\w*|dedup\w*|clean[ -]?up|simplif\w*)\b/i, weight: 2 },
+  { value: 'audit_fix', pattern: /\b(audit (finding|fix)\w*|violations?|governance fix\w*|lint (error|fix)\w*)\b/i, weight: 2 },
+  { value: 'verify', pattern: /\b(tests?|testing|verif\w*|coverage|regression)\b/i, weight: 1 },
+  { value: 'document', pattern: /\b(document\w*|readme|handoff|changelog)\b/i, weight: 1 },
+  { value: 'design', pattern: /\b(design\w*|architect\w*|boundar\w*|adr)\b/i, weight: 1 },
+  { value: 'implement', pattern: /\b(implement\w*|add(s|ing)?|build(s|ing)?|wir(e|es|ing)|support(s|ing)?|introduc\w*)\b/i, weight: 1 },
+  { value: 'plan', pattern: /\b(decompos\w*|roadmap|break (it )?down|split into)\b/i, weight: 1 },
+];
+
+const ACTION_RULES: TextRule<ActionType>[] = [
+  { value: 'logic_extraction', pattern: /\bextract\w*\b.*\b(logic|composable|helper|util\w*|service)\b/i, weight: 2 },
+  { value: 'contract_alignment', pattern: /\b(contracts?|interfaces?|schemas?|dtos?|type alignment|api shape)\b/i, weight: 2 },
+  { value: 'reuse_genericization', pattern: /\b(generic\w*|reus\w*|shared component|dedup\w*)\b/i, weight: 2 },
+  { value: 'boundary_design', pattern: /\b(boundar\w*|layer(s|ing)?|module split)\b/i, weight: 1 },
+  { value: 'architecture_decision', pattern: /\b(architecture decision|adr|trade-?offs?)\b/i, weight: 2 },
+  { value: 'governance_remediation', pattern: /\b(audit (finding|fix)\w*|violations?|governance)\b/i, weight: 2 },
+  { value: 'workflow_bug_fix', pattern: /\b(workflow|harness|tier-(start|end)|slash command)\b/i, weight: 1 },
+  { value: 'verification_strategy', pattern: /\b(test plan|test strategy|coverage|regression suite)\b/i, weight: 2 },
+  { value: 'localized_change', pattern: /\b(fix(es|ing)?|tweak\w*|bug|typo|small change)\b/i, weight: 1 },
+  { value: 'decomposition', pattern: /\b(decompos\w*|break (it )?down|split into)\b/i, weight: 1 },
+];
+
+const SCOPE_RULES: TextRule<ScopeShape>[] = [
+  { value: 'cross_cutting', pattern: /\b(across|cross-cutting|every (page|component|view)|all (pages|components|views|routes))\b/i, weight: 2 },
+  { value: 'architectural', pattern: /\b(architect\w*|new (module|subsystem|service))\b/i, weight: 1 },
+  { value: 'contract_level', pattern: /\b(contracts?|interfaces?|schemas?|api shape)\b/i, weight: 1 },
+  { value: 'snippet_level', pattern: /\b(one-?line|typo|snippet|copy change)\b/i, weight: 2 },
+];
+
+const TYPE_PATH = /\/types\/|\.d\.ts$/i;
+
+/** Repo-relative path → built-in governance domain by file kind; domain-map path globs are counted on top. */
+const PATH_DOMAIN_RULES: { domain: GovernanceDomain; pattern: RegExp }[] = [
+  { domain: 'component', pattern: /\.vue$|\/components\//i },
+  { domain: 'composable', pattern: /\/composables\//i },
+  { domain: 'type', pattern: TYPE_PATH },
+  { domain: 'testing', pattern: /__tests__\/|\.(test|spec)\.[cm]?[jt]sx?$/i },
+  { domain: 'security', pattern: /\b(auth|security|permissions?|session-token)\b/i },
+  { domain: 'data_flow', pattern: /\/(stores?|routes|api)\//i },
+  { domain: 'workflow', pattern: /^\.cursor\/|^\.project-manager\/(?!.*\.md$)/ },
+  { domain: 'docs', pattern: /\.md$/i },
+  { domain: 'function', pattern: /\/(utils|services|lib)\/.*\.[cm]?[jt]s$/i },
+];
+
+/** Minimum winning score, and minimum share of the field's total, before a field moves off its default. */
+const MIN_SCORE = 2;
+const MIN_SHARE = 0.6;
+/** Changed-path count at or above which a diff counts as cross-cutting regardless of layout. */
+const CROSS_CUTTING_PATH_COUNT = 12;
+
+function sectionBody(content: string, heading: string): string {
+  const match = content.match(new RegExp(`(?:^|\\n)##\\s+${heading}\\s*[\\r\\n]+([\\s\\S]*?)(?=\\n##\\s+|$)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+/** Goal + Decomposition text with placeholder comments and bracketed template slots dropped. */
+function planningText(planningDoc: string | null | undefined): string {
+  if (!planningDoc?.trim()) return '';
+  const raw = [sectionBody(planningDoc, 'Goal'), extractDecompositionSection(planningDoc)].join('\n');
+  return raw
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/\[[^\]\n]*\]/g, ' ')
+    .trim();
+}
+
+type Scores<T extends string> = Map<T, { score: number; reasons: string[] }>;
+
+function addScore<T extends string>(scores: Scores<T>, value: T, weight: number, reason: string): void {
+  const entry = scores.get(value) ?? { score: 0, reasons: [] };
+  entry.score += weight;
+  entry.reasons.push(reason);
+  scores.set(value, entry);
+}
+
+function scoreText<T extends string>(scores: Scores<T>, rules: readonly TextRule<T>[], text: string): void {
+  if (!text) return;
+  for (const rule of rules) {
+    const m = text.match(rule.pattern);
+    if (m) addScore(scores, rule.value, rule.weight, `planning doc mentions "${m[0].toLowerCase()}"`);
+  }
+}
+
+interface FieldPick<T extends string> {
+  value: T;
+  share: number;
+  reasons: string[];
+}
+
+/** Winner when it reaches MIN_SCORE and holds MIN_SHARE of the field's total (so never a tie); null otherwise. */
+function pickWinner<T extends string>(scores: Scores<T>): FieldPick<T> | null {
+  const ranked = [...scores.entries()].sort((a, b) => b[1].score - a[1].score);
+  if (ranked.length === 0) return null;
+  const [value, top] = ranked[0];
+  const total = ranked.reduce((sum, [, s]) => sum + s.score, 0);
+  const share = top.score / total;
+  if (top.score < MIN_SCORE || share < MIN_SHARE) return null;
+  return { value, share, reasons: top.reasons };
+}
+
+function topLevelArea(path: string): string {
+  const parts = path.split('/');
+  return parts.length > 1 ? parts[0] : '.';
+}
+
+function scorePathScope(scores: Scores<ScopeShape>, paths: readonly string[]): void {
+  if (paths.length === 0) return;
+  const areas = new Set(paths.map(topLevelArea));
+  const dirs = new Set(paths.map((p) => p.replace(/\/[^/]*$/, '')));
+  if (paths.every((p) => p.startsWith('.project-manager/') && p.endsWith('.md'))) {
+    addScore(scores, 'tier_document', 3, 'changed paths are only .project-manager docs');
+  } else if (paths.length >= CROSS_CUTTING_PATH_COUNT || areas.size >= 3) {
+    addScore(scores, 'cross_cutting', 3, `${paths.length} changed paths across ${areas.size} top-level areas`);
+  } else if (paths.every((p) => TYPE_PATH.test(p))) {
+    addScore(scores, 'contract_level', 2, 'changed paths are only type declarations');
+  } else if (dirs.size === 1) {
+    addScore(scores, 'file_local', 2, `${paths.length} changed path(s) in one directory`);
+  } else if (areas.size === 2) {
+    addScore(scores, 'cross_cutting', 2, `changed paths span ${[...areas].join(' and ')}`);
+  }
+}
+
+function pathDomains(paths: readonly string[]): Map<GovernanceDomain, number> {
+  const counts = new Map<GovernanceDomain, number>();
+  for (const p of paths) {
+    for (const rule of PATH_DOMAIN_RULES) {
+      if (rule.pattern.test(p)) counts.set(rule.domain, (counts.get(rule.domain) ?? 0) + 1);
+    }
+  }
+  for (const [domain, n] of getGovernanceDomainsForPaths(paths)) {
+    counts.set(domain, Math.max(counts.get(domain) ?? 0, n));
+  }
+  return counts;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Score WorkProfile fields from planning-doc text and changed paths. Returns the changed fields (only those with
+ * a clear winner) plus the inference record; `confidence` is the mean winning share over the three scalar fields,
+ * counting undecided fields as 0.
+ */
+export function scoreWorkProfileSignals(
+  base: WorkProfile,
+  signals: WorkProfileSignals
+): { fields: Partial<WorkProfile>; inference: WorkProfileInference } {
+  const text = planningText(signals.planningDoc);
+  const paths = (signals.changedPaths ?? []).map((p) => p.replace(/\\/g, '/')).filter(Boolean);
+  const sources: WorkProfileSignalSource[] = [];
+  if (text) sources.push('planning_doc');
+  if (paths.length > 0) sources.push('changed_paths');
+  if (sources.length === 0) {
+    return {
+      fields: {},
+      inference: { confidence: 0, sources, rationale: ['No planning doc text or changed paths; tier defaults kept.'] },
+    };
+  }
+
+  const intentScores: Scores<ExecutionIntent> = new Map();
+  const actionScores: Scores<ActionType> = new Map();
+  const scopeScores: Scores<ScopeShape> = new Map();
+  scoreText(intentScores, INTENT_RULES, text);
+  scoreText(actionScores, ACTION_RULES, text);
+  scoreText(scopeScores, SCOPE_RULES, text);
+  scorePathScope(scopeScores, paths);
+
+  const domainCounts = pathDomains(paths);
+  if ((domainCounts.get('testing') ?? 0) > 0 && domainCounts.get('testing') === paths.length) {
+    addScore(intentScores, 'verify', 2, 'changed paths are only tests');
+  }
+  if ((domainCounts.get('workflow') ?? 0) * 2 > paths.length) {
+    addScore(actionScores, 'workflow_bug_fix', 2, 'most changed paths are workflow tooling');
+  }
+
+  const fields: Partial<WorkProfile> = {};
+  const rationale: string[] = [];
+  const shares: number[] = [];
+  const decide = <K extends 'executionIntent' | 'actionType' | 'scopeShape'>(
+    key: K,
+    scores: Scores<WorkProfile[K] & string>,
+    set: (value: WorkProfile[K] & string) => void
+  ): void => {
+    const pick = pickWinner(scores);
+    if (!pick) {
+      shares.push(0);
+      if (scores.size > 0) rationale.push(`${key}: signals inconclusive; kept ${base[key]}`);
+      return;
+    }
+    shares.push(pick.share);
+    if (pick.value !== base[key]) set(pick.value);
+    rationale.push(`${key} → ${pick.value} (${pick.reasons.join('; ')})`);
+  };
+  decide('executionIntent', intentScores, (v) => (fields.executionIntent = v));
+  decide('actionType', actionScores, (v) => (fields.actionType = v));
+  decide('scopeShape', scopeScores, (v) => (fields.scopeShape = v));
+
+  const addedDomains = [...domainCounts.keys()].filter((d) => !base.governanceDomains.includes(d));
+  if (addedDomains.length > 0) {
+    fields.governanceDomains = [...base.governanceDomains, ...addedDomains];
+    rationale.push(
+      `governanceDomains + ${addedDomains.map((d) => `${d} (${domainCounts.get(d)} path(s))`).join(', ')}`
+    );
+  }
+
+  const confidence = round2(shares.reduce((a, b) => a + b, 0) / shares.length);
+  return { fields, inference: { confidence, sources, rationale } };
+}
+
+/** Apply scored fields to `profile` and attach the inference record. */
+export function applyWorkProfileInference(profile: WorkProfile, signals: WorkProfileSignals): WorkProfile {
+  const { fields, inference } = scoreWorkProfileSignals(profile, signals);
+  return { ...profile, ...fields, inference };
+}
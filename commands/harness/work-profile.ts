@@ -34,7 +34,8 @@ export type ScopeShape =
   | 'snippet_level'
   | 'tier_document';
 
-export type GovernanceDomain =
+/** Domains the harness ships mappings for (harness/governance-domain-map.ts). */
+export type BuiltInGovernanceDomain =
   | 'component'
   | 'composable'
   | 'function'
@@ -47,6 +48,12 @@ export type GovernanceDomain =
   | 'architecture'
   | 'booking';
 
+/**
+ * Built-in domain or a domain id declared in `.project-manager/governance-domains.json`
+ * (harness/governance-domains-config.ts). `string & {}` keeps built-in ids autocompleting.
+ */
+export type GovernanceDomain = BuiltInGovernanceDomain | (string & {});
+
 export type ContextPackKind =
   | 'architecture_decision_pack'
   | 'decomposition_pack'
@@ -69,6 +76,33 @@ export type GateProfile = 'decomposition' | 'standard' | 'fast' | 'express';
 /** Advisory decomposition depth from scope shape; agent decides in Analysis / Decomposition. */
 export type SuggestedDecompositionDepth = 'full' | 'collapsed' | 'leaf';
 
+/** Where an inferred WorkProfile field came from (harness/work-profile-inference.ts). */
+export type WorkProfileSignalSource = 'planning_doc' | 'changed_paths';
+
+/** Confidence (0–1) and per-field rationale from the inference stage; absent when the classifier got no signals. */
+export interface WorkProfileInference {
+  confidence: number;
+  sources: WorkProfileSignalSource[];
+  rationale: string[];
+}
+
+/** Fields /work-profile may set; decompositionMode, gateProfile and suggestedDepth are re-derived from them. */
+export type WorkProfileSettableField =
+  | 'executionIntent'
+  | 'actionType'
+  | 'scopeShape'
+  | 'governanceDomains'
+  | 'contextPack'
+  | 'planningArtifactAction';
+
+/** A manual correction applied by /work-profile (tiers/shared/work-profile.ts); `from` / `to` as displayed. */
+export interface WorkProfileOverride {
+  field: WorkProfileSettableField;
+  from: string;
+  to: string;
+  at: string;
+}
+
 export interface WorkProfile {
   executionIntent: ExecutionIntent;
   actionType: ActionType;
@@ -79,4 +113,37 @@ export interface WorkProfile {
   decompositionMode?: DecompositionMode;
   gateProfile?: GateProfile;
   suggestedDepth?: SuggestedDecompositionDepth;
+  inference?: WorkProfileInference;
+  overrides?: WorkProfileOverride[];
 }
+
+// Keyed by each union so adding a member without listing it here fails to compile.
+const EXECUTION_INTENTS: Record<ExecutionIntent, true> = {
+  plan: true, design: true, implement: true, refactor: true, audit_fix: true, verify: true, document: true,
+};
+const ACTION_TYPES: Record<ActionType, true> = {
+  architecture_decision: true, decomposition: true, boundary_design: true, logic_extraction: true,
+  contract_alignment: true, reuse_genericization: true, governance_remediation: true, workflow_bug_fix: true,
+  localized_change: true, verification_strategy: true, continuity_handoff: true,
+};
+const SCOPE_SHAPES: Record<ScopeShape, true> = {
+  architectural: true, cross_cutting: true, contract_level: true, file_local: true, snippet_level: true,
+  tier_document: true,
+};
+const CONTEXT_PACKS: Record<ContextPackKind, true> = {
+  architecture_decision_pack: true, decomposition_pack: true, boundary_design_pack: true,
+  contract_alignment_pack: true, workflow_bug_fix_pack: true, local_implementation_pack: true,
+  audit_remediation_pack: true, verification_pack: true, continuity_pack: true,
+};
+const PLANNING_ARTIFACT_ACTIONS: Record<PlanningArtifactAction, true> = { none: true, create: true, update: true };
+
+/** Allowed values of each single-valued settable field (governanceDomains is validated against the domain map). */
+export const WORK_PROFILE_FIELD_VALUES: {
+  readonly [K in Exclude<WorkProfileSettableField, 'governanceDomains'>]: readonly NonNullable<WorkProfile[K]>[];
+} = {
+  executionIntent: Object.keys(EXECUTION_INTENTS) as ExecutionIntent[],
+  actionType: Object.keys(ACTION_TYPES) as ActionType[],
+  scopeShape: Object.keys(SCOPE_SHAPES) as ScopeShape[],
+  contextPack: Object.keys(CONTEXT_PACKS) as ContextPackKind[],
+  planningArtifactAction: Object.keys(PLANNING_ARTIFACT_ACTIONS) as PlanningArtifactAction[],
+};
@@ -1,17 +1,25 @@
 /**
  * Create Pull Request – used by session-end, phase-end, feature-end, and runnable as CLI.
- * Uses `gh pr create` with --body-file (no shell string concatenation) for reliable multiline bodies.
- * CLI: npx tsx .cursor/commands/scripts/create-pr.ts "Title" "Body" [--draft]
+ * Providers (HARNESS_PR_PROVIDER = github | gitlab | bundle | auto; default auto):
+ * - github: `gh pr create` with --body-file (no shell string concatenation) for reliable multiline bodies.
+ * - gitlab: `glab mr create` (GitLab or a GitLab-compatible host).
+ * - bundle: no remote; writes title, body, a `git format-patch` series, diffstat and audit summary into
+ *   `.project-manager/pr-bundles/<branch>/` so the review can happen from the bundle (offline hosts).
+ * auto picks github when `gh` is on PATH, else gitlab when `glab` is, else bundle; when the remote provider
+ * fails (offline, unauthenticated) it writes a bundle instead.
+ * CLI: npx tsx .cursor/commands/scripts/create-pr.ts "Title" "Body" [--draft] [--provider=github|gitlab|bundle]
  */
 
 import { spawnSync } from 'node:child_process';
 import { writeFileSync, unlinkSync } from 'node:fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { randomBytes } from 'node:crypto';
 import process from 'node:process';
 import { fileURLToPath } from 'node:url';
-import { getCurrentBranch, gitPush } from '../git/shared/git-manager';
+import { branchExists, getCurrentBranch, gitPush, runGitCommand } from '../git/shared/git-manager';
+import { PROJECT_ROOT } from '../utils/utils';
 
 const colors = {
   reset: '\x1b[0m',
@@ -25,6 +33,10 @@ function log(message: string, color: keyof typeof colors = 'reset'): void {
   console.log(`${colors[color]}${message}${colors.reset}`);
 }
 
+export type PrProviderName = 'github' | 'gitlab' | 'bundle';
+
+export const PR_PROVIDERS: readonly PrProviderName[] = ['github', 'gitlab', 'bundle'];
+
 export interface CreatePullRequestResult {
   success: boolean;
   url?: string;
@@ -32,17 +44,46 @@ export interface CreatePullRequestResult {
   error?: string;
   /** True when an existing open PR was reused instead of calling `gh pr create`. */
   reusedExisting?: boolean;
+  /** Provider that produced the result. */
+  provider?: PrProviderName;
+  /** Bundle provider: repo-relative bundle directory (also in `url`). */
+  bundleDir?: string;
+  /** auto mode: remote provider whose failure led to the bundle. */
+  fallbackFrom?: PrProviderName;
   [key: string]: unknown;
 }
 
+export interface CreatePullRequestOptions {
+  /** Overrides HARNESS_PR_PROVIDER; null = auto. */
+  provider?: PrProviderName | null;
+  /** Feature whose audit reports go into a bundle's audit-summary.md (default: from a `feature/<name>` branch). */
+  featureName?: string;
+}
+
 /** When set to 1/true/yes, harness tiers skip calling createPullRequest (CI / no-gh environments). */
 export function shouldSkipHarnessPrCreate(): boolean {
   const v = process.env.HARNESS_SKIP_PR?.trim().toLowerCase();
   return v === '1' || v === 'true' || v === 'yes';
 }
 
-function runGh(args: string[]): { ok: boolean; stdout: string; stderr: string; status: number | null } {
-  const r = spawnSync('gh', args, {
+/** Provider from HARNESS_PR_PROVIDER; null for auto (unset, empty, `auto` or unknown — unknown values warn). */
+export function configuredPrProvider(): PrProviderName | null {
+  const v = process.env.HARNESS_PR_PROVIDER?.trim().toLowerCase();
+  if (!v || v === 'auto') return null;
+  if ((PR_PROVIDERS as readonly string[]).includes(v)) return v as PrProviderName;
+  log(`⚠️  HARNESS_PR_PROVIDER="${v}" is not one of ${PR_PROVIDERS.join(' / ')} / auto — using auto.`, 'yellow');
+  return null;
+}
+
+interface CliResult {
+  ok: boolean;
+  stdout: string;
+  stderr: string;
+  status: number | null;
+}
+
+function runCli(cmd: string, args: string[]): CliResult {
+  const r = spawnSync(cmd, args, {
     encoding: 'utf8',
     maxBuffer: 20 * 1024 * 1024,
   });
@@ -56,11 +97,23 @@ function runGh(args: string[]): { ok: boolean; stdout: string; stderr: string; s
   };
 }
 
+function runGh(args: string[]): CliResult {
+  return runCli('gh', args);
+}
+
+function runGlab(args: string[]): CliResult {
+  return runCli('glab', args);
+}
+
 function ghCliAvailable(): boolean {
   const r = runGh(['--version']);
   return r.ok;
 }
 
+function glabCliAvailable(): boolean {
+  return runGlab(['--version']).ok;
+}
+
 function getDefaultBranchNameSync(): string {
   const r = runGh(['repo', 'view', '--json', 'defaultBranchRef', '-q', '.defaultBranchRef.name']);
   if (r.ok && r.stdout) return r.stdout;
@@ -103,26 +156,338 @@ export function checkGitHubCLI(): boolean {
   return r.ok;
 }
 
+/** Default branch from `origin/HEAD`, else the first local main / master / develop (offline-safe). */
+async function getDefaultBranchFromGit(): Promise<string> {
+  const head = await runGitCommand('git symbolic-ref --short refs/remotes/origin/HEAD', 'createPR-originHead');
+  if (head.success && head.output.trim()) return head.output.trim().replace(/^origin\//, '');
+  for (const candidate of ['main', 'master', 'develop']) {
+    if (await branchExists(candidate)) return candidate;
+  }
+  return 'main';
+}
+
+/** https web URL of origin (`git@host:group/repo.git` → `https://host/group/repo`), or null. */
+async function getOriginWebUrl(): Promise<string | null> {
+  const r = await runGitCommand('git remote get-url origin', 'createPR-originUrl');
+  if (!r.success || !r.output.trim()) return null;
+  const raw = r.output.trim().replace(/\.git$/, '');
+  const ssh = raw.match(/^(?:ssh:\/\/)?git@([^:/]+)[:/](.+)$/);
+  return ssh ? `https://${ssh[1]}/${ssh[2]}` : raw.replace(/^http:\/\//, 'https://');
+}
+
+// ─── Remote providers ──────────────────────────────────────────────────
+
+interface RemotePrRequest {
+  title: string;
+  body: string;
+  bodyFile: string;
+  draft: boolean;
+  head: string;
+  base: string;
+  /** HARNESS_PR_ASSIGNEE as given (`me` / `1` mean the authenticated user). */
+  assignee?: string;
+}
+
+interface RemotePrProvider {
+  name: 'github' | 'gitlab';
+  /** CLI binary, for messages. */
+  cli: string;
+  installHint: string;
+  available(): boolean;
+  defaultBranch(): Promise<string>;
+  findOpen(head: string, base: string): string | null;
+  create(req: RemotePrRequest): { ok: boolean; url: string; detail: string };
+  compareUrl(head: string, base: string): Promise<string>;
+}
+
+const githubProvider: RemotePrProvider = {
+  name: 'github',
+  cli: 'gh',
+  installHint: 'GitHub CLI (gh) not found on PATH. Install: https://cli.github.com/',
+  available: ghCliAvailable,
+  defaultBranch: async () => getDefaultBranchNameSync(),
+  findOpen: findOpenPullRequestUrl,
+  create(req) {
+    const args = ['pr', 'create', '--title', req.title, '--body-file', req.bodyFile];
+    if (req.draft) {
+      args.push('--draft');
+    }
+    if (req.assignee) {
+      args.push('--assignee', req.assignee === '1' || req.assignee.toLowerCase() === 'me' ? '@me' : req.assignee);
+    }
+    const r = runGh(args);
+    return { ok: r.ok, url: r.stdout, detail: r.stderr || r.stdout || `exit ${r.status}` };
+  },
+  compareUrl: async (head) => getCompareUrlForBranch(head),
+};
+
+const gitlabProvider: RemotePrProvider = {
+  name: 'gitlab',
+  cli: 'glab',
+  installHint: 'GitLab CLI (glab) not found on PATH. Install: https://gitlab.com/gitlab-org/cli',
+  available: glabCliAvailable,
+  defaultBranch: getDefaultBranchFromGit,
+  findOpen(head, base) {
+    const r = runGlab(['mr', 'list', '--source-branch', head, '--target-branch', base, '--output', 'json']);
+    if (!r.ok || !r.stdout) return null;
+    try {
+      const list = JSON.parse(r.stdout) as Array<{ web_url?: string }>;
+      return list[0]?.web_url ?? null;
+    } catch {
+      return null;
+    }
+  },
+  create(req) {
+    const args = [
+      'mr',
+      'create',
+      '--title',
+      req.title,
+      '--description',
+      req.body,
+      '--source-branch',
+      req.head,
+      '--target-branch',
+      req.base,
+      '--yes',
+    ];
+    if (req.draft) {
+      args.push('--draft');
+    }
+    // glab takes usernames only; `me` / `1` are left to GitLab's defaults
+    if (req.assignee && req.assignee !== '1' && req.assignee.toLowerCase() !== 'me') {
+      args.push('--assignee', req.assignee);
+    }
+    const r = runGlab(args);
+    const url = r.stdout.match(/https?:\/\/\S+/g)?.pop() ?? r.stdout;
+    return { ok: r.ok, url, detail: r.stderr || r.stdout || `exit ${r.status}` };
+  },
+  async compareUrl(head, base) {
+    const origin = await getOriginWebUrl();
+    return origin
+      ? `${origin}/-/merge_requests/new?merge_request[source_branch]=${head}&merge_request[target_branch]=${base}`
+      : `open a merge request for ${head} → ${base} on the GitLab host`;
+  },
+};
+
+const REMOTE_PROVIDERS: Record<RemotePrProvider['name'], RemotePrProvider> = {
+  github: githubProvider,
+  gitlab: gitlabProvider,
+};
+
+/** Push the branch, then reuse an open PR/MR for head→base or create one. */
+async function openRemotePullRequest(
+  provider: RemotePrProvider,
+  title: string,
+  body: string,
+  draft: boolean,
+  currentBranch: string
+): Promise<CreatePullRequestResult> {
+  const label = provider.name === 'gitlab' ? 'MR' : 'PR';
+  const baseBranch = await provider.defaultBranch();
+  const existingUrl = provider.findOpen(currentBranch, baseBranch);
+  if (existingUrl) {
+    log(`\n✅ Open ${label} already exists for \`${currentBranch}\` → \`${baseBranch}\``, 'green');
+    log(`🔗 ${existingUrl}`, 'blue');
+    log(`   (Skipped ${provider.cli} create; push your branch to update the ${label}.)`, 'yellow');
+    return { success: true, url: existingUrl, branch: currentBranch, reusedExisting: true, provider: provider.name };
+  }
+
+  log(`\n🔄 Pushing branch: ${currentBranch}...`, 'blue');
+
+  try {
+    const pushResult = await gitPush();
+    if (!pushResult.success) {
+      log(`   (Branch already pushed or push failed — ${provider.cli} may still open the ${label} if commits exist on remote)`, 'yellow');
+    }
+  } catch {
+    log(`   (Push threw — continuing to ${provider.cli} create)`, 'yellow');
+  }
+
+  const existingAfterPush = provider.findOpen(currentBranch, baseBranch);
+  if (existingAfterPush) {
+    log(`\n✅ Open ${label} found after push: ${existingAfterPush}`, 'green');
+    return { success: true, url: existingAfterPush, branch: currentBranch, reusedExisting: true, provider: provider.name };
+  }
+
+  log(`\n📝 Creating ${provider.name === 'gitlab' ? 'merge' : 'pull'} request...`, 'blue');
+
+  const bodyFile = join(tmpdir(), `harness-pr-body-${randomBytes(8).toString('hex')}.md`);
+  const bodyText = body.trim() === '' ? '_Pull request opened by workflow harness._' : body;
+  writeFileSync(bodyFile, bodyText, 'utf8');
+
+  try {
+    const assigneeEnv = process.env.HARNESS_PR_ASSIGNEE?.trim();
+    const assignee =
+      assigneeEnv && assigneeEnv !== '0' && assigneeEnv.toLowerCase() !== 'false' ? assigneeEnv : undefined;
+
+    const created = provider.create({
+      title,
+      body: bodyText,
+      bodyFile,
+      draft,
+      head: currentBranch,
+      base: baseBranch,
+      ...(assignee && { assignee }),
+    });
+    if (!created.ok) {
+      log(`\n❌ ${provider.cli} create failed: ${created.detail}`, 'red');
+      const compareUrl = await provider.compareUrl(currentBranch, baseBranch);
+      log(`\n⚠️  Open or update ${label} manually: ${compareUrl}`, 'yellow');
+      return { success: false, error: created.detail, branch: currentBranch, provider: provider.name };
+    }
+
+    log(`\n✅ ${provider.name === 'gitlab' ? 'Merge' : 'Pull'} request created successfully!`, 'green');
+    log(`🔗 ${created.url}`, 'blue');
+
+    return { success: true, url: created.url, branch: currentBranch, provider: provider.name };
+  } finally {
+    try {
+      unlinkSync(bodyFile);
+    } catch {
+      /* non-fatal */
+    }
+  }
+}
+
+// ─── Local bundle provider ─────────────────────────────────────────────
+
+const PR_BUNDLES_DIR = '.project-manager/pr-bundles';
+
+interface TierAuditJson {
+  tier?: string;
+  identifier?: string;
+  overallStatus?: string;
+  results?: Array<{ category?: string; status?: string; score?: number; summary?: string }>;
+}
+
+/** One report's section: from the `.json` twin when it parses, else the Markdown report's status and `## Summary`. */
+async function summarizeAuditReport(relDir: string, mdName: string): Promise<string[]> {
+  const auditDir = join(PROJECT_ROOT, relDir);
+  const relPath = `${relDir}/${mdName}`;
+  try {
+    const report = JSON.parse(await readFile(join(auditDir, mdName.replace(/\.md$/, '.json')), 'utf8')) as TierAuditJson;
+    const lines = [`## ${report.tier ?? '?'} ${report.identifier ?? mdName} — ${report.overallStatus ?? 'unknown'}`, '', `Report: \`${relPath}\``, ''];
+    for (const r of report.results ?? []) {
+      const score = r.score != null ? ` (${r.score})` : '';
+      lines.push(`- **${r.category ?? '?'}** ${r.status ?? '?'}${score}: ${r.summary ?? ''}`.trimEnd());
+    }
+    return [...lines, ''];
+  } catch {
+    // No (readable) JSON twin: fall back to the Markdown report itself
+  }
+  try {
+    const md = await readFile(join(auditDir, mdName), 'utf8');
+    const title = md.match(/^# (.+)$/m)?.[1] ?? mdName;
+    const status = md.match(/^\*\*Overall Status:\*\* (.+)$/m)?.[1] ?? 'unknown';
+    const summary = md.match(/^## Summary\n([\s\S]*?)(?=^## |^---$|(?![\s\S]))/m)?.[1].trim();
+    return [`## ${title} — ${status}`, '', `Report: \`${relPath}\``, '', ...(summary ? [summary, ''] : [])];
+  } catch {
+    return [`## ${mdName} — unreadable`, ''];
+  }
+}
+
+/**
+ * Latest tier-end audit reports for the feature. audit/utils.ts writeAuditReport writes
+ * `<tier>-<id>-audit.md` (plus a `.json` twin) under `.cursor/project-manager/features/<feature>/audits/`.
+ */
+async function buildAuditSummary(featureName: string | null): Promise<string> {
+  if (!featureName) return '_No audit summary: feature unknown (not passed by the tier and not a `feature/` branch)._\n';
+  const relDir = `.cursor/project-manager/features/${featureName}/audits`;
+  const auditDir = join(PROJECT_ROOT, relDir);
+  let names: string[];
+  try {
+    names = (await readdir(auditDir)).filter((n) => n.endsWith('-audit.md') && !n.endsWith('-start-audit.md'));
+  } catch {
+    names = [];
+  }
+  if (names.length === 0) return `_No tier-end audit reports found for feature \`${featureName}\`._\n`;
+
+  const withTimes = await Promise.all(
+    names.map(async (name) => ({ name, mtime: (await stat(join(auditDir, name))).mtimeMs }))
+  );
+  const latest = withTimes.sort((a, b) => b.mtime - a.mtime).slice(0, 5);
+  const lines: string[] = [`# Audit summary (${featureName})`, ''];
+  for (const { name } of latest) {
+    lines.push(...(await summarizeAuditReport(relDir, name)));
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+/** Write the review bundle for `headBranch` (replacing a previous one) under `.project-manager/pr-bundles/<branch>/`. */
+async function writePrBundle(
+  title: string,
+  body: string,
+  draft: boolean,
+  headBranch: string,
+  featureName: string | null
+): Promise<CreatePullRequestResult> {
+  const baseBranch = await getDefaultBranchFromGit();
+  const bundleDir = `${PR_BUNDLES_DIR}/${headBranch}`;
+  const absDir = join(PROJECT_ROOT, bundleDir);
+  const patchDir = join(absDir, 'patches');
+  await rm(patchDir, { recursive: true, force: true });
+  await mkdir(patchDir, { recursive: true });
+
+  const patches = await runGitCommand(
+    `git format-patch --quiet -o '${patchDir.replace(/'/g, "'\\''")}' ${baseBranch}..${headBranch}`,
+    'createPR-bundle-formatPatch'
+  );
+  if (!patches.success) {
+    const detail = patches.error || patches.output;
+    log(`\n❌ git format-patch ${baseBranch}..${headBranch} failed: ${detail}`, 'red');
+    return { success: false, error: detail, branch: headBranch, provider: 'bundle' };
+  }
+  const diffstat = await runGitCommand(`git diff --stat ${baseBranch}...${headBranch}`, 'createPR-bundle-diffstat');
+  const headSha = await runGitCommand(`git rev-parse ${headBranch}`, 'createPR-bundle-headSha');
+  const patchCount = (await readdir(patchDir)).filter((n) => n.endsWith('.patch')).length;
+
+  await writeFile(join(absDir, 'title.txt'), `${title}\n`, 'utf8');
+  await writeFile(join(absDir, 'body.md'), body.trim() === '' ? '_Pull request bundled by workflow harness._\n' : `${body.trimEnd()}\n`, 'utf8');
+  await writeFile(join(absDir, 'diffstat.txt'), `${diffstat.success ? diffstat.output : `(git diff --stat failed: ${diffstat.error})`}\n`, 'utf8');
+  await writeFile(join(absDir, 'audit-summary.md'), await buildAuditSummary(featureName), 'utf8');
+  await writeFile(
+    join(absDir, 'bundle.json'),
+    `${JSON.stringify(
+      {
+        title,
+        head: headBranch,
+        base: baseBranch,
+        feature: featureName,
+        headSha: headSha.success ? headSha.output.trim() : null,
+        draft,
+        patches: patchCount,
+        createdAt: new Date().toISOString(),
+      },
+      null,
+      2
+    )}\n`,
+    'utf8'
+  );
+
+  log(`\n📦 PR bundle written: ${bundleDir} (${patchCount} patch(es), ${headBranch} vs ${baseBranch})`, 'green');
+  log(`   Review: git am ${bundleDir}/patches/*.patch on ${baseBranch}, or read body.md / diffstat.txt.`, 'blue');
+  return { success: true, url: bundleDir, bundleDir, branch: headBranch, provider: 'bundle' };
+}
+
+// ─── Entry point ───────────────────────────────────────────────────────
+
 /**
- * Create a pull request using GitHub CLI.
+ * Create a pull request with the configured provider (HARNESS_PR_PROVIDER, or `provider`; default auto).
  */
 export async function createPullRequest(
   title: string,
   body = '',
-  draft = false
+  draft = false,
+  options: CreatePullRequestOptions = {}
 ): Promise<CreatePullRequestResult> {
+  const provider = options.provider !== undefined ? options.provider : configuredPrProvider();
   try {
     if (shouldSkipHarnessPrCreate()) {
       log('HARNESS_SKIP_PR is set — skipping PR creation.', 'yellow');
       return { success: false, error: 'HARNESS_SKIP_PR' };
     }
 
-    if (!ghCliAvailable()) {
-      const message = 'GitHub CLI (gh) not found on PATH. Install: https://cli.github.com/';
-      log(`\n❌ ${message}`, 'red');
-      return { success: false, error: message };
-    }
-
     const rawBranch = await getCurrentBranch();
     if (rawBranch == null || !rawBranch.trim()) {
       log('\n❌ Could not determine current git branch.', 'red');
@@ -135,80 +500,55 @@ export async function createPullRequest(
       return { success: false, error: 'On trunk branch' };
     }
 
-    const baseBranch = getDefaultBranchNameSync();
-    const existingUrl = findOpenPullRequestUrl(currentBranch, baseBranch);
-    if (existingUrl) {
-      log(`\n✅ Open PR already exists for \`${currentBranch}\` → \`${baseBranch}\``, 'green');
-      log(`🔗 ${existingUrl}`, 'blue');
-      log('   (Skipped gh pr create; push your branch to update the PR.)', 'yellow');
-      return { success: true, url: existingUrl, branch: currentBranch, reusedExisting: true };
-    }
-
-    log(`\n🔄 Pushing branch: ${currentBranch}...`, 'blue');
-
-    try {
-      const pushResult = await gitPush();
-      if (!pushResult.success) {
-        log('   (Branch already pushed or push failed — gh may still open PR if commits exist on remote)', 'yellow');
-      }
-    } catch {
-      log('   (Push threw — continuing to gh pr create)', 'yellow');
-    }
+    const featureName =
+      options.featureName?.trim() || (currentBranch.startsWith('feature/') ? currentBranch.slice('feature/'.length) : null);
 
-    const existingAfterPush = findOpenPullRequestUrl(currentBranch, baseBranch);
-    if (existingAfterPush) {
-      log(`\n✅ Open PR found after push: ${existingAfterPush}`, 'green');
-      return { success: true, url: existingAfterPush, branch: currentBranch, reusedExisting: true };
+    if (provider === 'bundle') {
+      return await writePrBundle(title, body, draft, currentBranch, featureName);
     }
 
-    log('\n📝 Creating pull request...', 'blue');
-
-    const bodyFile = join(tmpdir(), `harness-pr-body-${randomBytes(8).toString('hex')}.md`);
-    const bodyText = body.trim() === '' ? '_Pull request opened by workflow harness._' : body;
-    writeFileSync(bodyFile, bodyText, 'utf8');
-
-    try {
-      const args = ['pr', 'create', '--title', title, '--body-file', bodyFile];
-      if (draft) {
-        args.push('--draft');
-      }
-      const assigneeEnv = process.env.HARNESS_PR_ASSIGNEE?.trim();
-      if (assigneeEnv && assigneeEnv !== '0' && assigneeEnv.toLowerCase() !== 'false') {
-        const assignee = assigneeEnv === '1' || assigneeEnv.toLowerCase() === 'me' ? '@me' : assigneeEnv;
-        args.push('--assignee', assignee);
+    if (provider) {
+      const remote = REMOTE_PROVIDERS[provider];
+      if (!remote.available()) {
+        log(`\n❌ ${remote.installHint}`, 'red');
+        return { success: false, error: remote.installHint, provider };
       }
+      return await openRemotePullRequest(remote, title, body, draft, currentBranch);
+    }
 
-      const ghResult = runGh(args);
-      if (!ghResult.ok) {
-        const detail = ghResult.stderr || ghResult.stdout || `exit ${ghResult.status}`;
-        log(`\n❌ gh pr create failed: ${detail}`, 'red');
-        const compareUrl = getCompareUrlForBranch(currentBranch);
-        log(`\n⚠️  Open or update PR manually: ${compareUrl}`, 'yellow');
-        return { success: false, error: detail, branch: currentBranch };
-      }
-
-      const prUrl = ghResult.stdout;
-      log(`\n✅ Pull request created successfully!`, 'green');
-      log(`🔗 ${prUrl}`, 'blue');
-
-      return { success: true, url: prUrl, branch: currentBranch };
-    } finally {
-      try {
-        unlinkSync(bodyFile);
-      } catch {
-        /* non-fatal */
-      }
+    // auto: first remote CLI on PATH; a bundle when none is installed or the remote call fails
+    const remote = [githubProvider, gitlabProvider].find((p) => p.available());
+    if (!remote) {
+      log('\nNo gh or glab on PATH — writing a local PR bundle instead.', 'yellow');
+      return await writePrBundle(title, body, draft, currentBranch, featureName);
     }
+    const result = await openRemotePullRequest(remote, title, body, draft, currentBranch);
+    if (result.success) return result;
+    log(`\n${remote.cli} could not open the PR — writing a local PR bundle instead.`, 'yellow');
+    const bundle = await writePrBundle(title, body, draft, currentBranch, featureName);
+    return bundle.success ? { ...bundle, fallbackFrom: remote.name, error: result.error } : result;
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     log(`\n❌ Failed to create pull request: ${message}`, 'red');
-    const fallbackBranch = (await getCurrentBranch())?.trim() ?? '';
-    const compareUrl = getCompareUrlForBranch(fallbackBranch);
-    log(`\n⚠️  Create PR manually: ${compareUrl}`, 'yellow');
+    if (provider !== 'bundle' && ghCliAvailable()) {
+      const fallbackBranch = (await getCurrentBranch())?.trim() ?? '';
+      const compareUrl = getCompareUrlForBranch(fallbackBranch);
+      log(`\n⚠️  Create PR manually: ${compareUrl}`, 'yellow');
+    }
     return { success: false, error: message };
   }
 }
 
+/** One-line step output for a successful createPullRequest result (tier-end `steps.createPR`). */
+export function describePullRequestResult(result: CreatePullRequestResult): string {
+  if (result.provider === 'bundle') {
+    const why = result.fallbackFrom ? ` (${result.fallbackFrom} unavailable: ${result.error ?? 'unknown error'})` : '';
+    return `📦 PR bundle written: \`${result.bundleDir}\`${why} — review from the bundle.`;
+  }
+  const noun = result.provider === 'gitlab' ? 'merge request' : 'PR';
+  return result.reusedExisting ? `✅ Using existing open ${noun}: ${result.url}` : `✅ Pull request created: ${result.url}`;
+}
+
 // CLI when run directly (e.g. npx tsx this-file.ts)
 const isMainModule =
   typeof process.argv[1] === 'string' &&
@@ -216,20 +556,23 @@ const isMainModule =
 
 if (isMainModule) {
   const args = process.argv.slice(2);
-  if (args.length === 0) {
-    log('Usage: npx tsx create-pr.ts <title> [body] [--draft]', 'yellow');
+  const positional = args.filter((a) => !a.startsWith('--'));
+  if (positional.length === 0) {
+    log('Usage: npx tsx create-pr.ts <title> [body] [--draft] [--provider=github|gitlab|bundle]', 'yellow');
     log('Example: npx tsx create-pr.ts "Session 4.1: Admin Panel" "Implemented main structure"', 'yellow');
-    log('Optional: HARNESS_PR_ASSIGNEE=me to assign yourself; HARNESS_SKIP_PR=1 to no-op.', 'yellow');
+    log('Optional: HARNESS_PR_ASSIGNEE=me to assign yourself; HARNESS_SKIP_PR=1 to no-op; HARNESS_PR_PROVIDER to pick a provider.', 'yellow');
     process.exit(1);
   }
-  const title = args[0];
-  const body = args[1] ?? '';
+  const title = positional[0];
+  const body = positional[1] ?? '';
   const draft = args.includes('--draft');
-  if (!checkGitHubCLI()) {
+  const providerArg = args.find((a) => a.startsWith('--provider='))?.slice('--provider='.length) as PrProviderName | undefined;
+  const provider = providerArg && PR_PROVIDERS.includes(providerArg) ? providerArg : configuredPrProvider();
+  if (provider === 'github' && !checkGitHubCLI()) {
     log('❌ GitHub CLI not authenticated. Run: gh auth login', 'red');
     process.exit(1);
   }
-  createPullRequest(title, body, draft).then((result) => {
+  createPullRequest(title, body, draft, { provider }).then((result) => {
     process.exit(result.success ? 0 : 1);
   });
 }
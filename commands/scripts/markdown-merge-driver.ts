@@ -0,0 +1,42 @@
+/**
+ * Git merge driver for planning docs (merge by `##` section) – see git/shared/markdown-merge-driver.ts.
+ * Git runs it as: npx tsx .cursor/commands/scripts/markdown-merge-driver.ts %O %A %B %L %P
+ * Register once per clone: npx tsx .cursor/commands/scripts/markdown-merge-driver.ts --install
+ * Exit 0 = merged cleanly; exit 1 = conflict markers left in the conflicting sections.
+ */
+
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+import { installMarkdownMergeDriver, runMarkdownMergeDriver } from '../git/shared/git-manager';
+
+const isMainModule =
+  typeof process.argv[1] === 'string' &&
+  fileURLToPath(import.meta.url) === process.argv[1];
+
+if (isMainModule) {
+  const args = process.argv.slice(2);
+  if (args[0] === '--install') {
+    installMarkdownMergeDriver().then((result) => {
+      for (const message of result.messages) console.log(message);
+      process.exit(result.success ? 0 : 1);
+    });
+  } else if (args.length < 3) {
+    console.error('Usage: markdown-merge-driver.ts <base> <ours> <theirs> [markerSize] [path] | --install');
+    process.exit(2);
+  } else {
+    const [basePath, oursPath, theirsPath, markerSize, pathName] = args;
+    runMarkdownMergeDriver({
+      basePath,
+      oursPath,
+      theirsPath,
+      ...(markerSize && Number(markerSize) > 0 && { markerSize: Number(markerSize) }),
+      ...(pathName && { pathName }),
+    }).then((result) => {
+      if (result.fallback) console.error(`[markdown-merge-driver] ${pathName ?? oursPath}: ${result.fallback}`);
+      else if (!result.clean) {
+        console.error(`[markdown-merge-driver] ${pathName ?? oursPath}: conflicting section(s): ${result.conflicts.join(', ')}`);
+      }
+      process.exit(result.clean ? 0 : 1);
+    });
+  }
+}
@@ -8,7 +8,18 @@
 
 import { runCommand } from '../../utils/utils';
 
-export async function testRun(target: string = 'vue'): Promise<{ success: boolean; output: string }> {
+/** Package directories per target; `files` passed to testRun are repo-relative and routed to these. */
+const TARGET_PACKAGE_DIRS: Record<string, string[]> = {
+  vue: ['client'],
+  server: ['server'],
+  all: ['client', 'server'],
+};
+
+/**
+ * @param files When set, run only these repo-relative test files (each package runs the ones under its
+ *   directory); a target with none of them passes without running anything.
+ */
+export async function testRun(target: string = 'vue', files?: string[]): Promise<{ success: boolean; output: string }> {
   const commands: Record<string, string> = {
     vue: 'cd client && npm run test',
     server: 'cd server && npm run test',
@@ -23,7 +34,18 @@ export async function testRun(target: string = 'vue'): Promise<{ success: boolea
     };
   }
   
-  const command = commands[target] || commands.vue;
+  let command = commands[target] || commands.vue;
+  if (files) {
+    const runs = (TARGET_PACKAGE_DIRS[target] ?? TARGET_PACKAGE_DIRS.vue)
+      .map((dir) => ({ dir, files: files.filter((f) => f.startsWith(`${dir}/`)).map((f) => f.slice(dir.length + 1)) }))
+      .filter((run) => run.files.length > 0);
+    if (runs.length === 0) {
+      return { success: true, output: `No changed test files under target "${target}"; nothing to run.` };
+    }
+    command = runs
+      .map((run) => `(cd ${run.dir} && npm run test -- ${run.files.map((f) => JSON.stringify(f)).join(' ')})`)
+      .join(' && ');
+  }
   const result = await runCommand(command);
   
   return {
@@ -9,6 +9,8 @@
  * - Feature: All tests + coverage
  */
 
+import { existsSync } from 'fs';
+import { basename, dirname, join } from 'path';
 import { testRun } from '../atomic/test-run';
 import { testCoverage } from '../atomic/test-coverage';
 import { testWorkflow } from './test-workflow';
@@ -25,17 +27,64 @@ export interface TestEndWorkflowResult {
   message: string;
 }
 
+export interface TestEndWorkflowOptions {
+  /** Run only these repo-relative test files (tests policy `changed_only`); no coverage run. */
+  files?: string[];
+}
+
+const TEST_FILE_PATTERN = /\.(test|spec)\.(ts|tsx|js|jsx)$/;
+const SOURCE_FILE_PATTERN = /\.(ts|tsx|js|jsx|vue)$/;
+
+/**
+ * Test files covering `changedFiles` (repo-relative): changed test files themselves, plus existing
+ * `name.test.*` / `name.spec.*` siblings and `__tests__/name.test.*` files of changed sources.
+ */
+export function selectChangedTestFiles(changedFiles: string[], projectRoot: string = process.cwd()): string[] {
+  const selected = new Set<string>();
+  for (const file of changedFiles) {
+    if (TEST_FILE_PATTERN.test(file)) {
+      if (existsSync(join(projectRoot, file))) selected.add(file);
+      continue;
+    }
+    if (!SOURCE_FILE_PATTERN.test(file)) continue;
+    const dir = dirname(file);
+    const name = basename(file).replace(SOURCE_FILE_PATTERN, '');
+    for (const kind of ['test', 'spec']) {
+      for (const ext of ['ts', 'tsx', 'js', 'jsx']) {
+        for (const candidate of [join(dir, `${name}.${kind}.${ext}`), join(dir, '__tests__', `${name}.${kind}.${ext}`)]) {
+          if (existsSync(join(projectRoot, candidate))) selected.add(candidate);
+        }
+      }
+    }
+  }
+  return [...selected].sort();
+}
+
 /**
  * Run end-of-workflow test suite
  */
 export async function testEndWorkflow(
   tier: WorkflowTier,
   id: string,
-  target: string = 'vue'
+  target: string = 'vue',
+  options: TestEndWorkflowOptions = {}
 ): Promise<TestEndWorkflowResult> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const results: any = {};
   
+  if (options.files) {
+    // Changed-only: the listed test files at any tier (feature covers every package)
+    const changedResult = await testRun(tier === 'feature' ? 'all' : target, options.files);
+    results.run = changedResult;
+    const label = `${tier.charAt(0).toUpperCase()}${tier.slice(1)}-level tests for ${options.files.length} changed test file(s)`;
+    return {
+      success: changedResult.success,
+      tier,
+      results,
+      message: changedResult.success ? `${label} passed` : `${label} failed`,
+    };
+  }
+  
   switch (tier) {
     case 'task': {
       // Task level: Run unit tests for changed files
@@ -27,12 +27,20 @@ import type {
   StepExitResult,
 } from '../../shared/tier-end-workflow-types';
 import { runTierEndWorkflow } from '../../../harness/run-end-steps';
-import type { RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import { gitDeletesMergedBranches } from '../../shared/tier-end-steps';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { KernelStepDriver } from '../../../harness/step-driver';
 
-export type EndShadowContext = { recorder: RunRecorder; handle: RunTraceHandle };
+export type EndShadowContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; tier-end steps consult them (tests, audits, docs, git, cascade). */
+  policies?: PolicySet;
+};
 import { proposeVerificationChecklistForFeature } from '../../shared/verification-check';
 import { runPlanningTierGapAnalysis } from '../../shared/tier-end-deliverables-drift';
-import { createPullRequest, shouldSkipHarnessPrCreate } from '../../../scripts/create-pr';
+import { createPullRequest, describePullRequestResult, shouldSkipHarnessPrCreate } from '../../../scripts/create-pr';
 
 export interface FeatureEndParams {
   featureId?: string;
@@ -91,6 +99,8 @@ export async function featureEndImpl(
       runRecorder: shadow.recorder,
       runTraceHandle: shadow.handle,
       stepPath: [],
+      ...(shadow.stepDriver && { stepDriver: shadow.stepDriver }),
+      ...(shadow.policies && { policies: shadow.policies }),
     }),
   };
 
@@ -198,7 +208,7 @@ export async function featureEndImpl(
         console.warn('[feature-end-impl] Change impact analysis failed (non-fatal)', err);
       }
       try {
-        const testResult = await testEndWorkflow('feature', ctx.identifier, 'all');
+        const testResult = await testEndWorkflow('feature', ctx.identifier, 'all', { files: ctx.changedTestFiles });
         ctx.steps.runTests = {
           success: testResult.success,
           output: impactAnalysisOutput + testResult.message + '\n' + JSON.stringify(testResult.results, null, 2),
@@ -350,6 +360,7 @@ export async function featureEndImpl(
           identifier: ctx.identifier,
           commitMessage: featureCommitMessage,
           auditPrewarmPromise: ctx.auditPrewarmPromise,
+          deleteBranch: gitDeletesMergedBranches(ctx),
         });
         Object.assign(ctx.steps, bundle.steps);
         if (!bundle.ok) {
@@ -400,14 +411,12 @@ export async function featureEndImpl(
           const prBody =
             `Automated **feature-end** for **${ctx.identifier}**.\n\n` +
             `**Phases completed:** ${phases}\n\nReview CI and merge toward the default branch when ready.`;
-          const prResult = await createPullRequest(prTitle, prBody, false);
+          const prResult = await createPullRequest(prTitle, prBody, false, { featureName: ctx.context.feature.name });
           ctx.steps.createPR = {
             success: prResult.success,
             output:
               prResult.success && prResult.url
-                ? prResult.reusedExisting
-                  ? `✅ Using existing open PR: ${prResult.url}`
-                  : `✅ Pull request created: ${prResult.url}`
+                ? describePullRequestResult(prResult)
                 : `⚠️ Could not open PR: ${prResult.error ?? 'unknown error'}`,
           };
         } else {
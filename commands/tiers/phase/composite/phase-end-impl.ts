@@ -36,12 +36,19 @@ import type {
   StepExitResult,
 } from '../../shared/tier-end-workflow-types';
 import { runTierEndWorkflow } from '../../../harness/run-end-steps';
-import type { RunRecorder, RunTraceHandle } from '../../../harness/contracts';
-
-export type EndShadowContext = { recorder: RunRecorder; handle: RunTraceHandle };
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { KernelStepDriver } from '../../../harness/step-driver';
+
+export type EndShadowContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; tier-end steps consult them (tests, audits, docs, git, cascade). */
+  policies?: PolicySet;
+};
 import { proposeVerificationChecklistForPhase } from '../../shared/verification-check';
 import { runPlanningTierGapAnalysis } from '../../shared/tier-end-deliverables-drift';
-import { createPullRequest, shouldSkipHarnessPrCreate } from '../../../scripts/create-pr';
+import { createPullRequest, describePullRequestResult, shouldSkipHarnessPrCreate } from '../../../scripts/create-pr';
 
 export interface PhaseEndParams {
   phaseId: string;
@@ -108,6 +115,8 @@ export async function phaseEndImpl(
       runRecorder: shadow.recorder,
       runTraceHandle: shadow.handle,
       stepPath: [],
+      ...(shadow.stepDriver && { stepDriver: shadow.stepDriver }),
+      ...(shadow.policies && { policies: shadow.policies }),
     }),
   };
 
@@ -213,7 +222,7 @@ export async function phaseEndImpl(
         console.warn('Phase end: change detection failed (non-fatal)', _err);
       }
 
-      const testResult = await testEndWorkflow('phase', p.phaseId, testTarget);
+      const testResult = await testEndWorkflow('phase', p.phaseId, testTarget, { files: c.changedTestFiles });
       c.steps.runTests = {
         success: testResult.success,
         output: impactAnalysisOutput + testResult.message + '\n' + JSON.stringify(testResult.results, null, 2),
@@ -519,12 +528,12 @@ export async function phaseEndImpl(
             const prBody =
               `Automated **phase-end** checkpoint on the feature branch for **${featLabel}** (phase \`${p.phaseId}\`).\n\n` +
               `**Sessions (from params):** ${sessions}\n\nReview diff and CI on this PR.`;
-            const prResult = await createPullRequest(prTitle, prBody, false);
+            const prResult = await createPullRequest(prTitle, prBody, false, { featureName: c.context.feature.name });
             c.steps.createPR = {
               success: prResult.success,
               output:
                 prResult.success && prResult.url
-                  ? `✅ Pull request created: ${prResult.url}`
+                  ? describePullRequestResult(prResult)
                   : `⚠️ Could not open PR: ${prResult.error ?? 'unknown error'}`,
             };
           } else {
@@ -25,11 +25,18 @@ import { runTierStartWorkflow } from '../../../harness/run-start-steps';
 import { resolveSubmoduleCursorForTierStart } from '../../../utils/command-execution-mode';
 import { getTierUpPlanningDocSections } from '../../shared/tier-start-steps';
 import { buildReuseOpportunitiesSection, type InventoryPayload } from '../helpers/inventory-reuse-check';
-import type { RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { KernelStepDriver } from '../../../harness/step-driver';
 import { writeTierScope } from '../../../utils/tier-scope-writer';
 import { refreshAcrossLadderArtifacts } from '../../../utils/across-ladder';
 
-export type ShadowContext = { recorder: RunRecorder; handle: RunTraceHandle };
+export type ShadowContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; the start audit step consults `audits`. */
+  policies?: PolicySet;
+};
 
 /** When provided (e.g. from harness), use this context instead of re-resolving from git. */
 export async function phaseStartImpl(
@@ -64,6 +71,8 @@ export async function phaseStartImpl(
       runRecorder: shadow.recorder,
       runTraceHandle: shadow.handle,
       stepPath: [],
+      ...(shadow.stepDriver && { stepDriver: shadow.stepDriver }),
+      ...(shadow.policies && { policies: shadow.policies }),
     }),
   };
 
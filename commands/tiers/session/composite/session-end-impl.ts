@@ -26,7 +26,7 @@ import { SESSION_CONFIG } from '../../configs/session';
 import { fileURLToPath } from 'node:url';
 import { resolve, join } from 'node:path';
 import { execSync } from 'node:child_process';
-import { createPullRequest, shouldSkipHarnessPrCreate } from '../../../scripts/create-pr';
+import { createPullRequest, describePullRequestResult, shouldSkipHarnessPrCreate } from '../../../scripts/create-pr';
 import type { CascadeInfo } from '../../../utils/tier-outcome';
 import { buildTierEndOutcome } from '../../../utils/tier-outcome';
 import { buildCascadeUp, buildCascadeAcross } from '../../../utils/tier-cascade';
@@ -41,9 +41,17 @@ import type {
 } from '../../shared/tier-end-workflow-types';
 import { CommandExecutionMode, getOptionsFromParams } from '../../../utils/command-execution-mode';
 import { runTierEndWorkflow } from '../../../harness/run-end-steps';
-import type { RunRecorder, RunTraceHandle } from '../../../harness/contracts';
-
-export type EndShadowContext = { recorder: RunRecorder; handle: RunTraceHandle };
+import { gitDeletesMergedBranches } from '../../shared/tier-end-steps';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { KernelStepDriver } from '../../../harness/step-driver';
+
+export type EndShadowContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; tier-end steps consult them (tests, audits, docs, git, cascade). */
+  policies?: PolicySet;
+};
 import { proposeVerificationChecklistForSession } from '../../shared/verification-check';
 import { runPlanningTierGapAnalysis } from '../../shared/tier-end-deliverables-drift';
 import { getExcerptEndMarker } from '../../shared/context-policy';
@@ -241,6 +249,8 @@ export async function sessionEndImpl(
       runRecorder: shadow.recorder,
       runTraceHandle: shadow.handle,
       stepPath: [],
+      ...(shadow.stepDriver && { stepDriver: shadow.stepDriver }),
+      ...(shadow.policies && { policies: shadow.policies }),
     }),
   };
 
@@ -400,7 +410,7 @@ export async function sessionEndImpl(
           console.error('Change detection failed (non-fatal):', error);
         }
 
-        const testResult = await testEndWorkflow('session', p.sessionId, testTarget);
+        const testResult = await testEndWorkflow('session', p.sessionId, testTarget, { files: c.changedTestFiles });
         c.steps.runTests = {
           success: testResult.success,
           output: impactAnalysisOutput + testResult.message + '\n' + JSON.stringify(testResult.results, null, 2),
@@ -563,7 +573,7 @@ export async function sessionEndImpl(
         try {
           const mergeResult = await mergeTierBranch(SESSION_CONFIG, p.sessionId, c.context, {
             push: true,
-            deleteBranch: true,
+            deleteBranch: gitDeletesMergedBranches(c),
             auditPrewarmPromise: c.auditPrewarmPromise,
           });
           c.steps.gitMerge = { success: mergeResult.success, output: mergeResult.messages.join('\n') };
@@ -637,17 +647,20 @@ export async function sessionEndImpl(
               const prBody = p.transitionNotes
                 ? `## Summary\n\n${p.description}\n\n## Next Steps\n\n${p.transitionNotes}`
                 : `Session ${p.sessionId} complete: ${p.description}`;
-              const prResult = await createPullRequest(prTitle, prBody, false);
+              const prResult = await createPullRequest(prTitle, prBody, false, { featureName: c.context.feature.name });
               if (prResult.success && prResult.url) {
                 c.steps.createPR = {
                   success: true,
-                  output: `✅ Pull request created:\n🔗 ${prResult.url}\n\n**Note:** Assign reviewers if needed before continuing to next session.`,
+                  output:
+                    prResult.provider === 'bundle'
+                      ? describePullRequestResult(prResult)
+                      : `${describePullRequestResult(prResult)}\n\n**Note:** Assign reviewers if needed before continuing to next session.`,
                 };
               } else {
                 const errorMessage = prResult.error ? String(prResult.error) : 'PR creation failed without details';
                 c.steps.createPR = {
                   success: false,
-                  output: `⚠️ Harness could not open a PR automatically: ${errorMessage}\n\nFix \`gh auth login\` / remote sync if needed, or open a compare URL from the create-pr script output in logs.`,
+                  output: `⚠️ Harness could not open a PR automatically: ${errorMessage}\n\nFix \`gh auth login\` / \`glab auth login\` / remote sync if needed, set HARNESS_PR_PROVIDER=bundle to review offline, or open a compare URL from the create-pr script output in logs.`,
                 };
               }
             }
@@ -27,13 +27,20 @@ import type {
 import { runTierStartWorkflow } from '../../../harness/run-start-steps';
 import { resolveSubmoduleCursorForTierStart } from '../../../utils/command-execution-mode';
 import { getTierUpPlanningDocSections } from '../../shared/tier-start-steps';
-import type { RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { KernelStepDriver } from '../../../harness/step-driver';
 import { writeTierScope } from '../../../utils/tier-scope-writer';
 import { refreshAcrossLadderArtifacts } from '../../../utils/across-ladder';
 import { getExpectedBranchForTier } from '../../../git/shared/git-manager';
 import { FEATURE_CONFIG } from '../../configs/feature';
 
-export type ShadowContext = { recorder: RunRecorder; handle: RunTraceHandle };
+export type ShadowContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; the start audit step consults `audits`. */
+  policies?: PolicySet;
+};
 
 function extractTaskDetails(
   guide: string,
@@ -167,6 +174,8 @@ export async function sessionStartImpl(
       runRecorder: shadow.recorder,
       runTraceHandle: shadow.handle,
       stepPath: [],
+      ...(shadow.stepDriver && { stepDriver: shadow.stepDriver }),
+      ...(shadow.policies && { policies: shadow.policies }),
     }),
   };
 
@@ -3,10 +3,19 @@
  * and prevents plan-only stall (plan_mode must yield approve_execute question).
  */
 
+import { readFileSync } from 'fs';
 import { describe, it, expect } from 'vitest';
+import type { ReasonCode } from '../../../harness/contracts';
 import { routeByOutcome } from '../control-plane-route';
+import { CONTROL_PLANE_ROUTES, ROUTING_PLAYBOOK_PATH, renderRoutingPlaybook } from '../control-plane-routing-table';
 import { reinvokeStartExecute } from '../control-plane-reinvoke';
 import { formatChoiceForChat } from '../control-plane-choice-display';
+import {
+  buildFrictionRegressionFixture,
+  readFrictionRegressionFixtures,
+  toExpectedRoutingDecision,
+} from '../control-plane-friction-fixtures';
+import { parseWorkflowFrictionLog } from '../../../utils/read-workflow-friction';
 import type { ControlPlaneDecision } from '../control-plane-types';
 import { REASON_CODE, QUESTION_KEYS } from '../control-plane-types';
 import type { CommandResultForRouting, ControlPlaneContext } from '../control-plane-types';
@@ -97,6 +106,41 @@ describe('control-plane routeByOutcome', () => {
     expect(decision.message).toContain('WORKFLOW_FRICTION_LOG.md');
   });
 
+  it('step_timeout returns step_timeout_options with retry and skip commands for the trace', () => {
+    const result: CommandResultForRouting = {
+      success: false,
+      output: '',
+      outcome: {
+        reasonCode: 'step_timeout',
+        nextAction: 'Step audit_ops timed out after 1200000ms and its workflow was cancelled.',
+        stepTimeout: { step: 'audit_ops', timeoutMs: 1_200_000, traceId: 'trace_abc' },
+      },
+    };
+    const decision = routeByOutcome(result, { ...baseCtx, action: 'end' });
+    expect(decision.stop).toBe(true);
+    expect(decision.requiredMode).toBe('plan');
+    expect(decision.questionKey).toBe(QUESTION_KEYS.STEP_TIMEOUT_OPTIONS);
+    expect(decision.message).toContain('resume-from-trace.ts trace_abc`');
+    expect(decision.message).toContain('resume-from-trace.ts trace_abc --skip-step');
+  });
+
+  it('pending_gate_drift returns gate_drift_options with the drift details as message', () => {
+    const result: CommandResultForRouting = {
+      success: false,
+      output: '',
+      outcome: {
+        reasonCode: 'pending_gate_drift',
+        nextAction: '- HEAD moved: `abc1234` → `def5678`.\n- **Refresh**: `/accepted-push 6.1.2 --refresh`',
+      },
+    };
+    const decision = routeByOutcome(result, { ...baseCtx, action: 'end' });
+    expect(decision.stop).toBe(true);
+    expect(decision.requiredMode).toBe('plan');
+    expect(decision.questionKey).toBe(QUESTION_KEYS.GATE_DRIFT_OPTIONS);
+    expect(decision.message).toContain('HEAD moved');
+    expect(decision.message).not.toContain('WORKFLOW_FRICTION_LOG.md');
+  });
+
   it('success with cascade returns cascade question and cascadeCommand', () => {
     const result: CommandResultForRouting = {
       success: true,
@@ -119,6 +163,29 @@ describe('control-plane routeByOutcome', () => {
     expect(decision.cascadeCommand).toBe('/task-start 6.2.1.1');
   });
 
+  it('end_ok with auto-confirmed cascade proceeds without a cascade question', () => {
+    const result: CommandResultForRouting = {
+      success: true,
+      output: 'Done',
+      outcome: {
+        reasonCode: 'end_ok',
+        nextAction: 'Session complete.',
+        cascade: {
+          direction: 'across',
+          tier: 'session',
+          identifier: '6.2.2',
+          command: '/session-start 6.2.2',
+          autoConfirm: true,
+        },
+      },
+    };
+    const decision = routeByOutcome(result, { ...baseCtx, action: 'end' });
+    expect(decision.stop).toBe(false);
+    expect(decision.requiredMode).toBe('agent');
+    expect(decision.questionKey).toBeUndefined();
+    expect(decision.cascadeCommand).toBe('/session-start 6.2.2');
+  });
+
   it('success without cascade returns no stop and agent mode', () => {
     const result: CommandResultForRouting = {
       success: true,
@@ -217,6 +284,22 @@ describe('control-plane routeByOutcome', () => {
     expect(decision.requiredMode).toBe('plan');
   });
 
+  it('worktree_redirect stops without a question and re-invokes the same command', () => {
+    const result: CommandResultForRouting = {
+      success: true,
+      output: '',
+      outcome: {
+        reasonCode: 'worktree_redirect',
+        nextAction: "Re-run from `cd '/wt/feature-x'`",
+      },
+    };
+    const decision = routeByOutcome(result, baseCtx);
+    expect(decision.stop).toBe(true);
+    expect(decision.questionKey).toBeUndefined();
+    expect(decision.message).toContain('/wt/feature-x');
+    expect(decision.nextInvoke).toEqual({ tier: baseCtx.tier, action: baseCtx.action, params: baseCtx.originalParams });
+  });
+
   it('task_complete with cascade returns cascade question', () => {
     const result: CommandResultForRouting = {
       success: true,
@@ -281,6 +364,141 @@ describe('control-plane routeByOutcome', () => {
   });
 });
 
+describe('control-plane routing table', () => {
+  it('each route declares the mode, question and resume step its handler produces', () => {
+    for (const code of Object.keys(CONTROL_PLANE_ROUTES) as ReasonCode[]) {
+      for (const success of [true, false]) {
+        const route = success ? CONTROL_PLANE_ROUTES[code].success : CONTROL_PLANE_ROUTES[code].failure;
+        const result: CommandResultForRouting = {
+          success,
+          output: 'output',
+          outcome: {
+            reasonCode: code,
+            nextAction: 'next',
+            tierEndGitResumable: true,
+            stepTimeout: { step: 'audit_ops', timeoutMs: 1000, traceId: 'trace_abc' },
+          },
+        };
+        const decision = routeByOutcome(result, { ...baseCtx, action: route.resumeAfter?.action ?? 'start' });
+        const label = `${code} (success: ${success})`;
+        expect(decision.requiredMode, label).toBe(route.requiredMode);
+        expect(decision.questionKey, label).toBe(route.questionKey);
+        if (route.resumeAfter) {
+          expect(JSON.stringify(decision.nextInvoke?.params), label).toContain(`"${route.resumeAfter.step}"`);
+        }
+      }
+    }
+  });
+
+  it('failure stops carry typed choices bound to a re-invoke and /audit-fix', () => {
+    const result: CommandResultForRouting = {
+      success: false,
+      output: 'Error output',
+      outcome: { reasonCode: 'test_failed', nextAction: 'Tests failed.' },
+    };
+    const decision = routeByOutcome(result, { ...baseCtx, action: 'end' });
+    expect(decision.choices?.map((c) => c.id)).toEqual(['retry', 'audit_fix', 'skip']);
+    expect(decision.choices?.[0]?.nextInvoke).toEqual({ tier: 'session', action: 'end', params: baseCtx.originalParams });
+    expect(decision.choices?.[1]?.slashCommand).toBe('/audit-fix');
+    expect(formatChoiceForChat(decision)).toContain('`/choose retry`');
+  });
+
+  it('command-gated stops offer the command that clears the gate; non-stopping decisions have no choices', () => {
+    const gated = routeByOutcome(
+      { success: true, output: '', outcome: { reasonCode: 'context_gathering', nextAction: 'Fill the doc.' } },
+      { ...baseCtx, tier: 'task', originalParams: { taskId: '6.2.1.1' } }
+    );
+    expect(gated.choices).toEqual([
+      { id: 'accepted_code', label: 'Accept the plan and begin coding', slashCommand: '/accepted-code' },
+    ]);
+    const proceed = routeByOutcome(
+      { success: true, output: '', outcome: { reasonCode: 'start_ok', nextAction: 'Done.' } },
+      baseCtx
+    );
+    expect(proceed.stop).toBe(false);
+    expect(proceed.choices).toBeUndefined();
+  });
+
+  it('pending_gate_drift discard choice is destructive and bound to the accepted command', () => {
+    const decision = routeByOutcome(
+      {
+        success: false,
+        output: '',
+        outcome: { reasonCode: 'pending_gate_drift', nextAction: 'Drifted.', gateInvocation: '/accepted-push 6.2.1' },
+      },
+      { ...baseCtx, action: 'end' }
+    );
+    expect(decision.choices).toEqual([
+      {
+        id: 'refresh',
+        label: 'Refresh — accept the current branch / HEAD / guide and continue',
+        slashCommand: '/accepted-push 6.2.1 --refresh',
+      },
+      {
+        id: 'discard',
+        label: 'Discard the gate and re-run the tier command later',
+        slashCommand: '/accepted-push 6.2.1 --discard',
+        destructive: true,
+      },
+    ]);
+  });
+
+  it('committed CONTROL_PLANE_ROUTING.md matches the table', () => {
+    expect(readFileSync(ROUTING_PLAYBOOK_PATH, 'utf8')).toBe(renderRoutingPlaybook());
+  });
+});
+
+describe('friction regression fixtures', () => {
+  it('each fixture from a repaired friction cluster still routes to its recorded decision', () => {
+    for (const { file, fixture } of readFrictionRegressionFixtures()) {
+      const decision = routeByOutcome(fixture.result, fixture.ctx);
+      expect(toExpectedRoutingDecision(decision), `${file} (${fixture.clusterKey})`).toEqual(fixture.expected);
+    }
+  });
+
+  it('builds a failing result and the current decision from a friction entry', () => {
+    const [entry] = parseWorkflowFrictionLog(
+      [
+        '### 2026-09-10 — 6.2.1 — session — end — audit failed',
+        '',
+        '- **reasonCodeRaw:** audit_failed',
+        '- **reasonCodeNormalized:** audit_failed',
+        '- **isFailureReason:** true',
+        '- **tier:** session',
+        '- **action:** end',
+        '- **identifier:** 6.2.1',
+        '- **featureName:** —',
+        '- **stepPath:** preflight, runAudits',
+        '',
+        '- **Symptom:** Audit 12 failed',
+        '- **Context:** session-end audits',
+      ].join('\n')
+    );
+    const fixture = buildFrictionRegressionFixture(entry!, '2026-09-12T00:00:00Z');
+    if (typeof fixture === 'string') throw new Error(fixture);
+    expect(fixture.ctx).toEqual({ tier: 'session', action: 'end', originalParams: { sessionId: '6.2.1' } });
+    expect(fixture.result).toEqual({
+      success: false,
+      output: '',
+      outcome: { reasonCode: 'audit_failed', nextAction: 'Audit 12 failed' },
+    });
+    expect(fixture.source.stepPath).toEqual(['preflight', 'runAudits']);
+    expect(fixture.expected).toEqual({
+      stop: true,
+      requiredMode: 'plan',
+      questionKey: QUESTION_KEYS.AUDIT_FAILED_OPTIONS,
+      choiceIds: ['retry', 'audit_fix', 'skip'],
+    });
+  });
+
+  it('skips entries the control plane does not route', () => {
+    const [entry] = parseWorkflowFrictionLog(
+      ['### 2026-09-10 — — — — — note', '', '- **reasonCodeRaw:** audit_failed', '- **tier:** —'].join('\n')
+    );
+    expect(buildFrictionRegressionFixture(entry!, '2026-09-12T00:00:00Z')).toBe('no tier recorded');
+  });
+});
+
 describe('Choice display for chat', () => {
   it('context_gathering has no QUESTION_KEY_OPTIONS so returns empty', () => {
     const decision = {
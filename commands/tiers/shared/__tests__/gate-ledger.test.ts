@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the gate ledger: which open gate an accepted command or /work-profile resolves to, and drift checks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkGateForCommand, checkStartGate, compareGateSnapshot, type GateLedgerEntry } from '../gate-ledger';
+
+function gate(overrides: Partial<GateLedgerEntry>): GateLedgerEntry {
+  return {
+    id: 'g1',
+    state: 'context_gathering',
+    tier: 'session',
+    identifier: '6.2.1',
+    featureName: 'vue-migration',
+    branch: 'feature/vue-migration',
+    openedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    transitions: [],
+    ...overrides,
+  };
+}
+
+describe('gate ledger checks', () => {
+  it('checkGateForCommand picks the single matching open gate', () => {
+    const entry = gate({});
+    const check = checkGateForCommand([entry, gate({ id: 'g2', state: 'pushed', identifier: '6.2.0' })], '/accepted-plan');
+    expect(check).toEqual({ ok: true, entry });
+  });
+
+  it('checkGateForCommand is ambiguous for two matching gates without an identifier', () => {
+    const check = checkGateForCommand([gate({}), gate({ id: 'g2', identifier: '6.2.2' })], '/accepted-plan');
+    expect(check.ok).toBe(false);
+    if (check.ok) return;
+    expect(check.reason).toBe('ambiguous');
+    expect(check.message).toContain('`/accepted-plan 6.2.1`');
+    expect(check.message).toContain('`/accepted-plan 6.2.2`');
+  });
+
+  it('checkGateForCommand narrows by identifier', () => {
+    const other = gate({ id: 'g2', identifier: '6.2.2' });
+    const check = checkGateForCommand([gate({}), other], '/accepted-plan', { identifier: '6.2.2' });
+    expect(check).toEqual({ ok: true, entry: other });
+  });
+
+  it('checkGateForCommand breaks a same-identifier tie with the current branch', () => {
+    const main = gate({});
+    const worktree = gate({ id: 'g2', branch: 'session-6.2.1' });
+    expect(checkGateForCommand([main, worktree], '/accepted-plan', { identifier: '6.2.1', branch: 'session-6.2.1' })).toEqual({
+      ok: true,
+      entry: worktree,
+    });
+    const noMatch = checkGateForCommand([main, worktree], '/accepted-plan', { identifier: '6.2.1', branch: 'other' });
+    expect(noMatch.ok === false && noMatch.reason).toBe('ambiguous');
+    // The branch only breaks ties for one identifier; without one it does not pick
+    const noId = checkGateForCommand([main, worktree], '/accepted-plan', { branch: 'session-6.2.1' });
+    expect(noId.ok === false && noId.reason).toBe('ambiguous');
+  });
+
+  it('checkGateForCommand reports wrong_gate with the commands that close the open gate', () => {
+    const check = checkGateForCommand([gate({ state: 'guide_fill' })], '/accepted-plan');
+    expect(check.ok).toBe(false);
+    if (check.ok) return;
+    expect(check.reason).toBe('wrong_gate');
+    expect(check.message).toContain('`/accepted-build 6.2.1`');
+  });
+
+  it('checkGateForCommand rejects a command for the wrong tier', () => {
+    const check = checkGateForCommand([gate({ tier: 'task', identifier: '6.2.1.1' })], '/accepted-plan');
+    expect(check.ok === false && check.reason).toBe('wrong_gate');
+  });
+
+  it('checkGateForCommand reports none with the last closed gate', () => {
+    const check = checkGateForCommand([gate({ state: 'pushed', updatedAt: '2026-01-02T00:00:00.000Z' })], '/accepted-push');
+    expect(check.ok).toBe(false);
+    if (check.ok) return;
+    expect(check.reason).toBe('none');
+    expect(check.message).toContain('Last gate: **pushed**');
+    expect(checkGateForCommand([], '/accepted-push')).toMatchObject({ ok: false, reason: 'none', message: 'No open gate.' });
+  });
+
+  it('checkStartGate finds the open start gate by tier and identifier, with a branch tie-break', () => {
+    const session = gate({ state: 'guide_fill' });
+    const task = gate({ id: 'g2', tier: 'task', identifier: '6.2.1.1' });
+    expect(checkStartGate([session, task], '/work-profile', { tier: 'task' })).toEqual({ ok: true, entry: task });
+    expect(checkStartGate([session, task], '/work-profile').ok === false).toBe(true);
+    const twin = gate({ id: 'g3', branch: 'session-6.2.1' });
+    expect(checkStartGate([session, twin], '/work-profile', { identifier: '6.2.1', branch: 'session-6.2.1' })).toEqual({
+      ok: true,
+      entry: twin,
+    });
+  });
+
+  it('checkStartGate ambiguous / wrong_gate / none', () => {
+    const ambiguous = checkStartGate([gate({}), gate({ id: 'g2', identifier: '6.2.2' })], '/work-profile');
+    expect(ambiguous.ok === false && ambiguous.reason).toBe('ambiguous');
+    const wrong = checkStartGate([gate({ state: 'pending_push' })], '/work-profile');
+    expect(wrong.ok === false && wrong.reason).toBe('wrong_gate');
+    const none = checkStartGate([gate({ state: 'build' })], '/work-profile');
+    expect(none.ok === false && none.reason).toBe('none');
+  });
+
+  it('compareGateSnapshot reports no drift for an unchanged snapshot', () => {
+    const entry = gate({ headSha: 'a'.repeat(40), guide: { path: 'g.md', sha256: 'x' } });
+    expect(
+      compareGateSnapshot(entry, { at: '2026-01-02T00:00:00.000Z', branch: entry.branch!, headSha: entry.headSha!, guideSha256: 'x' })
+    ).toEqual([]);
+  });
+
+  it('compareGateSnapshot reports each drift kind', () => {
+    const entry = gate({ headSha: 'a'.repeat(40), guide: { path: 'g.md', sha256: 'x' } });
+    const drift = compareGateSnapshot(entry, {
+      at: '2026-01-20T00:00:00.000Z',
+      branch: 'main',
+      headSha: 'b'.repeat(40),
+      guideSha256: 'y',
+    });
+    expect(drift.map((d) => d.kind)).toEqual(['branch_changed', 'head_moved', 'guide_modified', 'expired']);
+    expect(drift[1]!.detail).toBe('HEAD moved: `aaaaaaa` → `bbbbbbb`.');
+    const removed = compareGateSnapshot(entry, { at: entry.updatedAt, branch: entry.branch!, headSha: null, guideSha256: null });
+    expect(removed).toEqual([{ kind: 'guide_modified', detail: 'Guide removed: `g.md`.' }]);
+  });
+
+  it('compareGateSnapshot only compares recorded fields', () => {
+    const legacy = gate({ branch: undefined });
+    expect(compareGateSnapshot(legacy, { at: legacy.updatedAt, branch: 'anything', headSha: 'c'.repeat(40), guideSha256: 'z' })).toEqual([]);
+  });
+
+  it('compareGateSnapshot expiry honors maxAgeDays and maxAgeDays <= 0 disables it', () => {
+    const entry = gate({});
+    const snapshot = { at: '2026-01-05T00:00:00.000Z', branch: entry.branch!, headSha: null };
+    expect(compareGateSnapshot(entry, snapshot, 3).map((d) => d.kind)).toEqual(['expired']);
+    expect(compareGateSnapshot(entry, snapshot, 7)).toEqual([]);
+    expect(compareGateSnapshot(entry, { ...snapshot, at: '2027-01-01T00:00:00.000Z' }, 0)).toEqual([]);
+    expect(compareGateSnapshot(entry, { ...snapshot, at: '2027-01-01T00:00:00.000Z' }, -1)).toEqual([]);
+  });
+});
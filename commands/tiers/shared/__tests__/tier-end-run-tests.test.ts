@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the tier-end run_tests decision: explicit runTests vs the spec's tests policy.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../testing/utils/test-config', () => ({
+  TEST_CONFIG: { enabled: true, defaultRunTests: true },
+}));
+
+import { stepResolveRunTests, getEndPolicyDecision } from '../tier-end-steps';
+import { PROFILE_DEFAULTS } from '../../../harness/spec-builder';
+import { buildTierEndOutcome } from '../../../utils/tier-outcome';
+import type { TierEndWorkflowContext, TierEndWorkflowHooks } from '../tier-end-workflow-types';
+
+const hooks = (overrides: Partial<TierEndWorkflowHooks> = {}): TierEndWorkflowHooks => ({
+  getPlanModeSteps: () => [],
+  getSuccessOutcome: () => buildTierEndOutcome('completed', 'end_ok', ''),
+  ...overrides,
+});
+
+function endCtx(params: { runTests?: boolean }, tests: 'skip' | 'changed_only' | 'full' | null): TierEndWorkflowContext {
+  return {
+    params,
+    output: [],
+    steps: {},
+    shouldRunTests: false,
+    ...(tests && { policies: { ...PROFILE_DEFAULTS.balanced.policies, tests } }),
+  } as unknown as TierEndWorkflowContext;
+}
+
+describe('stepResolveRunTests', () => {
+  it('still blocks a tier that requires runTests when a policy is set', async () => {
+    const ctx = endCtx({}, 'changed_only');
+    const exit = await stepResolveRunTests(ctx, hooks({ requireExplicitRunTests: true }));
+    expect(exit?.outcome.reasonCode).toBe('run_tests_required');
+    expect(ctx.shouldRunTests).toBe(false);
+  });
+
+  it('runs the whole suite for an explicit runTests: true under changed_only', async () => {
+    const ctx = endCtx({ runTests: true }, 'changed_only');
+    expect(await stepResolveRunTests(ctx, hooks({ requireExplicitRunTests: true }))).toBeNull();
+    expect(ctx.shouldRunTests).toBe(true);
+    expect(ctx.changedTestFiles).toBeUndefined();
+    expect(getEndPolicyDecision(ctx, 'run_tests')).toEqual({
+      policy: 'tests',
+      value: 'changed_only',
+      run: true,
+      reason: 'runTests=true (overrides policies.tests=changed_only)',
+    });
+  });
+
+  it('lets explicit runTests override skip and full', async () => {
+    const skip = endCtx({ runTests: true }, 'skip');
+    await stepResolveRunTests(skip, hooks());
+    expect(skip.shouldRunTests).toBe(true);
+    const full = endCtx({ runTests: false }, 'full');
+    await stepResolveRunTests(full, hooks());
+    expect(full.shouldRunTests).toBe(false);
+    expect(getEndPolicyDecision(full, 'run_tests')?.run).toBe(false);
+  });
+
+  it('follows the policy when runTests is not set', async () => {
+    const skip = endCtx({}, 'skip');
+    await stepResolveRunTests(skip, hooks());
+    expect(skip.shouldRunTests).toBe(false);
+    expect(getEndPolicyDecision(skip, 'run_tests')?.reason).toBe('policies.tests=skip');
+    const full = endCtx({}, 'full');
+    await stepResolveRunTests(full, hooks());
+    expect(full.shouldRunTests).toBe(true);
+  });
+
+  it('uses runTests / TEST_CONFIG without policies and records no decision', async () => {
+    const ctx = endCtx({}, null);
+    await stepResolveRunTests(ctx, hooks());
+    expect(ctx.shouldRunTests).toBe(true);
+    expect(getEndPolicyDecision(ctx, 'run_tests')).toBeUndefined();
+  });
+});
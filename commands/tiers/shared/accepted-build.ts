@@ -1,19 +1,24 @@
 /**
  * /accepted-build: Gate 2 — resume after guide fill (decomposition) or auto-complete Part A for standard/fast when applicable.
- * Reads `.tier-start-pending.json` with `guideFillPending`; runs tier-start execute with `guideFillComplete` + `resumeAfterStep: ensure_branch`.
+ * Requires the gate ledger's open gate to be `guide_fill`; runs tier-start execute with `guideFillComplete` +
+ * `resumeAfterStep: ensure_branch` and advances the gate to `build` on `start_ok`.
  */
 
 import { runTierStart, type TierStartResultWithControlPlane } from './tier-start';
 import { getConfigForTier } from '../configs';
 import {
-  readTierStartPending,
-  deleteTierStartPending,
+  requireGate,
+  advanceGate,
+  guardGateDrift,
+  gateDriftStartResult,
+  type GateDriftAction,
   type TierStartPendingParams,
   type TierStartPendingState,
 } from './pending-state';
+import { gateCheckReasonCode } from './gate-ledger';
 import { isGuideFilled } from './tier-start-steps';
 import type { ControlPlaneDecision } from './control-plane-types';
-import { formatChoiceForChat } from './control-plane-choice-display';
+import { presentChoices } from './choose';
 import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-context';
 import type { GateProfile } from '../../harness/work-profile';
 import {
@@ -87,12 +92,14 @@ function guidePathForState(state: TierStartPendingState, context: WorkflowComman
   }
 }
 
-function blocked(message: string, reasonCode: string): TierStartResultWithControlPlane {
+async function blocked(message: string, reasonCode: string): Promise<TierStartResultWithControlPlane> {
   const decision: ControlPlaneDecision = {
     stop: true,
     requiredMode: 'plan',
     message,
   };
+  // No choices to offer: presenting clears choices recorded by an earlier command, so /choose cannot re-run it.
+  await presentChoices(decision);
   return {
     success: false,
     output: message,
@@ -108,12 +115,25 @@ function blocked(message: string, reasonCode: string): TierStartResultWithContro
 /**
  * Resume tier start after Gate 2 (guide). User runs in Cursor; do not shell-invoke as primary workflow.
  */
-export async function acceptedBuild(): Promise<TierStartResultWithControlPlane> {
-  const state = await readTierStartPending();
-  if (!state || state.guideFillPending !== true) {
+export async function acceptedBuild(
+  identifier?: string,
+  options: { onDrift?: GateDriftAction } = {}
+): Promise<TierStartResultWithControlPlane> {
+  const gate = await requireGate('/accepted-build', identifier);
+  if (!gate.ok) {
+    const message = gate.reason === 'none' ? `${NO_PENDING_MESSAGE}\n\n${gate.message}` : gate.message;
+    return blocked(message, gateCheckReasonCode(gate, 'no_pending_build'));
+  }
+  const state = gate.entry.tierStart;
+  if (!state) {
     return blocked(NO_PENDING_MESSAGE, 'no_pending_build');
   }
 
+  const guard = await guardGateDrift('/accepted-build', gate.entry, options.onDrift);
+  if (guard.status === 'drift' || guard.status === 'discarded') {
+    return gateDriftStartResult(guard);
+  }
+
   const tierParams = pendingParamsToTierParamsBag(state.tier, state.params);
   let context: WorkflowCommandContext;
   try {
@@ -165,14 +185,12 @@ export async function acceptedBuild(): Promise<TierStartResultWithControlPlane>
 
   const rc = String(result.outcome?.reasonCode ?? '');
   if (rc === 'start_ok') {
-    await deleteTierStartPending();
+    await advanceGate('/accepted-build', gate.entry.id, 'build', result.traceId);
   }
 
   let finalOutput = result.output;
-  if (result.controlPlaneDecision.stop && result.controlPlaneDecision.questionKey) {
-    const choiceBlock = formatChoiceForChat(result.controlPlaneDecision);
-    if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
-  }
+  const choiceBlock = await presentChoices(result.controlPlaneDecision);
+  if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
 
   return {
     ...result,
@@ -1,14 +1,22 @@
 /**
  * /accepted-code: allow the pending task start to proceed past the gate (Begin Coding) without re-running from the top.
- * Reads .task-start-pending.json written by task-start on plan_mode; continues the workflow from ensure_branch
- * (resumeAfterStep). BLOCKS until the task planning doc is filled (same enforcement as /accepted-plan for non-task tiers).
+ * Requires the gate ledger's open gate to be the task's `context_gathering` (opened by task-start); continues the
+ * workflow from ensure_branch (resumeAfterStep) and advances the gate to `code` on `start_ok`. BLOCKS until the task planning doc is filled (same enforcement as /accepted-plan for non-task tiers).
  */
 
 import { runTierStart, type TierStartResultWithControlPlane } from './tier-start';
 import { TASK_CONFIG } from '../configs';
-import { readTaskStartPending, deleteTaskStartPending } from './pending-state';
+import {
+  requireGate,
+  advanceGate,
+  guardGateDrift,
+  gateDriftStartResult,
+  type GateDriftAction,
+} from './pending-state';
+import { gateCheckReasonCode } from './gate-ledger';
 import type { ControlPlaneDecision } from './control-plane-types';
 import { isPlanningDocFilled } from './tier-start-steps';
+import { presentChoices } from './choose';
 import { WorkflowCommandContext } from '../../utils/command-context';
 import {
   buildWorkflowFrictionEntryFromOrchestrator,
@@ -30,28 +38,52 @@ The agent MUST do the following (this is REQUIRED, not optional):
 
 After the doc is updated, run /accepted-code again. The command will not proceed until the doc is filled.`;
 
+async function blocked(
+  message: string,
+  reasonCode: string,
+  status: 'blocked' | 'failed' = 'blocked'
+): Promise<TierStartResultWithControlPlane> {
+  const decision: ControlPlaneDecision = {
+    stop: true,
+    requiredMode: 'plan',
+    message,
+  };
+  // No choices to offer: presenting clears choices recorded by an earlier command, so /choose cannot re-run it.
+  await presentChoices(decision);
+  return {
+    success: false,
+    output: message,
+    outcome: {
+      status,
+      reasonCode,
+      nextAction: message,
+    },
+    controlPlaneDecision: decision,
+  };
+}
+
 /**
  * Run task start with execute for the pending task. Returns result with controlPlaneDecision for the agent to present.
  * When a task planning doc exists, validates it is filled; if not, returns planning_doc_incomplete and does not run task start.
  */
-export async function acceptedCode(): Promise<TierStartResultWithControlPlane> {
-  const state = await readTaskStartPending();
-  if (!state) {
-    const decision: ControlPlaneDecision = {
-      stop: true,
-      requiredMode: 'plan',
-      message: NO_PENDING_MESSAGE,
-    };
-    return {
-      success: false,
-      output: NO_PENDING_MESSAGE,
-      outcome: {
-        status: 'blocked',
-        reasonCode: 'no_pending_code',
-        nextAction: NO_PENDING_MESSAGE,
-      },
-      controlPlaneDecision: decision,
-    };
+export async function acceptedCode(
+  taskId?: string,
+  options: { onDrift?: GateDriftAction } = {}
+): Promise<TierStartResultWithControlPlane> {
+  const gate = await requireGate('/accepted-code', taskId);
+  const state = gate.ok ? gate.entry.taskStart : undefined;
+  if (!gate.ok || !state) {
+    const message = gate.ok
+      ? NO_PENDING_MESSAGE
+      : gate.reason === 'none'
+        ? `${NO_PENDING_MESSAGE}\n\n${gate.message}`
+        : gate.message;
+    return blocked(message, gate.ok ? 'no_pending_code' : gateCheckReasonCode(gate, 'no_pending_code'));
+  }
+
+  const guard = await guardGateDrift('/accepted-code', gate.entry, options.onDrift);
+  if (guard.status === 'drift' || guard.status === 'discarded') {
+    return gateDriftStartResult(guard);
   }
 
   const hasFeature =
@@ -60,21 +92,7 @@ export async function acceptedCode(): Promise<TierStartResultWithControlPlane> {
   if (!hasFeature) {
     const msg =
       'Pending task state is missing **featureId** or **featureName**. Re-run **task-start** with an explicit feature (e.g. numeric # or `appointment-workflow`).';
-    const decision: ControlPlaneDecision = {
-      stop: true,
-      requiredMode: 'plan',
-      message: msg,
-    };
-    return {
-      success: false,
-      output: msg,
-      outcome: {
-        status: 'blocked',
-        reasonCode: 'planning_doc_incomplete',
-        nextAction: msg,
-      },
-      controlPlaneDecision: decision,
-    };
+    return blocked(msg, 'planning_doc_incomplete');
   }
 
   let context: WorkflowCommandContext;
@@ -105,21 +123,7 @@ export async function acceptedCode(): Promise<TierStartResultWithControlPlane> {
       forcePolicy: true,
     });
     const failMsg = `**Context resolution failed:**\n\n\`\`\`\n${message}\n\`\`\`\n\nFix pending state or re-run **task-start**.`;
-    const decision: ControlPlaneDecision = {
-      stop: true,
-      requiredMode: 'plan',
-      message: failMsg,
-    };
-    return {
-      success: false,
-      output: failMsg,
-      outcome: {
-        status: 'failed',
-        reasonCode: 'invalid_context',
-        nextAction: failMsg,
-      },
-      controlPlaneDecision: decision,
-    };
+    return blocked(failMsg, 'invalid_context', 'failed');
   }
   const expressProfile = state.workProfile?.gateProfile === 'express';
   const planningDocPath = context.documents.getPlanningDocRelativePath('task', state.taskId);
@@ -127,60 +131,18 @@ export async function acceptedCode(): Promise<TierStartResultWithControlPlane> {
   if (!expressProfile) {
     if (!(await context.documents.planningDocExists('task', state.taskId))) {
       const msg = PLANNING_DOC_INCOMPLETE_MESSAGE(planningDocPath);
-      const decision: ControlPlaneDecision = {
-        stop: true,
-        requiredMode: 'plan',
-        message: msg,
-      };
-      return {
-        success: false,
-        output: msg,
-        outcome: {
-          status: 'blocked',
-          reasonCode: 'planning_doc_incomplete',
-          nextAction: msg,
-        },
-        controlPlaneDecision: decision,
-      };
+      return blocked(msg, 'planning_doc_incomplete');
     }
     let content: string;
     try {
       content = await context.documents.readPlanningDoc('task', state.taskId);
     } catch {
       const msg = PLANNING_DOC_INCOMPLETE_MESSAGE(planningDocPath);
-      const decision: ControlPlaneDecision = {
-        stop: true,
-        requiredMode: 'plan',
-        message: msg,
-      };
-      return {
-        success: false,
-        output: msg,
-        outcome: {
-          status: 'blocked',
-          reasonCode: 'planning_doc_incomplete',
-          nextAction: msg,
-        },
-        controlPlaneDecision: decision,
-      };
+      return blocked(msg, 'planning_doc_incomplete');
     }
     if (!isPlanningDocFilled(content)) {
       const msg = PLANNING_DOC_INCOMPLETE_MESSAGE(planningDocPath);
-      const decision: ControlPlaneDecision = {
-        stop: true,
-        requiredMode: 'plan',
-        message: msg,
-      };
-      return {
-        success: false,
-        output: msg,
-        outcome: {
-          status: 'blocked',
-          reasonCode: 'planning_doc_incomplete',
-          nextAction: msg,
-        },
-        controlPlaneDecision: decision,
-      };
+      return blocked(msg, 'planning_doc_incomplete');
     }
   }
 
@@ -199,7 +161,7 @@ export async function acceptedCode(): Promise<TierStartResultWithControlPlane> {
   );
 
   if (result.outcome?.reasonCode === 'start_ok') {
-    await deleteTaskStartPending();
+    await advanceGate('/accepted-code', gate.entry.id, 'code', result.traceId);
   }
 
   return result;
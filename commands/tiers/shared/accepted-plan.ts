@@ -1,20 +1,25 @@
 /**
  * /accepted-plan: Gate 1 — resume feature/phase/session start after planning doc is filled.
- * Reads `.tier-start-pending.json` from `context_gathering`; runs tier-start in execute from `ensure_branch`.
+ * Requires the gate ledger's open gate to be `context_gathering` (feature/phase/session); runs tier-start in execute
+ * from `ensure_branch` and advances the gate to `build` on `start_ok`.
  * Express profile: fail-fast (no planning gate). Decomposition may stop at `guide_fill_pending` → user runs /accepted-build next.
  */
 
 import { runTierStart, type TierStartResultWithControlPlane } from './tier-start';
 import { getConfigForTier } from '../configs';
 import {
-  readTierStartPending,
-  deleteTierStartPending,
+  requireGate,
+  advanceGate,
+  guardGateDrift,
+  gateDriftStartResult,
+  type GateDriftAction,
   type TierStartPendingParams,
   type TierStartPendingState,
 } from './pending-state';
+import { gateCheckReasonCode } from './gate-ledger';
 import { isPlanningDocFilled } from './tier-start-steps';
 import type { ControlPlaneDecision } from './control-plane-types';
-import { formatChoiceForChat } from './control-plane-choice-display';
+import { presentChoices } from './choose';
 import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-context';
 import type { GateProfile } from '../../harness/work-profile';
 import {
@@ -25,12 +30,9 @@ import {
 const NO_PENDING_MESSAGE =
   'No pending feature/phase/session start. Run **feature-start**, **phase-start**, or **session-start** first; after the agent fills the planning doc, run **/accepted-plan**.';
 
-const WRONG_GATE_MESSAGE =
-  'Gate 2 is pending (guide fill). Run **/accepted-build** after the agent fills the guide — not **/accepted-plan**.';
-
 const EXPRESS_FAIL_MESSAGE = `**Express** gate profile skips the planning-doc gate. **/accepted-plan** does not apply.
 
-If this file is stale from an earlier run, delete \`.cursor/commands/.tier-start-pending.json\` or re-run the tier-start for your tier. Otherwise continue in Agent mode per the last tier-start output.`;
+If this gate is stale from an earlier run, re-run the tier-start for your tier (the new run replaces it). Otherwise continue in Agent mode per the last tier-start output.`;
 
 const PLANNING_DOC_INCOMPLETE_MESSAGE = (path: string) =>
   `Proceeding is BLOCKED. The planning doc must be filled before you can continue.
@@ -87,16 +89,18 @@ function resolveGateProfile(state: TierStartPendingState): GateProfile {
   return state.workProfile?.gateProfile ?? state.gateProfile ?? 'decomposition';
 }
 
-function blocked(
+async function blocked(
   message: string,
   reasonCode: string,
   status: 'blocked' | 'failed' = 'blocked'
-): TierStartResultWithControlPlane {
+): Promise<TierStartResultWithControlPlane> {
   const decision: ControlPlaneDecision = {
     stop: true,
     requiredMode: 'plan',
     message,
   };
+  // No choices to offer: presenting clears choices recorded by an earlier command, so /choose cannot re-run it.
+  await presentChoices(decision);
   return {
     success: false,
     output: message,
@@ -112,14 +116,23 @@ function blocked(
 /**
  * Resume tier start after Gate 1 (planning doc). User runs in Cursor; do not shell-invoke as primary workflow.
  */
-export async function acceptedPlan(): Promise<TierStartResultWithControlPlane> {
-  const state = await readTierStartPending();
+export async function acceptedPlan(
+  identifier?: string,
+  options: { onDrift?: GateDriftAction } = {}
+): Promise<TierStartResultWithControlPlane> {
+  const gate = await requireGate('/accepted-plan', identifier);
+  if (!gate.ok) {
+    const message = gate.reason === 'none' ? `${NO_PENDING_MESSAGE}\n\n${gate.message}` : gate.message;
+    return blocked(message, gateCheckReasonCode(gate, 'no_pending_plan'));
+  }
+  const state = gate.entry.tierStart;
   if (!state) {
     return blocked(NO_PENDING_MESSAGE, 'no_pending_plan');
   }
 
-  if (state.guideFillPending === true) {
-    return blocked(WRONG_GATE_MESSAGE, 'wrong_accepted_command');
+  const guard = await guardGateDrift('/accepted-plan', gate.entry, options.onDrift);
+  if (guard.status === 'drift' || guard.status === 'discarded') {
+    return gateDriftStartResult(guard);
   }
 
   const gateProfile = resolveGateProfile(state);
@@ -159,17 +172,17 @@ export async function acceptedPlan(): Promise<TierStartResultWithControlPlane> {
     );
   }
 
-  const identifier = identifierFromPending(state);
+  const planningId = identifierFromPending(state);
   const planningTier = state.tier;
-  const planningDocPath = context.documents.getPlanningDocRelativePath(planningTier, identifier);
+  const planningDocPath = context.documents.getPlanningDocRelativePath(planningTier, planningId);
 
-  if (!(await context.documents.planningDocExists(planningTier, identifier))) {
+  if (!(await context.documents.planningDocExists(planningTier, planningId))) {
     return blocked(PLANNING_DOC_INCOMPLETE_MESSAGE(planningDocPath), 'planning_doc_incomplete');
   }
 
   let content: string;
   try {
-    content = await context.documents.readPlanningDoc(planningTier, identifier);
+    content = await context.documents.readPlanningDoc(planningTier, planningId);
   } catch {
     return blocked(PLANNING_DOC_INCOMPLETE_MESSAGE(planningDocPath), 'planning_doc_incomplete');
   }
@@ -187,14 +200,12 @@ export async function acceptedPlan(): Promise<TierStartResultWithControlPlane> {
 
   const rc = String(result.outcome?.reasonCode ?? '');
   if (rc === 'start_ok') {
-    await deleteTierStartPending();
+    await advanceGate('/accepted-plan', gate.entry.id, 'build', result.traceId);
   }
 
   let finalOutput = result.output;
-  if (result.controlPlaneDecision.stop && result.controlPlaneDecision.questionKey) {
-    const choiceBlock = formatChoiceForChat(result.controlPlaneDecision);
-    if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
-  }
+  const choiceBlock = await presentChoices(result.controlPlaneDecision);
+  if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
 
   return {
     ...result,
@@ -1,18 +1,24 @@
 /**
  * /accepted-push: user confirms push after tier-end returned `pending_push` / pending_push_confirmation.
- * Reads `.tier-end-pending.json`, runs push via git-manager, clears pending on success.
+ * Requires the gate ledger's open gate to be `pending_push`; runs push via git-manager and closes the gate as
+ * `pushed` on success.
  */
 
 import { gitPush, verifyHarnessPushBranchCoherence } from '../../git/shared/git-manager';
 import {
-  readEndPending,
-  deleteEndPending,
+  requireGate,
+  advanceGate,
+  guardGateDrift,
+  type GateDriftAction,
   resolveWorkflowContextForEndPending,
   type EndPendingState,
 } from './pending-state';
+import { gateCheckReasonCode } from './gate-ledger';
 import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-context';
 import type { ControlPlaneDecision } from './control-plane-types';
 import { routeByOutcome } from './control-plane-route';
+import { retryViaCommand } from './control-plane-choice-display';
+import { presentChoices } from './choose';
 import type { CommandResultForRouting } from './control-plane-types';
 
 export interface AcceptedPushResult {
@@ -30,22 +36,26 @@ export interface AcceptedPushResult {
 const NO_PENDING_MESSAGE =
   'No pending push. Run a tier-end that completes with push pending first, then run **/accepted-push** when you are ready to push.';
 
-function wrap(
+async function wrap(
   result: CommandResultForRouting,
   pending: EndPendingState | null
-): AcceptedPushResult {
+): Promise<AcceptedPushResult> {
   const o = result.outcome ?? {
     reasonCode: 'unhandled_error',
     nextAction: result.output,
   };
-  const decision = routeByOutcome(result, {
-    tier: pending?.tier ?? 'task',
-    action: 'end',
-    originalParams: pending != null ? { identifier: pending.identifier } : {},
-  });
+  const decision = retryViaCommand(
+    routeByOutcome(result, {
+      tier: pending?.tier ?? 'task',
+      action: 'end',
+      originalParams: pending != null ? { identifier: pending.identifier } : {},
+    }),
+    pending != null ? `/accepted-push ${pending.identifier}` : '/accepted-push'
+  );
+  const choiceBlock = await presentChoices(decision);
   return {
     success: result.success,
-    output: result.output,
+    output: choiceBlock ? `${result.output}\n\n---\n\n${choiceBlock}` : result.output,
     outcome: {
       status: result.success ? 'completed' : 'failed',
       reasonCode: String(o.reasonCode),
@@ -59,22 +69,43 @@ function wrap(
 /**
  * Push current branch to origin for pending tier-end. User runs in Cursor.
  */
-export async function acceptedPush(): Promise<AcceptedPushResult> {
-  const pending = await readEndPending();
-  if (!pending) {
+export async function acceptedPush(
+  identifier?: string,
+  options: { onDrift?: GateDriftAction } = {}
+): Promise<AcceptedPushResult> {
+  const gate = await requireGate('/accepted-push', identifier);
+  const pending = gate.ok ? gate.entry.end : undefined;
+  if (!gate.ok || !pending) {
+    const message = gate.ok
+      ? NO_PENDING_MESSAGE
+      : gate.reason === 'none'
+        ? `${NO_PENDING_MESSAGE}\n\n${gate.message}`
+        : gate.message;
     return wrap(
       {
         success: false,
-        output: NO_PENDING_MESSAGE,
+        output: message,
         outcome: {
-          reasonCode: 'no_pending_push',
-          nextAction: NO_PENDING_MESSAGE,
+          reasonCode: gate.ok ? 'no_pending_push' : gateCheckReasonCode(gate, 'no_pending_push'),
+          nextAction: message,
         },
       },
       null
     );
   }
 
+  const guard = await guardGateDrift('/accepted-push', gate.entry, options.onDrift);
+  if (guard.status === 'drift' || guard.status === 'discarded') {
+    return wrap(
+      {
+        success: guard.status === 'discarded',
+        output: guard.message,
+        outcome: { reasonCode: guard.reasonCode, nextAction: guard.message, gateInvocation: guard.invocation },
+      },
+      pending
+    );
+  }
+
   let wfCtx = await resolveWorkflowContextForEndPending(pending);
   if (!wfCtx && pending.tier === 'feature') {
     try {
@@ -119,7 +150,7 @@ export async function acceptedPush(): Promise<AcceptedPushResult> {
     );
   }
 
-  await deleteEndPending();
+  await advanceGate('/accepted-push', gate.entry.id, 'pushed');
 
   const cascade = pending.cascade;
   const nextAction =
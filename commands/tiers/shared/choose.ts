@@ -0,0 +1,135 @@
+/**
+ * /choose: act on one of the choices of the last stopping control-plane decision. Tier commands record their
+ * decision's choices (`.cursor/commands/.control-plane-choices.json`) when they present them; `/choose <id>` runs the
+ * choice's nextInvoke through executeReinvoke, or names the slash command to run. Destructive choices need `confirm`.
+ */
+
+import { readProjectFile, writeProjectFile } from '../../utils/utils';
+import type { ControlPlaneChoice, ControlPlaneDecision, StartReinvokeParams } from './control-plane-types';
+import { formatChoiceForChat } from './control-plane-choice-display';
+import { executeReinvoke, type ReinvokeIntent } from './control-plane-reinvoke';
+import type { TierEndParams } from './tier-end';
+import type { TierReopenParams } from './tier-reopen';
+
+const CHOICES_PATH = '.cursor/commands/.control-plane-choices.json';
+
+interface RecordedChoices {
+  recordedAt: string;
+  message: string;
+  choices: ControlPlaneChoice[];
+}
+
+export interface ChooseResult {
+  success: boolean;
+  output: string;
+  /** The selected choice, when one matched. */
+  choice?: ControlPlaneChoice;
+  /** Decision of the re-invoked command (nextInvoke choices only). */
+  controlPlaneDecision?: ControlPlaneDecision;
+}
+
+async function readRecordedChoices(): Promise<RecordedChoices | null> {
+  try {
+    const parsed = JSON.parse(await readProjectFile(CHOICES_PATH)) as Partial<RecordedChoices>;
+    return Array.isArray(parsed.choices) ? (parsed as RecordedChoices) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function clearRecordedChoices(): Promise<void> {
+  const { unlink } = await import('fs/promises');
+  const { join } = await import('path');
+  const { PROJECT_ROOT } = await import('../../utils/utils');
+  try {
+    await unlink(join(PROJECT_ROOT, CHOICES_PATH));
+  } catch {
+    // ignore if already missing
+  }
+}
+
+/**
+ * Record the decision's choices for /choose (or clear stale ones when it does not stop with choices) and return the
+ * chat block to append to the command output ('' when there is no question to present).
+ */
+export async function presentChoices(decision: ControlPlaneDecision): Promise<string> {
+  if (decision.stop && decision.choices?.length) {
+    const recorded: RecordedChoices = {
+      recordedAt: new Date().toISOString(),
+      message: decision.message,
+      choices: decision.choices,
+    };
+    await writeProjectFile(CHOICES_PATH, JSON.stringify(recorded, null, 2));
+  } else {
+    await clearRecordedChoices();
+  }
+  return decision.stop && decision.questionKey ? formatChoiceForChat(decision) : '';
+}
+
+/** Recorded nextInvoke (JSON from CHOICES_PATH) → typed intent; params were built by the control plane for that action. */
+function toReinvokeIntent(choice: ControlPlaneChoice): ReinvokeIntent | null {
+  const invoke = choice.nextInvoke;
+  if (!invoke) return null;
+  const params = invoke.params ?? {};
+  if (typeof params !== 'object') return null;
+  switch (invoke.action) {
+    case 'start':
+      return { tier: invoke.tier, action: 'start', params: params as StartReinvokeParams };
+    case 'end':
+      return { tier: invoke.tier, action: 'end', params: params as TierEndParams };
+    case 'reopen':
+      return { tier: invoke.tier, action: 'reopen', params: params as TierReopenParams };
+    default:
+      return null;
+  }
+}
+
+function listChoices(choices: readonly ControlPlaneChoice[]): string {
+  return choices.map((c, i) => `${i + 1}. \`${c.id}\` — ${c.label}`).join('\n');
+}
+
+/**
+ * Select choice `id` (or its 1-based number) from the last recorded decision. User runs in Cursor.
+ */
+export async function choose(id: string, options: { confirm?: boolean } = {}): Promise<ChooseResult> {
+  const recorded = await readRecordedChoices();
+  if (!recorded || recorded.choices.length === 0) {
+    return { success: false, output: 'No pending choices. `/choose` acts on the last tier command that stopped with options.' };
+  }
+  const key = id.trim();
+  const index = /^\d+$/.test(key) ? Number(key) - 1 : -1;
+  const choice = recorded.choices.find((c) => c.id === key) ?? recorded.choices[index];
+  if (!choice) {
+    return {
+      success: false,
+      output: `No choice \`${key}\`. Pending choices (recorded ${recorded.recordedAt}):\n\n${listChoices(recorded.choices)}`,
+    };
+  }
+  if (choice.destructive === true && options.confirm !== true) {
+    return {
+      success: false,
+      output: `**${choice.label}** is destructive. Re-run \`/choose ${choice.id} --confirm\` to proceed.`,
+      choice,
+    };
+  }
+
+  const intent = toReinvokeIntent(choice);
+  if (intent) {
+    await clearRecordedChoices();
+    const result = await executeReinvoke(intent);
+    return {
+      success: result.success,
+      output: `**Chose:** ${choice.label}\n\n${result.output}`,
+      choice,
+      controlPlaneDecision: result.controlPlaneDecision,
+    };
+  }
+  if (choice.slashCommand) {
+    return { success: true, output: `**Chose:** ${choice.label}\n\nRun \`${choice.slashCommand}\`.`, choice };
+  }
+  return {
+    success: true,
+    output: `**Chose:** ${choice.label}\n\nThis choice has no command; continue in chat.`,
+    choice,
+  };
+}
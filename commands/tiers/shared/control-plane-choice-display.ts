@@ -1,41 +1,82 @@
 /**
- * Format control-plane message and options for display in chat.
+ * Format control-plane message and options for display in chat, and bind options to typed choices.
  * When a tier result requires a user choice, the command output includes this block;
- * the agent presents it in chat and the user runs the appropriate command or replies.
+ * the agent presents it in chat and the user runs `/choose <id>` (or the choice's slash command) or replies.
  * No external "AskQuestion" tool — choices are shown as markdown in the command output.
  */
 
-import type { ControlPlaneDecision } from './control-plane-types';
+import type {
+  ControlPlaneChoice,
+  ControlPlaneContext,
+  ControlPlaneDecision,
+  ControlPlaneOutcome,
+  QuestionKey,
+} from './control-plane-types';
 import { QUESTION_KEYS } from './control-plane-types';
 
+/** What an option binds against: the handler's decision plus, when routed, the routing context and outcome. */
+export interface ChoiceBinding {
+  decision: ControlPlaneDecision;
+  ctx?: ControlPlaneContext;
+  outcome?: ControlPlaneOutcome;
+}
+
 interface ChoiceOption {
   id: string;
   label: string;
+  destructive?: boolean;
+  bind?: (b: ChoiceBinding) => Pick<ControlPlaneChoice, 'nextInvoke' | 'slashCommand'>;
 }
 
-const QUESTION_KEY_OPTIONS: Record<string, ChoiceOption[]> = {
+/** Re-run the routed command with its original params (or the handler's resume invoke when it built one). */
+function rerun({ decision, ctx }: ChoiceBinding): Pick<ControlPlaneChoice, 'nextInvoke'> {
+  if (decision.nextInvoke) return { nextInvoke: decision.nextInvoke };
+  return ctx ? { nextInvoke: { tier: ctx.tier, action: ctx.action, params: ctx.originalParams } } : {};
+}
+
+function continuePastVerification({ ctx }: ChoiceBinding): Pick<ControlPlaneChoice, 'nextInvoke'> {
+  const base = ctx?.originalParams;
+  if (ctx?.action !== 'end' || base == null || typeof base !== 'object' || Array.isArray(base)) return {};
+  // continuePastVerification is a top-level tier-end param (not an execution option).
+  return { nextInvoke: { tier: ctx.tier, action: 'end', params: { ...base, continuePastVerification: true } } };
+}
+
+function gateDriftCommand(flag: '--refresh' | '--discard') {
+  return ({ outcome }: ChoiceBinding): Pick<ControlPlaneChoice, 'slashCommand'> =>
+    outcome?.gateInvocation ? { slashCommand: `${outcome.gateInvocation} ${flag}` } : {};
+}
+
+const QUESTION_KEY_OPTIONS: Partial<Record<QuestionKey, ChoiceOption[]>> = {
   [QUESTION_KEYS.CASCADE]: [
-    { id: 'yes_cascade', label: 'Yes — run cascade command' },
+    {
+      id: 'yes_cascade',
+      label: 'Yes — run cascade command',
+      bind: ({ decision }) => (decision.cascadeCommand ? { slashCommand: decision.cascadeCommand } : {}),
+    },
     { id: 'no_stop', label: 'No — stop here' },
   ],
   [QUESTION_KEYS.VERIFICATION_OPTIONS]: [
     { id: 'add_followup', label: 'Add follow-up task/session/phase' },
-    { id: 'manual_continue', label: "I'll do it manually; continue tier-end" },
-    { id: 'skip_continue', label: 'Skip; continue tier-end' },
+    { id: 'manual_continue', label: "I'll do it manually; continue tier-end", bind: continuePastVerification },
+    { id: 'skip_continue', label: 'Skip; continue tier-end', bind: continuePastVerification },
   ],
   [QUESTION_KEYS.GAP_ANALYSIS_OPTIONS]: [
     { id: 'register_tiers', label: 'Register follow-up tiers (tier-add) then re-run tier-end' },
-    { id: 'continue_past', label: 'Continue past gap analysis (use nextInvoke or continuePastGapAnalysis)' },
+    {
+      id: 'continue_past',
+      label: 'Continue past gap analysis (use nextInvoke or continuePastGapAnalysis)',
+      bind: ({ decision }) => (decision.nextInvoke ? { nextInvoke: decision.nextInvoke } : {}),
+    },
     { id: 'review_only', label: 'Review report only; decide later' },
   ],
   [QUESTION_KEYS.FAILURE_OPTIONS]: [
-    { id: 'retry', label: 'Retry the command' },
-    { id: 'audit_fix', label: 'Fix audit with governance context (/audit-fix)' },
+    { id: 'retry', label: 'Retry the command', bind: rerun },
+    { id: 'audit_fix', label: 'Fix audit with governance context (/audit-fix)', bind: () => ({ slashCommand: '/audit-fix' }) },
     { id: 'skip', label: 'Skip and continue manually' },
   ],
   [QUESTION_KEYS.AUDIT_FAILED_OPTIONS]: [
-    { id: 'retry', label: 'Retry the command' },
-    { id: 'audit_fix', label: 'Fix audit with governance context (/audit-fix)' },
+    { id: 'retry', label: 'Retry the command', bind: rerun },
+    { id: 'audit_fix', label: 'Fix audit with governance context (/audit-fix)', bind: () => ({ slashCommand: '/audit-fix' }) },
     { id: 'skip', label: 'Skip and continue manually' },
   ],
   [QUESTION_KEYS.REOPEN_OPTIONS]: [
@@ -44,8 +85,25 @@ const QUESTION_KEY_OPTIONS: Record<string, ChoiceOption[]> = {
     { id: 'quick_fix', label: 'No — just a quick fix' },
   ],
   [QUESTION_KEYS.UNCOMMITTED_CHANGES]: [
-    { id: 'commit', label: 'Commit changes' },
-    { id: 'stash', label: 'Skip (stash and continue)' },
+    { id: 'commit', label: 'Commit changes', bind: rerun },
+    { id: 'stash', label: 'Skip (stash and continue)', bind: rerun },
+  ],
+  [QUESTION_KEYS.STEP_TIMEOUT_OPTIONS]: [
+    { id: 'retry', label: 'Retry — resume the run at the timed-out step' },
+    { id: 'skip', label: 'Skip the timed-out step and continue' },
+  ],
+  [QUESTION_KEYS.GATE_DRIFT_OPTIONS]: [
+    {
+      id: 'refresh',
+      label: 'Refresh — accept the current branch / HEAD / guide and continue',
+      bind: gateDriftCommand('--refresh'),
+    },
+    {
+      id: 'discard',
+      label: 'Discard the gate and re-run the tier command later',
+      destructive: true,
+      bind: gateDriftCommand('--discard'),
+    },
   ],
 };
 
@@ -55,8 +113,8 @@ const QUESTION_KEY_OPTIONS: Record<string, ChoiceOption[]> = {
  */
 export function formatChoiceForChat(decision: ControlPlaneDecision): string {
   if (!decision.questionKey) return '';
-  const options = QUESTION_KEY_OPTIONS[decision.questionKey];
-  if (!options) return '';
+  const options = decision.choices ?? QUESTION_KEY_OPTIONS[decision.questionKey];
+  if (!options?.length) return '';
   // WHY: For audit_failed the command output already includes the full report (deliverables);
   // repeating decision.message here duplicates a large block in chat. See tier-end finalOutput + routeByOutcome.
   const prompt =
@@ -65,7 +123,7 @@ export function formatChoiceForChat(decision: ControlPlaneDecision): string {
       : decision.message?.trim()
         ? decision.message
         : 'How would you like to proceed?';
-  const optionLines = options.map((o, i) => `${i + 1}. **${o.label}**`).join('\n');
+  const optionLines = options.map((o, i) => `${i + 1}. **${o.label}** — \`/choose ${o.id}\``).join('\n');
   const cascadeNote =
     decision.questionKey === QUESTION_KEYS.CASCADE && decision.cascadeCommand
       ? `\n\n**If you choose "Yes":** run \`${decision.cascadeCommand}\``
@@ -79,6 +137,42 @@ export function formatChoiceForChat(decision: ControlPlaneDecision): string {
     optionLines,
     cascadeNote,
     '',
-    'Present this in chat and direct the user to run the corresponding command or reply with their choice.',
+    'Present this in chat and direct the user to run `/choose <id>` (or the corresponding command) or reply with their choice.',
   ].join('\n');
 }
+
+/** Options for `questionKey` bound to commands; unbound options (e.g. plan-from-scratch) carry only id and label. */
+export function choicesForQuestion(questionKey: QuestionKey, binding: ChoiceBinding): ControlPlaneChoice[] {
+  return (QUESTION_KEY_OPTIONS[questionKey] ?? []).map((o) => ({
+    id: o.id,
+    label: o.label,
+    ...o.bind?.(binding),
+    ...(o.destructive === true && { destructive: true }),
+  }));
+}
+
+/**
+ * Attach `choices` to a stopping decision: the questionKey's options when it asks one, else `gated` (the command that
+ * clears a command-gated stop), else a single retry of the routed command. Non-stopping decisions are unchanged.
+ */
+export function withChoices(
+  decision: ControlPlaneDecision,
+  binding: Omit<ChoiceBinding, 'decision'>,
+  gated?: ControlPlaneChoice[]
+): ControlPlaneDecision {
+  if (!decision.stop) return decision;
+  const full: ChoiceBinding = { ...binding, decision };
+  const choices = decision.questionKey
+    ? choicesForQuestion(decision.questionKey, full)
+    : (gated ?? [{ id: 'retry', label: 'Re-run the command', ...rerun(full) }]);
+  return choices.length > 0 ? { ...decision, choices } : decision;
+}
+
+/** Point the `retry` choice at a slash command, for commands whose re-run is not a tier re-invoke (e.g. /accepted-push). */
+export function retryViaCommand(decision: ControlPlaneDecision, slashCommand: string): ControlPlaneDecision {
+  if (!decision.choices) return decision;
+  return {
+    ...decision,
+    choices: decision.choices.map((c) => (c.id === 'retry' ? { id: c.id, label: c.label, slashCommand } : c)),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Routing regression fixtures generated from repaired workflow friction.
+ * `/harness-repair` execute (with `emitRegressionFixtures`) turns each addressed entry into a minimal
+ * CommandResultForRouting + ControlPlaneContext and records the decision routeByOutcome returns after the repair.
+ * One JSON file per friction cluster under `__tests__/fixtures/friction-regressions/`; the routing tests replay
+ * every file, so a repaired cluster keeps a permanent test.
+ */
+
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname, join, resolve as resolvePath } from 'node:path';
+import {
+  buildFrictionClusterKey,
+  extractWorkflowFrictionBullet,
+  type ParsedWorkflowFrictionEntry,
+} from '../../utils/read-workflow-friction';
+import { parseReasonCode } from '../../harness/reason-code';
+import { routeByOutcome } from './control-plane-route';
+import type { TierName } from './types';
+import type {
+  CommandResultForRouting,
+  ControlPlaneContext,
+  ControlPlaneDecision,
+  TierAction,
+} from './control-plane-types';
+
+const fixturesThisFile = fileURLToPath(import.meta.url);
+
+/** Absolute directory holding one `<reasonCode>-<hash>.json` fixture per repaired friction cluster. */
+export const FRICTION_REGRESSION_FIXTURES_DIR = resolvePath(
+  dirname(fixturesThisFile),
+  '__tests__',
+  'fixtures',
+  'friction-regressions'
+);
+
+/** Decision fields a fixture pins; message text is left free so wording changes do not break the test. */
+export interface ExpectedRoutingDecision {
+  stop: ControlPlaneDecision['stop'];
+  requiredMode: ControlPlaneDecision['requiredMode'];
+  questionKey?: ControlPlaneDecision['questionKey'];
+  /** Choice ids in order (omitted when the decision has none). */
+  choiceIds?: string[];
+}
+
+export interface FrictionRegressionFixture {
+  /** `buildFrictionClusterKey` of the source entry; one fixture per cluster. */
+  clusterKey: string;
+  source: {
+    heading: string;
+    addressedAt: string;
+    stepPath?: string[];
+    context?: string;
+  };
+  ctx: ControlPlaneContext;
+  result: CommandResultForRouting;
+  expected: ExpectedRoutingDecision;
+}
+
+const TIERS: readonly TierName[] = ['feature', 'phase', 'session', 'task'];
+const ACTIONS: readonly TierAction[] = ['start', 'end', 'reopen'];
+
+const ID_PARAM: Record<TierName, string> = {
+  feature: 'featureId',
+  phase: 'phaseId',
+  session: 'sessionId',
+  task: 'taskId',
+};
+
+/** Bullet value, with the formatter's `—` placeholder treated as absent. */
+function bullet(body: string, label: string): string | undefined {
+  const v = extractWorkflowFrictionBullet(body, label);
+  return v && v !== '—' ? v : undefined;
+}
+
+export function toExpectedRoutingDecision(decision: ControlPlaneDecision): ExpectedRoutingDecision {
+  return {
+    stop: decision.stop,
+    requiredMode: decision.requiredMode,
+    ...(decision.questionKey && { questionKey: decision.questionKey }),
+    ...(decision.choices && { choiceIds: decision.choices.map((c) => c.id) }),
+  };
+}
+
+/**
+ * Fixture for one friction entry, or a reason string when the entry lacks what routing needs
+ * (a tier, a start/end/reopen action, or a reason code).
+ */
+export function buildFrictionRegressionFixture(
+  entry: ParsedWorkflowFrictionEntry,
+  addressedAt: string
+): FrictionRegressionFixture | string {
+  const tier = bullet(entry.body, 'tier') as TierName | undefined;
+  const action = bullet(entry.body, 'action') as TierAction | undefined;
+  const reasonCode = entry.reasonCodeRaw?.trim() || entry.reasonCodeNormalized?.trim();
+  if (!tier || !TIERS.includes(tier)) return 'no tier recorded';
+  if (!action || !ACTIONS.includes(action)) return `action \`${action ?? '—'}\` is not routed by the control plane`;
+  if (!reasonCode) return 'no reason code recorded';
+
+  const identifier = bullet(entry.body, 'identifier');
+  const featureName = bullet(entry.body, 'featureName');
+  const stepPath = bullet(entry.body, 'stepPath')?.split(',').map((s) => s.trim()).filter(Boolean);
+  const context = bullet(entry.body, 'Context');
+  const lastStep = stepPath?.[stepPath.length - 1];
+  const ctx: ControlPlaneContext = {
+    tier,
+    action,
+    originalParams: {
+      ...(identifier && { [ID_PARAM[tier]]: identifier }),
+      ...(featureName && { featureName }),
+    },
+  };
+  // Friction is only auto-logged for failed results, so the fixture replays a failure.
+  const result: CommandResultForRouting = {
+    success: false,
+    output: '',
+    outcome: {
+      reasonCode,
+      nextAction: bullet(entry.body, 'Symptom') ?? entry.heading,
+      ...(parseReasonCode(reasonCode) === 'step_timeout' &&
+        lastStep && { stepTimeout: { step: lastStep, timeoutMs: 0 } }),
+    },
+  };
+  return {
+    clusterKey: buildFrictionClusterKey(entry),
+    source: {
+      heading: entry.heading,
+      addressedAt,
+      ...(stepPath?.length && { stepPath }),
+      ...(context && { context }),
+    },
+    ctx,
+    result,
+    expected: toExpectedRoutingDecision(routeByOutcome(result, ctx)),
+  };
+}
+
+/** Stable file name per cluster: a later repair of the same cluster overwrites its fixture. */
+export function frictionRegressionFixtureFileName(fixture: FrictionRegressionFixture): string {
+  const hash = createHash('sha1').update(fixture.clusterKey).digest('hex').slice(0, 10);
+  const code = parseReasonCode(fixture.result.outcome?.reasonCode ?? 'unknown');
+  return `${code}-${hash}.json`;
+}
+
+/**
+ * Build and write fixtures for the addressed entries. Returns written file names and one line per skipped entry.
+ */
+export async function writeFrictionRegressionFixtures(
+  entries: ParsedWorkflowFrictionEntry[],
+  addressedAt: string,
+  dir: string = FRICTION_REGRESSION_FIXTURES_DIR
+): Promise<{ written: string[]; skipped: string[] }> {
+  const written: string[] = [];
+  const skipped: string[] = [];
+  for (const entry of entries) {
+    const fixture = buildFrictionRegressionFixture(entry, addressedAt);
+    if (typeof fixture === 'string') {
+      skipped.push(`"${entry.heading}": ${fixture}`);
+      continue;
+    }
+    const name = frictionRegressionFixtureFileName(fixture);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, name), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+    if (!written.includes(name)) written.push(name);
+  }
+  return { written, skipped };
+}
+
+/** Every committed fixture, sorted by file name (sync: loaded at test collection time). */
+export function readFrictionRegressionFixtures(
+  dir: string = FRICTION_REGRESSION_FIXTURES_DIR
+): { file: string; fixture: FrictionRegressionFixture }[] {
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((f) => f.endsWith('.json')).sort();
+  } catch {
+    return [];
+  }
+  return files.map((file) => ({
+    file,
+    fixture: JSON.parse(readFileSync(join(dir, file), 'utf8')) as FrictionRegressionFixture,
+  }));
+}
@@ -13,6 +13,15 @@ import { buildStartReinvokeParams, buildEndReinvokeParams } from './control-plan
 import { getWorkProfileMessageSuffix } from './control-plane-work-profile-prompt';
 
 function baseCascadeDecision(outcome: ControlPlaneOutcome, _requiredMode: 'plan' | 'agent'): ControlPlaneDecision {
+  if (outcome.cascade?.autoConfirm === true) {
+    // policies.cascade=auto: no confirmation; the agent runs the cascade command next.
+    return {
+      stop: false,
+      requiredMode: 'agent',
+      message: `${outcome.nextAction}\n\nCascade (auto): run \`${outcome.cascade.command}\`.`,
+      cascadeCommand: outcome.cascade.command,
+    };
+  }
   if (outcome.cascade != null) {
     return {
       stop: true,
@@ -315,3 +324,52 @@ export function handleExpectedBranchMissingRunTierStart(outcome: ControlPlaneOut
       'Expected tier branch missing locally. Run the matching tier-start (see harness message), then re-run tier-end.',
   };
 }
+
+const RESUME_FROM_TRACE_CLI = 'npx tsx .cursor/commands/harness/resume-from-trace.ts';
+
+/**
+ * step_timeout: a kernel step exceeded its timeout and the workflow was cancelled. Offer retry (resume the trace at
+ * that step) or skip (resume after it); both go through resumeFromTrace so completed steps are not re-run.
+ */
+export function handleStepTimeout(outcome: ControlPlaneOutcome, outputFallback: string): ControlPlaneDecision {
+  const base = outcome.nextAction || outputFallback;
+  const traceId = outcome.stepTimeout?.traceId;
+  if (!traceId) {
+    return handleFailure(outcome, outputFallback);
+  }
+  const step = outcome.stepTimeout?.step ?? 'the step';
+  return {
+    stop: true,
+    requiredMode: 'plan',
+    message: [
+      base,
+      '',
+      `- **Retry** \`${step}\`: \`${RESUME_FROM_TRACE_CLI} ${traceId}\``,
+      `- **Skip** \`${step}\` and continue: \`${RESUME_FROM_TRACE_CLI} ${traceId} --skip-step\``,
+    ].join('\n'),
+    questionKey: QUESTION_KEYS.STEP_TIMEOUT_OPTIONS,
+  };
+}
+
+/**
+ * worktree_redirect (HARNESS_TIER_WORKTREES): the tier branch lives in another worktree. Nothing was checked out or
+ * stashed here; the user opens that worktree and re-runs the same command from it.
+ */
+export function handleWorktreeRedirect(outcome: ControlPlaneOutcome, ctx: ControlPlaneContext): ControlPlaneDecision {
+  return {
+    stop: true,
+    requiredMode: 'plan',
+    message: outcome.deliverables ?? outcome.nextAction,
+    nextInvoke: { tier: ctx.tier, action: ctx.action, params: ctx.originalParams },
+  };
+}
+
+/** pending_gate_drift: the accepted command's message lists the drift and the refresh / discard invocations. */
+export function handlePendingGateDrift(outcome: ControlPlaneOutcome, outputFallback: string): ControlPlaneDecision {
+  return {
+    stop: true,
+    requiredMode: 'plan',
+    message: outcome.nextAction || outputFallback,
+    questionKey: QUESTION_KEYS.GATE_DRIFT_OPTIONS,
+  };
+}
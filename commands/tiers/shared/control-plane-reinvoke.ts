@@ -1,12 +1,15 @@
 /**
- * Control-plane re-invoke: canonical helpers for building re-invoke params and (future) WorkflowSpec.
+ * Control-plane re-invoke: canonical helpers for building re-invoke params and (future) WorkflowSpec, and
+ * executeReinvoke for running one (used by /choose).
  * Keeps option nesting in one place so flat option keys are never added at the dispatcher boundary.
  */
 
 import type { CommandExecutionOptions } from '../../utils/command-execution-mode';
-import type { StartReinvokeParams } from './control-plane-types';
+import type { ControlPlaneDecision, StartReinvokeParams } from './control-plane-types';
 import type { TierName } from './types';
-import type { TierAction } from './control-plane-types';
+import type { TierStartParams } from './tier-start';
+import type { TierEndParams } from './tier-end';
+import type { TierReopenParams } from './tier-reopen';
 
 const START_TIERS: TierName[] = ['feature', 'phase', 'session', 'task'];
 
@@ -24,11 +27,11 @@ export function buildStartReinvokeParams(
 /**
  * Build tier-end re-invoke params: merge execution toggles into `params.options` without dropping existing keys.
  */
-export function buildEndReinvokeParams(
-  baseParams: Record<string, unknown>,
+export function buildEndReinvokeParams<P extends object>(
+  baseParams: P,
   options: CommandExecutionOptions
-): Record<string, unknown> {
-  const existing = baseParams.options as CommandExecutionOptions | undefined;
+): P & { options: CommandExecutionOptions } {
+  const existing = ('options' in baseParams ? baseParams.options : undefined) as CommandExecutionOptions | undefined;
   const mergedOptions: CommandExecutionOptions =
     existing != null && typeof existing === 'object' ? { ...existing, ...options } : { ...options };
   return { ...baseParams, options: mergedOptions };
@@ -52,8 +55,39 @@ export function reinvokeStartExecute(
  * Shape used when re-invoking after user confirmation.
  * For harness cutover, nextInvoke will be a full WorkflowSpec (see harness ControlPlaneDecision).
  */
-export interface ReinvokeIntent {
-  tier: TierName;
-  action: TierAction;
-  params: unknown; // StartReinvokeParams when action === 'start'
+export type ReinvokeIntent =
+  | { tier: TierName; action: 'start'; params: StartReinvokeParams }
+  | { tier: TierName; action: 'end'; params: TierEndParams }
+  | { tier: TierName; action: 'reopen'; params: TierReopenParams };
+
+/** Result of executing a re-invoke: the tier command's own result shape, reduced to what callers route on. */
+export interface ReinvokeResult {
+  success: boolean;
+  output: string;
+  controlPlaneDecision: ControlPlaneDecision;
+}
+
+/**
+ * Run a control-plane re-invoke (a decision's or choice's nextInvoke) through the tier runners. Start params carry
+ * execution toggles in `params.options` (see buildStartReinvokeParams), which runTierStart takes separately.
+ * Runners are imported lazily: they route through control-plane handlers, which import this module.
+ */
+export async function executeReinvoke(intent: ReinvokeIntent): Promise<ReinvokeResult> {
+  const { getConfigForTier } = await import('../configs');
+  const config = getConfigForTier(intent.tier);
+  switch (intent.action) {
+    case 'start': {
+      const { runTierStart } = await import('./tier-start');
+      const { options, ...baseParams } = intent.params;
+      return runTierStart(config, baseParams as TierStartParams, options);
+    }
+    case 'end': {
+      const { runTierEnd } = await import('./tier-end');
+      return runTierEnd(config, intent.params);
+    }
+    case 'reopen': {
+      const { runTierReopen } = await import('./tier-reopen');
+      return runTierReopen(config, intent.params);
+    }
+  }
 }
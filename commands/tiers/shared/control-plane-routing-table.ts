@@ -0,0 +1,346 @@
+/**
+ * Declarative control-plane routing: one entry per charter ReasonCode (compile-time exhaustive over the union), each
+ * with a route for `success: true` and `success: false` — handler, question key, required mode and resumable step.
+ * routeByOutcome looks the route up here; renderRoutingPlaybook turns the table into tiers/CONTROL_PLANE_ROUTING.md.
+ *
+ * Regenerate the playbook after editing: `npx tsx .cursor/commands/tiers/shared/control-plane-routing-table.ts`
+ * (`--check` exits 1 when the committed file is stale).
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve as resolvePath } from 'path';
+import { fileURLToPath } from 'url';
+import type { QuestionKey, ReasonCode } from '../../harness/contracts';
+import { isFailureReasonCode } from '../../harness/reason-code';
+import type {
+  ControlPlaneChoice,
+  ControlPlaneContext,
+  ControlPlaneDecision,
+  ControlPlaneOutcome,
+} from './control-plane-types';
+import { QUESTION_KEYS } from './control-plane-types';
+import {
+  handleContextGathering,
+  handleGuideFillPending,
+  handleGuideIncomplete,
+  handlePlanningDocIncomplete,
+  handlePendingPushConfirmation,
+  handleVerificationWorkSuggested,
+  handleGapAnalysisPending,
+  handleTaskComplete,
+  handleFailure,
+  handleAuditFailed,
+  handleSuccessWithOptionalCascade,
+  handleReopenOk,
+  handleUncommittedChanges,
+  handleWrongBranchBeforeCommit,
+  handleExpectedBranchMissingRunTierStart,
+  handleAuditFixCommitFailedEnd,
+  handleGitFailedTierEnd,
+  handleValidationFailed,
+  handleStepTimeout,
+  handlePendingGateDrift,
+  handleWorktreeRedirect,
+} from './control-plane-handlers';
+
+export type RouteHandler = (
+  outcome: ControlPlaneOutcome,
+  ctx: ControlPlaneContext,
+  outputFallback: string
+) => ControlPlaneDecision;
+
+export interface ControlPlaneRoute {
+  handle: RouteHandler;
+  /** Mode on the route's primary path (cascade routes switch to plan when a cascade needs confirmation). */
+  requiredMode: 'plan' | 'agent';
+  /** Choice set presented in chat; omitted when the stop is command-gated or message-only. */
+  questionKey?: QuestionKey;
+  /** Step the handler's `nextInvoke` resumes after, and for which action. */
+  resumeAfter?: { action: 'start' | 'end'; step: string };
+  /** Choices for a command-gated stop (no questionKey): the command(s) that clear the gate. */
+  gatedChoices?: (ctx: ControlPlaneContext) => ControlPlaneChoice[];
+  /** One line for the generated playbook. */
+  summary: string;
+}
+
+export interface ReasonCodeRoutes {
+  success: ControlPlaneRoute;
+  failure: ControlPlaneRoute;
+}
+
+/** Generic hard stop: every reasonCode × success pair without a dedicated route. */
+const FAILURE_ROUTE: ControlPlaneRoute = {
+  handle: (outcome, _ctx, output) => handleFailure(outcome, output),
+  requiredMode: 'plan',
+  questionKey: QUESTION_KEYS.FAILURE_OPTIONS,
+  summary: 'Hard stop; retry / audit-fix / skip choices. No cascade.',
+};
+
+const CASCADE_ROUTE: ControlPlaneRoute = {
+  handle: (outcome) => handleSuccessWithOptionalCascade(outcome),
+  requiredMode: 'agent',
+  summary: 'Continue; with a cascade, ask `cascade_confirmation` (or run it directly when `policies.cascade` is `auto`).',
+};
+
+/** Audit outcomes default to the audit_fix work profile for message refinement. */
+const AUDIT_FIX_PROFILE: NonNullable<ControlPlaneContext['workProfile']> = {
+  executionIntent: 'audit_fix',
+  actionType: 'governance_remediation',
+  scopeShape: 'contract_level',
+  governanceDomains: ['component', 'composable', 'function', 'type'],
+};
+
+function acceptPlanChoices(ctx: ControlPlaneContext): ControlPlaneChoice[] {
+  return ctx.tier === 'task'
+    ? [{ id: 'accepted_code', label: 'Accept the plan and begin coding', slashCommand: '/accepted-code' }]
+    : [{ id: 'accepted_plan', label: 'Accept the plan (Gate 1)', slashCommand: '/accepted-plan' }];
+}
+
+function acceptBuildChoices(): ControlPlaneChoice[] {
+  return [{ id: 'accepted_build', label: 'Accept the filled guide and build (Gate 2)', slashCommand: '/accepted-build' }];
+}
+
+function onSuccess(success: ControlPlaneRoute): ReasonCodeRoutes {
+  return { success, failure: FAILURE_ROUTE };
+}
+
+function onFailure(failure: ControlPlaneRoute = FAILURE_ROUTE): ReasonCodeRoutes {
+  return { success: FAILURE_ROUTE, failure };
+}
+
+export const CONTROL_PLANE_ROUTES: { readonly [K in ReasonCode]: ReasonCodeRoutes } = {
+  // --- Flow codes ---
+  context_gathering: onSuccess({
+    handle: (outcome, ctx) => handleContextGathering(outcome, ctx),
+    requiredMode: 'plan',
+    gatedChoices: acceptPlanChoices,
+    summary: 'Show planning doc and deliverables; command-gated — user runs `/accepted-plan` (tasks: `/accepted-code`).',
+  }),
+  planning_doc_incomplete: onFailure({
+    handle: (outcome, ctx) => handlePlanningDocIncomplete(outcome, ctx),
+    requiredMode: 'plan',
+    gatedChoices: acceptPlanChoices,
+    summary: 'Blocked until the agent fills the planning doc; user re-runs `/accepted-plan` (tasks: `/accepted-code`).',
+  }),
+  start_ok: onSuccess(CASCADE_ROUTE),
+  end_ok: onSuccess(CASCADE_ROUTE),
+  task_complete: onSuccess({
+    handle: (outcome) => handleTaskComplete(outcome),
+    requiredMode: 'agent',
+    summary: 'Continue; with a cascade, ask `cascade_confirmation`.',
+  }),
+  pending_push: onSuccess({
+    handle: (outcome) => handlePendingPushConfirmation(outcome),
+    requiredMode: 'plan',
+    gatedChoices: () => [
+      { id: 'accepted_push', label: 'Push to remote', slashCommand: '/accepted-push' },
+      { id: 'skip_push', label: 'Skip the push', slashCommand: '/skip-push' },
+    ],
+    summary: 'End complete; command-gated — user runs `/accepted-push` or `/skip-push`, then any cascade.',
+  }),
+  verification_suggested: onSuccess({
+    handle: (outcome) => handleVerificationWorkSuggested(outcome),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.VERIFICATION_OPTIONS,
+    summary: 'Show the verification checklist; add follow-up / do manually / skip.',
+  }),
+  harness_plugin_advisory: onSuccess(CASCADE_ROUTE),
+  gap_analysis_pending: onSuccess({
+    handle: (outcome, ctx) => handleGapAnalysisPending(outcome, ctx),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.GAP_ANALYSIS_OPTIONS,
+    resumeAfter: { action: 'end', step: 'gap_analysis' },
+    summary: 'Show the gap report; tier-end can resume past gap analysis.',
+  }),
+  reopen_ok: onSuccess({
+    handle: (outcome) => handleReopenOk(outcome),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.REOPEN_OPTIONS,
+    summary: 'Plan file / plan from scratch / quick fix.',
+  }),
+  uncommitted_blocking: onSuccess({
+    handle: (outcome, ctx) => handleUncommittedChanges(outcome, ctx),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.UNCOMMITTED_CHANGES,
+    resumeAfter: { action: 'start', step: 'ensure_branch' },
+    summary: 'Commit or stash, then re-invoke (tier-start resumes in execute mode after `ensure_branch`).',
+  }),
+  guide_fill_pending: onSuccess({
+    handle: (outcome, ctx) => handleGuideFillPending(outcome, ctx),
+    requiredMode: 'plan',
+    gatedChoices: acceptBuildChoices,
+    summary: 'Agent fills the guide; command-gated — user runs `/accepted-build` (Gate 2).',
+  }),
+  guide_incomplete: onFailure({
+    handle: (outcome, ctx) => handleGuideIncomplete(outcome, ctx),
+    requiredMode: 'plan',
+    gatedChoices: acceptBuildChoices,
+    summary: 'Gate 2 blocked: guide still has placeholders; fill it, then user re-runs `/accepted-build`.',
+  }),
+  pending_gate_discarded: onSuccess(CASCADE_ROUTE),
+  worktree_redirect: onSuccess({
+    handle: (outcome, ctx) => handleWorktreeRedirect(outcome, ctx),
+    requiredMode: 'plan',
+    summary: 'Worktree mode: open the worktree holding the tier branch and re-run the same command there (nothing checked out or stashed).',
+  }),
+
+  // --- Failure codes ---
+  validation_failed: onFailure({
+    handle: (outcome, _ctx, output) => handleValidationFailed(outcome, output),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.FAILURE_OPTIONS,
+    summary: 'Generic failure stop plus the workflow-friction log footer.',
+  }),
+  audit_failed: onFailure({
+    handle: (outcome, ctx, output) =>
+      handleAuditFailed(outcome, output, { ...ctx, workProfile: ctx.workProfile ?? AUDIT_FIX_PROFILE }),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.AUDIT_FAILED_OPTIONS,
+    summary: 'Show the audit report; fix per governance (audit_fix work profile by default), then re-run.',
+  }),
+  test_failed: onFailure(),
+  preflight_failed: onFailure(),
+  git_failed: onFailure({
+    handle: (outcome, ctx, output) => handleGitFailedTierEnd(outcome, ctx, output),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.FAILURE_OPTIONS,
+    resumeAfter: { action: 'end', step: 'git' },
+    summary: 'Failure stop; when `tierEndGitResumable`, tier-end resumes at the `git` step after the user fixes merge / push.',
+  }),
+  wrong_branch_before_commit: onFailure({
+    handle: (outcome, ctx) => handleWrongBranchBeforeCommit(outcome, ctx),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.FAILURE_OPTIONS,
+    resumeAfter: { action: 'end', step: 'commit_remaining' },
+    summary: 'Checkout the tier branch; tier-end resumes at `commit_remaining` (tier-start: message-only stop).',
+  }),
+  app_not_running: onFailure(),
+  expected_branch_missing_run_tier_start: onFailure({
+    handle: (outcome) => handleExpectedBranchMissingRunTierStart(outcome),
+    requiredMode: 'plan',
+    summary: 'Expected tier branch missing locally; run the matching tier-start, then re-run tier-end.',
+  }),
+  branch_failed: onFailure(),
+  guide_materialization_failed: onFailure(),
+  guide_materialization_requires_execute: onFailure(),
+  no_pending_plan: onFailure(),
+  no_pending_build: onFailure(),
+  no_pending_code: onFailure(),
+  no_pending_push: onFailure(),
+  wrong_accepted_command: onFailure(),
+  ambiguous_pending_gate: onFailure(),
+  pending_gate_drift: onFailure({
+    handle: (outcome, _ctx, output) => handlePendingGateDrift(outcome, output),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.GATE_DRIFT_OPTIONS,
+    summary: 'Gate drifted (branch / HEAD / guide / age); re-run the accepted command with `--refresh` or `--discard`.',
+  }),
+  invalid_context: onFailure(),
+  invalid_task_id: onFailure(),
+  audit_fix_commit_failed: onFailure({
+    handle: (outcome, ctx) => handleAuditFixCommitFailedEnd(outcome, ctx),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.FAILURE_OPTIONS,
+    resumeAfter: { action: 'end', step: 'end_audit' },
+    summary: 'Autofix commit failed; fix git state, tier-end resumes at `end_audit`.',
+  }),
+  unhandled_error: onFailure(),
+  conflict_markers_in_tree: onFailure(),
+  planning_rollup_failed: onFailure(),
+  doc_rollup_failed: onFailure(),
+  gap_analysis_failed: onFailure(),
+  fill_tier_down_failed: onFailure(),
+  planning_checks_failed: onFailure(),
+  preflight_branch_failed: onFailure({
+    handle: (outcome, ctx) => handleWrongBranchBeforeCommit(outcome, ctx),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.FAILURE_OPTIONS,
+    resumeAfter: { action: 'end', step: 'commit_remaining' },
+    summary: 'Fix branch / remote; tier-end resumes at `commit_remaining` (tier-start: message-only stop).',
+  }),
+  push_branch_guard_failed: onFailure(),
+  wrong_branch_before_push: onFailure(),
+  push_preflight_fetch_failed: onFailure(),
+  step_timeout: onFailure({
+    handle: (outcome, _ctx, output) => handleStepTimeout(outcome, output),
+    requiredMode: 'plan',
+    questionKey: QUESTION_KEYS.STEP_TIMEOUT_OPTIONS,
+    summary: 'Retry or skip the timed-out step via `resume-from-trace` (generic failure stop without a trace id).',
+  }),
+};
+
+export function routeFor(reasonCode: ReasonCode, success: boolean): ControlPlaneRoute {
+  const routes = CONTROL_PLANE_ROUTES[reasonCode];
+  return success ? routes.success : routes.failure;
+}
+
+function cell(value: string | undefined): string {
+  return value ? value.replace(/\|/g, '\\|') : '—';
+}
+
+/**
+ * Markdown playbook for the routing table. Lists each code's route for its own kind (flow → `success: true`,
+ * failure → `success: false`) plus any other dedicated route; every remaining pair is the generic failure stop.
+ */
+export function renderRoutingPlaybook(): string {
+  const lines: string[] = [
+    '# Control-plane routing',
+    '',
+    '<!-- Generated from tiers/shared/control-plane-routing-table.ts — do not edit by hand. Regenerate: npx tsx .cursor/commands/tiers/shared/control-plane-routing-table.ts -->',
+    '',
+    'How `routeByOutcome` turns a command result (`outcome.reasonCode` × `success`) into a control-plane decision. Legacy reason codes are normalized first (`parseReasonCode`); a missing outcome is treated as a crash (`failure_options`).',
+    '',
+    '| Reason code | Kind | success | Mode | Question | Resumes after | Behavior |',
+    '|-------------|------|---------|------|----------|---------------|----------|',
+  ];
+  for (const code of Object.keys(CONTROL_PLANE_ROUTES) as ReasonCode[]) {
+    const failureCode = isFailureReasonCode(code);
+    for (const success of [true, false]) {
+      const route = routeFor(code, success);
+      if (success === failureCode && route === FAILURE_ROUTE) continue;
+      const resume = route.resumeAfter ? `${route.resumeAfter.action}: \`${route.resumeAfter.step}\`` : undefined;
+      lines.push(
+        `| \`${code}\` | ${failureCode ? 'failure' : 'flow'} | ${success} | ${route.requiredMode} | ${
+          route.questionKey ? `\`${route.questionKey}\`` : '—'
+        } | ${cell(resume)} | ${cell(route.summary)} |`
+      );
+    }
+  }
+  lines.push(
+    '',
+    `Every other reasonCode × success pair: ${FAILURE_ROUTE.summary.replace(/\.$/, '')} (\`${FAILURE_ROUTE.questionKey}\`).`,
+    ''
+  );
+  return lines.join('\n');
+}
+
+const routingTableThisFile = fileURLToPath(import.meta.url);
+
+/** Committed playbook rendered from this table. */
+export const ROUTING_PLAYBOOK_PATH = resolvePath(dirname(routingTableThisFile), '..', 'CONTROL_PLANE_ROUTING.md');
+
+// ─── CLI (npx tsx) ─────────────────────────────────────────────────────────
+
+const isRoutingTableCli =
+  typeof process !== 'undefined' &&
+  Boolean(process.argv[1]) &&
+  resolvePath(process.argv[1]!) === resolvePath(routingTableThisFile);
+
+if (isRoutingTableCli) {
+  const rendered = renderRoutingPlaybook();
+  if (process.argv.includes('--check')) {
+    let current = '';
+    try {
+      current = readFileSync(ROUTING_PLAYBOOK_PATH, 'utf8');
+    } catch {
+      // missing file counts as stale
+    }
+    if (current !== rendered) {
+      console.error(`${ROUTING_PLAYBOOK_PATH} is stale; regenerate it.`);
+      process.exit(1);
+    }
+  } else {
+    writeFileSync(ROUTING_PLAYBOOK_PATH, rendered, 'utf8');
+    console.log(`Wrote ${ROUTING_PLAYBOOK_PATH}`);
+  }
+}
@@ -6,9 +6,9 @@
 import type { TierName } from './types';
 import type { CascadeInfo } from '../../utils/tier-outcome';
 import type { CommandExecutionOptions } from '../../utils/command-execution-mode';
-import type { ControlPlaneDecision, QuestionKey } from '../../harness/contracts';
+import type { ControlPlaneChoice, ControlPlaneDecision, QuestionKey } from '../../harness/contracts';
 
-export type { ControlPlaneDecision, QuestionKey };
+export type { ControlPlaneChoice, ControlPlaneDecision, QuestionKey };
 
 /** Action verb for tier commands in routing context. */
 export type TierAction = 'start' | 'end' | 'reopen';
@@ -31,6 +31,10 @@ export interface ControlPlaneOutcome {
   cascade?: CascadeInfo;
   /** Tier-end git step failure: allows control-plane resume at `git`. */
   tierEndGitResumable?: boolean;
+  /** step_timeout: kernel step that timed out and the trace to retry/skip it from. */
+  stepTimeout?: { step: string; timeoutMs: number; traceId?: string };
+  /** pending_gate_drift: accepted command + identifier to re-run with `--refresh` / `--discard`. */
+  gateInvocation?: string;
 }
 
 /** Result shape that control-plane can route on (start or end). */
@@ -78,4 +82,6 @@ export const QUESTION_KEYS = {
   AUDIT_FAILED_OPTIONS: 'audit_failed_options' as const satisfies QuestionKey,
   REOPEN_OPTIONS: 'reopen_options' as const satisfies QuestionKey,
   UNCOMMITTED_CHANGES: 'uncommitted_changes' as const satisfies QuestionKey,
+  STEP_TIMEOUT_OPTIONS: 'step_timeout_options' as const satisfies QuestionKey,
+  GATE_DRIFT_OPTIONS: 'gate_drift_options' as const satisfies QuestionKey,
 } as const;
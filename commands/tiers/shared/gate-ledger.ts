@@ -0,0 +1,322 @@
+/**
+ * Gate ledger state machine for the human gates between tier runs.
+ * One ledger entry per tier unit, keyed by tier + identifier + branch (several may be open at once, e.g. parallel
+ * worktrees): start gates (context_gathering → guide_fill → build, or → code for tasks) and the end push gate
+ * (pending_push → pushed | skipped). Pure — storage lives in pending-state.ts.
+ */
+
+import type { TierStartPendingState, TaskStartPendingState, EndPendingState } from './pending-state';
+
+export type GateTier = 'feature' | 'phase' | 'session' | 'task';
+
+/**
+ * - `context_gathering`: start stopped at the planning doc (Gate 1; tasks: Begin Coding).
+ * - `guide_fill`: start stopped for the guide fill (Gate 2).
+ * - `build` / `code`: start resumed and completed (tier / task work in progress).
+ * - `pending_push`: end completed; push awaits confirmation.
+ * - `pushed` / `skipped`: push gate closed.
+ * - `discarded`: an open gate dropped after drift (user chose discard).
+ */
+export type GateState =
+  | 'context_gathering'
+  | 'guide_fill'
+  | 'build'
+  | 'code'
+  | 'pending_push'
+  | 'pushed'
+  | 'skipped'
+  | 'discarded';
+
+/** Allowed transitions (re-recording the same open state for the same unit is a refresh, not a transition). */
+export const GATE_TRANSITIONS: Readonly<Record<GateState, readonly GateState[]>> = {
+  context_gathering: ['guide_fill', 'build', 'code', 'discarded'],
+  guide_fill: ['build', 'discarded'],
+  build: ['pending_push'],
+  code: ['pending_push'],
+  pending_push: ['pushed', 'skipped', 'discarded'],
+  pushed: [],
+  skipped: [],
+  discarded: [],
+};
+
+/** States a command can act on; everything else is closed history. */
+export const OPEN_GATE_STATES: ReadonlySet<GateState> = new Set(['context_gathering', 'guide_fill', 'pending_push']);
+
+/** Open states whose tier guide is fingerprinted for drift (during `guide_fill` the guide is expected to change). */
+export const GUIDE_TRACKED_STATES: ReadonlySet<GateState> = new Set(['context_gathering', 'pending_push']);
+
+/** Default gate age (days since last transition) after which accepted commands treat it as drifted. */
+export const DEFAULT_GATE_MAX_AGE_DAYS = 7;
+
+export type GateCommand = '/accepted-plan' | '/accepted-build' | '/accepted-code' | '/accepted-push' | '/skip-push';
+
+/** Which open gate each accepted command consumes, and for which tiers. */
+export const GATE_COMMANDS: Readonly<Record<GateCommand, { from: GateState; tiers: readonly GateTier[] }>> = {
+  '/accepted-plan': { from: 'context_gathering', tiers: ['feature', 'phase', 'session'] },
+  '/accepted-build': { from: 'guide_fill', tiers: ['feature', 'phase', 'session'] },
+  '/accepted-code': { from: 'context_gathering', tiers: ['task'] },
+  '/accepted-push': { from: 'pending_push', tiers: ['feature', 'phase', 'session', 'task'] },
+  '/skip-push': { from: 'pending_push', tiers: ['feature', 'phase', 'session', 'task'] },
+};
+
+export interface GateTransition {
+  from: GateState | null;
+  to: GateState;
+  at: string;
+  /** Command or runner that recorded the transition (e.g. `session-start`, `/accepted-plan`). */
+  by: string;
+  traceId?: string;
+}
+
+export interface GateLedgerEntry {
+  /** Stable entry id (the branch in the key can move when a start gate advances onto the tier branch). */
+  id: string;
+  state: GateState;
+  tier: GateTier;
+  identifier: string;
+  featureName?: string;
+  /** Branch the gate was last recorded on; part of the entry key. */
+  branch?: string;
+  /** HEAD commit when the gate was last recorded (drift baseline). */
+  headSha?: string;
+  /** Tier guide fingerprint when the gate was last recorded (GUIDE_TRACKED_STATES only). */
+  guide?: { path: string; sha256: string };
+  /** Harness trace that last moved this gate. */
+  traceId?: string;
+  openedAt: string;
+  updatedAt: string;
+  transitions: GateTransition[];
+  /** Set when a new gate replaced this one while it was still open. */
+  supersededBy?: string;
+  tierStart?: TierStartPendingState;
+  taskStart?: TaskStartPendingState;
+  end?: EndPendingState;
+}
+
+export interface GateLedger {
+  version: 2;
+  /** Latest entry per key: every open gate plus the most recently closed ones. */
+  entries: GateLedgerEntry[];
+  /** Pruned or superseded entries, newest first. */
+  history: GateLedgerEntry[];
+}
+
+export type GateCheck =
+  | { ok: true; entry: GateLedgerEntry }
+  | { ok: false; reason: 'none' | 'wrong_gate' | 'ambiguous'; message: string };
+
+/** Branch / HEAD / guide as observed when a command runs; `guideSha256` null = guide missing, undefined = not read. */
+export interface GateSnapshot {
+  at: string;
+  branch: string | null;
+  headSha: string | null;
+  guideSha256?: string | null;
+}
+
+export type GateDriftKind = 'branch_changed' | 'head_moved' | 'guide_modified' | 'expired';
+
+export interface GateDrift {
+  kind: GateDriftKind;
+  detail: string;
+}
+
+/** Which entry a command should act on: explicit identifier, and the current branch as a tie-break for it. */
+export interface GateSelector {
+  identifier?: string;
+  branch?: string | null;
+}
+
+export function isOpenGate(entry: GateLedgerEntry): boolean {
+  return OPEN_GATE_STATES.has(entry.state);
+}
+
+export function canTransition(from: GateState, to: GateState): boolean {
+  return GATE_TRANSITIONS[from].includes(to);
+}
+
+export function gateKey(entry: Pick<GateLedgerEntry, 'tier' | 'identifier' | 'branch'>): string {
+  return `${entry.tier}:${entry.identifier}@${entry.branch ?? '-'}`;
+}
+
+function matchesIdentifier(entry: GateLedgerEntry, identifier: string): boolean {
+  return entry.identifier === identifier || (entry.tier === 'feature' && entry.featureName === identifier);
+}
+
+export function gateUnitLabel(entry: Pick<GateLedgerEntry, 'tier' | 'identifier' | 'featureName'>): string {
+  const feature = entry.featureName && entry.tier !== 'feature' ? ` (feature ${entry.featureName})` : '';
+  return `${entry.tier} ${entry.identifier}${feature}`;
+}
+
+/** Commands that close `entry` when it is open. */
+export function commandsForGate(entry: GateLedgerEntry): GateCommand[] {
+  return (Object.keys(GATE_COMMANDS) as GateCommand[]).filter(
+    (c) => GATE_COMMANDS[c].from === entry.state && GATE_COMMANDS[c].tiers.includes(entry.tier)
+  );
+}
+
+/** One-line description: state, unit, branch, when, and owning trace. */
+export function describeGate(entry: GateLedgerEntry): string {
+  const branch = entry.branch ? ` on \`${entry.branch}\`` : '';
+  const trace = entry.traceId ? `, trace \`${entry.traceId}\`` : '';
+  const when = isOpenGate(entry) ? `opened ${entry.openedAt}` : `closed ${entry.updatedAt}`;
+  return `**${entry.state}** for ${gateUnitLabel(entry)}${branch} (${when}${trace})`;
+}
+
+function gateLines(entries: readonly GateLedgerEntry[], commandFor: (e: GateLedgerEntry) => string): string {
+  return entries.map((e) => `- ${commandFor(e)} — ${describeGate(e)}`).join('\n');
+}
+
+/** Outcome reason code for a failed check; `none` maps to the command's own `no_pending_*` code. */
+export function gateCheckReasonCode(check: Extract<GateCheck, { ok: false }>, noPendingCode: string): string {
+  switch (check.reason) {
+    case 'wrong_gate':
+      return 'wrong_accepted_command';
+    case 'ambiguous':
+      return 'ambiguous_pending_gate';
+    case 'none':
+      return noPendingCode;
+  }
+}
+
+/**
+ * Pick the entry `command` acts on. With an identifier, only that unit's gates are considered (the current branch
+ * breaks ties between worktrees); without one, exactly one matching open gate must exist. Failure messages name the
+ * open gates and the command (with identifier) that closes each.
+ */
+export function checkGateForCommand(
+  entries: readonly GateLedgerEntry[],
+  command: GateCommand,
+  select: GateSelector = {}
+): GateCheck {
+  const gate = GATE_COMMANDS[command];
+  const id = select.identifier?.trim() || undefined;
+  const open = entries.filter(isOpenGate).filter((e) => id === undefined || matchesIdentifier(e, id));
+  let matches = open.filter((e) => e.state === gate.from && gate.tiers.includes(e.tier));
+  if (id !== undefined && matches.length > 1 && select.branch) {
+    const onBranch = matches.filter((e) => e.branch === select.branch);
+    if (onBranch.length > 0) matches = onBranch;
+  }
+
+  if (matches.length === 1) return { ok: true, entry: matches[0]! };
+  if (matches.length > 1) {
+    const sameUnit = id !== undefined;
+    return {
+      ok: false,
+      reason: 'ambiguous',
+      message: `**${command}** matches ${matches.length} open gates. ${
+        sameUnit ? 'Check out the branch of the one you mean' : 'Re-run with the identifier of the one you mean'
+      }:\n\n${gateLines(matches, (e) => `\`${command} ${e.identifier}\``)}\n\nList all gates with **/pending-list**.`,
+    };
+  }
+  if (open.length > 0) {
+    const forUnit = id !== undefined ? ` for \`${id}\`` : '';
+    return {
+      ok: false,
+      reason: 'wrong_gate',
+      message: `**${command}** does not apply: no **${gate.from}** gate is open${forUnit}. Open ${
+        open.length === 1 ? 'gate' : 'gates'
+      }:\n\n${gateLines(open, (e) =>
+        commandsForGate(e)
+          .map((c) => `\`${c} ${e.identifier}\``)
+          .join(' or ')
+      )}`,
+    };
+  }
+  const last = entries
+    .filter((e) => id === undefined || matchesIdentifier(e, id))
+    .reduce<GateLedgerEntry | null>((a, e) => (a == null || e.updatedAt > a.updatedAt ? e : a), null);
+  const forUnit = id !== undefined ? ` for \`${id}\`` : '';
+  return {
+    ok: false,
+    reason: 'none',
+    message: last != null ? `No open gate${forUnit}. Last gate: ${describeGate(last)}.` : `No open gate${forUnit}.`,
+  };
+}
+
+/** Open start gates: the pending start carries the WorkProfile the resumed start will use. */
+const START_GATE_STATES: ReadonlySet<GateState> = new Set(['context_gathering', 'guide_fill']);
+
+/**
+ * Pick the open start gate (context_gathering / guide_fill) `command` edits, optionally narrowed by tier and
+ * identifier; the current branch breaks ties for one identifier. Used by commands that amend a pending start
+ * rather than advance it (e.g. /work-profile).
+ */
+export function checkStartGate(
+  entries: readonly GateLedgerEntry[],
+  command: string,
+  select: GateSelector & { tier?: GateTier } = {}
+): GateCheck {
+  const id = select.identifier?.trim() || undefined;
+  const forUnit = `${select.tier ? ` ${select.tier}` : ''}${id !== undefined ? ` \`${id}\`` : ''}`;
+  let matches = entries
+    .filter((e) => START_GATE_STATES.has(e.state))
+    .filter((e) => (select.tier === undefined || e.tier === select.tier) && (id === undefined || matchesIdentifier(e, id)));
+  if (id !== undefined && matches.length > 1 && select.branch) {
+    const onBranch = matches.filter((e) => e.branch === select.branch);
+    if (onBranch.length > 0) matches = onBranch;
+  }
+  if (matches.length === 1) return { ok: true, entry: matches[0]! };
+  if (matches.length > 1) {
+    return {
+      ok: false,
+      reason: 'ambiguous',
+      message: `**${command}** matches ${matches.length} open start gates. Pass the tier and identifier of the one you mean:\n\n${gateLines(
+        matches,
+        (e) => `\`${command} ${e.tier} ${e.identifier}\``
+      )}`,
+    };
+  }
+  const open = entries.filter(isOpenGate);
+  return {
+    ok: false,
+    reason: open.length > 0 ? 'wrong_gate' : 'none',
+    message:
+      `No open start gate${forUnit} for **${command}**; it amends a start waiting at context_gathering or guide_fill.` +
+      (open.length > 0 ? ` Open gates:\n\n${gateLines(open, (e) => `\`${e.tier} ${e.identifier}\``)}` : ''),
+  };
+}
+
+function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
+
+/**
+ * Compare a gate's recorded baseline with the current snapshot. Only recorded fields are compared, so legacy entries
+ * without branch / HEAD only drift by age. `maxAgeDays` ≤ 0 disables expiry.
+ */
+export function compareGateSnapshot(
+  entry: GateLedgerEntry,
+  now: GateSnapshot,
+  maxAgeDays: number = DEFAULT_GATE_MAX_AGE_DAYS
+): GateDrift[] {
+  const drift: GateDrift[] = [];
+  if (entry.branch && now.branch !== entry.branch) {
+    drift.push({
+      kind: 'branch_changed',
+      detail: `Branch changed: gate recorded on \`${entry.branch}\`, now on \`${now.branch ?? '(detached)'}\`.`,
+    });
+  }
+  if (entry.headSha && now.headSha && now.headSha !== entry.headSha) {
+    drift.push({
+      kind: 'head_moved',
+      detail: `HEAD moved: \`${shortSha(entry.headSha)}\` → \`${shortSha(now.headSha)}\`.`,
+    });
+  }
+  if (entry.guide && now.guideSha256 !== undefined && now.guideSha256 !== entry.guide.sha256) {
+    drift.push({
+      kind: 'guide_modified',
+      detail:
+        now.guideSha256 === null
+          ? `Guide removed: \`${entry.guide.path}\`.`
+          : `Guide modified since the gate: \`${entry.guide.path}\`.`,
+    });
+  }
+  const ageDays = (Date.parse(now.at) - Date.parse(entry.updatedAt)) / 86_400_000;
+  if (maxAgeDays > 0 && ageDays > maxAgeDays) {
+    drift.push({
+      kind: 'expired',
+      detail: `Gate is ${Math.floor(ageDays)} days old (last moved ${entry.updatedAt}; limit ${maxAgeDays} days).`,
+    });
+  }
+  return drift;
+}
@@ -359,3 +359,15 @@ export function ensureHandoffHasRequiredSections(
 
   return result;
 }
+
+/**
+ * True when a heading title is one of the required sections for a guide tier, or for handoffs (`'handoff'`).
+ * Same matching as the ensure functions (exact for "Tasks"). Used by the markdown merge driver so a
+ * one-sided deletion never drops a required section.
+ */
+export function isRequiredSectionHeading(kind: GuideTier | 'handoff', headingTitle: string): boolean {
+  if (kind === 'handoff') {
+    return REQUIRED_HANDOFF_SECTIONS.some((s) => handoffSectionTitleMatches(headingTitle, s));
+  }
+  return REQUIRED_GUIDE_SECTIONS[kind].some((s) => sectionTitleMatches(headingTitle, s));
+}
@@ -0,0 +1,74 @@
+/**
+ * /pending-list: show the gate ledger — every open gate (tier, identifier, branch, opened-at, owning trace) with the
+ * command that closes it, then the most recently closed gates. Read-only.
+ */
+
+import { readGateLedger } from './pending-state';
+import {
+  commandsForGate,
+  gateUnitLabel,
+  isOpenGate,
+  type GateLedgerEntry,
+} from './gate-ledger';
+
+/** Closed gates shown under "Recently closed". */
+const RECENTLY_CLOSED_LIMIT = 5;
+
+export interface PendingListResult {
+  success: boolean;
+  output: string;
+  /** Open gates, oldest first. */
+  open: GateLedgerEntry[];
+}
+
+function cell(value: string | undefined): string {
+  return value ? value.replace(/\|/g, '\\|') : '—';
+}
+
+/**
+ * List open and recently closed gates. User runs in Cursor.
+ */
+export async function pendingList(): Promise<PendingListResult> {
+  const { entries } = await readGateLedger();
+  const open = entries.filter(isOpenGate).sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+  const closed = entries
+    .filter((e) => !isOpenGate(e))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, RECENTLY_CLOSED_LIMIT);
+
+  const lines: string[] = ['## Open gates', ''];
+  if (open.length === 0) {
+    lines.push('_(none)_');
+  } else {
+    lines.push(
+      '| Gate | Unit | Branch | Opened | Trace | Next |',
+      '|------|------|--------|--------|-------|------|'
+    );
+    for (const e of open) {
+      const next = commandsForGate(e)
+        .map((c) => `\`${c} ${e.identifier}\``)
+        .join(' or ');
+      lines.push(
+        `| ${e.state} | ${cell(gateUnitLabel(e))} | ${cell(e.branch)} | ${e.openedAt} | ${cell(e.traceId)} | ${next} |`
+      );
+    }
+    if (open.length > 1) {
+      lines.push('', 'Several gates are open: pass the identifier to the accepted command (e.g. `/accepted-plan 6.1.2`).');
+    }
+  }
+
+  if (closed.length > 0) {
+    lines.push(
+      '',
+      '## Recently closed',
+      '',
+      '| Gate | Unit | Branch | Closed | Trace |',
+      '|------|------|--------|--------|-------|'
+    );
+    for (const e of closed) {
+      lines.push(`| ${e.state} | ${cell(gateUnitLabel(e))} | ${cell(e.branch)} | ${e.updatedAt} | ${cell(e.traceId)} |`);
+    }
+  }
+
+  return { success: true, output: lines.join('\n'), open };
+}
@@ -1,7 +1,10 @@
 /**
- * Pending state for /accepted-plan, /accepted-build, /accepted-code (start), and /accepted-push (end).
- * Start: written when tier start returns context_gathering; read and cleared by accepted-plan/accepted-build/accepted-code.
- * End: written when tier end returns pending_push_confirmation; read and cleared by accepted-push/skip-push.
+ * Pending state for /accepted-plan, /accepted-build, /accepted-code (start), and /accepted-push, /skip-push (end),
+ * stored as one gate ledger (`.cursor/commands/.gate-ledger.json`; state machine in gate-ledger.ts) holding one entry
+ * per tier + identifier + branch, so parallel starts / ends keep their own gates.
+ * Start: tier start opens `context_gathering` / `guide_fill`; accepted-plan/accepted-build/accepted-code advance it.
+ * End: tier end opens `pending_push`; accepted-push/skip-push close it as `pushed` / `skipped`.
+ * The legacy per-gate blobs are migrated into the ledger on first read.
  */
 
 import { readProjectFile, writeProjectFile } from '../../utils/utils';
@@ -9,7 +12,36 @@ import { WorkflowId } from '../../utils/id-utils';
 import type { CascadeInfo } from '../../utils/tier-outcome';
 import type { WorkProfile } from '../../harness/work-profile';
 import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-context';
+import { countCommitsBetween, getCurrentBranch, getHeadSha } from '../../git/shared/git-logger';
+import { QUESTION_KEYS, type ControlPlaneDecision } from './control-plane-types';
+import { choicesForQuestion } from './control-plane-choice-display';
+import { presentChoices } from './choose';
+import type { TierStartResultWithControlPlane } from './tier-start';
+import {
+  DEFAULT_GATE_MAX_AGE_DAYS,
+  GATE_COMMANDS,
+  GUIDE_TRACKED_STATES,
+  canTransition,
+  checkGateForCommand,
+  compareGateSnapshot,
+  describeGate,
+  gateKey,
+  isOpenGate,
+  type GateCheck,
+  type GateCommand,
+  type GateDrift,
+  type GateLedger,
+  type GateLedgerEntry,
+  type GateState,
+  type GateTier,
+} from './gate-ledger';
 
+const GATE_LEDGER_PATH = '.cursor/commands/.gate-ledger.json';
+/** Closed entries kept in `entries` (newest first) and in `history`, for explanations and /pending-list. */
+const GATE_CLOSED_LIMIT = 20;
+const GATE_HISTORY_LIMIT = 20;
+
+/** Pre-ledger blobs; read once for migration, then removed. */
 const TIER_PENDING_PATH = '.cursor/commands/.tier-start-pending.json';
 const TASK_PENDING_PATH = '.cursor/commands/.task-start-pending.json';
 const TIER_END_PENDING_PATH = '.cursor/commands/.tier-end-pending.json';
@@ -47,7 +79,7 @@ export interface TaskStartPendingState {
   workProfile?: WorkProfile;
 }
 
-function safeParse<T>(path: string, raw: string): T | null {
+function safeParse<T>(raw: string): T | null {
   try {
     return JSON.parse(raw) as T;
   } catch {
@@ -55,103 +87,562 @@ function safeParse<T>(path: string, raw: string): T | null {
   }
 }
 
-export async function readTierStartPending(): Promise<TierStartPendingState | null> {
+function parseTierStartPending(raw: string): TierStartPendingState | null {
+  const parsed = safeParse<{
+    tier: string;
+    params: unknown;
+    pass?: number;
+    guideFillPending?: boolean;
+    guidePath?: string;
+    workProfile?: WorkProfile;
+    gateProfile?: import('../../harness/work-profile').GateProfile;
+    leafTier?: boolean;
+  }>(raw);
+  if (!parsed?.tier || !parsed?.params || (parsed.pass !== 1 && parsed.pass !== 2)) return null;
+  if (parsed.tier !== 'feature' && parsed.tier !== 'phase' && parsed.tier !== 'session') return null;
+  return {
+    tier: parsed.tier as TierStartPendingState['tier'],
+    params: parsed.params as TierStartPendingParams,
+    pass: 1,
+    ...(parsed.guideFillPending === true && parsed.guidePath != null && {
+      guideFillPending: true,
+      guidePath: String(parsed.guidePath),
+    }),
+    ...(parsed.workProfile != null && { workProfile: parsed.workProfile }),
+    ...(parsed.gateProfile != null && { gateProfile: parsed.gateProfile }),
+    ...(parsed.leafTier === true && { leafTier: true }),
+  };
+}
+
+function parseTaskStartPending(raw: string): TaskStartPendingState | null {
+  const parsed = safeParse<{
+    taskId?: string;
+    featureId?: string;
+    featureName?: string;
+    workProfile?: WorkProfile;
+  }>(raw);
+  if (!parsed?.taskId) return null;
+  let featureId =
+    typeof parsed.featureId === 'string' && parsed.featureId.trim() !== ''
+      ? parsed.featureId.trim()
+      : '';
+  const featureName =
+    typeof parsed.featureName === 'string' && parsed.featureName.trim() !== ''
+      ? parsed.featureName.trim()
+      : '';
+  if (!featureId && !featureName) {
+    const derived = WorkflowId.parseTaskId(parsed.taskId.trim())?.feature;
+    if (derived) featureId = derived;
+  }
+  if (!featureId && !featureName) return null;
+  return {
+    taskId: parsed.taskId,
+    ...(featureId !== '' && { featureId }),
+    ...(featureName !== '' && { featureName }),
+    ...(parsed.workProfile != null && { workProfile: parsed.workProfile }),
+  };
+}
+
+function parseEndPending(raw: string): EndPendingState | null {
+  const parsed = safeParse<{
+    tier: string;
+    identifier: string;
+    featureName?: string;
+    cascade?: CascadeInfo;
+  }>(raw);
+  if (!parsed?.tier || !parsed?.identifier) return null;
+  if (
+    parsed.tier !== 'feature' &&
+    parsed.tier !== 'phase' &&
+    parsed.tier !== 'session' &&
+    parsed.tier !== 'task'
+  )
+    return null;
+  const featureName =
+    typeof parsed.featureName === 'string' && parsed.featureName.trim() !== ''
+      ? parsed.featureName.trim()
+      : undefined;
+  return {
+    tier: parsed.tier as EndPendingState['tier'],
+    identifier: String(parsed.identifier),
+    ...(featureName != null && { featureName }),
+    ...(parsed.cascade != null && { cascade: parsed.cascade }),
+  };
+}
+
+type GateUnit = Pick<GateLedgerEntry, 'tier' | 'identifier' | 'featureName'>;
+type GatePayload = Pick<GateLedgerEntry, 'tierStart' | 'taskStart' | 'end'>;
+
+function tierStartUnit(state: TierStartPendingState): GateUnit {
+  const p = state.params as { featureId?: string; featureName?: string; phaseId?: string; sessionId?: string };
+  const identifier =
+    state.tier === 'feature' ? (p.featureId ?? '') : state.tier === 'phase' ? (p.phaseId ?? '') : (p.sessionId ?? '');
+  const featureName = (p.featureName ?? p.featureId)?.trim();
+  return { tier: state.tier, identifier, ...(featureName && { featureName }) };
+}
+
+function taskStartUnit(state: TaskStartPendingState): GateUnit {
+  const featureName = (state.featureName ?? state.featureId)?.trim();
+  return { tier: 'task', identifier: state.taskId, ...(featureName && { featureName }) };
+}
+
+function endUnit(state: EndPendingState): GateUnit {
+  return { tier: state.tier, identifier: state.identifier, ...(state.featureName && { featureName: state.featureName }) };
+}
+
+function sameUnit(a: GateUnit, b: GateUnit): boolean {
+  if (a.tier !== b.tier || a.identifier !== b.identifier) return false;
+  return a.featureName == null || b.featureName == null || a.featureName === b.featureName;
+}
+
+function emptyLedger(): GateLedger {
+  return { version: 2, entries: [], history: [] };
+}
+
+function newGateId(unit: GateUnit, at: string): string {
+  return `${unit.tier}-${unit.identifier}-${Date.parse(at).toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function archive(ledger: GateLedger, entry: GateLedgerEntry): void {
+  ledger.entries = ledger.entries.filter((e) => e.id !== entry.id);
+  ledger.history = [entry, ...ledger.history].slice(0, GATE_HISTORY_LIMIT);
+}
+
+/** Keep every open gate and the newest closed ones; older closed entries move to history. */
+function pruneClosed(ledger: GateLedger): void {
+  const closed = ledger.entries
+    .filter((e) => !isOpenGate(e))
+    .sort((x, y) => y.updatedAt.localeCompare(x.updatedAt));
+  for (const entry of closed.slice(GATE_CLOSED_LIMIT)) archive(ledger, entry);
+}
+
+/** Where the gate was recorded: drift baseline for the accepted commands. */
+interface GateBaseline {
+  branch: string | null;
+  headSha: string | null;
+  guide?: { path: string; sha256: string };
+}
+
+const NO_BASELINE: GateBaseline = { branch: null, headSha: null };
+
+async function fingerprintProjectFile(path: string): Promise<string | null> {
+  const { createHash } = await import('crypto');
   try {
-    const raw = await readProjectFile(TIER_PENDING_PATH);
-    const parsed = safeParse<{
-      tier: string;
-      params: unknown;
-      pass?: number;
-      guideFillPending?: boolean;
-      guidePath?: string;
-      workProfile?: WorkProfile;
-      gateProfile?: import('../../harness/work-profile').GateProfile;
-      leafTier?: boolean;
-    }>(TIER_PENDING_PATH, raw);
-    if (!parsed?.tier || !parsed?.params || (parsed.pass !== 1 && parsed.pass !== 2)) return null;
-    if (parsed.tier !== 'feature' && parsed.tier !== 'phase' && parsed.tier !== 'session') return null;
-    return {
-      tier: parsed.tier as TierStartPendingState['tier'],
-      params: parsed.params as TierStartPendingParams,
-      pass: 1,
-      ...(parsed.guideFillPending === true && parsed.guidePath != null && {
-        guideFillPending: true,
-        guidePath: String(parsed.guidePath),
-      }),
-      ...(parsed.workProfile != null && { workProfile: parsed.workProfile }),
-      ...(parsed.gateProfile != null && { gateProfile: parsed.gateProfile }),
-      ...(parsed.leafTier === true && { leafTier: true }),
-    };
+    return createHash('sha256').update(await readProjectFile(path)).digest('hex');
   } catch {
     return null;
   }
 }
 
-export async function writeTierStartPending(state: TierStartPendingState): Promise<void> {
-  await writeProjectFile(TIER_PENDING_PATH, JSON.stringify(state, null, 2));
+/** Current branch and HEAD, plus the guide fingerprint when `to` is a guide-tracked state. */
+async function captureBaseline(to: GateState, guidePath?: string): Promise<GateBaseline> {
+  const branch = await getCurrentBranch();
+  const headSha = await getHeadSha();
+  if (!guidePath || !GUIDE_TRACKED_STATES.has(to)) return { branch, headSha };
+  const sha256 = await fingerprintProjectFile(guidePath);
+  return { branch, headSha, ...(sha256 && { guide: { path: guidePath, sha256 } }) };
+}
+
+function withBaseline(entry: GateLedgerEntry, baseline: GateBaseline): GateLedgerEntry {
+  const next: GateLedgerEntry = { ...entry };
+  delete next.branch;
+  delete next.headSha;
+  delete next.guide;
+  return {
+    ...next,
+    ...(baseline.branch && { branch: baseline.branch }),
+    ...(baseline.headSha && { headSha: baseline.headSha }),
+    ...(baseline.guide && { guide: baseline.guide }),
+  };
+}
+
+function newEntry(
+  unit: GateUnit,
+  state: GateState,
+  at: string,
+  by: string,
+  baseline: GateBaseline,
+  traceId?: string
+): GateLedgerEntry {
+  return withBaseline(
+    {
+      id: newGateId(unit, at),
+      state,
+      tier: unit.tier,
+      identifier: unit.identifier,
+      ...(unit.featureName && { featureName: unit.featureName }),
+      ...(traceId && { traceId }),
+      openedAt: at,
+      updatedAt: at,
+      transitions: [{ from: null, to: state, at, by, ...(traceId && { traceId }) }],
+    },
+    baseline
+  );
 }
 
-export async function deleteTierStartPending(): Promise<void> {
-  const { unlink } = await import('fs/promises');
+/** `current` moved to `to` (or refreshed in place when `to` is its state), re-baselined. */
+function moveEntry(
+  current: GateLedgerEntry,
+  to: GateState,
+  at: string,
+  by: string,
+  baseline: GateBaseline,
+  traceId?: string
+): GateLedgerEntry {
+  return withBaseline(
+    {
+      ...current,
+      state: to,
+      updatedAt: at,
+      ...(traceId && { traceId }),
+      transitions: [...current.transitions, { from: current.state, to, at, by, ...(traceId && { traceId }) }],
+    },
+    baseline
+  );
+}
+
+/** Import pre-ledger blobs as open entries (branch unknown); blobs are removed. */
+async function migrateLegacyPending(): Promise<GateLedger> {
+  const { stat, unlink } = await import('fs/promises');
   const { join } = await import('path');
   const { PROJECT_ROOT } = await import('../../utils/utils');
+  const legacy: Array<{ path: string; toEntry: (raw: string, at: string) => GateLedgerEntry | null }> = [
+    {
+      path: TIER_PENDING_PATH,
+      toEntry: (raw, at) => {
+        const tierStart = parseTierStartPending(raw);
+        if (!tierStart) return null;
+        const state: GateState = tierStart.guideFillPending ? 'guide_fill' : 'context_gathering';
+        return { ...newEntry(tierStartUnit(tierStart), state, at, 'migration', NO_BASELINE), tierStart };
+      },
+    },
+    {
+      path: TASK_PENDING_PATH,
+      toEntry: (raw, at) => {
+        const taskStart = parseTaskStartPending(raw);
+        return taskStart
+          ? { ...newEntry(taskStartUnit(taskStart), 'context_gathering', at, 'migration', NO_BASELINE), taskStart }
+          : null;
+      },
+    },
+    {
+      path: TIER_END_PENDING_PATH,
+      toEntry: (raw, at) => {
+        const end = parseEndPending(raw);
+        return end ? { ...newEntry(endUnit(end), 'pending_push', at, 'migration', NO_BASELINE), end } : null;
+      },
+    },
+  ];
+
+  const ledger = emptyLedger();
+  for (const { path, toEntry } of legacy) {
+    const full = join(PROJECT_ROOT, path);
+    try {
+      const raw = await readProjectFile(path);
+      const entry = toEntry(raw, (await stat(full)).mtime.toISOString());
+      if (entry) ledger.entries.push(entry);
+    } catch {
+      continue;
+    }
+    try {
+      await unlink(full);
+    } catch {
+      // ignore if already missing
+    }
+  }
+  if (ledger.entries.length > 0) await writeGateLedger(ledger);
+  return ledger;
+}
+
+/** Read the gate ledger (migrating legacy pending blobs when no ledger exists yet). */
+export async function readGateLedger(): Promise<GateLedger> {
+  let raw: string;
   try {
-    await unlink(join(PROJECT_ROOT, TIER_PENDING_PATH));
+    raw = await readProjectFile(GATE_LEDGER_PATH);
   } catch {
-    // ignore if already missing
+    return migrateLegacyPending();
+  }
+  const parsed = safeParse<{
+    version?: number;
+    entries?: GateLedgerEntry[];
+    current?: Omit<GateLedgerEntry, 'id'> | null;
+    history?: GateLedgerEntry[];
+  }>(raw);
+  if (parsed?.version === 1) {
+    // Single-entry ledger: its current entry becomes the only entry.
+    const current = parsed.current;
+    return {
+      version: 2,
+      entries: current ? [{ ...current, id: newGateId(current, current.openedAt) }] : [],
+      history: [],
+    };
   }
+  if (parsed?.version !== 2) return emptyLedger();
+  return {
+    version: 2,
+    entries: Array.isArray(parsed.entries) ? parsed.entries : [],
+    history: Array.isArray(parsed.history) ? parsed.history : [],
+  };
 }
 
-export async function readTaskStartPending(): Promise<TaskStartPendingState | null> {
-  try {
-    const raw = await readProjectFile(TASK_PENDING_PATH);
-    const parsed = safeParse<{
-      taskId?: string;
-      featureId?: string;
-      featureName?: string;
-      workProfile?: WorkProfile;
-    }>(
-      TASK_PENDING_PATH,
-      raw
-    );
-    if (!parsed?.taskId) return null;
-    let featureId =
-      typeof parsed.featureId === 'string' && parsed.featureId.trim() !== ''
-        ? parsed.featureId.trim()
-        : '';
-    const featureName =
-      typeof parsed.featureName === 'string' && parsed.featureName.trim() !== ''
-        ? parsed.featureName.trim()
-        : '';
-    if (!featureId && !featureName) {
-      const derived = WorkflowId.parseTaskId(parsed.taskId.trim())?.feature;
-      if (derived) featureId = derived;
+async function writeGateLedger(ledger: GateLedger): Promise<void> {
+  await writeProjectFile(GATE_LEDGER_PATH, JSON.stringify(ledger, null, 2));
+}
+
+/** Optional data recorded with a gate: owning trace and the tier guide to fingerprint for drift. */
+export interface GateRecordMeta {
+  traceId?: string;
+  guidePath?: string;
+}
+
+/**
+ * Record a gate opened by a tier run on the current branch. The unit's entry on this branch is refreshed or advanced;
+ * a start gate advancing (e.g. context_gathering → guide_fill after ensure_branch) may also move the unit's entry
+ * from another branch. Otherwise a new entry opens; a same-key entry it cannot transition from is superseded.
+ * Either way the entry is re-baselined (branch, HEAD, guide fingerprint) for drift checks.
+ */
+async function recordGate(
+  unit: GateUnit,
+  to: GateState,
+  by: string,
+  payload: GatePayload,
+  meta: GateRecordMeta
+): Promise<GateLedgerEntry> {
+  const ledger = await readGateLedger();
+  const baseline = await captureBaseline(to, meta.guidePath);
+  const at = new Date().toISOString();
+  const units = ledger.entries.filter((e) => sameUnit(e, unit));
+  const onBranch = units.find((e) => (e.branch ?? null) === baseline.branch);
+  const current =
+    onBranch && (onBranch.state === to || canTransition(onBranch.state, to))
+      ? onBranch
+      : units.find((e) => canTransition(e.state, to));
+
+  let entry: GateLedgerEntry;
+  if (current) {
+    entry = {
+      ...moveEntry(current, to, at, by, baseline, meta.traceId),
+      ...payload,
+      ...(unit.featureName && { featureName: unit.featureName }),
+    };
+    ledger.entries = ledger.entries.map((e) => (e.id === current.id ? entry : e));
+  } else {
+    entry = { ...newEntry(unit, to, at, by, baseline, meta.traceId), ...payload };
+    if (onBranch) archive(ledger, isOpenGate(onBranch) ? { ...onBranch, supersededBy: gateKey(entry) } : onBranch);
+    ledger.entries = [entry, ...ledger.entries];
+  }
+  pruneClosed(ledger);
+  await writeGateLedger(ledger);
+  return entry;
+}
+
+/**
+ * Select the gate `command` acts on (optional identifier; the current branch breaks ties between worktrees).
+ * The failure message names the open gates, or asks for an identifier when several match.
+ */
+export async function requireGate(command: GateCommand, identifier?: string): Promise<GateCheck> {
+  const ledger = await readGateLedger();
+  const branch = identifier ? await getCurrentBranch() : null;
+  return checkGateForCommand(ledger.entries, command, { ...(identifier && { identifier }), branch });
+}
+
+/** Move entry `gateId` with a fresh baseline; null when it is gone or `allowed` rejects its current state. */
+async function updateGate(
+  gateId: string,
+  to: GateState,
+  by: string,
+  allowed: (current: GateLedgerEntry) => boolean,
+  traceId?: string
+): Promise<GateLedgerEntry | null> {
+  const ledger = await readGateLedger();
+  const current = ledger.entries.find((e) => e.id === gateId);
+  if (!current || !allowed(current)) return null;
+  const guidePath = to === current.state ? current.guide?.path : undefined;
+  const entry = moveEntry(current, to, new Date().toISOString(), by, await captureBaseline(to, guidePath), traceId);
+  ledger.entries = ledger.entries.map((e) => (e.id === gateId ? entry : e));
+  pruneClosed(ledger);
+  await writeGateLedger(ledger);
+  return entry;
+}
+
+/**
+ * Move the gate `command` acted on (entry id from `requireGate`) to `to`, recording the current branch / HEAD.
+ * Returns null (and warns) when that gate is no longer open for the command or the transition is not allowed.
+ */
+export async function advanceGate(
+  command: GateCommand,
+  gateId: string,
+  to: GateState,
+  traceId?: string
+): Promise<GateLedgerEntry | null> {
+  const entry = await updateGate(
+    gateId,
+    to,
+    command,
+    (current) => current.state === GATE_COMMANDS[command].from && canTransition(current.state, to),
+    traceId
+  );
+  if (!entry) console.warn(`[GateLedger] ${command}: gate ${gateId} not advanced to ${to} (no longer open for this command).`);
+  return entry;
+}
+
+function gateMaxAgeDays(): number {
+  const raw = typeof process !== 'undefined' ? process.env.HARNESS_GATE_MAX_AGE_DAYS : undefined;
+  const n = raw != null && raw.trim() !== '' ? Number(raw) : NaN;
+  return Number.isFinite(n) ? n : DEFAULT_GATE_MAX_AGE_DAYS;
+}
+
+/**
+ * Compare the gate's baseline with the working tree now: branch, HEAD (with commit count when HEAD advanced),
+ * guide fingerprint, and age (`HARNESS_GATE_MAX_AGE_DAYS`, default 7; 0 disables).
+ */
+export async function detectGateDrift(entry: GateLedgerEntry): Promise<GateDrift[]> {
+  const headSha = await getHeadSha();
+  const drift = compareGateSnapshot(
+    entry,
+    {
+      at: new Date().toISOString(),
+      branch: await getCurrentBranch(),
+      headSha,
+      ...(entry.guide && { guideSha256: await fingerprintProjectFile(entry.guide.path) }),
+    },
+    gateMaxAgeDays()
+  );
+  const head = drift.find((d) => d.kind === 'head_moved');
+  if (head && entry.headSha && headSha) {
+    const behind = await countCommitsBetween(headSha, entry.headSha);
+    const ahead = await countCommitsBetween(entry.headSha, headSha);
+    if (behind === 0 && ahead != null) {
+      head.detail = `HEAD advanced ${ahead} commit${ahead === 1 ? '' : 's'} since the gate (\`${entry.headSha.slice(0, 7)}\` → \`${headSha.slice(0, 7)}\`).`;
+    } else if (behind != null && ahead != null) {
+      head.detail = `${head.detail.replace(/\.$/, '')} (${ahead} new, ${behind} no longer on HEAD — history was rewritten or HEAD switched lines).`;
     }
-    if (!featureId && !featureName) return null;
+  }
+  return drift;
+}
+
+/** How an accepted command handles drift: re-baseline and continue, or drop the gate. */
+export type GateDriftAction = 'refresh' | 'discard';
+
+export type GateDriftGuard =
+  | { status: 'clean' | 'refreshed'; entry: GateLedgerEntry }
+  | {
+      status: 'drift' | 'discarded';
+      reasonCode: 'pending_gate_drift' | 'pending_gate_discarded';
+      message: string;
+      /** Accepted command + identifier (re-run with `--refresh` / `--discard`). */
+      invocation: string;
+    };
+
+const RERUN_HINT: Record<GateTier, string> = {
+  feature: '/feature-start',
+  phase: '/phase-start',
+  session: '/session-start',
+  task: '/task-start',
+};
+
+/**
+ * Drift gate for accepted commands. Clean → proceed. Drift without `onDrift` → `pending_gate_drift` listing what
+ * moved and the refresh / discard invocations; `refresh` re-baselines the gate and proceeds; `discard` closes it.
+ */
+export async function guardGateDrift(
+  command: GateCommand,
+  entry: GateLedgerEntry,
+  onDrift?: GateDriftAction
+): Promise<GateDriftGuard> {
+  const drift = await detectGateDrift(entry);
+  if (drift.length === 0) return { status: 'clean', entry };
+  const invocation = `${command} ${entry.identifier}`;
+
+  if (onDrift === 'refresh') {
+    const refreshed = await updateGate(entry.id, entry.state, `${command} --refresh`, (c) => c.state === entry.state);
+    if (refreshed) return { status: 'refreshed', entry: refreshed };
+  }
+  if (onDrift === 'discard') {
+    await updateGate(entry.id, 'discarded', `${command} --discard`, (c) => canTransition(c.state, 'discarded'));
+    const rerun = entry.state === 'pending_push' ? `/${entry.tier}-end ${entry.identifier}` : `${RERUN_HINT[entry.tier]} ${entry.identifier}`;
     return {
-      taskId: parsed.taskId,
-      ...(featureId !== '' && { featureId }),
-      ...(featureName !== '' && { featureName }),
-      ...(parsed.workProfile != null && { workProfile: parsed.workProfile }),
+      status: 'discarded',
+      reasonCode: 'pending_gate_discarded',
+      invocation,
+      message: `Discarded the ${describeGate(entry)}.\n\nRe-run \`${rerun}\` when ready to open a fresh gate.`,
     };
-  } catch {
-    return null;
   }
+  return {
+    status: 'drift',
+    reasonCode: 'pending_gate_drift',
+    invocation,
+    message: [
+      `**${command}** stopped: the ${describeGate(entry)} has drifted since it was recorded.`,
+      '',
+      ...drift.map((d) => `- ${d.detail}`),
+      '',
+      `- **Refresh** (accept the current branch / HEAD / guide and continue): \`${invocation} --refresh\``,
+      `- **Discard** the gate: \`${invocation} --discard\``,
+    ].join('\n'),
+  };
 }
 
-export async function writeTaskStartPending(state: TaskStartPendingState): Promise<void> {
-  await writeProjectFile(TASK_PENDING_PATH, JSON.stringify(state, null, 2));
+/** Start-side result for a drifted or discarded gate (/accepted-plan, /accepted-build, /accepted-code). */
+export async function gateDriftStartResult(
+  guard: Extract<GateDriftGuard, { status: 'drift' | 'discarded' }>
+): Promise<TierStartResultWithControlPlane> {
+  const drift = guard.status === 'drift';
+  const decision: ControlPlaneDecision = {
+    stop: true,
+    requiredMode: 'plan',
+    message: guard.message,
+    ...(drift && { questionKey: QUESTION_KEYS.GATE_DRIFT_OPTIONS }),
+  };
+  const controlPlaneDecision: ControlPlaneDecision = drift
+    ? {
+        ...decision,
+        choices: choicesForQuestion(QUESTION_KEYS.GATE_DRIFT_OPTIONS, {
+          decision,
+          outcome: { reasonCode: guard.reasonCode, nextAction: guard.message, gateInvocation: guard.invocation },
+        }),
+      }
+    : decision;
+  const choiceBlock = await presentChoices(controlPlaneDecision);
+  return {
+    success: !drift,
+    output: choiceBlock ? `${guard.message}\n\n---\n\n${choiceBlock}` : guard.message,
+    outcome: { status: drift ? 'blocked' : 'completed', reasonCode: guard.reasonCode, nextAction: guard.message },
+    controlPlaneDecision,
+  };
 }
 
-export async function deleteTaskStartPending(): Promise<void> {
-  const { unlink } = await import('fs/promises');
-  const { join } = await import('path');
-  const { PROJECT_ROOT } = await import('../../utils/utils');
-  try {
-    await unlink(join(PROJECT_ROOT, TASK_PENDING_PATH));
-  } catch {
-    // ignore
-  }
+/**
+ * Replace the WorkProfile carried by open start gate `gateId` (tier or task start payload; the tier payload's
+ * redundant gateProfile follows). State, baseline and age are unchanged. Null when the gate is gone or not a start.
+ */
+export async function updateStartGateWorkProfile(
+  gateId: string,
+  workProfile: WorkProfile
+): Promise<GateLedgerEntry | null> {
+  const ledger = await readGateLedger();
+  const current = ledger.entries.find((e) => e.id === gateId);
+  if (!current || !isOpenGate(current) || (!current.tierStart && !current.taskStart)) return null;
+  const entry: GateLedgerEntry = {
+    ...current,
+    ...(current.tierStart && {
+      tierStart: { ...current.tierStart, workProfile, gateProfile: workProfile.gateProfile },
+    }),
+    ...(current.taskStart && { taskStart: { ...current.taskStart, workProfile } }),
+  };
+  ledger.entries = ledger.entries.map((e) => (e.id === gateId ? entry : e));
+  await writeGateLedger(ledger);
+  return entry;
+}
+
+/** Open (or advance to) the start gate: `guide_fill` when `guideFillPending`, else `context_gathering`. */
+export async function writeTierStartPending(state: TierStartPendingState, meta: GateRecordMeta = {}): Promise<void> {
+  const to: GateState = state.guideFillPending === true ? 'guide_fill' : 'context_gathering';
+  await recordGate(tierStartUnit(state), to, `${state.tier}-start`, { tierStart: state }, meta);
+}
+
+export async function writeTaskStartPending(state: TaskStartPendingState, meta: GateRecordMeta = {}): Promise<void> {
+  await recordGate(taskStartUnit(state), 'context_gathering', 'task-start', { taskStart: state }, meta);
 }
 
 // --- End pending (push gate) ---
@@ -210,49 +701,20 @@ export async function resolveWorkflowContextForEndPending(
   }
 }
 
-export async function readEndPending(): Promise<EndPendingState | null> {
-  try {
-    const raw = await readProjectFile(TIER_END_PENDING_PATH);
-    const parsed = safeParse<{
-      tier: string;
-      identifier: string;
-      featureName?: string;
-      cascade?: CascadeInfo;
-    }>(TIER_END_PENDING_PATH, raw);
-    if (!parsed?.tier || !parsed?.identifier) return null;
-    if (
-      parsed.tier !== 'feature' &&
-      parsed.tier !== 'phase' &&
-      parsed.tier !== 'session' &&
-      parsed.tier !== 'task'
-    )
-      return null;
-    const featureName =
-      typeof parsed.featureName === 'string' && parsed.featureName.trim() !== ''
-        ? parsed.featureName.trim()
-        : undefined;
-    return {
-      tier: parsed.tier as EndPendingState['tier'],
-      identifier: String(parsed.identifier),
-      ...(featureName != null && { featureName }),
-      ...(parsed.cascade != null && { cascade: parsed.cascade }),
-    };
-  } catch {
-    return null;
-  }
+export async function writeEndPending(state: EndPendingState, meta: GateRecordMeta = {}): Promise<void> {
+  await recordGate(endUnit(state), 'pending_push', `${state.tier}-end`, { end: state }, meta);
 }
 
-export async function writeEndPending(state: EndPendingState): Promise<void> {
-  await writeProjectFile(TIER_END_PENDING_PATH, JSON.stringify(state, null, 2));
-}
-
-export async function deleteEndPending(): Promise<void> {
-  const { unlink } = await import('fs/promises');
-  const { join } = await import('path');
-  const { PROJECT_ROOT } = await import('../../utils/utils');
-  try {
-    await unlink(join(PROJECT_ROOT, TIER_END_PENDING_PATH));
-  } catch {
-    // ignore
+/** Tier guide a gate fingerprints for drift (feature / phase / session); tasks have none of their own. */
+export function gateGuidePath(context: WorkflowCommandContext, tier: GateTier, identifier: string): string | undefined {
+  switch (tier) {
+    case 'feature':
+      return context.paths.getFeatureGuidePath();
+    case 'phase':
+      return context.paths.getPhaseGuidePath(identifier);
+    case 'session':
+      return context.paths.getSessionGuidePath(identifier);
+    case 'task':
+      return undefined;
   }
 }
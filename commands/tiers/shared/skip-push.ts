@@ -1,14 +1,19 @@
 /**
- * /skip-push: clear end-pending without pushing; surfaces cascade from `.tier-end-pending.json` for playbook handling.
+ * /skip-push: close the `pending_push` gate as `skipped` without pushing; surfaces the gate's cascade for playbook handling.
  */
 
 import {
-  readEndPending,
-  deleteEndPending,
+  requireGate,
+  advanceGate,
+  guardGateDrift,
+  type GateDriftAction,
   type EndPendingState,
 } from './pending-state';
+import { gateCheckReasonCode } from './gate-ledger';
 import type { ControlPlaneDecision } from './control-plane-types';
 import { routeByOutcome } from './control-plane-route';
+import { retryViaCommand } from './control-plane-choice-display';
+import { presentChoices } from './choose';
 import type { CommandResultForRouting } from './control-plane-types';
 
 export interface SkipPushResult {
@@ -26,22 +31,26 @@ export interface SkipPushResult {
 const NO_PENDING_MESSAGE =
   'No pending push to skip. If you already pushed or cleared state, nothing to do.';
 
-function wrap(
+async function wrap(
   result: CommandResultForRouting,
   pending: EndPendingState | null
-): SkipPushResult {
+): Promise<SkipPushResult> {
   const o = result.outcome ?? {
     reasonCode: 'unhandled_error',
     nextAction: result.output,
   };
-  const decision = routeByOutcome(result, {
-    tier: pending?.tier ?? 'task',
-    action: 'end',
-    originalParams: pending != null ? { identifier: pending.identifier } : {},
-  });
+  const decision = retryViaCommand(
+    routeByOutcome(result, {
+      tier: pending?.tier ?? 'task',
+      action: 'end',
+      originalParams: pending != null ? { identifier: pending.identifier } : {},
+    }),
+    pending != null ? `/skip-push ${pending.identifier}` : '/skip-push'
+  );
+  const choiceBlock = await presentChoices(decision);
   return {
     success: result.success,
-    output: result.output,
+    output: choiceBlock ? `${result.output}\n\n---\n\n${choiceBlock}` : result.output,
     outcome: {
       status: result.success ? 'completed' : 'failed',
       reasonCode: String(o.reasonCode),
@@ -53,31 +62,52 @@ function wrap(
 }
 
 /**
- * Skip push and clear end-pending. User runs in Cursor.
+ * Skip push and close the push gate. User runs in Cursor.
  */
-export async function skipPush(): Promise<SkipPushResult> {
-  const pending = await readEndPending();
-  if (!pending) {
+export async function skipPush(
+  identifier?: string,
+  options: { onDrift?: GateDriftAction } = {}
+): Promise<SkipPushResult> {
+  const gate = await requireGate('/skip-push', identifier);
+  const pending = gate.ok ? gate.entry.end : undefined;
+  if (!gate.ok || !pending) {
+    const message = gate.ok
+      ? NO_PENDING_MESSAGE
+      : gate.reason === 'none'
+        ? `${NO_PENDING_MESSAGE}\n\n${gate.message}`
+        : gate.message;
     return wrap(
       {
         success: false,
-        output: NO_PENDING_MESSAGE,
+        output: message,
         outcome: {
-          reasonCode: 'no_pending_push',
-          nextAction: NO_PENDING_MESSAGE,
+          reasonCode: gate.ok ? 'no_pending_push' : gateCheckReasonCode(gate, 'no_pending_push'),
+          nextAction: message,
         },
       },
       null
     );
   }
 
-  await deleteEndPending();
+  const guard = await guardGateDrift('/skip-push', gate.entry, options.onDrift);
+  if (guard.status === 'drift' || guard.status === 'discarded') {
+    return wrap(
+      {
+        success: guard.status === 'discarded',
+        output: guard.message,
+        outcome: { reasonCode: guard.reasonCode, nextAction: guard.message, gateInvocation: guard.invocation },
+      },
+      pending
+    );
+  }
+
+  await advanceGate('/skip-push', gate.entry.id, 'skipped');
 
   const cascade = pending.cascade;
   const nextAction =
     cascade != null
       ? `Push skipped. **Cascade (optional):** ${cascade.command} (${cascade.tier} ${cascade.identifier}).`
-      : 'Push skipped. End-pending cleared.';
+      : 'Push skipped. Push gate closed.';
 
   return wrap(
     {
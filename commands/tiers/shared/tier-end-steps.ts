@@ -7,9 +7,12 @@ import type {
   TierEndWorkflowContext,
   TierEndWorkflowHooks,
   StepExitResult,
+  EndPolicyDecision,
 } from './tier-end-workflow-types';
+import type { PolicySet } from '../../harness/contracts';
 import { resolveCommandExecutionMode, isPlanMode } from '../../utils/command-execution-mode';
 import { resolveRunTests, buildPlanModeResult } from '../../utils/tier-end-utils';
+import { TEST_CONFIG } from '../../testing/utils/test-config';
 import { workflowCleanupReadmes } from '../../readme/composite/readme-workflow-cleanup';
 import { runEndAuditForTier } from '../../audit/run-end-audit-for-tier';
 import type { AuditTier } from '../../audit/types';
@@ -21,13 +24,16 @@ import {
   DEFAULT_ALLOWED_COMMIT_PREFIXES,
   preflightFeatureBranchForHarness,
   propagateSharedFiles,
+  listWorkingTreeChangedRepoPaths,
   type InScopeDiffPreviewResult,
 } from '../../git/shared/git-manager';
+import { detectFeatureModifiedFiles } from '../../utils/detect-modified-files';
+import { selectChangedTestFiles } from '../../testing/composite/test-end-workflow';
 import {
   DocumentManagerWriteBlockedError,
   type DocumentTier,
 } from '../../utils/document-manager';
-import { PROJECT_ROOT } from '../../utils/utils';
+import { PROJECT_ROOT, runCommand } from '../../utils/utils';
 import type { TierName } from './types';
 import type { PlanningTier } from '../../utils/planning-doc-paths';
 import { analyzeDeliverablesDriftFromContent } from './tier-end-deliverables-drift';
@@ -42,6 +48,7 @@ import {
 } from '../../harness/workflow-friction-manager';
 import {
   resolveDocRollupProfile,
+  docRollupProfileForPolicy,
   docRollupRunsLogHandoff,
   docRollupRunsGuideSafe,
 } from '../../utils/doc-rollup-policy';
@@ -192,6 +199,33 @@ async function buildGovernanceGuidance(
   return targeted + shared;
 }
 
+/**
+ * Record how `ctx.policies` decided an end step. run-end-steps attaches it to the step's trace event
+ * (`details.policy`) and records the step as skip when `run` is false.
+ */
+function decidePolicy(
+  ctx: TierEndWorkflowContext,
+  stepId: string,
+  policy: keyof PolicySet,
+  run: boolean,
+  reason: string
+): EndPolicyDecision | null {
+  if (!ctx.policies) return null;
+  const decision: EndPolicyDecision = { policy, value: ctx.policies[policy], run, reason };
+  (ctx.policyDecisions = ctx.policyDecisions ?? {})[stepId] = decision;
+  return decision;
+}
+
+/** Policy decision recorded for `stepId` in this run, if any. */
+export function getEndPolicyDecision(ctx: TierEndWorkflowContext, stepId: string): EndPolicyDecision | undefined {
+  return ctx.policyDecisions?.[stepId];
+}
+
+/** True when `policies.audits` allows the tier-end audit (no policies: hooks decide alone). */
+export function endAuditAllowedByPolicy(policies: PolicySet | undefined): boolean {
+  return policies == null || policies.audits === 'end_only' || policies.audits === 'full';
+}
+
 /** If plan mode, build plan result and return it; else null. Uses same options contract as tier-start (ctx.options, default execute). */
 export function stepPlanModeExit(
   ctx: TierEndWorkflowContext,
@@ -209,11 +243,25 @@ export function stepPlanModeExit(
   };
 }
 
-/** Resolve runTests; if blocked, return early result; else set ctx.shouldRunTests. */
-export function stepResolveRunTests(
+/** Repo-relative files changed on the current branch (vs its base) or in the working tree; tests `changed_only` scope. */
+async function listChangedRepoFiles(ctx: TierEndWorkflowContext): Promise<string[]> {
+  const [branchFiles, workingTreeFiles] = await Promise.all([
+    detectFeatureModifiedFiles(ctx.context.feature.name, ctx.context),
+    listWorkingTreeChangedRepoPaths(),
+  ]);
+  return [...new Set([...branchFiles, ...workingTreeFiles])];
+}
+
+/**
+ * Resolve runTests; if blocked, return early result; else set ctx.shouldRunTests.
+ * An explicit runTests always wins (and requireExplicitRunTests still blocks without one). When runTests is not set,
+ * `ctx.policies.tests` decides: skip → no tests; full → whole suite; changed_only → only the tests covering changed
+ * files (ctx.changedTestFiles), no tests when none do. Without policies the legacy runTests / TEST_CONFIG rules apply.
+ */
+export async function stepResolveRunTests(
   ctx: TierEndWorkflowContext,
   hooks: TierEndWorkflowHooks
-): StepExitResult {
+): Promise<StepExitResult> {
   const params = ctx.params as { runTests?: boolean };
   const { shouldRunTests, blockedOutcome } = resolveRunTests(params, {
     requireExplicit: hooks.requireExplicitRunTests === true,
@@ -227,6 +275,33 @@ export function stepResolveRunTests(
       outcome: blockedOutcome,
     };
   }
+  const testsPolicy = ctx.policies?.tests;
+  if (testsPolicy == null) return null;
+
+  if (!TEST_CONFIG.enabled) {
+    decidePolicy(ctx, 'run_tests', 'tests', false, 'tests disabled in TEST_CONFIG');
+  } else if (params.runTests !== undefined) {
+    decidePolicy(ctx, 'run_tests', 'tests', shouldRunTests, `runTests=${String(params.runTests)} (overrides policies.tests=${testsPolicy})`);
+  } else if (testsPolicy === 'skip') {
+    ctx.shouldRunTests = false;
+    decidePolicy(ctx, 'run_tests', 'tests', false, 'policies.tests=skip');
+  } else if (testsPolicy === 'full') {
+    ctx.shouldRunTests = true;
+    decidePolicy(ctx, 'run_tests', 'tests', true, 'policies.tests=full');
+  } else {
+    const changedFiles = await listChangedRepoFiles(ctx);
+    ctx.changedTestFiles = selectChangedTestFiles(changedFiles);
+    ctx.shouldRunTests = ctx.changedTestFiles.length > 0;
+    decidePolicy(
+      ctx,
+      'run_tests',
+      'tests',
+      ctx.shouldRunTests,
+      ctx.shouldRunTests
+        ? `policies.tests=changed_only (${ctx.changedTestFiles.length} test file(s) for ${changedFiles.length} changed file(s))`
+        : `policies.tests=changed_only (no tests cover ${changedFiles.length} changed file(s))`
+    );
+  }
   return null;
 }
 
@@ -248,11 +323,15 @@ export async function stepTestGoalValidation(
   return hooks.runTestGoalValidation(ctx);
 }
 
-/** Call hook for running tests; return its result or null. */
+/** Call hook for running tests; return its result or null. Skipped when the tests policy decision (stepResolveRunTests) says so. */
 export async function stepRunTests(
   ctx: TierEndWorkflowContext,
   hooks: TierEndWorkflowHooks
 ): Promise<StepExitResult> {
+  if (getEndPolicyDecision(ctx, 'run_tests')?.run === false) {
+    ctx.steps.runTests = { success: true, output: `Tests skipped (${getEndPolicyDecision(ctx, 'run_tests')!.reason}).` };
+    return null;
+  }
   if (!hooks.runTests) return null;
   return hooks.runTests(ctx);
 }
@@ -572,8 +651,18 @@ export async function stepDocRollup(ctx: TierEndWorkflowContext): Promise<void>
     return;
   }
 
-  const profile = resolveDocRollupProfile(ctx.options);
-  if (profile === 'off' || profile === 'planning_only') {
+  const profile = ctx.policies
+    ? docRollupProfileForPolicy(ctx.policies.docs, ctx.options)
+    : resolveDocRollupProfile(ctx.options);
+  const skipRollup = profile === 'off' || profile === 'planning_only';
+  decidePolicy(
+    ctx,
+    'doc_rollup',
+    'docs',
+    !skipRollup,
+    ctx.options?.docRollupProfile ? `docRollupProfile=${profile} (explicit)` : `policies.docs=${ctx.policies?.docs ?? ''} → ${profile}`
+  );
+  if (skipRollup) {
     ctx.steps.doc_rollup = {
       success: true,
       output: `Doc rollup skipped (docRollupProfile=${profile}).`,
@@ -734,12 +823,36 @@ export async function stepCommitUncommittedNonCursor(
   return null;
 }
 
-/** Call hook runGit; return its result or null. */
+/** True when `policies.git` lets tier-end git delete merged branches (`full`; no policies: hooks decide alone). */
+export function gitDeletesMergedBranches(ctx: TierEndWorkflowContext): boolean {
+  return ctx.policies == null || ctx.policies.git === 'full';
+}
+
+/**
+ * Call hook runGit; return its result or null. `policies.git`: off skips the hook (no commit / merge / push);
+ * safe commits, merges and pushes but keeps merged branches; full also deletes them (gitDeletesMergedBranches).
+ */
 export async function stepTierGit(
   ctx: TierEndWorkflowContext,
   hooks: TierEndWorkflowHooks
 ): Promise<StepExitResult> {
   if (!hooks.runGit) return null;
+  const gitPolicy = ctx.policies?.git;
+  decidePolicy(
+    ctx,
+    'git',
+    'git',
+    gitPolicy !== 'off',
+    gitPolicy === 'off'
+      ? 'policies.git=off'
+      : gitPolicy === 'safe'
+        ? 'policies.git=safe (merged branches kept)'
+        : 'policies.git=full (merged branches deleted)'
+  );
+  if (gitPolicy === 'off') {
+    ctx.steps.gitMerge = { success: true, output: 'Skipped (policies.git=off)' };
+    return null;
+  }
   return hooks.runGit(ctx);
 }
 
@@ -825,18 +938,15 @@ export async function stepConfigFix(
   ctx: TierEndWorkflowContext,
   hooks: TierEndWorkflowHooks
 ): Promise<void> {
-  if (hooks.runEndAudit !== true) return;
+  if (hooks.runEndAudit !== true || !endAuditAllowedByPolicy(ctx.policies)) return;
 
-  const { execSync } = await import('child_process');
   const { join } = await import('path');
   const scriptPath = join(PROJECT_ROOT, 'client/.scripts/config-fix.mjs');
 
   try {
-    const stdout = execSync(`node "${scriptPath}"`, {
-      cwd: PROJECT_ROOT,
-      encoding: 'utf8',
-      timeout: 15_000,
-    });
+    const result = await runCommand(`node "${scriptPath}"`, PROJECT_ROOT, { timeoutMs: 15_000 });
+    if (!result.success) throw new Error(result.error ?? result.output);
+    const stdout = result.output;
 
     const hasAutoFixes = /Total auto-fixes applied: \*\*[1-9]/.test(stdout);
     ctx.steps.configFix = {
@@ -863,6 +973,12 @@ export async function stepEndAudit(
   hooks: TierEndWorkflowHooks
 ): Promise<StepExitResult> {
   if (hooks.runEndAudit !== true) return null;
+  const auditAllowed = endAuditAllowedByPolicy(ctx.policies);
+  decidePolicy(ctx, 'end_audit', 'audits', auditAllowed, `policies.audits=${ctx.policies?.audits ?? ''}`);
+  if (!auditAllowed) {
+    ctx.steps.audit = { success: true, output: `End audit skipped (policies.audits=${ctx.policies!.audits}).` };
+    return null;
+  }
   if (hooks.runBeforeAudit) await hooks.runBeforeAudit(ctx);
   const auditResult = await runEndAuditForTier({
     tier: ctx.config.name,
@@ -954,7 +1070,7 @@ export async function stepAfterAudit(
   return null;
 }
 
-/** Build cascade from hook and set ctx.outcome.cascade. */
+/** Build cascade from hook and set ctx.outcome.cascade; `policies.cascade=auto` marks it for confirmation-free routing. */
 export async function stepBuildEndCascade(
   ctx: TierEndWorkflowContext,
   hooks: TierEndWorkflowHooks
@@ -962,6 +1078,8 @@ export async function stepBuildEndCascade(
   if (!hooks.getCascade) return;
   const cascade = await hooks.getCascade(ctx);
   if (cascade) {
-    ctx.outcome = { ...ctx.outcome, cascade };
+    const auto = ctx.policies?.cascade === 'auto';
+    decidePolicy(ctx, 'cascade', 'cascade', true, auto ? 'policies.cascade=auto (no confirmation)' : 'policies.cascade=manual_confirm');
+    ctx.outcome = { ...ctx.outcome, cascade: auto ? { ...cascade, autoConfirm: true } : cascade };
   }
 }
@@ -7,12 +7,22 @@ import type { TierConfig } from './types';
 import type { WorkflowCommandContext } from '../../utils/command-context';
 import type { TierEndOutcome, CascadeInfo } from '../../utils/tier-outcome';
 import type { AutofixResult } from '../../audit/types';
-import type { RunRecorder, RunTraceHandle } from '../../harness/contracts';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../harness/contracts';
+import type { KernelStepDriver } from '../../harness/step-driver';
 import type { CommandExecutionOptions } from '../../utils/command-execution-mode';
 
 /** Step record shape used by feature/phase/session end results. */
 export type TierEndStepRecord = Record<string, { success: boolean; output: string }>;
 
+/** How the resolved spec policy decided an end step (recorded on that step's trace event as details.policy). */
+export interface EndPolicyDecision {
+  policy: keyof PolicySet;
+  value: string;
+  /** False when the policy skipped the step (the step's trace event is recorded as skip). */
+  run: boolean;
+  reason: string;
+}
+
 /**
  * Context passed through the end workflow.
  * params is tier-specific; impls cast when building hooks.
@@ -28,6 +38,8 @@ export interface TierEndWorkflowContext {
   output: string[];
   steps: TierEndStepRecord;
   shouldRunTests: boolean;
+  /** Set by stepResolveRunTests under `policies.tests=changed_only`: the repo-relative test files the run is limited to. */
+  changedTestFiles?: string[];
   outcome: TierEndOutcome;
   auditPayload?: unknown;
   /** When set, tier-end audit step awaits this instead of spawning audits from scratch. */
@@ -36,6 +48,12 @@ export interface TierEndWorkflowContext {
   runRecorder?: RunRecorder;
   runTraceHandle?: RunTraceHandle;
   stepPath?: string[];
+  /** Set when the harness kernel drives this run; each END_KERNEL_SEGMENTS group parks until its StepId runs. */
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies (kernel runs); when unset, steps fall back to hooks and params only. */
+  policies?: PolicySet;
+  /** Policy decision per end step id, filled by the steps that consult `policies`. */
+  policyDecisions?: Record<string, EndPolicyDecision>;
 }
 
 /** Result of optional gap_analysis hook (tier-end soft gate). */
@@ -17,10 +17,10 @@ import {
 import { verifyApp } from '../../utils/verify-app';
 import { routeByOutcome } from './control-plane-route';
 import type { ControlPlaneDecision, CommandResultForRouting } from './control-plane-types';
-import { formatChoiceForChat } from './control-plane-choice-display';
-import { getDefaultShadowRecorder } from '../../harness/run-recorder-shadow';
+import { presentChoices } from './choose';
+import { getDefaultRunRecorder } from '../../harness/run-recorder-file';
 import { createContextInjector, createNodeFileSystemAdapter } from '../../harness/context-injector';
-import type { WorkflowSpec } from '../../harness/contracts';
+import type { ContextPack, RunRecorder, WorkflowSpec } from '../../harness/contracts';
 import { PROJECT_ROOT } from '../../utils/utils';
 import { defaultKernel } from '../../harness/kernel';
 import { createDefaultPlugins } from '../../harness/default-plugins';
@@ -29,8 +29,14 @@ import { defaultProfileDefaultsResolver } from '../../harness/spec-builder';
 import { buildSpecFromTierRun } from '../../harness/build-spec-from-tier';
 import { classifyWorkProfile } from '../../harness/work-profile-classifier';
 import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-context';
-import { writeEndPending } from './pending-state';
+import { writeEndPending, gateGuidePath } from './pending-state';
 import { recordOrchestratorFailureFriction } from '../../harness/workflow-friction-manager';
+import {
+  findWorktreeForBranch,
+  getExpectedBranchForTier,
+  isCurrentWorktree,
+  isTierWorktreeModeEnabled,
+} from '../../git/shared/git-manager';
 
 export type TierEndParams =
   | FeatureEndParams
@@ -79,6 +85,22 @@ function getIdentifierFromEndParams(config: TierConfig, params: TierEndParams):
   }
 }
 
+/** Record the tier-end context report as the first context line of the kernel run's own trace. */
+function withContextReport(recorder: RunRecorder, pack: ContextPack | null): RunRecorder {
+  if (!pack) return recorder;
+  return {
+    begin: async (spec) => {
+      const handle = await recorder.begin(spec);
+      await recorder.contextReport(handle, pack);
+      return handle;
+    },
+    step: (handle, evt) => recorder.step(handle, evt),
+    decision: (handle, decision) => recorder.decision(handle, decision),
+    contextReport: (handle, p) => recorder.contextReport(handle, p),
+    end: (handle, result) => recorder.end(handle, result),
+  };
+}
+
 export async function runTierEnd(
   config: TierConfig,
   params: TierEndParams
@@ -117,10 +139,8 @@ export async function runTierEnd(
       { tier: config.name, action: 'end', originalParams: params }
     );
     let failedOutput = failedResult.output;
-    if (decision.stop && decision.questionKey) {
-      const choiceBlock = formatChoiceForChat(decision);
-      if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
-    }
+    const choiceBlock = await presentChoices(decision);
+    if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
     return {
       ...failedResult,
       output: failedOutput,
@@ -128,14 +148,31 @@ export async function runTierEnd(
     } as TierEndResultWithControlPlane;
   }
 
-  const shadowRecorder = getDefaultShadowRecorder();
-  const runId = `run_${config.name}_end_${Date.now()}`;
-  const handle = await shadowRecorder.begin({
-    runId,
-    tier: config.name,
-    action: 'end',
-    identifier,
-  });
+  // Worktree mode: run tier-end inside the worktree holding the tier branch, never by checking it out here.
+  if (isTierWorktreeModeEnabled()) {
+    const expectedBranch = await getExpectedBranchForTier(config, identifier, context);
+    const holder = expectedBranch ? await findWorktreeForBranch(expectedBranch) : null;
+    if (holder && !isCurrentWorktree(holder.path)) {
+      const nextAction = `${expectedBranch} lives in worktree ${holder.path}. Re-run this command from there: \`cd '${holder.path}'\`.`;
+      const redirectResult: TierEndResult = {
+        success: true,
+        output: nextAction,
+        steps: {},
+        outcome: {
+          status: 'blocked_needs_input',
+          reasonCode: 'worktree_redirect',
+          nextAction,
+        },
+      };
+      const decision = routeByOutcome(
+        redirectResult as CommandResultForRouting,
+        { tier: config.name, action: 'end', originalParams: params }
+      );
+      return { ...redirectResult, controlPlaneDecision: decision } as TierEndResultWithControlPlane;
+    }
+  }
+
+  const runRecorder = getDefaultRunRecorder();
 
   const minimalSpec: Pick<WorkflowSpec, 'tier' | 'action' | 'identifier' | 'featureContext' | 'contextBudget'> = {
     tier: config.name,
@@ -144,12 +181,13 @@ export async function runTierEnd(
     featureContext: { featureId: context.feature.name, featureName: context.feature.name },
     contextBudget: { maxTokens: 8000, maxArtifacts: 15, maxFiles: 10, includeHistory: 'recent' },
   };
+  let contextPack: ContextPack | null = null;
   try {
     const injector = createContextInjector();
     const plan = injector.plan(minimalSpec as WorkflowSpec);
     const sources = { fs: createNodeFileSystemAdapter(PROJECT_ROOT) };
     const pack = await injector.build(plan, sources);
-    await shadowRecorder.contextReport(handle, { summary: pack.summary, budget: pack.budget });
+    contextPack = { summary: pack.summary, budget: pack.budget };
   } catch (_e) {
     // Telemetry-only: do not fail the run
   }
@@ -215,6 +253,7 @@ export async function runTierEnd(
       mode: resolveCommandExecutionMode(getOptionsFromParams(params), 'execute'),
       userChoices,
       workProfile,
+      ...endOptionsForChoices?.harnessResume,
     });
     const adapter = createStepAdapter({
       config,
@@ -223,11 +262,12 @@ export async function runTierEnd(
     });
     const kernelResult = await defaultKernel.run(spec, {
       contextInjector: createContextInjector(),
-      recorder: shadowRecorder,
+      recorder: withContextReport(runRecorder, contextPack),
       adapter,
       profileDefaults: defaultProfileDefaultsResolver,
       routingContext: { tier: config.name, action: 'end', originalParams: params, workProfile },
-      plugins: createDefaultPlugins(),
+      plugins: await createDefaultPlugins(),
+      sources: { fs: createNodeFileSystemAdapter(PROJECT_ROOT) },
     });
     // Kernel returns charter reasonCode 'pending_push' (adapters map pending_push_confirmation → pending_push)
     if (kernelResult.outcome.reasonCode === 'pending_push') {
@@ -236,13 +276,11 @@ export async function runTierEnd(
         identifier,
         featureName: context.feature.name,
         cascade: kernelResult.outcome.cascade,
-      });
+      }, { traceId: kernelResult.traceId, guidePath: gateGuidePath(context, config.name, identifier) });
     }
     let finalOutput = kernelResult.output;
-    if (kernelResult.controlPlaneDecision.stop && kernelResult.controlPlaneDecision.questionKey) {
-      const choiceBlock = formatChoiceForChat(kernelResult.controlPlaneDecision);
-      if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
-    }
+    const choiceBlock = await presentChoices(kernelResult.controlPlaneDecision);
+    if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
     return {
       success: kernelResult.success,
       output: finalOutput,
@@ -276,10 +314,8 @@ export async function runTierEnd(
       { tier: config.name, action: 'end', originalParams: params }
     );
     let failedOutput = failedResult.output;
-    if (decision.stop && decision.questionKey) {
-      const choiceBlock = formatChoiceForChat(decision);
-      if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
-    }
+    const choiceBlock = await presentChoices(decision);
+    if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
     return {
       ...failedResult,
       output: failedOutput,
@@ -9,9 +9,10 @@ import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-
 import { WorkflowId } from '../../utils/id-utils';
 import { routeByOutcome } from './control-plane-route';
 import type { ControlPlaneDecision } from './control-plane-types';
-import { formatChoiceForChat } from './control-plane-choice-display';
-import { getDefaultShadowRecorder } from '../../harness/run-recorder-shadow';
-import { createContextInjector } from '../../harness/context-injector';
+import { presentChoices } from './choose';
+import { getDefaultRunRecorder } from '../../harness/run-recorder-file';
+import { createContextInjector, createNodeFileSystemAdapter } from '../../harness/context-injector';
+import { PROJECT_ROOT } from '../../utils/utils';
 import { defaultKernel } from '../../harness/kernel';
 import { createDefaultPlugins } from '../../harness/default-plugins';
 import { createStepAdapter } from '../../harness/step-adapter';
@@ -73,7 +74,7 @@ export async function runTierReopen(
   metadata?: WorkflowSpec['metadata']
 ): Promise<TierReopenResultWithControlPlane> {
   const identifier = params.identifier.trim();
-  const shadowRecorder = getDefaultShadowRecorder();
+  const runRecorder = getDefaultRunRecorder();
 
   let context: WorkflowCommandContext;
   try {
@@ -114,10 +115,8 @@ export async function runTierReopen(
       }
     );
     let failedOutput = failedResult.output;
-    if (decision.stop && decision.questionKey) {
-      const choiceBlock = formatChoiceForChat(decision);
-      if (choiceBlock) failedOutput = `${failedOutput}\n\n---\n\n${choiceBlock}`;
-    }
+    const choiceBlock = await presentChoices(decision);
+    if (choiceBlock) failedOutput = `${failedOutput}\n\n---\n\n${choiceBlock}`;
     return {
       ...failedResult,
       output: failedOutput,
@@ -142,10 +141,8 @@ export async function runTierReopen(
       { tier: config.name, action: 'reopen', originalParams: params }
     );
     let out = r.output;
-    if (decision.stop && decision.questionKey) {
-      const choiceBlock = formatChoiceForChat(decision);
-      if (choiceBlock) out = `${out}\n\n---\n\n${choiceBlock}`;
-    }
+    const choiceBlock = await presentChoices(decision);
+    if (choiceBlock) out = `${out}\n\n---\n\n${choiceBlock}`;
     return { ...r, output: out, controlPlaneDecision: decision };
   }
 
@@ -169,18 +166,17 @@ export async function runTierReopen(
     });
     const kernelResult = await defaultKernel.run(spec, {
       contextInjector: createContextInjector(),
-      recorder: shadowRecorder,
+      recorder: runRecorder,
       adapter,
       profileDefaults: defaultProfileDefaultsResolver,
       routingContext: { tier: config.name, action: 'reopen', originalParams: params, workProfile },
-      plugins: createDefaultPlugins(),
+      plugins: await createDefaultPlugins(),
+      sources: { fs: createNodeFileSystemAdapter(PROJECT_ROOT) },
     });
 
     let finalOutput = kernelResult.output;
-    if (kernelResult.controlPlaneDecision.stop && kernelResult.controlPlaneDecision.questionKey) {
-      const choiceBlock = formatChoiceForChat(kernelResult.controlPlaneDecision);
-      if (choiceBlock) finalOutput = `${finalOutput}\n\n---\n\n${choiceBlock}`;
-    }
+    const choiceBlock = await presentChoices(kernelResult.controlPlaneDecision);
+    if (choiceBlock) finalOutput = `${finalOutput}\n\n---\n\n${choiceBlock}`;
 
     const base: TierReopenResult = kernelResult.success
       ? {
@@ -234,10 +230,8 @@ export async function runTierReopen(
       }
     );
     let failedOutput = failedResult.output;
-    if (decision.stop && decision.questionKey) {
-      const choiceBlock = formatChoiceForChat(decision);
-      if (choiceBlock) failedOutput = `${failedOutput}\n\n---\n\n${choiceBlock}`;
-    }
+    const choiceBlock = await presentChoices(decision);
+    if (choiceBlock) failedOutput = `${failedOutput}\n\n---\n\n${choiceBlock}`;
     return {
       ...failedResult,
       output: failedOutput,
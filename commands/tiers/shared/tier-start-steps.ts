@@ -22,6 +22,7 @@ import { buildCascadeDown } from '../../utils/tier-cascade';
 import { spawn } from 'child_process';
 import { join } from 'path';
 import type { AuditTier } from '../../audit/types';
+import type { PolicySet } from '../../harness/contracts';
 import { buildTierStampFromId } from '../../audit/baseline-log';
 import { buildGovernanceContext } from '../../audit/governance-context';
 import { buildContinuitySummary, buildReferencePaths, type ReferencePaths, TIER_CONTEXT_SOURCES } from './context-policy';
@@ -38,8 +39,8 @@ import {
 } from './ensure-tier-down-docs';
 import { ensureGuideHasRequiredSections } from './guide-required-sections';
 import { readProjectFile, PROJECT_ROOT } from '../../utils/utils';
-import { buildTierAdvisoryContext } from '../../harness/tier-advisory-context';
-import { classifyWorkProfile, mergeBookingGovernanceDomain } from '../../harness/work-profile-classifier';
+import { buildTierAdvisoryContext, replaceWorkProfileSection } from '../../harness/tier-advisory-context';
+import { classifyWorkProfile, mergeConfiguredGovernanceDomains } from '../../harness/work-profile-classifier';
 import { resolvePlanningDocRelativePath } from '../../utils/planning-doc-paths';
 import type { PlanningTier } from '../../utils/planning-doc-paths';
 import type { WorkflowCommandContext } from '../../utils/command-context';
@@ -154,6 +155,18 @@ export async function stepEnsureStartBranch(
       }
       return null;
     }
+    if (branchResult.worktreeRedirect) {
+      // Worktree mode: the tier branch lives in another worktree; nothing was checked out here.
+      return {
+        success: true,
+        output: ctx.output.join('\n\n'),
+        outcome: {
+          status: 'blocked',
+          reasonCode: 'worktree_redirect',
+          nextAction: `Re-run this command from the tier worktree: \`cd '${branchResult.worktreeRedirect}'\`.`,
+        },
+      };
+    }
     return {
       success: false,
       output: ctx.output.join('\n\n'),
@@ -1303,7 +1316,7 @@ export async function stepContextGathering(
     : undefined;
   const baseWorkProfile =
     ctx.options?.workProfile ?? classifyWorkProfile({ tier: ctx.config.name, action: 'start' });
-  const workProfileForAdvisory = mergeBookingGovernanceDomain(
+  const workProfileForAdvisory = mergeConfiguredGovernanceDomains(
     baseWorkProfile,
     ctx.config.name,
     taskFiles
@@ -1351,7 +1364,15 @@ export async function stepContextGathering(
   let contentForSubstantiveCheck = existingContent;
   if (existingContent !== null && isPlanningDocFilled(existingContent)) {
     ctx.planningDocPath = planningDocPath;
-    /* Skip write so re-running tier-start in plan mode does not overwrite the agent's filled doc. */
+    /* Skip full rewrite so re-running tier-start in plan mode does not overwrite the agent's filled doc;
+       only an inferred Work Profile is refreshed in place. */
+    if (workProfileForAdvisory.inference) {
+      const refreshed = replaceWorkProfileSection(existingContent, advisory.workProfileSection);
+      if (refreshed !== existingContent) {
+        await ctx.context.documents.writePlanningDoc(planningTier, ctx.identifier, refreshed);
+        contentForSubstantiveCheck = refreshed;
+      }
+    }
   } else {
     const content = buildPlanningDocContent(
       ctx,
@@ -1482,8 +1503,13 @@ export async function stepRunExtras(
   if (extra) ctx.output.push(extra);
 }
 
+/** True when `policies.audits` allows the tier-start audit (no policies: hooks decide alone). */
+export function startAuditAllowedByPolicy(policies: PolicySet | undefined): boolean {
+  return policies == null || policies.audits === 'start_only' || policies.audits === 'full';
+}
+
 /**
- * Spawn start audit in the background (fire-and-forget).
+ * Spawn start audit in the background (fire-and-forget). Skipped when `policies.audits` is off or end_only.
  * The background runner executes npm audit scripts, computes governance scores,
  * and appends a "start" entry to the baseline log (.audit-baseline-log.jsonl).
  * Nothing in the tier-start pipeline blocks on or reads the audit results.
@@ -1494,6 +1520,10 @@ export async function stepStartAudit(
   hooks: TierStartWorkflowHooks
 ): Promise<StepExitResult> {
   if (hooks.runStartAudit === false) return null;
+  if (!startAuditAllowedByPolicy(ctx.policies)) {
+    ctx.output.push(`**Start audit:** skipped (policies.audits=${ctx.policies!.audits}).`);
+    return null;
+  }
 
   try {
     const tier = (ctx.context.tier ?? ctx.config.name) as AuditTier;
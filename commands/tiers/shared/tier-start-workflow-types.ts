@@ -9,7 +9,8 @@ import type { WorkflowCommandContext } from '../../utils/command-context';
 import type { TierStartResult, CascadeInfo } from '../../utils/tier-outcome';
 import type { FormatBranchHierarchyOptions } from '../../utils/tier-start-utils';
 import type { CommandExecutionOptions } from '../../utils/command-execution-mode';
-import type { RunRecorder, RunTraceHandle } from '../../harness/contracts';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../harness/contracts';
+import type { KernelStepDriver } from '../../harness/step-driver';
 import type { TierContextSources } from './context-policy';
 
 /** Per-tierDown item parsed from the planning doc **## Decomposition** section. */
@@ -54,6 +55,10 @@ export interface TierStartWorkflowContext {
   branchEnsureResult?: EnsureTierBranchResult;
   /** Planning doc declared **Leaf tier**; skip guide_fill_pending gate in run-start-steps. */
   leafTier?: boolean;
+  /** Set when the harness kernel drives this run; each START_KERNEL_SEGMENTS group parks until its StepId runs. */
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies (kernel runs); `audits` decides whether the start audit runs. */
+  policies?: PolicySet;
 }
 
 /**
@@ -14,20 +14,24 @@ import type { TierStartResult, TierStartOutcome } from '../../utils/tier-outcome
 import { verifyApp } from '../../utils/verify-app';
 import { routeByOutcome } from './control-plane-route';
 import type { ControlPlaneDecision } from './control-plane-types';
-import { formatChoiceForChat } from './control-plane-choice-display';
-import { getDefaultShadowRecorder } from '../../harness/run-recorder-shadow';
-import { createContextInjector } from '../../harness/context-injector';
+import { presentChoices } from './choose';
+import { getDefaultRunRecorder } from '../../harness/run-recorder-file';
+import { createContextInjector, createNodeFileSystemAdapter } from '../../harness/context-injector';
+import { PROJECT_ROOT } from '../../utils/utils';
 import { defaultKernel } from '../../harness/kernel';
 import { createDefaultPlugins } from '../../harness/default-plugins';
 import { createStepAdapter } from '../../harness/step-adapter';
 import { defaultProfileDefaultsResolver } from '../../harness/spec-builder';
 import { buildSpecFromTierRun } from '../../harness/build-spec-from-tier';
 import { classifyWorkProfile } from '../../harness/work-profile-classifier';
+import type { WorkProfileSignals } from '../../harness/work-profile-inference';
+import { listWorkingTreeChangedRepoPaths } from '../../git/shared/git-manager';
 import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-context';
 import { WorkflowId } from '../../utils/id-utils';
 import {
   writeTierStartPending,
   writeTaskStartPending,
+  gateGuidePath,
   type TierStartPendingParams,
   type TaskStartPendingState,
 } from './pending-state';
@@ -58,6 +62,27 @@ function getIdentifierFromParams(config: TierConfig, params: TierStartParams): s
   }
 }
 
+/**
+ * Inference signals for classifyWorkProfile: the tier's planning doc (when one exists, e.g. from a previous start or a
+ * reopen) and the working-tree changed paths. Reads are best-effort; a failed read just drops that signal.
+ */
+async function readWorkProfileSignals(
+  context: WorkflowCommandContext,
+  config: TierConfig,
+  identifier: string
+): Promise<WorkProfileSignals> {
+  let planningDoc: string | null = null;
+  try {
+    if (await context.documents.planningDocExists(config.name, identifier)) {
+      planningDoc = await context.documents.readPlanningDoc(config.name, identifier);
+    }
+  } catch {
+    planningDoc = null;
+  }
+  const changedPaths = await listWorkingTreeChangedRepoPaths().catch(() => [] as string[]);
+  return { planningDoc, changedPaths };
+}
+
 export async function runTierStart(
   config: TierConfig,
   params: TierStartParams,
@@ -66,7 +91,7 @@ export async function runTierStart(
   // Default plan so start always creates planning doc and exits; execute via /accepted-plan + /accepted-build (feature/phase/session) or /accepted-code (task).
   const executionMode = resolveCommandExecutionMode(options, 'plan');
 
-  const shadowRecorder = getDefaultShadowRecorder();
+  const runRecorder = getDefaultRunRecorder();
   const identifier = getIdentifierFromParams(config, params);
 
   // Resolve F/P/S/T context first; fail fast before any preflight or steps.
@@ -98,10 +123,8 @@ export async function runTierStart(
       { tier: config.name, action: 'start', originalParams: params }
     );
     let failedOutput = failedResult.output;
-    if (decision.stop && decision.questionKey) {
-      const choiceBlock = formatChoiceForChat(decision);
-      if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
-    }
+    const choiceBlock = await presentChoices(decision);
+    if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
     return {
       ...failedResult,
       output: failedOutput,
@@ -145,7 +168,12 @@ export async function runTierStart(
   try {
     const featureName = context.feature.name;
     const workProfile =
-      options?.workProfile ?? classifyWorkProfile({ tier: config.name, action: 'start' });
+      options?.workProfile ??
+      classifyWorkProfile({
+        tier: config.name,
+        action: 'start',
+        signals: await readWorkProfileSignals(context, config, identifier),
+      });
     const spec = buildSpecFromTierRun({
       tier: config.name,
       action: 'start',
@@ -153,6 +181,7 @@ export async function runTierStart(
       featureContext: { featureId: featureName, featureName },
       mode: executionMode,
       workProfile,
+      ...options?.harnessResume,
     });
     const adapter = createStepAdapter({
       config,
@@ -162,11 +191,12 @@ export async function runTierStart(
     });
     const kernelResult = await defaultKernel.run(spec, {
       contextInjector: createContextInjector(),
-      recorder: shadowRecorder,
+      recorder: runRecorder,
       adapter,
       profileDefaults: defaultProfileDefaultsResolver,
       routingContext: { tier: config.name, action: 'start', originalParams: params, workProfile },
-      plugins: createDefaultPlugins(),
+      plugins: await createDefaultPlugins(),
+      sources: { fs: createNodeFileSystemAdapter(PROJECT_ROOT) },
     });
     const reasonCode = kernelResult.outcome.reasonCode;
     if (reasonCode === 'context_gathering') {
@@ -178,7 +208,7 @@ export async function runTierStart(
           workProfile,
           gateProfile: workProfile.gateProfile,
           ...(kernelResult.outcome.leafTier === true && { leafTier: true }),
-        });
+        }, { traceId: kernelResult.traceId, guidePath: gateGuidePath(context, config.name, identifier) });
       } else if (config.name === 'task') {
         const p = params as { taskId: string; featureId?: string; featureName?: string };
         const derived = WorkflowId.parseTaskId(p.taskId.trim())?.feature;
@@ -191,7 +221,7 @@ export async function runTierStart(
         if (fn) pending.featureName = fn;
         else if (fid) pending.featureId = fid;
         else if (derived) pending.featureId = derived;
-        await writeTaskStartPending(pending);
+        await writeTaskStartPending(pending, { traceId: kernelResult.traceId });
       }
     } else if (
       reasonCode === 'guide_fill_pending' &&
@@ -207,19 +237,18 @@ export async function runTierStart(
         workProfile,
         gateProfile: workProfile.gateProfile,
         ...(kernelResult.outcome.leafTier === true && { leafTier: true }),
-      });
+      }, { traceId: kernelResult.traceId });
     }
 
     let finalOutput = kernelResult.output;
-    if (kernelResult.controlPlaneDecision.stop && kernelResult.controlPlaneDecision.questionKey) {
-      const choiceBlock = formatChoiceForChat(kernelResult.controlPlaneDecision);
-      if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
-    }
+    const choiceBlock = await presentChoices(kernelResult.controlPlaneDecision);
+    if (choiceBlock) finalOutput = finalOutput + '\n\n---\n\n' + choiceBlock;
     return {
       success: kernelResult.success,
       output: finalOutput,
       outcome: kernelResult.outcome as TierStartResult['outcome'],
       controlPlaneDecision: kernelResult.controlPlaneDecision,
+      traceId: kernelResult.traceId,
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -246,10 +275,8 @@ export async function runTierStart(
       { tier: config.name, action: 'start', originalParams: params }
     );
     let failedOutput = (failedResult as TierStartResult).output;
-    if (decision.stop && decision.questionKey) {
-      const choiceBlock = formatChoiceForChat(decision);
-      if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
-    }
+    const choiceBlock = await presentChoices(decision);
+    if (choiceBlock) failedOutput = failedOutput + '\n\n---\n\n' + choiceBlock;
     return {
       ...failedResult,
       output: failedOutput,
@@ -261,4 +288,6 @@ export async function runTierStart(
 /** Result of runTierStart including control-plane decision for mode/choice routing. */
 export type TierStartResultWithControlPlane = TierStartResult & {
   controlPlaneDecision: ControlPlaneDecision;
+  /** Harness trace of this run (owning trace for any gate it opened or advanced). */
+  traceId?: string;
 };
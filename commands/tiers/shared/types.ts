@@ -4,6 +4,7 @@
  */
 
 import type { WorkflowCommandContext } from '../../utils/command-context';
+import type { TierMergeStrategy } from '../../git/shared/git-contract';
 
 export type TierName = 'feature' | 'phase' | 'session' | 'task';
 
@@ -62,6 +63,11 @@ export interface TierConfig {
   getBranchName: (ctx: WorkflowCommandContext, id: string) => string | null;
   /** Parent tier's branch name; null if not applicable. Only session returns non-null (phase branch). */
   getParentBranchName: (ctx: WorkflowCommandContext, id: string) => string | null;
+  /**
+   * How tier-end lands this tier's branch on its parent (default `merge`). `HARNESS_MERGE_STRATEGY` overrides
+   * per project; see git/shared/tier-merge-strategy.ts.
+   */
+  mergeStrategy?: TierMergeStrategy;
   audit?: {
     start?: PipelineStepFunction;
     end?: PipelineStepFunction;
@@ -0,0 +1,209 @@
+/**
+ * /work-profile: show or correct the WorkProfile of a pending start. `set` validates each field against the unions in
+ * harness/work-profile.ts (governanceDomains against the domain map), re-derives decompositionMode / gateProfile /
+ * suggestedDepth via work-profile-rules.ts, stores the profile on the open start gate (so /accepted-plan,
+ * /accepted-build and /accepted-code resume with it) and rewrites the planning doc's ## Work Profile section.
+ */
+
+import { readGateLedger, updateStartGateWorkProfile } from './pending-state';
+import { checkStartGate, gateUnitLabel, type GateLedgerEntry, type GateTier } from './gate-ledger';
+import { getCurrentBranch } from '../../git/shared/git-logger';
+import {
+  WORK_PROFILE_FIELD_VALUES,
+  type WorkProfile,
+  type WorkProfileOverride,
+  type WorkProfileSettableField,
+} from '../../harness/work-profile';
+import { deriveWorkProfileRules, mergeConfiguredGovernanceDomains } from '../../harness/work-profile-classifier';
+import { listGovernanceDomains } from '../../harness/governance-domain-map';
+import { formatWorkProfileSection, replaceWorkProfileSection } from '../../harness/tier-advisory-context';
+import { getDefaultWorkProfile } from '../../harness/work-profile-defaults';
+import { WorkflowCommandContext, type TierParamsBag } from '../../utils/command-context';
+
+const COMMAND = '/work-profile';
+
+const SETTABLE_FIELDS: readonly WorkProfileSettableField[] = [
+  'executionIntent',
+  'actionType',
+  'scopeShape',
+  'governanceDomains',
+  'contextPack',
+  'planningArtifactAction',
+];
+
+export interface WorkProfileCommandParams {
+  tier?: GateTier;
+  identifier?: string;
+  /** Field → value (`governanceDomains` as a comma-separated list). Omit to show the current profile. */
+  set?: Record<string, string>;
+}
+
+export interface WorkProfileCommandResult {
+  success: boolean;
+  output: string;
+  /** Profile on the gate after the command (unchanged when only showing or when validation failed). */
+  workProfile?: WorkProfile;
+  /** Planning doc rewritten with the new Work Profile section (set only). */
+  planningDocPath?: string;
+}
+
+function isSettableField(field: string): field is WorkProfileSettableField {
+  return (SETTABLE_FIELDS as readonly string[]).includes(field);
+}
+
+function display(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return value == null ? '(unset)' : String(value);
+}
+
+type EnumSettableField = Exclude<WorkProfileSettableField, 'governanceDomains'>;
+
+/** Set `profile[field]` to the allowed value equal to `value`; false (profile untouched) when `value` is not allowed. */
+function assignFieldValue<K extends EnumSettableField>(profile: WorkProfile, field: K, value: string): boolean {
+  const allowed: readonly NonNullable<WorkProfile[K]>[] = WORK_PROFILE_FIELD_VALUES[field];
+  const match = allowed.find((v) => v === value);
+  if (match === undefined) return false;
+  profile[field] = match;
+  return true;
+}
+
+/** Validate `set` and apply it over `base`; returns the changed profile and overrides, or one error line per bad entry. */
+function applyAssignments(
+  base: WorkProfile,
+  set: Record<string, string>
+): { profile: WorkProfile; overrides: WorkProfileOverride[] } | { errors: string[] } {
+  const errors: string[] = [];
+  const next: WorkProfile = { ...base };
+  const overrides: WorkProfileOverride[] = [];
+  const at = new Date().toISOString();
+  for (const [field, rawValue] of Object.entries(set)) {
+    const value = rawValue.trim();
+    if (!isSettableField(field)) {
+      errors.push(`\`${field}\` is not settable. Fields: ${SETTABLE_FIELDS.join(', ')}.`);
+      continue;
+    }
+    if (field === 'governanceDomains') {
+      const known = listGovernanceDomains();
+      const domains = [...new Set(value.split(',').map((d) => d.trim()).filter(Boolean))];
+      const unknown = domains.filter((d) => !known.includes(d));
+      if (domains.length === 0 || unknown.length > 0) {
+        errors.push(
+          `governanceDomains: ${unknown.length > 0 ? `unknown ${unknown.map((d) => `\`${d}\``).join(', ')}` : 'empty list'}. Known: ${known.join(', ')}.`
+        );
+        continue;
+      }
+      overrides.push({ field, from: display(base.governanceDomains), to: domains.join(', '), at });
+      next.governanceDomains = domains;
+      continue;
+    }
+    if (!assignFieldValue(next, field, value)) {
+      errors.push(`${field}: \`${value}\` is not one of ${WORK_PROFILE_FIELD_VALUES[field].join(', ')}.`);
+      continue;
+    }
+    overrides.push({ field, from: display(base[field]), to: value, at });
+  }
+  return errors.length > 0 ? { errors } : { profile: next, overrides };
+}
+
+function contextParams(entry: GateLedgerEntry): { tier: GateTier; params: TierParamsBag } | null {
+  if (entry.tierStart) return { tier: entry.tierStart.tier, params: entry.tierStart.params as TierParamsBag };
+  if (entry.taskStart) {
+    const { taskId, featureId, featureName } = entry.taskStart;
+    return { tier: 'task', params: { taskId, ...(featureId && { featureId }), ...(featureName && { featureName }) } };
+  }
+  return null;
+}
+
+/**
+ * Rewrite the ## Work Profile section of the gate's planning doc (appended when the doc has none).
+ * Returns the doc path, or null when the doc or its context cannot be resolved.
+ */
+async function rewritePlanningDocSection(entry: GateLedgerEntry, profile: WorkProfile): Promise<string | null> {
+  const resolved = contextParams(entry);
+  if (!resolved) return null;
+  try {
+    const context = await WorkflowCommandContext.contextFromParams(resolved.tier, resolved.params);
+    if (!(await context.documents.planningDocExists(resolved.tier, entry.identifier))) return null;
+    const content = await context.documents.readPlanningDoc(resolved.tier, entry.identifier);
+    const shown = profile.overrides?.some((o) => o.field === 'governanceDomains')
+      ? profile
+      : mergeConfiguredGovernanceDomains(profile, resolved.tier);
+    const section = formatWorkProfileSection(shown);
+    const updated = /^##\s+Work Profile\s*$/im.test(content)
+      ? replaceWorkProfileSection(content, section)
+      : `${content.trimEnd()}\n${section}`;
+    if (updated !== content) {
+      await context.documents.writePlanningDoc(resolved.tier, entry.identifier, updated);
+    }
+    return context.documents.getPlanningDocRelativePath(resolved.tier, entry.identifier);
+  } catch {
+    return null;
+  }
+}
+
+function profileLines(profile: WorkProfile): string {
+  return formatWorkProfileSection(profile).trim().replace(/^## Work Profile\n/, '');
+}
+
+/**
+ * Show (no `set`) or correct the pending start's WorkProfile. User runs in Cursor.
+ */
+export async function workProfile(params: WorkProfileCommandParams = {}): Promise<WorkProfileCommandResult> {
+  const ledger = await readGateLedger();
+  const branch = params.identifier ? await getCurrentBranch() : null;
+  const check = checkStartGate(ledger.entries, COMMAND, {
+    ...(params.tier && { tier: params.tier }),
+    ...(params.identifier && { identifier: params.identifier }),
+    branch,
+  });
+  if (!check.ok) return { success: false, output: check.message };
+
+  const entry = check.entry;
+  const base =
+    entry.tierStart?.workProfile ?? entry.taskStart?.workProfile ?? getDefaultWorkProfile(entry.tier, 'start');
+  const label = gateUnitLabel(entry);
+  if (!params.set || Object.keys(params.set).length === 0) {
+    return {
+      success: true,
+      output: `**Work profile** for ${label} (gate **${entry.state}**):\n\n${profileLines(base)}\n\nCorrect with \`${COMMAND} ${entry.tier} ${entry.identifier} set field=value …\`.`,
+      workProfile: base,
+    };
+  }
+
+  const applied = applyAssignments(base, params.set);
+  if ('errors' in applied) {
+    return {
+      success: false,
+      output: `**${COMMAND}** not applied:\n\n${applied.errors.map((e) => `- ${e}`).join('\n')}`,
+      workProfile: base,
+    };
+  }
+  const derived = deriveWorkProfileRules(applied.profile, entry.tier, 'start');
+  // One override per field: a repeat correction keeps the field's original `from`.
+  const overrides = [...(base.overrides ?? [])];
+  for (const o of applied.overrides) {
+    const i = overrides.findIndex((prev) => prev.field === o.field);
+    if (i >= 0) overrides[i] = { ...o, from: overrides[i]!.from };
+    else overrides.push(o);
+  }
+  const next: WorkProfile = { ...derived, overrides };
+  const saved = await updateStartGateWorkProfile(entry.id, next);
+  if (!saved) {
+    return { success: false, output: `Gate for ${label} closed while **${COMMAND}** ran; nothing saved.` };
+  }
+  const planningDocPath = await rewritePlanningDocSection(entry, next);
+
+  const changes = applied.overrides.map((o) => `- ${o.field}: ${o.from} → ${o.to}`);
+  const rederived = (['decompositionMode', 'gateProfile', 'suggestedDepth'] as const)
+    .filter((k) => base[k] !== next[k])
+    .map((k) => `- ${k}: ${display(base[k])} → ${display(next[k])} (re-derived)`);
+  const docLine = planningDocPath
+    ? `Planning doc Work Profile section rewritten: \`${planningDocPath}\`.`
+    : 'No planning doc found for this unit; the profile is saved on the gate only.';
+  return {
+    success: true,
+    output: `**Work profile updated** for ${label} (gate **${entry.state}**):\n\n${[...changes, ...rederived].join('\n')}\n\n${docLine}`,
+    workProfile: next,
+    ...(planningDocPath && { planningDocPath }),
+  };
+}
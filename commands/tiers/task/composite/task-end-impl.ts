@@ -31,9 +31,16 @@ import type {
 } from '../../shared/tier-end-workflow-types';
 import { runPlanningTierGapAnalysis } from '../../shared/tier-end-deliverables-drift';
 import { runTierEndWorkflow } from '../../../harness/run-end-steps';
-import type { RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { KernelStepDriver } from '../../../harness/step-driver';
 
-export type EndShadowContext = { recorder: RunRecorder; handle: RunTraceHandle };
+export type EndShadowContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; tier-end steps consult them (tests, audits, docs, git, cascade). */
+  policies?: PolicySet;
+};
 
 export interface TaskEndParams {
   taskId: string;
@@ -121,6 +128,8 @@ export async function taskEndImpl(
       runRecorder: shadow.recorder,
       runTraceHandle: shadow.handle,
       stepPath: [],
+      ...(shadow.stepDriver && { stepDriver: shadow.stepDriver }),
+      ...(shadow.policies && { policies: shadow.policies }),
     }),
   };
 
@@ -231,7 +240,7 @@ export async function taskEndImpl(
           console.error('Change detection failed (non-fatal):', error);
         }
 
-        const testResult = await testEndWorkflow('task', p.taskId, testTarget);
+        const testResult = await testEndWorkflow('task', p.taskId, testTarget, { files: c.changedTestFiles });
         if (!testResult.success) {
           if (TEST_CONFIG.analyzeErrors) {
             try {
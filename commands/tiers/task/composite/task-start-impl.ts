@@ -20,14 +20,21 @@ import type {
   TierStartWorkflowResult,
 } from '../../shared/tier-start-workflow-types';
 import { runTierStartWorkflow } from '../../../harness/run-start-steps';
-import type { RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { PolicySet, RunRecorder, RunTraceHandle } from '../../../harness/contracts';
+import type { KernelStepDriver } from '../../../harness/step-driver';
 import { getInventoryMatchesForFiles } from '../../../audit/governance-context';
 import { getTierUpPlanningDocSections, parsePlanningDocSections } from '../../shared/tier-start-steps';
 import { writeTierScope } from '../../../utils/tier-scope-writer';
 import { getExpectedBranchForTier } from '../../../git/shared/git-manager';
 import { getConfigForTier } from '../../configs/index';
 
-export type ShadowContext = { recorder: RunRecorder; handle: RunTraceHandle };
+export type ShadowContext = {
+  recorder: RunRecorder;
+  handle: RunTraceHandle;
+  stepDriver?: KernelStepDriver;
+  /** Resolved spec policies; the start audit step consults `audits`. */
+  policies?: PolicySet;
+};
 
 function extractField(name: string, content: string): string {
   const re = new RegExp(`\\*\\*${name}:\\*\\*\\s*([\\s\\S]*?)(?=\\n\\*\\*|\\n\\n|$)`, 'i');
@@ -94,6 +101,8 @@ export async function taskStartImpl(
       runRecorder: shadow.recorder,
       runTraceHandle: shadow.handle,
       stepPath: [],
+      ...(shadow.stepDriver && { stepDriver: shadow.stepDriver }),
+      ...(shadow.policies && { policies: shadow.policies }),
     }),
     context,
     output,
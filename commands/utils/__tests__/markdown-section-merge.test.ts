@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the planning doc section merge (tier merge conflict assistant and the harness-markdown merge driver).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeMarkdownSections, sectionMergeOptionsForPath } from '../markdown-section-merge';
+
+const PHASE_GUIDE = '.project-manager/features/vue-migration/phases/phase-6-guide.md';
+
+describe('mergeMarkdownSections', () => {
+  it('takes the side that changed each section', () => {
+    const base = '# Guide\n\n## A\na\n\n## B\nb\n';
+    const ours = '# Guide\n\n## A\na2\n\n## B\nb\n';
+    const theirs = '# Guide\n\n## A\na\n\n## B\nb2\n';
+    expect(mergeMarkdownSections(base, ours, theirs)).toEqual({
+      merged: '# Guide\n\n## A\na2\n\n## B\nb2\n',
+      conflicts: [],
+    });
+  });
+
+  it('adds a section appended after the last section without an extra blank line', () => {
+    const { merged, conflicts } = mergeMarkdownSections('## A\na\n', '## A\na2\n', '## A\na\n## B\nb\n');
+    expect(conflicts).toEqual([]);
+    expect(merged).toBe('## A\na2\n## B\nb\n');
+  });
+
+  it('keeps the blank line before a section the other side appended', () => {
+    const { merged } = mergeMarkdownSections('# T\n\n## A\na\n', '# T\n\n## A\na2\n', '# T\n\n## A\na\n\n## B\nb\n');
+    expect(merged).toBe('# T\n\n## A\na2\n\n## B\nb\n');
+  });
+
+  it('inserts sections added on both sides after their predecessors', () => {
+    const base = '## A\na\n\n## D\nd\n';
+    const ours = '## A\na\n\n## B\nb\n\n## D\nd\n';
+    const theirs = '## A\na\n\n## D\nd\n\n## E\ne\n';
+    expect(mergeMarkdownSections(base, ours, theirs).merged).toBe('## A\na\n\n## B\nb\n\n## D\nd\n\n## E\ne\n');
+  });
+
+  it('marks only the section both sides changed differently', () => {
+    const base = '## A\na\n\n## B\nb\n';
+    const { merged, conflicts } = mergeMarkdownSections(base, '## A\nours\n\n## B\nb2\n', '## A\ntheirs\n\n## B\nb\n', {
+      labels: { ours: 'HEAD', theirs: 'session-6.2.1' },
+    });
+    expect(conflicts).toEqual(['A']);
+    expect(merged).toBe('<<<<<<< HEAD\n## A\nours\n\n=======\n## A\ntheirs\n\n>>>>>>> session-6.2.1\n## B\nb2\n');
+  });
+
+  it('drops a section deleted on one side and unchanged on the other', () => {
+    expect(mergeMarkdownSections('## A\na\n\n## B\nb\n', '## A\na\n', '## A\na\n\n## B\nb\n').merged).toBe('## A\na\n');
+  });
+});
+
+describe('mergeMarkdownSections planning doc options', () => {
+  it('keeps a required phase guide section deleted on one side', () => {
+    const base = '## Overview\no\n\n## Tasks\nt\n\n## Notes\nn\n';
+    const ours = '## Overview\no\n\n## Notes\nn\n';
+    const merged = mergeMarkdownSections(base, ours, base, sectionMergeOptionsForPath(PHASE_GUIDE)).merged;
+    expect(merged).toContain('## Tasks\nt');
+    // Sections that are not required still follow the deletion
+    const noNotes = mergeMarkdownSections(base, '## Overview\no\n\n## Tasks\nt\n', base, sectionMergeOptionsForPath(PHASE_GUIDE));
+    expect(noNotes.merged).toBe('## Overview\no\n\n## Tasks\nt\n');
+  });
+
+  it('does not keep required sections for paths that are not guides or handoffs', () => {
+    const base = '## Tasks\nt\n\n## Notes\nn\n';
+    expect(mergeMarkdownSections(base, '## Notes\nn\n', base, sectionMergeOptionsForPath('.project-manager/notes.md')).merged).toBe(
+      '## Notes\nn\n'
+    );
+  });
+
+  it('unions phase guide session checkboxes: checked on either side wins, new sessions from both sides stay', () => {
+    const base = [
+      '## Sessions',
+      '',
+      '- [ ] ### Session 6.1: Setup',
+      '**Description:** setup',
+      '',
+      '- [ ] ### Session 6.2: Build',
+      '**Description:** build',
+      '',
+    ].join('\n');
+    const ours = base.replace('- [ ] ### Session 6.1', '- [x] ### Session 6.1') + '\n- [ ] ### Session 6.3: Ours\n**Description:** ours\n';
+    const theirs = base.replace('- [ ] ### Session 6.2', '- [x] ### Session 6.2') + '\n- [ ] ### Session 6.4: Theirs\n**Description:** theirs\n';
+    const { merged, conflicts } = mergeMarkdownSections(base, ours, theirs, sectionMergeOptionsForPath(PHASE_GUIDE));
+    expect(conflicts).toEqual([]);
+    expect(merged).toContain('- [x] ### Session 6.1: Setup');
+    expect(merged).toContain('- [x] ### Session 6.2: Build');
+    expect(merged).toContain('- [ ] ### Session 6.3: Ours');
+    expect(merged).toContain('- [ ] ### Session 6.4: Theirs');
+  });
+
+  it('keeps a checkbox item removed on one side', () => {
+    const base = '## Checklist\n- [ ] one\n- [ ] two\n- [ ] three\n';
+    const ours = '## Checklist\n- [x] one\n- [ ] two\n- [ ] three\n';
+    const theirs = '## Checklist\n- [ ] one\n- [ ] three\n- [x] four\n';
+    const { merged, conflicts } = mergeMarkdownSections(base, ours, theirs, sectionMergeOptionsForPath(PHASE_GUIDE));
+    expect(conflicts).toEqual([]);
+    expect(merged).toBe('## Checklist\n- [x] one\n- [ ] two\n- [ ] three\n- [x] four\n');
+  });
+
+  it('still conflicts when the same item text is edited differently on both sides', () => {
+    const base = '## Checklist\n- [ ] ### Session 6.1: Setup\n**Description:** a\n';
+    const ours = '## Checklist\n- [ ] ### Session 6.1: Setup\n**Description:** ours\n';
+    const theirs = '## Checklist\n- [ ] ### Session 6.1: Setup\n**Description:** theirs\n';
+    expect(mergeMarkdownSections(base, ours, theirs, sectionMergeOptionsForPath(PHASE_GUIDE)).conflicts).toEqual(['Checklist']);
+  });
+
+  it('does not union checkboxes outside phase guides', () => {
+    const base = '## Checklist\n- [ ] one\n';
+    const handoff = '.project-manager/features/vue-migration/sessions/session-6.2.1-handoff.md';
+    const result = mergeMarkdownSections(base, '## Checklist\n- [x] one\n', '## Checklist\n- [ ] one\n- [ ] two\n', sectionMergeOptionsForPath(handoff));
+    expect(result.conflicts).toEqual(['Checklist']);
+  });
+});
@@ -48,6 +48,8 @@ export interface CommandExecutionOptions {
   commitMessage?: string;
   /** Tier-end `commit_remaining` only: optional second `git commit -m` (body paragraph). */
   commitMessageBody?: string;
+  /** Set by resumeFromTrace: merged into the kernel WorkflowSpec so the run is recorded as a child trace. */
+  harnessResume?: import('../harness/contracts').ResumeSpecFields;
 }
 
 /**
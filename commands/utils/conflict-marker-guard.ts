@@ -7,6 +7,7 @@ import { execFileSync } from 'node:child_process';
 import { readdir, readFile, stat } from 'node:fs/promises';
 import { join } from 'node:path';
 import { PROJECT_ROOT } from './utils';
+import { classifyConflictPath, type ConflictPathClass } from '../git/shared/git-manager';
 
 const HARNESS_ROOTS = ['.project-manager', 'client', 'server'] as const;
 const MARKER_LINE = /^<<<<<<</m;
@@ -96,6 +97,13 @@ async function walkForMarkers(relDir: string, acc: string[]): Promise<void> {
   }
 }
 
+/** How to fix a marked file, by conflict assistant class. */
+const CLASS_HINTS: Record<ConflictPathClass, string> = {
+  regenerable: 'harness artifact — take either side; the next tier start/end regenerates it',
+  planning_doc: 'planning doc — keep both sides section by section',
+  code: 'code — resolve by hand',
+};
+
 async function fallbackWalkScan(): Promise<string[]> {
   const acc: string[] = [];
   for (const root of HARNESS_ROOTS) {
@@ -116,7 +124,7 @@ export async function scanHarnessRootsForConflictMarkers(): Promise<ConflictMark
     return { ok: true };
   }
 
-  const list = paths.map((p) => `  - ${p}`).join('\n');
+  const list = paths.map((p) => `  - ${p} (${CLASS_HINTS[classifyConflictPath(p)]})`).join('\n');
   return {
     ok: false,
     relativePaths: paths,
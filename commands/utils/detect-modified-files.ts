@@ -6,7 +6,6 @@
  * PATTERN: Fallback chain: session logs → git history → empty array
  */
 
-import { execSync } from 'child_process';
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
@@ -62,7 +61,7 @@ async function extractFilesFromSessionLog(sessionLogPath: string): Promise<strin
  * Detect files from git history for a phase
  * Uses git log to find files changed between phase start and end
  */
-function detectFilesFromGitHistory(phase: string, _featureName: string): string[] {
+async function detectFilesFromGitHistory(phase: string, _featureName: string): Promise<string[]> {
   try {
     // Try to find phase start commit (look for phase start messages)
     // This is a heuristic - we look for commits mentioning the phase
@@ -72,18 +71,12 @@ function detectFilesFromGitHistory(phase: string, _featureName: string): string[
     const gitLogCommand = `git log --all --oneline --grep="${phaseStartPattern}" --grep="Phase ${phase}" -i --format="%H" | head -1`;
     
     let startCommit: string | null = null;
-    try {
-      const startCommitOutput = execSync(gitLogCommand, {
-        cwd: PROJECT_ROOT,
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'ignore'],
-      }).trim();
-      if (startCommitOutput) {
-        startCommit = startCommitOutput.split('\n')[0];
-      }
-    } catch (err) {
-      console.warn('Detect modified files: could not find phase start commit, using HEAD~30', err);
+    const startCommitResult = await runGitCommand(gitLogCommand, 'detectFilesFromGitHistory-startCommit');
+    if (!startCommitResult.success) {
+      console.warn('Detect modified files: could not find phase start commit, using HEAD~30', startCommitResult.error);
       startCommit = 'HEAD~30';
+    } else if (startCommitResult.output.trim()) {
+      startCommit = startCommitResult.output.trim().split('\n')[0];
     }
 
     // Get files changed since start commit
@@ -91,11 +84,11 @@ function detectFilesFromGitHistory(phase: string, _featureName: string): string[
       ? `git diff --name-only ${startCommit}..HEAD`
       : `git diff --name-only HEAD~30..HEAD`;
 
-    const output = execSync(gitDiffCommand, {
-      cwd: PROJECT_ROOT,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'ignore'],
-    });
+    const diffResult = await runGitCommand(gitDiffCommand, 'detectFilesFromGitHistory-diff');
+    if (!diffResult.success) {
+      throw new Error(diffResult.error ?? `${gitDiffCommand} failed`);
+    }
+    const output = diffResult.output;
 
     const files = output
       .split('\n')
@@ -182,7 +175,7 @@ export async function detectPhaseModifiedFiles(
 
   // Method 2: Fallback to git history if no files found
   if (files.size === 0) {
-    const gitFiles = detectFilesFromGitHistory(phase, context.feature.name);
+    const gitFiles = await detectFilesFromGitHistory(phase, context.feature.name);
     for (const file of gitFiles) {
       files.add(file);
     }
@@ -35,6 +35,31 @@ export function resolveDocRollupProfile(options?: { docRollupProfile?: string }
   return 'planning_only';
 }
 
+/**
+ * Doc rollup profile under spec `policies.docs`: an explicit `options.docRollupProfile` still wins; otherwise
+ * `off` → off, `minimal` → planning_only, `standard` → env / default, `strict` → env or all_non_guides.
+ */
+export function docRollupProfileForPolicy(
+  docs: 'off' | 'minimal' | 'standard' | 'strict',
+  options?: { docRollupProfile?: string } | null
+): DocRollupProfile {
+  const fromOpts = parseProfile(options?.docRollupProfile);
+  if (fromOpts != null) return fromOpts;
+  switch (docs) {
+    case 'off':
+      return 'off';
+    case 'minimal':
+      return 'planning_only';
+    case 'standard':
+      return resolveDocRollupProfile(null);
+    case 'strict': {
+      const fromEnv =
+        typeof process !== 'undefined' ? parseProfile(process.env.HARNESS_DOC_ROLLUP) : null;
+      return fromEnv ?? 'all_non_guides';
+    }
+  }
+}
+
 export function docRollupRunsLogHandoff(profile: DocRollupProfile): boolean {
   return profile === 'all_non_guides' || profile === 'all';
 }
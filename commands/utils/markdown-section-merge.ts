@@ -0,0 +1,243 @@
+/**
+ * Three-way merge of markdown documents by `##` section (planning docs: guides, handoffs, logs).
+ * A section changed on one side only takes that side; a section changed identically on both sides
+ * takes either; a section changed differently on both sides is a conflict and is emitted with
+ * conflict markers around that section alone. The preamble (text before the first `##`) merges the same way.
+ *
+ * Options for planning docs (see sectionMergeOptionsForPath): required guide/handoff sections are never
+ * dropped by a one-sided deletion, and phase guides union their checkbox lists — an item checked on either
+ * side stays `[x]`, items are matched by Session id (or by item text).
+ */
+
+import { basename } from 'path';
+import { MarkdownUtils } from './markdown-utils';
+import { isRequiredSectionHeading, type GuideTier } from '../tiers/shared/guide-required-sections';
+
+export interface MarkdownSectionMergeResult {
+  merged: string;
+  /** Titles of sections changed differently on both sides (`(preamble)` for the preamble). */
+  conflicts: string[];
+}
+
+export interface MarkdownSectionMergeOptions {
+  /** Conflict marker labels (default ours / theirs). */
+  labels?: { ours?: string; theirs?: string };
+  /** Conflict marker length (git's %L; default 7). */
+  markerSize?: number;
+  /** Sections never dropped when one side deletes them and the other keeps them. */
+  keepSection?: (title: string) => boolean;
+  /** Before reporting a conflict, try to union the section's checkbox list. */
+  unionCheckboxes?: boolean;
+}
+
+const PREAMBLE_KEY = '(preamble)';
+
+/** Ordered key → text map; repeated titles get ` #2`, ` #3` suffixes so each occurrence merges on its own. */
+function sectionMap(content: string): Map<string, string> {
+  const { preamble, sections } = MarkdownUtils.splitSections(content, 2);
+  const map = new Map<string, string>();
+  if (preamble !== null) map.set(PREAMBLE_KEY, preamble);
+  const seen = new Map<string, number>();
+  for (const { title, text } of sections) {
+    const n = (seen.get(title) ?? 0) + 1;
+    seen.set(title, n);
+    map.set(n === 1 ? title : `${title} #${n}`, text);
+  }
+  return map;
+}
+
+/** Compare sections ignoring trailing blank lines, so a blank line moved to the next section is not a change. */
+function same(a: string | undefined, b: string | undefined): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  return a.trimEnd() === b.trimEnd();
+}
+
+/** Merged key order: ours, with keys only theirs has inserted after their predecessor in theirs. */
+function mergedOrder(ours: string[], theirs: string[], start = -1): string[] {
+  const order = [...ours];
+  let anchor = start;
+  for (const key of theirs) {
+    const at = order.indexOf(key);
+    if (at >= 0) {
+      anchor = at;
+      continue;
+    }
+    order.splice(anchor + 1, 0, key);
+    anchor += 1;
+  }
+  return order;
+}
+
+/** Three-way pick: the side that changed, or undefined (as `conflict`) when both changed differently. */
+function pick(b: string | undefined, o: string | undefined, t: string | undefined): { text?: string; conflict: boolean } {
+  if (same(o, t)) return { text: o ?? t, conflict: false };
+  if (same(o, b)) return { text: t, conflict: false };
+  if (same(t, b)) return { text: o, conflict: false };
+  return { conflict: true };
+}
+
+// ─── Checkbox list union ───────────────────────────────────────────────
+
+const CHECKBOX_ITEM = /^- \[([ xX])\]\s*(.*)$/;
+const SESSION_ID = /Session\s+(\d+(?:\.\d+)*)\s*:/;
+
+interface ChecklistItem {
+  checked: boolean;
+  /** Item lines with the checkbox normalized to `[ ]`, trailing blank lines dropped. */
+  text: string;
+}
+
+interface Checklist {
+  head: string;
+  items: Map<string, ChecklistItem>;
+  /** Items separated by a blank line (session entries) rather than one per line. */
+  spaced: boolean;
+  trailing: string;
+}
+
+/** Split a section into the text before its first top-level checkbox item and the items (with continuation lines). */
+function parseChecklist(section: string): Checklist | null {
+  const lines = section.split('\n');
+  const first = lines.findIndex((l) => CHECKBOX_ITEM.test(l));
+  if (first < 0) return null;
+
+  const blocks: string[][] = [];
+  for (const line of lines.slice(first)) {
+    if (CHECKBOX_ITEM.test(line)) blocks.push([line]);
+    else blocks[blocks.length - 1].push(line);
+  }
+  const trailingBlanks = (block: string[]): number => {
+    let n = 0;
+    while (n < block.length - 1 && block[block.length - 1 - n].trim() === '') n += 1;
+    return n;
+  };
+
+  const items = new Map<string, ChecklistItem>();
+  const seen = new Map<string, number>();
+  for (const block of blocks) {
+    const m = block[0].match(CHECKBOX_ITEM)!;
+    const sessionId = m[2].match(SESSION_ID)?.[1];
+    const key = sessionId ? `Session ${sessionId}` : m[2].trim();
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    items.set(n === 1 ? key : `${key} #${n}`, {
+      checked: m[1] !== ' ',
+      text: block.join('\n').replace(/^- \[[ xX]\]/, '- [ ]').trimEnd(),
+    });
+  }
+
+  return {
+    head: lines.slice(0, first).join('\n'),
+    items,
+    spaced: blocks.slice(0, -1).some((block) => trailingBlanks(block) > 0),
+    trailing: '\n'.repeat(trailingBlanks(blocks[blocks.length - 1])),
+  };
+}
+
+/** Union of both sides' checklist; undefined when the text around the list or an item changed on both sides. */
+function unionChecklistSection(b: string | undefined, o: string, t: string): string | undefined {
+  const ours = parseChecklist(o);
+  const theirs = parseChecklist(t);
+  if (!ours || !theirs) return undefined;
+  const base = b !== undefined ? parseChecklist(b) : null;
+
+  const head = pick(base?.head, ours.head, theirs.head);
+  if (head.conflict) return undefined;
+
+  const rendered: string[] = [];
+  for (const key of mergedOrder([...ours.items.keys()], [...theirs.items.keys()])) {
+    const oi = ours.items.get(key);
+    const ti = theirs.items.get(key);
+    // An item removed on one side stays (union); an item edited on both sides is a real conflict
+    const item = pick(base?.items.get(key)?.text, oi?.text, ti?.text);
+    if (item.conflict) return undefined;
+    const text = item.text ?? oi?.text ?? ti?.text ?? '';
+    const checked = (oi?.checked ?? false) || (ti?.checked ?? false);
+    rendered.push(checked ? text.replace(/^- \[ \]/, '- [x]') : text);
+  }
+
+  const list = rendered.join(ours.spaced || theirs.spaced ? '\n\n' : '\n');
+  return `${head.text ? `${head.text}\n` : ''}${list}${ours.trailing}`;
+}
+
+// ─── Merge ─────────────────────────────────────────────────────────────
+
+/** Drop the document's final newline so the last section's text ends like every other section's (in blank lines only). */
+function withoutFinalNewline(doc: string): string {
+  return doc.endsWith('\n') ? doc.slice(0, -1) : doc;
+}
+
+function trailingNewlines(text: string): number {
+  return text.length - text.replace(/\n+$/, '').length;
+}
+
+/** Keep the wider blank-line gap of both sides before the next section, so a one-sided edit does not eat it. */
+function withGap(text: string, o: string | undefined, t: string | undefined): string {
+  const gap = Math.max(trailingNewlines(o ?? ''), trailingNewlines(t ?? ''));
+  return trailingNewlines(text) >= gap ? text : `${text.replace(/\n+$/, '')}${'\n'.repeat(gap)}`;
+}
+
+/**
+ * Merge `ours` and `theirs` against their common ancestor `base` section by section.
+ * Pass '' as base for an add/add conflict (every differing section then conflicts).
+ */
+export function mergeMarkdownSections(
+  base: string,
+  ours: string,
+  theirs: string,
+  options: MarkdownSectionMergeOptions = {}
+): MarkdownSectionMergeResult {
+  const baseMap = sectionMap(withoutFinalNewline(base));
+  const oursMap = sectionMap(withoutFinalNewline(ours));
+  const theirsMap = sectionMap(withoutFinalNewline(theirs));
+  const marker = (c: string): string => c.repeat(options.markerSize ?? 7);
+  const conflicts: string[] = [];
+  const parts: Array<{ text: string; sides?: [string | undefined, string | undefined] }> = [];
+
+  const oursKeys = [...oursMap.keys()];
+  for (const key of mergedOrder(oursKeys, [...theirsMap.keys()], oursKeys.indexOf(PREAMBLE_KEY))) {
+    const b = baseMap.get(key);
+    const o = oursMap.get(key);
+    const t = theirsMap.get(key);
+    const title = key.replace(/ #\d+$/, '');
+    let { text, conflict } = pick(b, o, t);
+    if (!conflict && text === undefined && (o ?? t) !== undefined && key !== PREAMBLE_KEY && options.keepSection?.(title)) {
+      text = o ?? t;
+    }
+    if (conflict && options.unionCheckboxes && o !== undefined && t !== undefined) {
+      text = unionChecklistSection(b, o, t);
+      conflict = text === undefined;
+    }
+    if (conflict) {
+      conflicts.push(key);
+      text =
+        `${marker('<')} ${options.labels?.ours ?? 'ours'}\n${o !== undefined ? `${o}\n` : ''}` +
+        `${marker('=')}\n${t !== undefined ? `${t}\n` : ''}` +
+        `${marker('>')} ${options.labels?.theirs ?? 'theirs'}`;
+    }
+    if (text !== undefined) parts.push({ text, ...(!conflict && { sides: [o, t] }) });
+  }
+
+  let merged = parts
+    .map(({ text, sides }, i) => (sides && i < parts.length - 1 ? withGap(text, ...sides) : text))
+    .join('\n');
+  if (ours.endsWith('\n') || theirs.endsWith('\n')) merged += '\n';
+  return { merged, conflicts };
+}
+
+/** Guide tier or handoff for a planning doc file name (`phase-2-guide.md`, `session-2.1.3-handoff.md`, …). */
+function planningDocKind(path: string): GuideTier | 'handoff' | null {
+  const m = basename(path).match(/^(feature|phase|session)-.+-(guide|handoff)\.md$/);
+  if (!m) return null;
+  return m[2] === 'handoff' ? 'handoff' : (m[1] as GuideTier);
+}
+
+/** Merge options for a planning doc path: keep required sections; phase guides also union checkbox lists. */
+export function sectionMergeOptionsForPath(path: string): MarkdownSectionMergeOptions {
+  const kind = planningDocKind(path);
+  if (!kind) return {};
+  return {
+    keepSection: (title) => isRequiredSectionHeading(kind, title),
+    unionCheckboxes: kind === 'phase',
+  };
+}
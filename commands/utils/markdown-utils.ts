@@ -275,6 +275,49 @@ export class MarkdownUtils {
       .join('\n\n');
   }
 
+  /**
+   * Split markdown into ordered sections at headings of exactly `depth`
+   *
+   * Each section runs from its heading to the next heading of the same depth (other headings
+   * stay inside it). Text before the first such heading is the preamble.
+   * Headings inside ``` fences are ignored. Joining preamble and section texts with '\n'
+   * reproduces the input.
+   *
+   * @param content Markdown content
+   * @param depth Heading depth to split at (default 2 = ##)
+   * @returns Preamble text (null when the content starts with a heading) and sections in order
+   */
+  static splitSections(
+    content: string,
+    depth: number = 2
+  ): { preamble: string | null; sections: Array<{ title: string; text: string }> } {
+    const lines = content.split('\n');
+    const sectionStarts: Array<{ index: number; title: string }> = [];
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const trimmed = lines[i].trim();
+      if (trimmed.startsWith('```')) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+      const match = trimmed.match(/^(#+)\s+(.+)$/);
+      if (match && match[1].length === depth) {
+        sectionStarts.push({ index: i, title: match[2].trim() });
+      }
+    }
+
+    const firstIndex = sectionStarts[0]?.index ?? lines.length;
+    const preamble = firstIndex > 0 ? lines.slice(0, firstIndex).join('\n') : null;
+    const sections = sectionStarts.map((s, i) => ({
+      title: s.title,
+      text: lines.slice(s.index, sectionStarts[i + 1]?.index ?? lines.length).join('\n'),
+    }));
+
+    return { preamble, sections };
+  }
+
   /**
    * Parse markdown structure for performance optimization
    * 
@@ -0,0 +1,20 @@
+/**
+ * Abort signal of the harness kernel step whose segment body is running.
+ * The kernel step driver runs each segment body inside `runWithStepSignal`, so child processes started anywhere
+ * below it (runCommand / runGitCommand, audit npm scripts) are killed when the step times out, without threading
+ * the signal through every git and audit helper.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const stepSignalStore = new AsyncLocalStorage<AbortSignal>();
+
+/** Run `fn` with `signal` as the current step signal (no-op wrapper when `signal` is undefined). */
+export function runWithStepSignal<T>(signal: AbortSignal | undefined, fn: () => T): T {
+  return signal ? stepSignalStore.run(signal, fn) : fn();
+}
+
+/** Signal of the kernel step the caller runs under; undefined outside kernel-driven segment bodies. */
+export function currentStepSignal(): AbortSignal | undefined {
+  return stepSignalStore.getStore();
+}
@@ -21,6 +21,8 @@ export interface CascadeInfo {
   identifier: string;
   /** e.g. '/session-start 6.3.1' — constructed generically from tier name */
   command: string;
+  /** Set when `policies.cascade` is `auto`: the control plane proceeds without a cascade confirmation. */
+  autoConfirm?: boolean;
 }
 
 /** Same as harness/kernel TierOutcome — single contract for start flows. */
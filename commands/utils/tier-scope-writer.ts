@@ -7,6 +7,7 @@
  */
 
 import { readProjectFile, writeProjectFile } from './utils';
+import { currentTierWorktree } from '../git/shared/git-manager';
 
 const TIER_SCOPE_PATH = '.project-manager/.tier-scope';
 
@@ -15,6 +16,8 @@ export interface TierScopeSnapshot {
   phase?: { id: string; name: string; branch?: string; slug?: string };
   session?: { id: string; name: string };
   task?: { id: string; name: string };
+  /** Worktree mode (`HARNESS_TIER_WORKTREES`): worktree the tier runs in; filled by writeTierScope when omitted. */
+  worktree?: { path: string; branch: string };
 }
 
 /**
@@ -36,6 +39,10 @@ function serializeScope(snapshot: TierScopeSnapshot): string {
   lines.push(`session.name=${snapshot.session?.name ?? ''}`);
   lines.push(`task.id=${snapshot.task?.id ?? ''}`);
   lines.push(`task.name=${snapshot.task?.name ?? ''}`);
+  if (snapshot.worktree) {
+    lines.push(`worktree.path=${snapshot.worktree.path}`);
+    lines.push(`worktree.branch=${snapshot.worktree.branch}`);
+  }
   return lines.join('\n');
 }
 
@@ -68,6 +75,9 @@ export async function readTierScope(): Promise<TierScopeSnapshot | null> {
     if (map.get('task.id')) {
       snapshot.task = { id: map.get('task.id')!, name: map.get('task.name') ?? '' };
     }
+    if (map.get('worktree.path')) {
+      snapshot.worktree = { path: map.get('worktree.path')!, branch: map.get('worktree.branch') ?? '' };
+    }
     return snapshot;
   } catch {
     return null;
@@ -76,10 +86,12 @@ export async function readTierScope(): Promise<TierScopeSnapshot | null> {
 
 /**
  * Write the tier-scope file. Non-blocking on failure (log and continue).
+ * In worktree mode the current worktree path and branch are recorded unless the snapshot sets them.
  */
 export async function writeTierScope(snapshot: TierScopeSnapshot): Promise<void> {
   try {
-    const content = serializeScope(snapshot);
+    const worktree = snapshot.worktree ?? (await currentTierWorktree());
+    const content = serializeScope(worktree ? { ...snapshot, worktree } : snapshot);
     await writeProjectFile(TIER_SCOPE_PATH, content);
   } catch (err) {
     console.warn('[tier-scope-writer] write failed:', err instanceof Error ? err.message : String(err));
@@ -41,8 +41,9 @@
 
 import { mkdir, readFile, writeFile } from 'fs/promises';
 import { dirname, join } from 'path';
-import { execSync } from 'child_process';
+import { execSync, spawn } from 'child_process';
 import type { ShouldBlockProjectManagerWriteOptions } from './project-manager-write-guard';
+import { currentStepSignal } from './step-abort-signal';
 import {
   isProjectManagerProtectedPath,
   shouldBlockProjectManagerWrite,
@@ -114,7 +115,94 @@ function execSyncErrorPayload(error: unknown): { stdout: string; stderr: string;
   return { stdout: '', stderr: '', message: String(error) };
 }
 
-export async function runCommand(command: string, cwd?: string): Promise<{ success: boolean; output: string; error?: string }> {
+export interface RunCommandOptions {
+  /** Kills the command (its whole process group) on abort. Defaults to the running kernel step's signal, if any. */
+  signal?: AbortSignal;
+  /** Kills the command after this many ms (result is a failure naming the timeout). */
+  timeoutMs?: number;
+}
+
+/**
+ * Run a command and return output.
+ * With a signal (explicit or the running kernel step's) or `timeoutMs`, the command runs without blocking the event
+ * loop in its own process group, which is killed on abort / timeout. Otherwise it runs attached to the terminal
+ * as before (credential prompts and Ctrl-C reach it).
+ */
+export async function runCommand(
+  command: string,
+  cwd?: string,
+  options: RunCommandOptions = {}
+): Promise<{ success: boolean; output: string; error?: string }> {
+  const signal = options.signal ?? currentStepSignal();
+  if (signal == null && options.timeoutMs == null) return runCommandSync(command, cwd);
+  const abortMessage = (): string => {
+    const reason: unknown = signal?.reason;
+    return `Command aborted: ${reason instanceof Error ? reason.message : String(reason ?? 'aborted')}`;
+  };
+  if (signal?.aborted) return { success: false, output: '', error: abortMessage() };
+
+  return new Promise((resolve) => {
+    const detached = process.platform !== 'win32';
+    const child = spawn(command, {
+      cwd: cwd || PROJECT_ROOT,
+      shell: true,
+      detached,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    let stdout = '';
+    let stderr = '';
+    child.stdout?.setEncoding('utf-8').on('data', (chunk: string) => {
+      stdout += chunk;
+    });
+    child.stderr?.setEncoding('utf-8').on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+
+    const kill = (): void => {
+      if (child.pid == null || child.exitCode !== null) return;
+      try {
+        // Negative pid: the shell and everything it started (detached → own process group)
+        process.kill(detached ? -child.pid : child.pid, 'SIGTERM');
+      } catch {
+        child.kill('SIGTERM');
+      }
+    };
+    signal?.addEventListener('abort', kill, { once: true });
+    let timedOut = false;
+    const timer =
+      options.timeoutMs != null
+        ? setTimeout(() => {
+            timedOut = true;
+            kill();
+          }, options.timeoutMs)
+        : undefined;
+
+    const finish = (result: { success: boolean; output: string; error?: string }): void => {
+      signal?.removeEventListener('abort', kill);
+      if (timer !== undefined) clearTimeout(timer);
+      resolve(result);
+    };
+    child.on('error', (err) => finish({ success: false, output: stdout, error: err.message }));
+    child.on('close', (code, killSignal) => {
+      if (signal?.aborted) {
+        finish({ success: false, output: stdout, error: abortMessage() });
+      } else if (timedOut) {
+        finish({ success: false, output: stdout, error: `Command timed out after ${String(options.timeoutMs)}ms: ${command}` });
+      } else if (code === 0) {
+        // trimEnd only, as in runCommandSync
+        finish({ success: true, output: stdout.trimEnd() });
+      } else {
+        finish({
+          success: false,
+          output: stdout,
+          error: stderr || `Command failed: ${command}${killSignal ? ` (${killSignal})` : ` (exit ${String(code)})`}`,
+        });
+      }
+    });
+  });
+}
+
+function runCommandSync(command: string, cwd?: string): { success: boolean; output: string; error?: string } {
   try {
     const output = execSync(command, {
       encoding: 'utf-8',
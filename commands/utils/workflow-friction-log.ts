@@ -38,6 +38,7 @@ const FLOW_REASON_CODES_SUPPRESS_AUTO_LOG: ReadonlySet<FlowReasonCode> = new Set
   'pending_push',
   'verification_suggested',
   'gap_analysis_pending',
+  'worktree_redirect',
 ]);
 
 export function getHarnessWorkflowFrictionMode(): HarnessWorkflowFrictionMode {